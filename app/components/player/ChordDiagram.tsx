@@ -0,0 +1,162 @@
+/**
+ * ChordDiagram Component
+ *
+ * SVG fretboard diagram for a chord shape (strings vertical, nut on top).
+ * Open strings are marked "o", muted strings "x"; shapes above the first
+ * position show their base fret instead of the nut.
+ */
+
+import { useMemo } from 'react'
+import { cn } from '~/lib/utils'
+import {
+  getChordShape,
+  parseChordDefinitions,
+  DIAGRAM_FRETS,
+  type ChordInstrument,
+  type ChordShape,
+} from '~/lib/chordpro'
+
+interface ChordDiagramProps {
+  /** Chord name shown above the diagram */
+  name: string
+  /** Resolved shape, or null when no fingering is known */
+  shape: ChordShape | null
+  /** Rendered width in px (height follows the aspect ratio) */
+  width?: number
+  className?: string
+}
+
+const STRING_GAP = 12
+const FRET_GAP = 14
+const TOP = 18
+const SIDE = 14
+
+export function ChordDiagram({ name, shape, width = 72, className }: ChordDiagramProps) {
+  if (!shape) {
+    return (
+      <figure className={cn('flex flex-col items-center', className)} style={{ width }}>
+        <figcaption className="text-sm font-bold font-mono text-indigo-600 dark:text-indigo-400">{name}</figcaption>
+        <div className="flex-1 flex items-center justify-center text-xs text-slate-400 italic py-4">sin diagrama</div>
+      </figure>
+    )
+  }
+
+  const strings = shape.frets.length
+  const frets = Math.max(DIAGRAM_FRETS, ...shape.frets.map((f) => f ?? 0))
+  const gridWidth = (strings - 1) * STRING_GAP
+  const gridHeight = frets * FRET_GAP
+  const viewWidth = gridWidth + SIDE * 2
+  const viewHeight = TOP + gridHeight + 6
+  const isOpenPosition = shape.baseFret <= 1
+
+  const stringX = (i: number) => SIDE + i * STRING_GAP
+
+  return (
+    <figure className={cn('flex flex-col items-center', className)} style={{ width }}>
+      <figcaption className="text-sm font-bold font-mono text-indigo-600 dark:text-indigo-400">{name}</figcaption>
+      <svg
+        viewBox={`0 0 ${viewWidth} ${viewHeight}`}
+        width={width}
+        role="img"
+        aria-label={`${name}: ${shape.frets.map((f) => (f === null ? 'x' : f)).join(' ')}`}
+        className="text-slate-700 dark:text-slate-300"
+      >
+        {/* Nut or base fret label */}
+        {isOpenPosition ? (
+          <rect x={SIDE} y={TOP - 3} width={gridWidth} height={3} fill="currentColor" />
+        ) : (
+          <text x={SIDE - 3} y={TOP + FRET_GAP / 2 + 3} fontSize={8} textAnchor="end" fill="currentColor">
+            {shape.baseFret}fr
+          </text>
+        )}
+
+        {/* Frets */}
+        {Array.from({ length: frets + 1 }, (_, i) => (
+          <line
+            key={`fret-${i}`}
+            x1={SIDE}
+            x2={SIDE + gridWidth}
+            y1={TOP + i * FRET_GAP}
+            y2={TOP + i * FRET_GAP}
+            stroke="currentColor"
+            strokeWidth={0.75}
+          />
+        ))}
+
+        {/* Strings */}
+        {Array.from({ length: strings }, (_, i) => (
+          <line
+            key={`string-${i}`}
+            x1={stringX(i)}
+            x2={stringX(i)}
+            y1={TOP}
+            y2={TOP + gridHeight}
+            stroke="currentColor"
+            strokeWidth={0.75}
+          />
+        ))}
+
+        {/* Markers and dots */}
+        {shape.frets.map((fret, i) => {
+          if (fret === null || fret === 0) {
+            return (
+              <text
+                key={`marker-${i}`}
+                x={stringX(i)}
+                y={TOP - 6}
+                fontSize={8}
+                textAnchor="middle"
+                fill="currentColor"
+              >
+                {fret === null ? 'x' : 'o'}
+              </text>
+            )
+          }
+          const finger = shape.fingers?.[i]
+          const cy = TOP + (fret - 0.5) * FRET_GAP
+          return (
+            <g key={`dot-${i}`}>
+              <circle cx={stringX(i)} cy={cy} r={4.5} className="fill-indigo-600 dark:fill-indigo-400" />
+              {finger ? (
+                <text x={stringX(i)} y={cy + 2.5} fontSize={7} textAnchor="middle" fill="white">
+                  {finger}
+                </text>
+              ) : null}
+            </g>
+          )
+        })}
+      </svg>
+    </figure>
+  )
+}
+
+interface ChordDiagramListProps {
+  /** Chords in order of appearance (already transposed) */
+  chords: string[]
+  instrument: ChordInstrument
+  /** Song {define} directives, preferred over the built-in library */
+  defines?: string[]
+  className?: string
+}
+
+/**
+ * Footer listing a diagram for every chord the song uses
+ */
+export function ChordDiagramList({ chords, instrument, defines, className }: ChordDiagramListProps) {
+  const definitions = useMemo(() => parseChordDefinitions(defines), [defines])
+
+  if (chords.length === 0) return null
+
+  return (
+    <section className={cn('border-t border-slate-200 dark:border-slate-800 pt-4', className)}>
+      <h3 className="text-xs font-semibold text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-3">
+        Acordes
+      </h3>
+      <div className="flex flex-wrap gap-4">
+        {chords.map((chord) => (
+          <ChordDiagram key={chord} name={chord} shape={getChordShape(chord, instrument, definitions)} />
+        ))}
+      </div>
+    </section>
+  )
+}
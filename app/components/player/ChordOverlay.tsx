@@ -1,14 +1,17 @@
-import { useCallback, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Redo2, Undo2 } from 'lucide-react'
 import { cn } from '~/lib/utils'
 import { parseChordPro, type AnyParsedLine, type SectionType, isInstrumentalSectionType } from '~/lib/chordpro'
-import { getSectionType } from '~/lib/chordpro'
-import { serializeParsedSong } from '~/lib/chordpro/serializer'
+import { getSectionType, transposeChord, transposeKey, toChordNotation } from '~/lib/chordpro'
+import { serializeChordPro } from '~/lib/chordpro/serializer'
+import { jumpMarker, jumpMarkerLabel } from '~/lib/timeline/form'
 import { InstrumentalSection } from './InstrumentalSection'
 import { LyricBarGrid } from './LyricBarGrid'
 import { ChordPicker } from './ChordPicker'
 import { InlineTextEditor } from './InlineTextEditor'
 import { SectionPicker } from './SectionPicker'
 import { useBubbleMenu } from './useBubbleMenu'
+import { useEditHistory, replaceLineCommand, insertLinesCommand, deleteLineCommand } from './useEditHistory'
 import { BubbleMenu } from './BubbleMenu'
 import type { BubbleMenuAction } from './BubbleMenu'
 import type {
@@ -19,6 +22,8 @@ import type {
   SectionLine,
   EmptyLine,
   ChordPosition,
+  ChordInstrument,
+  ChordNotation,
 } from '~/lib/chordpro'
 
 interface ChordOverlayProps {
@@ -43,6 +48,14 @@ interface ChordOverlayProps {
   lineIndexToElementId?: Map<number, string>
   /** Minimum beat resolution for extend/subdivide operations. Default 0.25. */
   gridResolution?: number
+  /** Instrument for the chord picker diagram. Default 'guitar'. */
+  chordInstrument?: ChordInstrument
+  /** Spelling for transposed chords (see prefersFlats). Default: follow the written chord. */
+  useFlats?: boolean
+  /** Written key of the song: resolves number-chart input and anchors chordNotation */
+  songKey?: string
+  /** Show chords as names, Nashville numbers or Roman numerals. Default 'letters'. */
+  chordNotation?: ChordNotation
 }
 
 export function ChordOverlay({
@@ -56,67 +69,76 @@ export function ChordOverlay({
   onLyricsChange,
   lineIndexToElementId,
   gridResolution = 0.25,
+  chordInstrument,
+  useFlats,
+  songKey,
+  chordNotation = 'letters',
 }: ChordOverlayProps) {
-  const parsed = useMemo(() => parseChordPro(lyrics, transpose), [lyrics, transpose])
-
-  // Local editable copy of parsed lines — updated on every drag-and-drop
-  const [lines, setLines] = useState<AnyParsedLine[]>(() => parsed.lines)
+  // Lines keep the written chords; children transpose for display and
+  // reverse-transpose edits, so saved lyrics never pick up the display offset.
+  // Number charts are resolved to letters here, so edits save a letter chart.
+  const parsed = useMemo(() => parseChordPro(lyrics, 0, undefined, songKey), [lyrics, songKey])
+  const notationKey = songKey ? transposeKey(songKey, transpose) : undefined
+
+  // Lyrics this editor has emitted; any other incoming lyrics were changed elsewhere
+  const emittedLyricsRef = useRef(new Set<string>([lyrics]))
+
+  // Local editable copy of parsed lines with undo/redo — every edit is a command
+  const history = useEditHistory({
+    initialLines: parsed.lines,
+    onChange: (next) => {
+      const serialized = serializeChordPro({ directives: parsed.directives, lines: next })
+      emittedLyricsRef.current.add(serialized)
+      onLyricsChange?.(serialized)
+    },
+  })
+  const { lines, execute, undo, redo, reset, beginGesture, endGesture } = history
   const [showSectionPicker, setShowSectionPicker] = useState<number | null>(null)
 
+  // The song was changed outside the editor (transposition, restore): its
+  // history no longer applies
+  useEffect(() => {
+    if (emittedLyricsRef.current.has(lyrics)) return
+    emittedLyricsRef.current = new Set([lyrics])
+    reset(parsed.lines)
+  }, [lyrics, parsed, reset])
+
   // Re-sync when lyrics prop changes (e.g. after save)
   const prevLyrics = useMemo(() => lyrics, [lyrics])
   const syncedLines = useMemo(() => {
     // When the source lyrics change (after save), reset local state
     return parsed.lines
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [prevLyrics, transpose])
+  }, [prevLyrics])
 
   // Use synced lines when not editable, local state when editable
   const displayLines = isEditable ? lines : syncedLines
 
   const handleLineChange = useCallback(
     (idx: number, updated: AnyParsedLine) => {
-      setLines((prev) => {
-        const next = prev.map((l, i) => (i === idx ? updated : l))
-        const serialized = serializeParsedSong(next)
-        onLyricsChange?.(serialized)
-        return next
-      })
+      execute((current) => replaceLineCommand(current, idx, updated))
     },
-    [onLyricsChange]
+    [execute]
   )
 
   // ── Structural editing: insert / delete lines ───────────────────────────────
-  const persistLines = useCallback(
-    (newLines: AnyParsedLine[]) => {
-      setLines(newLines)
-      onLyricsChange?.(serializeParsedSong(newLines))
-    },
-    [onLyricsChange]
-  )
-
   const handleInsertLine = useCallback(
     (afterIndex: number, newLine: AnyParsedLine) => {
-      const next = [...lines]
-      next.splice(afterIndex + 1, 0, newLine)
-      persistLines(next)
+      execute(insertLinesCommand(afterIndex + 1, [newLine]))
     },
-    [lines, persistLines]
+    [execute]
   )
 
   const handleDeleteLine = useCallback(
     (index: number) => {
       if (lines.length <= 1) return
-      const next = lines.filter((_, i) => i !== index)
-      persistLines(next)
+      execute((current) => deleteLineCommand(current, index))
     },
-    [lines, persistLines]
+    [lines.length, execute]
   )
 
   const handleAddSection = useCallback(
     (afterIndex: number, type: SectionType, name: string) => {
-      const next = [...lines]
-
       if (isInstrumentalSectionType(name)) {
         // Instrumental sections: insert a single InstrumentalLine
         const instrumentalLine: InstrumentalLine = {
@@ -134,7 +156,7 @@ export function ChordOverlay({
             ],
           },
         }
-        next.splice(afterIndex + 1, 0, instrumentalLine)
+        execute(insertLinesCommand(afterIndex + 1, [instrumentalLine], 'Agregar sección'))
       } else {
         // Sung sections: insert section header + empty lyric line
         const sectionLine: SectionLine = {
@@ -149,13 +171,12 @@ export function ChordOverlay({
           chords: [{ chord: 'C', position: 0, beats: 4 }],
           raw: '[C]',
         }
-        next.splice(afterIndex + 1, 0, sectionLine, emptyLyric)
+        execute(insertLinesCommand(afterIndex + 1, [sectionLine, emptyLyric], 'Agregar sección'))
       }
 
-      persistLines(next)
       setShowSectionPicker(null)
     },
-    [lines, persistLines]
+    [execute]
   )
 
   const handleAddLyricLine = useCallback(
@@ -171,6 +192,41 @@ export function ChordOverlay({
     [handleInsertLine]
   )
 
+  // ── Undo / redo: Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z or Ctrl+Y ─────────────────────
+  useEffect(() => {
+    if (!isEditable) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      // Text fields keep their own undo
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, [contenteditable="true"]')) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isEditable, undo, redo])
+
+  // A pointer gesture (drag, resize) is a single undo step, however many edits
+  // it makes. It ends after the pointerup handlers that commit the drag have run.
+  useEffect(() => {
+    if (!isEditable) return
+    const handlePointerEnd = () => {
+      setTimeout(endGesture, 0)
+    }
+    window.addEventListener('pointerup', handlePointerEnd)
+    window.addEventListener('pointercancel', handlePointerEnd)
+    return () => {
+      window.removeEventListener('pointerup', handlePointerEnd)
+      window.removeEventListener('pointercancel', handlePointerEnd)
+    }
+  }, [isEditable, endGesture])
+
   // Keep local lines in sync when isEditable turns on
   const stableLines = useMemo(() => {
     if (!isEditable) return syncedLines
@@ -179,7 +235,41 @@ export function ChordOverlay({
   }, [isEditable])
 
   return (
-    <div className={cn('space-y-3', className)}>
+    <div className={cn('space-y-3', className)} onPointerDownCapture={isEditable ? beginGesture : undefined}>
+      {/* Undo / redo toolbar (when editable) */}
+      {isEditable && (
+        <div className="sticky top-0 z-10 flex justify-end gap-1">
+          <button
+            onClick={undo}
+            disabled={!history.canUndo}
+            aria-label="Deshacer"
+            title={history.undoLabel ? `Deshacer: ${history.undoLabel} (Ctrl+Z)` : 'Deshacer (Ctrl+Z)'}
+            className={cn(
+              'p-2 rounded-full',
+              'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300',
+              'hover:bg-indigo-100 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400',
+              'disabled:opacity-40 disabled:pointer-events-none transition-colors'
+            )}
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={redo}
+            disabled={!history.canRedo}
+            aria-label="Rehacer"
+            title={history.redoLabel ? `Rehacer: ${history.redoLabel} (Ctrl+Shift+Z)` : 'Rehacer (Ctrl+Shift+Z)'}
+            className={cn(
+              'p-2 rounded-full',
+              'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300',
+              'hover:bg-indigo-100 dark:hover:bg-indigo-900/30 hover:text-indigo-600 dark:hover:text-indigo-400',
+              'disabled:opacity-40 disabled:pointer-events-none transition-colors'
+            )}
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Top insert controls — add before the first line (when editable) */}
       {isEditable && (
         <div className="flex items-center justify-center gap-2 py-1 opacity-0 hover:opacity-100 focus-within:opacity-100 transition-opacity">
@@ -244,6 +334,10 @@ export function ChordOverlay({
               onLineChange={(updated) => handleLineChange(index, updated)}
               onDeleteLine={() => handleDeleteLine(index)}
               gridResolution={gridResolution}
+              chordInstrument={chordInstrument}
+              useFlats={useFlats}
+              chordNotation={chordNotation}
+              notationKey={notationKey}
               lineCount={displayLines.length}
             />
 
@@ -314,6 +408,10 @@ function ChordOverlayLine({
   onLineChange,
   onDeleteLine,
   gridResolution = 0.25,
+  chordInstrument,
+  useFlats,
+  chordNotation,
+  notationKey,
   lineCount = 1,
 }: {
   line: AnyParsedLine
@@ -326,6 +424,10 @@ function ChordOverlayLine({
   onLineChange: (updated: AnyParsedLine) => void
   onDeleteLine?: () => void
   gridResolution?: number
+  chordInstrument?: ChordInstrument
+  useFlats?: boolean
+  chordNotation?: ChordNotation
+  notationKey?: string
   lineCount?: number
 }) {
   // ── Line-level bubble menu (for deleting lines) ──────────────────────────────
@@ -412,6 +514,10 @@ function ChordOverlayLine({
             } as InstrumentalLine)
           }
           gridResolution={gridResolution}
+          chordInstrument={chordInstrument}
+          useFlats={useFlats}
+          chordNotation={chordNotation}
+          notationKey={notationKey}
         />
         {lineBubbleMenuPortal}
       </div>
@@ -423,18 +529,45 @@ function ChordOverlayLine({
       <div className="relative group" {...lineHandlers}>
         <EditableChordsOnlyBadges
           line={line}
+          transpose={transpose}
           elementId={elementId}
           isEditable={isEditable}
           onChordsChange={(newBars) =>
             onLineChange({ ...line, chordBars: newBars } as ChordsOnlyLine)
           }
+          chordInstrument={chordInstrument}
+          useFlats={useFlats}
+          chordNotation={chordNotation}
+          notationKey={notationKey}
         />
         {lineBubbleMenuPortal}
       </div>
     )
   }
 
+  if (line.type === 'tab') {
+    return (
+      <div className="relative group py-3" data-element-id={elementId} {...lineHandlers}>
+        {line.label && (
+          <h3 className="text-xs font-medium text-slate-400 uppercase tracking-widest pb-2">
+            {line.label}
+          </h3>
+        )}
+        {/* Tabs depend on column alignment: monospace, never wrapped, scroll horizontally */}
+        <pre className="font-mono text-[0.75em] leading-snug whitespace-pre overflow-x-auto text-slate-700 dark:text-slate-300 bg-slate-100 dark:bg-slate-800/50 rounded-lg p-3">
+          {line.lines.join('\n')}
+        </pre>
+        {lineBubbleMenuPortal}
+      </div>
+    )
+  }
+
   if (line.type === 'directive') {
+    // Tempo, meter and jump markers get a small label; other directives stay hidden
+    if (line.directive === 'tempo') return <div className="text-[0.75em] font-mono text-slate-400 dark:text-slate-500">♩ = {line.value}</div>
+    if (line.directive === 'time') return <div className="text-[0.75em] font-mono text-slate-400 dark:text-slate-500">{line.value}</div>
+    const marker = jumpMarker(line)
+    if (marker) return <div className="text-sm font-semibold italic text-slate-500 dark:text-slate-400">{jumpMarkerLabel(marker, line.value)}</div>
     return null
   }
 
@@ -460,6 +593,10 @@ function ChordOverlayLine({
             onLineChange({ ...lyricLine, text: newText, chords: newChords } as LyricParsedLine)
           }
           gridResolution={gridResolution}
+          chordInstrument={chordInstrument}
+          useFlats={useFlats}
+          chordNotation={chordNotation}
+          notationKey={notationKey}
         />
         {lineBubbleMenuPortal}
       </div>
@@ -553,14 +690,24 @@ function SortableChordBadge({ id, chord }: { id: string; chord: string }) {
 
 function EditableChordsOnlyBadges({
   line,
+  transpose,
+  useFlats,
+  chordNotation = 'letters',
+  notationKey,
   elementId,
   isEditable,
   onChordsChange,
+  chordInstrument,
 }: {
   line: ChordsOnlyLine
+  transpose: number
+  useFlats?: boolean
+  chordNotation?: ChordNotation
+  notationKey?: string
   elementId: string
   isEditable: boolean
   onChordsChange: (bars: ChordBar[]) => void
+  chordInstrument?: ChordInstrument
 }) {
   const [activeId, setActiveId] = useLocalState<string | null>(null)
   const [editingIndex, setEditingIndex] = useLocalState<number | null>(null)
@@ -568,9 +715,14 @@ function EditableChordsOnlyBadges({
   // ── Bubble menu for chord badges ──────────────────────────────────────────
   const bubbleMenu = useBubbleMenu({ isEnabled: isEditable })
 
+  const display = (chord: string) => (transpose !== 0 ? transposeChord(chord, transpose, useFlats) : chord)
+  const label = (chord: string) => toChordNotation(display(chord), chordNotation, notationKey)
+
   const handleChordNameChange = (index: number, newChord: string) => {
+    // Reverse-transpose so we store the written chord
+    const stored = transpose !== 0 ? transposeChord(newChord, -transpose) : newChord
     const newBars = line.chordBars.map((b, i) =>
-      i === index ? { ...b, chord: newChord } : b
+      i === index ? { ...b, chord: stored } : b
     )
     onChordsChange(newBars)
   }
@@ -618,9 +770,8 @@ function EditableChordsOnlyBadges({
   )
 
   const ids = line.chordBars.map((_, i) => `co-${elementId}-${i}`)
-  const activeChord = activeId
-    ? line.chordBars[ids.indexOf(activeId)]?.chord
-    : null
+  const activeBar = activeId ? line.chordBars[ids.indexOf(activeId)] : undefined
+  const activeChord = activeBar ? label(activeBar.chord) : null
 
   if (!isEditable) {
     return (
@@ -628,7 +779,7 @@ function EditableChordsOnlyBadges({
         <div className="flex flex-wrap gap-3 font-bold text-indigo-500 dark:text-indigo-400">
           {line.chordBars.map((bar, i) => (
             <span key={i} className="px-2 py-1 bg-indigo-50 dark:bg-indigo-900/30 rounded">
-              {bar.chord}
+              {label(bar.chord)}
             </span>
           ))}
           {line.repeatCount && line.repeatCount > 1 && (
@@ -661,11 +812,12 @@ function EditableChordsOnlyBadges({
               const badgeHandlers = bubbleMenu.getHandlers(i)
               return (
                 <div key={ids[i]} className="relative flex items-center gap-0.5" {...badgeHandlers}>
-                  <SortableChordBadge id={ids[i]} chord={bar.chord} />
+                  <SortableChordBadge id={ids[i]} chord={label(bar.chord)} />
                   {editingIndex === i && (
                     <div className="absolute top-full left-0 mt-1 z-50">
                       <ChordPicker
-                        currentChord={bar.chord}
+                        currentChord={display(bar.chord)}
+                        instrument={chordInstrument}
                         onSelect={(chord) => handleChordNameChange(i, chord)}
                         onClose={() => setEditingIndex(null)}
                       />
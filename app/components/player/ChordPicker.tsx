@@ -2,11 +2,14 @@
  * ChordPicker Component
  *
  * A tablet-friendly chord selector with root note + quality grids.
- * Appears as a popover near the tapped chord cell.
+ * Appears as a popover near the tapped chord cell, with a diagram of the
+ * selected chord for the chosen instrument.
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react'
 import { cn } from '~/lib/utils'
+import { getChordShape, tokenizeChord, type ChordInstrument } from '~/lib/chordpro'
+import { ChordDiagram } from './ChordDiagram'
 
 const ROOTS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'] as const
 const ROOTS_FLAT = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'] as const
@@ -24,25 +27,38 @@ const QUALITIES = [
   { label: 'add9', suffix: 'add9' },
   { label: '9', suffix: '9' },
   { label: '6', suffix: '6' },
+  { label: 'm7♭5', suffix: 'm7b5' },
+  { label: 'dim7', suffix: 'dim7' },
+  { label: '7sus4', suffix: '7sus4' },
 ] as const
 
+/** "No chord" marker offered alongside the grids */
+const NO_CHORD = 'N.C.'
+
 interface ChordPickerProps {
   currentChord: string
   onSelect: (chord: string) => void
   onClose: () => void
+  /** Instrument used for the preview diagram. Default 'guitar'. */
+  instrument?: ChordInstrument
 }
 
-/** Parse current chord into root + suffix for initial selection */
-function parseCurrentChord(chord: string): { root: string; suffix: string } {
-  const match = chord.match(/^([A-G][#b]?)(.*)$/)
-  if (!match) return { root: 'C', suffix: '' }
-  return { root: match[1], suffix: match[2] }
+/** Parse current chord into root + suffix (+ slash bass, kept as is) for initial selection */
+function parseCurrentChord(chord: string): { root: string; suffix: string; bass: string } {
+  const parsed = tokenizeChord(chord)
+  if (!parsed) return { root: 'C', suffix: '', bass: '' }
+  return {
+    root: parsed.root + parsed.accidental,
+    suffix: parsed.suffix,
+    bass: parsed.bass ? '/' + parsed.bass.note + parsed.bass.accidental : '',
+  }
 }
 
-export function ChordPicker({ currentChord, onSelect, onClose }: ChordPickerProps) {
+export function ChordPicker({ currentChord, onSelect, onClose, instrument = 'guitar' }: ChordPickerProps) {
   const parsed = parseCurrentChord(currentChord)
   const [root, setRoot] = useState(parsed.root)
   const [suffix, setSuffix] = useState(parsed.suffix)
+  const bass = parsed.bass
   const [useFlats, setUseFlats] = useState(parsed.root.includes('b'))
   const containerRef = useRef<HTMLDivElement>(null)
 
@@ -66,20 +82,20 @@ export function ChordPicker({ currentChord, onSelect, onClose }: ChordPickerProp
   const handleRootSelect = useCallback(
     (r: string) => {
       setRoot(r)
-      onSelect(r + suffix)
+      onSelect(r + suffix + bass)
     },
-    [suffix, onSelect]
+    [suffix, bass, onSelect]
   )
 
   const handleSuffixSelect = useCallback(
     (s: string) => {
       setSuffix(s)
-      onSelect(root + s)
+      onSelect(root + s + bass)
     },
-    [root, onSelect]
+    [root, bass, onSelect]
   )
 
-  const currentChordPreview = root + suffix
+  const currentChordPreview = root + suffix + bass
 
   return (
     <div
@@ -96,6 +112,18 @@ export function ChordPicker({ currentChord, onSelect, onClose }: ChordPickerProp
           {currentChordPreview || 'C'}
         </span>
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => onSelect(NO_CHORD)}
+            className={cn(
+              'text-xs px-2 py-1 rounded font-semibold',
+              currentChord === NO_CHORD
+                ? 'bg-indigo-600 text-white'
+                : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'
+            )}
+            aria-label="Sin acorde"
+          >
+            {NO_CHORD}
+          </button>
           <button
             onClick={() => setUseFlats(!useFlats)}
             className="text-xs px-2 py-1 rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300"
@@ -134,23 +162,31 @@ export function ChordPicker({ currentChord, onSelect, onClose }: ChordPickerProp
       {/* Separator */}
       <div className="border-t border-slate-200 dark:border-slate-700 my-2" />
 
-      {/* Qualities grid (3×4) */}
-      <div className="grid grid-cols-4 gap-1">
-        {QUALITIES.map((q) => (
-          <button
-            key={q.suffix}
-            onClick={() => handleSuffixSelect(q.suffix)}
-            className={cn(
-              'py-2 rounded-lg text-xs font-semibold transition-colors',
-              'min-h-[36px]',
-              q.suffix === suffix
-                ? 'bg-amber-500 text-white shadow-md'
-                : 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-amber-100 dark:hover:bg-amber-900/30'
-            )}
-          >
-            {q.label}
-          </button>
-        ))}
+      {/* Qualities grid (5×3) + preview diagram */}
+      <div className="flex gap-2">
+        <div className="grid grid-cols-3 gap-1 flex-1">
+          {QUALITIES.map((q) => (
+            <button
+              key={q.suffix}
+              onClick={() => handleSuffixSelect(q.suffix)}
+              className={cn(
+                'py-2 rounded-lg text-xs font-semibold transition-colors',
+                'min-h-[36px]',
+                q.suffix === suffix
+                  ? 'bg-amber-500 text-white shadow-md'
+                  : 'bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 hover:bg-amber-100 dark:hover:bg-amber-900/30'
+              )}
+            >
+              {q.label}
+            </button>
+          ))}
+        </div>
+        <ChordDiagram
+          name={currentChordPreview}
+          shape={getChordShape(currentChordPreview, instrument)}
+          width={64}
+          className="shrink-0"
+        />
       </div>
     </div>
   )
@@ -27,8 +27,13 @@ import {
 } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { cn } from '~/lib/utils'
-import type { ChordBar, InstrumentalSection as InstrumentalSectionType } from '~/lib/chordpro'
-import { transposeChord } from '~/lib/chordpro'
+import type {
+  ChordBar,
+  ChordInstrument,
+  ChordNotation,
+  InstrumentalSection as InstrumentalSectionType,
+} from '~/lib/chordpro'
+import { transposeChord, toChordNotation } from '~/lib/chordpro'
 import { useChordResize } from './useChordResize'
 import { ChordPicker } from './ChordPicker'
 import { useBubbleMenu } from './useBubbleMenu'
@@ -50,6 +55,14 @@ interface InstrumentalSectionProps {
   onChordsChange?: (bars: ChordBar[]) => void
   /** Minimum beat resolution for extend/subdivide operations. Default 0.25. */
   gridResolution?: number
+  /** Instrument for the chord picker diagram. Default 'guitar'. */
+  chordInstrument?: ChordInstrument
+  /** Spelling for transposed chords (see prefersFlats). Default: follow the written chord. */
+  useFlats?: boolean
+  /** Show chords as names, Nashville numbers or Roman numerals. Default 'letters'. */
+  chordNotation?: ChordNotation
+  /** Key of the displayed chords, for chordNotation */
+  notationKey?: string
 }
 
 /** Get icon for section type */
@@ -89,11 +102,14 @@ function getSectionColors(type: InstrumentalSectionType['type']): {
 function SortableChordCell({
   id,
   bar,
+  label,
   compact,
   isActive,
 }: {
   id: string
   bar: ChordBar
+  /** Chord as shown (name or number) */
+  label: string
   compact: boolean
   isActive: boolean
 }) {
@@ -121,7 +137,7 @@ function SortableChordCell({
       )}
     >
       <span className={cn('font-mono font-bold text-slate-900 dark:text-white', compact ? 'text-sm' : 'text-base')}>
-        {bar.chord}
+        {label}
       </span>
       {bar.label && (
         <span className="text-xs text-slate-400 dark:text-slate-500 italic mt-0.5 leading-none">
@@ -152,6 +168,10 @@ export function InstrumentalSection({
   isEditable = false,
   onChordsChange,
   gridResolution = 0.25,
+  chordInstrument,
+  useFlats,
+  chordNotation = 'letters',
+  notationKey,
 }: InstrumentalSectionProps) {
   const colors = getSectionColors(section.type)
   const icon = getSectionIcon(section.type)
@@ -273,7 +293,7 @@ export function InstrumentalSection({
   // Apply transposition to chords
   const baseChords = section.chordBars.map(bar => ({
     ...bar,
-    chord: transpose !== 0 ? transposeChord(bar.chord, transpose) : bar.chord
+    chord: transpose !== 0 ? transposeChord(bar.chord, transpose, useFlats) : bar.chord
   }))
 
   // Expand chords by repeatCount for display (base chords are stored un-expanded)
@@ -284,10 +304,11 @@ export function InstrumentalSection({
     return expanded
   }, [baseChords, section.repeatCount])
 
+  const labelOf = (chord: string) => toChordNotation(chord, chordNotation, notationKey)
+
   const sortableIds = chords.map((_, i) => `instr-${elementId ?? 'x'}-${i}`)
-  const activeChord = activeId
-    ? chords[sortableIds.indexOf(activeId)]?.chord
-    : null
+  const activeBar = activeId ? chords[sortableIds.indexOf(activeId)] : undefined
+  const activeChord = activeBar ? labelOf(activeBar.chord) : null
 
   // Group chords into rows
   const rows: ChordBar[][] = []
@@ -350,6 +371,7 @@ export function InstrumentalSection({
                       <SortableChordCell
                         id={id}
                         bar={bar}
+                        label={labelOf(bar.chord)}
                         compact={compact}
                         isActive={activeId === id}
                       />
@@ -359,6 +381,7 @@ export function InstrumentalSection({
                       <div ref={pickerRef} className="absolute top-full left-0 z-50 mt-1">
                         <ChordPicker
                           currentChord={bar.chord}
+                          instrument={chordInstrument}
                           onSelect={(chord) => handleChordNameChange(index, chord)}
                           onClose={() => setEditingChordIndex(null)}
                         />
@@ -406,7 +429,7 @@ export function InstrumentalSection({
                   )}
                 >
                   <span className={cn('font-mono font-bold', colors.text, compact ? 'text-sm' : 'text-base')}>
-                    {bar.chord}
+                    {labelOf(bar.chord)}
                   </span>
                   {bar.label && (
                     <span className="text-xs text-slate-400 dark:text-slate-500 italic mt-0.5 leading-none">
@@ -528,13 +551,20 @@ export function InstrumentalSection({
 export function InstrumentalSectionInline({
   section,
   transpose = 0,
-  className
+  className,
+  useFlats,
+  chordNotation = 'letters',
+  notationKey,
 }: Omit<InstrumentalSectionProps, 'columns' | 'compact'>) {
   const colors = getSectionColors(section.type)
   const icon = getSectionIcon(section.type)
 
   const chords = section.chordBars.map(bar =>
-    transpose !== 0 ? transposeChord(bar.chord, transpose) : bar.chord
+    toChordNotation(
+      transpose !== 0 ? transposeChord(bar.chord, transpose, useFlats) : bar.chord,
+      chordNotation,
+      notationKey
+    )
   )
 
   return (
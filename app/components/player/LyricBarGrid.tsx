@@ -30,8 +30,8 @@ import {
 } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { cn } from '~/lib/utils'
-import type { ChordPosition, LyricParsedLine } from '~/lib/chordpro'
-import { transposeChord } from '~/lib/chordpro'
+import type { ChordInstrument, ChordNotation, ChordPosition, LyricParsedLine } from '~/lib/chordpro'
+import { transposeChord, toChordNotation } from '~/lib/chordpro'
 import { useChordResize } from './useChordResize'
 import { ChordPicker } from './ChordPicker'
 import { InlineTextEditor } from './InlineTextEditor'
@@ -61,21 +61,38 @@ interface LyricBarGridProps {
   gridResolution?: number
   /** Default beats per chord when `beats` is undefined. Default 4. */
   defaultBeatsPerChord?: number
+  /** Instrument for the chord picker diagram. Default 'guitar'. */
+  chordInstrument?: ChordInstrument
+  /** Spelling for transposed chords (see prefersFlats). Default: follow the written chord. */
+  useFlats?: boolean
+  /** Show chords as names, Nashville numbers or Roman numerals. Default 'letters'. */
+  chordNotation?: ChordNotation
+  /** Key of the displayed chords, for chordNotation */
+  notationKey?: string
 }
 
 interface BarSegment {
+  /** Displayed chord name (transposed) */
   chord: string
+  /** Chord as shown in the cell (chord name or number) */
+  label: string
   text: string
 }
 
-function splitIntoBarSegments(line: LyricParsedLine, transpose: number): BarSegment[] {
+function splitIntoBarSegments(
+  line: LyricParsedLine,
+  transpose: number,
+  useFlats?: boolean,
+  chordNotation: ChordNotation = 'letters',
+  notationKey?: string
+): BarSegment[] {
   const { text, chords } = line
   return chords.map((chordPos, i) => {
     const startPos = chordPos.position
     const endPos = i + 1 < chords.length ? chords[i + 1].position : text.length
     const segText = text.slice(startPos, endPos).trim()
-    const chord = transpose !== 0 ? transposeChord(chordPos.chord, transpose) : chordPos.chord
-    return { chord, text: segText }
+    const chord = transpose !== 0 ? transposeChord(chordPos.chord, transpose, useFlats) : chordPos.chord
+    return { chord, label: toChordNotation(chord, chordNotation, notationKey), text: segText }
   })
 }
 
@@ -121,8 +138,12 @@ export function LyricBarGrid({
   onTextChange,
   gridResolution = 0.25,
   defaultBeatsPerChord = 4,
+  chordInstrument,
+  useFlats,
+  chordNotation,
+  notationKey,
 }: LyricBarGridProps) {
-  const segments = splitIntoBarSegments(line, transpose)
+  const segments = splitIntoBarSegments(line, transpose, useFlats, chordNotation, notationKey)
   const [activeId, setActiveId] = useState<string | null>(null)
   const [editingChordIndex, setEditingChordIndex] = useState<number | null>(null)
   const chordPickerRef = useRef<HTMLDivElement>(null)
@@ -280,7 +301,7 @@ export function LyricBarGrid({
 
   const sortableIds = segments.map((_, i) => `lyric-${elementId}-${i}`)
   const activeChord = activeId
-    ? segments[sortableIds.indexOf(activeId)]?.chord
+    ? segments[sortableIds.indexOf(activeId)]?.label
     : null
 
   const handleDragEnd = (e: DragEndEvent) => {
@@ -292,7 +313,8 @@ export function LyricBarGrid({
     if (oldIdx === -1 || newIdx === -1) return
 
     // Reorder chord NAMES while keeping positions sorted by character offset.
-    const chordNames = segments.map((s) => s.chord)
+    // Written chords, not the displayed ones, so the display offset is never saved.
+    const chordNames = line.chords.map((c) => c.chord)
     const reorderedNames = arrayMove(chordNames, oldIdx, newIdx)
     const sortedPositions = [...line.chords]
       .sort((a, b) => a.position - b.position)
@@ -349,7 +371,7 @@ export function LyricBarGrid({
           {/* Chord badge — sortable via long-press drag */}
           {isEditable ? (
             <div className="relative flex items-center gap-1">
-              <SortableChordBadge id={sortableIds[index]} chord={seg.chord} />
+              <SortableChordBadge id={sortableIds[index]} chord={seg.label} />
               {/* Chord picker popover */}
               {editingChordIndex === index && (
                 <div
@@ -358,6 +380,7 @@ export function LyricBarGrid({
                 >
                   <ChordPicker
                     currentChord={seg.chord}
+                    instrument={chordInstrument}
                     onSelect={(chord) => handleChordChange(index, chord)}
                     onClose={() => setEditingChordIndex(null)}
                   />
@@ -366,7 +389,7 @@ export function LyricBarGrid({
             </div>
           ) : (
             <span className="font-mono font-bold text-[0.6em] text-sky-400/80 dark:text-sky-400/80 text-indigo-500 leading-none">
-              {seg.chord}
+              {seg.label}
             </span>
           )}
           {/* Lyric text — editable in edit mode */}
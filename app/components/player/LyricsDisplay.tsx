@@ -1,17 +1,20 @@
 import { useMemo } from 'react'
 import { cn } from '~/lib/utils'
 import { parseChordPro, stripChords, type AnyParsedLine, type LyricParsedLine } from '~/lib/chordpro'
+import { jumpMarker, jumpMarkerLabel } from '~/lib/timeline/form'
 import { InstrumentalSectionInline } from './InstrumentalSection'
 
 interface LyricsDisplayProps {
   lyrics: string
+  /** Written key of the song, for number-chart input */
+  songKey?: string
   className?: string
 }
 
-export function LyricsDisplay({ lyrics, className }: LyricsDisplayProps) {
+export function LyricsDisplay({ lyrics, songKey, className }: LyricsDisplayProps) {
   const parsed = useMemo(() => {
-    return parseChordPro(lyrics)
-  }, [lyrics])
+    return parseChordPro(lyrics, 0, undefined, songKey)
+  }, [lyrics, songKey])
 
   return (
     <div className={cn('space-y-4', className)}>
@@ -90,6 +93,24 @@ function LyricsLine({
     )
   }
 
+  if (line.type === 'tab') {
+    // Tabs are hidden in lyrics-only mode, like chords
+    return (
+      <div className="py-2 text-slate-400 dark:text-slate-500 italic text-sm" data-element-id={elementId}>
+        ♪ tab{line.label ? ` (${line.label})` : ''}
+      </div>
+    )
+  }
+
+  if (line.type === 'directive') {
+    // Tempo, meter and jump markers get a small label; other directives stay hidden
+    if (line.directive === 'tempo') return <div className="text-xs font-mono text-slate-400 dark:text-slate-500">♩ = {line.value}</div>
+    if (line.directive === 'time') return <div className="text-xs font-mono text-slate-400 dark:text-slate-500">{line.value}</div>
+    const marker = jumpMarker(line)
+    if (marker) return <div className="text-sm font-semibold italic text-slate-500 dark:text-slate-400">{jumpMarkerLabel(marker, line.value)}</div>
+    return null
+  }
+
   // Regular lyric line - strip chords for display
   const cleanText = stripChords(line.raw)
   if (!cleanText.trim()) {
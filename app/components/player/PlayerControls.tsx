@@ -12,9 +12,23 @@ import {
   Plus,
   ScrollText,
   Volume2,
-  VolumeX
+  VolumeX,
+  CircleDot
 } from 'lucide-react'
 import { cn } from '~/lib/utils'
+import { getKeyOptions, getKeyInterval, type AccidentalPreference, type ChordNotation } from '~/lib/chordpro'
+
+const ACCIDENTAL_OPTIONS: { value: AccidentalPreference | undefined; label: string; title: string }[] = [
+  { value: undefined, label: 'Auto', title: 'Accidentals from key' },
+  { value: 'sharps', label: '♯', title: 'Prefer sharps' },
+  { value: 'flats', label: '♭', title: 'Prefer flats' },
+]
+
+const NOTATION_OPTIONS: { value: ChordNotation; label: string; title: string }[] = [
+  { value: 'letters', label: 'C F G', title: 'Chord names' },
+  { value: 'nashville', label: '1 4 5', title: 'Nashville numbers' },
+  { value: 'roman', label: 'I IV V', title: 'Roman numerals' },
+]
 
 interface PlayerControlsProps {
   isPlaying: boolean
@@ -30,8 +44,35 @@ interface PlayerControlsProps {
   transpose: number
   onTranspose: (semitones: number) => void
   onResetTranspose: () => void
+  /** Rewrite the song in the current transposition */
+  onApplyTranspose?: () => void
+  /** Undo the last applied transposition; shown when provided */
+  onUndoApplyTranspose?: () => void
+  /** Written key of the song; enables the key selector */
+  songKey?: string
+  /** Transpose to a key (computed from songKey) */
+  onSelectKey?: (key: string) => void
+  /** Persist the selected key as the performance key (song or setlist entry) */
+  onRememberKey?: () => void
+  /** True when the selected key is already the saved performance key */
+  isKeyRemembered?: boolean
+  /** Effective capo for the song (override or {capo} directive) */
+  capo: number
+  onCapoChange: (capo: number) => void
+  /** Drop the per-song override and use the {capo} on the sheet; shown when provided */
+  onUseSheetCapo?: () => void
+  showCapoShapes: boolean
+  onToggleCapoShapes: () => void
+  /** Per-song spelling override; undefined = follow the key signature */
+  accidentalPreference?: AccidentalPreference
+  onAccidentalPreferenceChange: (preference: AccidentalPreference | undefined) => void
+  /** Chord names or numbers relative to the key; the selector shows when onChordNotationChange is provided */
+  chordNotation?: ChordNotation
+  onChordNotationChange?: (notation: ChordNotation) => void
   metronomeSoundEnabled: boolean
   onToggleMetronomeSound: () => void
+  /** Start tap-along timing recording; the button shows when provided */
+  onRecordTiming?: () => void
   smartScrollContextWindow: number
   onSmartScrollContextWindowChange: (value: number) => void
   smartScrollSmoothness: number
@@ -54,8 +95,24 @@ export function PlayerControls({
   transpose,
   onTranspose,
   onResetTranspose,
+  onApplyTranspose,
+  onUndoApplyTranspose,
+  songKey,
+  onSelectKey,
+  onRememberKey,
+  isKeyRemembered = false,
+  capo,
+  onCapoChange,
+  onUseSheetCapo,
+  showCapoShapes,
+  onToggleCapoShapes,
+  accidentalPreference,
+  onAccidentalPreferenceChange,
+  chordNotation = 'letters',
+  onChordNotationChange,
   metronomeSoundEnabled,
   onToggleMetronomeSound,
+  onRecordTiming,
   smartScrollContextWindow,
   onSmartScrollContextWindowChange,
   smartScrollSmoothness,
@@ -65,6 +122,10 @@ export function PlayerControls({
 }: PlayerControlsProps) {
   const [showSettings, setShowSettings] = useState(false)
 
+  // Options are indexed by pitch class from C
+  const keyOptions = songKey ? getKeyOptions(songKey) : []
+  const selectedKey = songKey ? keyOptions[(getKeyInterval('C', songKey) + transpose + 12) % 12] : undefined
+
   return (
     <div className="sticky bottom-0 bg-white dark:bg-[#1a1f36] border-t border-slate-200 dark:border-slate-800 safe-area-pb">
       {/* Settings Panel */}
@@ -152,6 +213,177 @@ export function PlayerControls({
             </div>
           </div>
 
+          {/* Apply / undo transposition */}
+          {((onApplyTranspose && transpose !== 0) || onUndoApplyTranspose) && (
+            <div className="flex items-center justify-end gap-2">
+              {onUndoApplyTranspose && (
+                <button
+                  onClick={onUndoApplyTranspose}
+                  className="px-2 py-1 rounded-lg text-xs font-medium bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300"
+                >
+                  Undo transposition
+                </button>
+              )}
+              {onApplyTranspose && transpose !== 0 && (
+                <button
+                  onClick={onApplyTranspose}
+                  className="px-2 py-1 rounded-lg text-xs font-medium bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400"
+                >
+                  Apply to song
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Key selector */}
+          {songKey && onSelectKey && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-slate-600 dark:text-slate-400">
+                Key
+              </span>
+              <div className="flex items-center gap-2">
+                <select
+                  aria-label="Key"
+                  value={selectedKey}
+                  onChange={(event) => onSelectKey(event.target.value)}
+                  className="px-2 py-1 rounded-lg text-sm font-medium bg-slate-100 dark:bg-slate-800 border-0 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
+                >
+                  {keyOptions.map((key) => (
+                    <option key={key} value={key}>
+                      {key}
+                    </option>
+                  ))}
+                </select>
+                {onRememberKey && (
+                  <button
+                    onClick={onRememberKey}
+                    disabled={isKeyRemembered}
+                    className="px-2 py-1 rounded-lg text-xs font-medium bg-slate-100 dark:bg-slate-800 disabled:opacity-50"
+                  >
+                    {isKeyRemembered ? 'Saved' : 'Remember'}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Accidentals: key signature or per-song override */}
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-600 dark:text-slate-400">
+              Accidentals
+            </span>
+            <div className="flex rounded-lg bg-slate-100 dark:bg-slate-800 p-0.5" role="group">
+              {ACCIDENTAL_OPTIONS.map((option) => (
+                <button
+                  key={option.label}
+                  onClick={() => onAccidentalPreferenceChange(option.value)}
+                  aria-label={option.title}
+                  aria-pressed={accidentalPreference === option.value}
+                  className={cn(
+                    'px-2 py-1 rounded-md text-xs font-medium transition-colors',
+                    accidentalPreference === option.value
+                      ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-400 shadow-sm'
+                      : 'text-slate-600 dark:text-slate-400'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Capo */}
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-600 dark:text-slate-400">
+              Capo
+            </span>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => onCapoChange(capo - 1)}
+                disabled={capo <= 0}
+                aria-label="Capo down"
+                className="p-1 rounded-lg bg-slate-100 dark:bg-slate-800 disabled:opacity-50"
+              >
+                <Minus className="w-4 h-4" />
+              </button>
+              <span className="w-12 text-center text-sm font-medium">
+                {capo}
+              </span>
+              <button
+                onClick={() => onCapoChange(capo + 1)}
+                disabled={capo >= 11}
+                aria-label="Capo up"
+                className="p-1 rounded-lg bg-slate-100 dark:bg-slate-800 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+              {onUseSheetCapo && (
+                <button
+                  onClick={onUseSheetCapo}
+                  title="Use the capo written on the sheet"
+                  className="px-2 py-1 rounded-lg text-xs font-medium bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300"
+                >
+                  Use sheet
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Chord display: concert pitch vs capo shapes */}
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-slate-600 dark:text-slate-400">
+              Chords
+            </span>
+            <div className="flex rounded-lg bg-slate-100 dark:bg-slate-800 p-0.5" role="group">
+              {[
+                { label: 'Concert pitch', active: !showCapoShapes },
+                { label: 'Capo shapes', active: showCapoShapes },
+              ].map((option) => (
+                <button
+                  key={option.label}
+                  onClick={() => !option.active && onToggleCapoShapes()}
+                  disabled={capo === 0 && !option.active}
+                  aria-pressed={option.active}
+                  className={cn(
+                    'px-2 py-1 rounded-md text-xs font-medium transition-colors disabled:opacity-50',
+                    option.active
+                      ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-400 shadow-sm'
+                      : 'text-slate-600 dark:text-slate-400'
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Notation: chord names, Nashville numbers or Roman numerals */}
+          {onChordNotationChange && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-slate-600 dark:text-slate-400">
+                Notation
+              </span>
+              <div className="flex rounded-lg bg-slate-100 dark:bg-slate-800 p-0.5" role="group">
+                {NOTATION_OPTIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => onChordNotationChange(option.value)}
+                    aria-label={option.title}
+                    aria-pressed={chordNotation === option.value}
+                    className={cn(
+                      'px-2 py-1 rounded-md text-xs font-medium transition-colors',
+                      chordNotation === option.value
+                        ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-400 shadow-sm'
+                        : 'text-slate-600 dark:text-slate-400'
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Smart Scroll (Beta) */}
           <div className="border-t border-slate-200 dark:border-slate-800 pt-4 mt-4 space-y-3">
             <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-200">
@@ -295,6 +527,16 @@ export function PlayerControls({
               )}
             </button>
           )}
+
+          {autoScrollEnabled && onRecordTiming && (
+            <button
+              onClick={onRecordTiming}
+              className="p-3 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:text-rose-500"
+              title="Record timing"
+            >
+              <CircleDot className="w-5 h-5" />
+            </button>
+          )}
         </div>
 
         {/* Center - Play/Pause */}
@@ -319,6 +561,21 @@ export function PlayerControls({
 
         {/* Right Controls */}
         <div className="flex items-center gap-2">
+          {capo > 0 && (
+            <button
+              onClick={onToggleCapoShapes}
+              className={cn(
+                'px-3 py-3 rounded-xl text-xs font-semibold transition-colors',
+                showCapoShapes
+                  ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
+                  : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400'
+              )}
+              title={showCapoShapes ? 'Show concert pitch' : 'Show capo shapes'}
+            >
+              {showCapoShapes ? `Capo ${capo}` : 'Concert'}
+            </button>
+          )}
+
           {transpose !== 0 && (
             <button
               onClick={onResetTranspose}
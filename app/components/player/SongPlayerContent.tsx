@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useRef } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { ArrowLeft, Settings } from 'lucide-react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Link } from '@tanstack/react-router'
@@ -6,15 +6,32 @@ import { cn } from '~/lib/utils'
 import { useSong, useSongPlayer } from '~/hooks/useSongs'
 import { useSmartAutoScroll } from '~/hooks/useSmartAutoScroll'
 import { useMetronomeSound } from '~/hooks/useMetronomeSound'
+import { useTimingRecorder } from '~/hooks/useTimingRecorder'
 import { useAutoScroll } from '~/components/player/AutoScroll'
 import { LyricsDisplay } from '~/components/player/LyricsDisplay'
 import { ChordOverlay } from '~/components/player/ChordOverlay'
+import { ChordDiagramList } from '~/components/player/ChordDiagram'
 import { PlayerControls } from '~/components/player/PlayerControls'
+import { TimingRecorder } from '~/components/player/TimingRecorder'
 import { VisualBeat } from '~/components/metronome/VisualBeat'
 import { routeHelpers } from '~/lib/routes'
 import { useSettings } from '~/hooks/useSettings'
 import { BeatIndicator } from '~/components/player/BeatIndicator'
-import type { Song } from '~/types'
+import { ExportMenu } from '~/components/songs/ExportMenu'
+import { exportSongs } from '~/lib/export'
+import { arrangeSong, mergeRecordedTiming, timingLabel } from '~/lib/timeline'
+import {
+  parseChordPro,
+  extractParsedChords,
+  extractDefines,
+  transposeKey,
+  getKeyInterval,
+  signedInterval,
+  prefersFlats,
+  type AccidentalPreference,
+  type ChordNotation,
+} from '~/lib/chordpro'
+import type { ExportFormat, Song } from '~/types'
 
 export interface SetlistContext {
   setlistId: string
@@ -25,6 +42,14 @@ export interface SetlistContext {
   onPrevious: () => void
   onNext: () => void
   onExit: () => void
+  /** Performance key saved for this setlist entry */
+  performanceKey?: string
+  /** Save (or clear with undefined) the performance key for this entry */
+  onPerformanceKeyChange?: (key: string | undefined) => void
+  /** Arrangement saved for this setlist entry */
+  arrangementId?: string
+  /** Save (or clear with undefined) the arrangement for this entry */
+  onArrangementChange?: (arrangementId: string | undefined) => void
 }
 
 export interface SongPlayerContentProps {
@@ -43,7 +68,7 @@ export function SongPlayerContent({
 }: SongPlayerContentProps) {
   const player = useSongPlayer()
   const scrollContainerRef = useRef<HTMLDivElement>(null)
-  const { incrementPlayCount, updateSong } = useSong(song.id)
+  const { incrementPlayCount, updateSong, applyTransposition, undoTransposition } = useSong(song.id)
   const { settings, updatePlayerSettings } = useSettings()
 
   const smartScrollContextWindowPercent =
@@ -52,6 +77,134 @@ export function SongPlayerContent({
     settings?.player.smartScrollSmoothness ?? 70
   const showBeatIndicatorDebug =
     settings?.player.showBeatIndicatorDebug ?? false
+  // Capo: per-song override wins over the {capo} directive
+  const songDirectives = useMemo(() => parseChordPro(song.lyrics || '').directives, [song.lyrics])
+  const capo = song.capo ?? songDirectives.capo ?? 0
+  const showCapoShapes = player.state.showCapoShapes && capo > 0
+  // Offset applied to the written chords for display
+  const displayTranspose = player.state.transpose - (showCapoShapes ? capo : 0)
+
+  // Arrangement: the setlist entry picks it; a song on its own plays as written until one is chosen
+  const [ownArrangementId, setOwnArrangementId] = useState<string>()
+  const arrangementId = setlistContext?.onArrangementChange ? setlistContext.arrangementId : ownArrangementId
+  const arrangement = song.arrangements?.find(({ id }) => id === arrangementId)
+  // The sheet on screen, in the chosen arrangement's order
+  const sheet = useMemo(() => {
+    const written = { lyrics: song.lyrics || '', bpm: song.bpm || 120, timeSignature: song.timeSignature || '4/4' }
+    if (!arrangement) return { ...written, timingKeys: undefined }
+    return arrangeSong({ ...written, key: song.key || songDirectives.key }, arrangement.sections)
+  }, [song.lyrics, song.bpm, song.timeSignature, song.key, songDirectives.key, arrangement])
+
+  const handleArrangementChange = useCallback(
+    (id: string | undefined) => {
+      if (setlistContext?.onArrangementChange) {
+        setlistContext.onArrangementChange(id)
+      } else {
+        setOwnArrangementId(id)
+      }
+    },
+    [setlistContext]
+  )
+
+  // Spelling follows the key being displayed unless the song overrides it
+  const songKey = song.key || songDirectives.key
+  const displayKey = songKey ? transposeKey(songKey, displayTranspose) : undefined
+  const useFlats = prefersFlats(displayKey, song.accidentals)
+
+  // Performance key: the setlist entry wins over the song's own
+  const performanceKey = setlistContext?.performanceKey ?? song.performanceKey
+  const concertKey = songKey ? transposeKey(songKey, player.state.transpose) : undefined
+  // Shown the short way round: Bb from C is -2, not +10
+  const transposeInterval = signedInterval(player.state.transpose)
+  const isKeyRemembered =
+    !!songKey && getKeyInterval(songKey, performanceKey ?? songKey) === player.state.transpose
+
+  // Open the song in its performance key
+  const { setTranspose } = player
+  useEffect(() => {
+    if (songKey && performanceKey) {
+      setTranspose(getKeyInterval(songKey, performanceKey))
+    }
+  }, [song.id, songKey, performanceKey, setTranspose])
+
+  const handleSelectKey = useCallback(
+    (key: string) => {
+      if (songKey) setTranspose(getKeyInterval(songKey, key))
+    },
+    [songKey, setTranspose]
+  )
+
+  const handleRememberKey = useCallback(() => {
+    // The key is saved even when it is the written one, so a setlist entry can pin it
+    if (setlistContext?.onPerformanceKeyChange) {
+      setlistContext.onPerformanceKeyChange(concertKey)
+    } else {
+      void updateSong({ performanceKey: concertKey })
+    }
+  }, [concertKey, setlistContext, updateSong])
+
+  const { resetTranspose } = player
+  const handleApplyTranspose = useCallback(async () => {
+    const semitones = player.state.transpose
+    if (semitones === 0) return
+    await applyTransposition(semitones)
+    resetTranspose()
+  }, [player.state.transpose, applyTransposition, resetTranspose])
+
+  const handleUndoApplyTranspose = useCallback(async () => {
+    await undoTransposition()
+    resetTranspose()
+  }, [undoTransposition, resetTranspose])
+
+  const handleAccidentalPreferenceChange = useCallback(
+    (preference: AccidentalPreference | undefined) => {
+      void updateSong({ accidentals: preference })
+    },
+    [updateSong]
+  )
+
+  const handleCapoChange = useCallback(
+    (value: number) => {
+      void updateSong({ capo: clamp(value, 0, 11) })
+    },
+    [updateSong]
+  )
+
+  const handleUseSheetCapo = useCallback(() => {
+    void updateSong({ capo: undefined })
+  }, [updateSong])
+
+  // Export in the current transpose and size, at concert pitch: capo shapes are not applied
+  const handleExport = useCallback(
+    (format: ExportFormat) => {
+      try {
+        const shown = arrangement ? { ...song, lyrics: sheet.lyrics, bpm: sheet.bpm, timeSignature: sheet.timeSignature } : song
+        exportSongs([{ song: shown, transpose: player.state.transpose }], format, song.title, {
+          fontSize: player.state.fontSize,
+        })
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Export failed')
+      }
+    },
+    [song, arrangement, sheet, player.state.transpose, player.state.fontSize]
+  )
+
+  const showChordDiagrams =
+    (settings?.player.showChordDiagrams ?? false) && player.state.showChords
+  const chordDiagramInstrument =
+    settings?.player.chordDiagramInstrument ?? 'guitar'
+  const chordNotation = settings?.player.chordNotation ?? 'letters'
+
+  // Chords used by the song (as displayed), for the diagram footer
+  const diagramSource = useMemo(() => {
+    if (!showChordDiagrams) return null
+    const parsed = parseChordPro(sheet.lyrics, displayTranspose, useFlats, songKey)
+    return {
+      chords: extractParsedChords(parsed.lines),
+      // {define} fingerings describe the written chords, not transposed ones
+      defines: displayTranspose === 0 ? extractDefines(parsed) : undefined,
+    }
+  }, [showChordDiagrams, sheet.lyrics, displayTranspose, useFlats, songKey])
 
   const handleContextWindowChange = useCallback(
     (value: number) => {
@@ -78,6 +231,13 @@ export function SongPlayerContent({
     })
   }, [settings?.player.showBeatIndicatorDebug, updatePlayerSettings])
 
+  const handleChordNotationChange = useCallback(
+    (notation: ChordNotation) => {
+      void updatePlayerSettings({ chordNotation: notation })
+    },
+    [updatePlayerSettings]
+  )
+
   const mapSmoothnessToDuration = (smoothness: number): number => {
     const normalized = clamp(smoothness, 0, 100) / 100
     const minDuration = 80
@@ -86,9 +246,9 @@ export function SongPlayerContent({
   }
 
   const autoScroll = useSmartAutoScroll({
-    lyrics: song.lyrics || '',
-    bpm: song.bpm || 120,
-    timeSignature: song.timeSignature || '4/4',
+    lyrics: sheet.lyrics,
+    bpm: sheet.bpm,
+    timeSignature: sheet.timeSignature,
     isPlaying: player.state.isPlaying,
     isEnabled: player.state.isAutoScrollEnabled,
     containerRef: scrollContainerRef,
@@ -97,8 +257,13 @@ export function SongPlayerContent({
     calculationOptions: {
       defaultBarsPerLine: 2,
       defaultBeatsPerChord: 4,
-      intelligentEstimation: false
-    }
+      intelligentEstimation: false,
+      key: songKey,
+      timingMap: song.timingMap,
+      // Copies of a section in an arrangement share the written lines' timing
+      lineTimingKeys: sheet.timingKeys
+    },
+    timingOverrides: song.timingOverrides
   })
 
   useAutoScroll({
@@ -118,8 +283,8 @@ export function SongPlayerContent({
 
   useMetronomeSound({
     enabled: metronomeEnabled,
-    bpm: song.bpm || 120,
-    timeSignature: song.timeSignature || '4/4',
+    bpm: autoScroll.currentBpm,
+    timeSignature: sheet.timeSignature,
     currentBeatInBar: autoScroll.currentBeatInBar,
     currentBar: autoScroll.currentBar,
     isPlaying: metronomeIsPlaying,
@@ -128,11 +293,29 @@ export function SongPlayerContent({
     accentFirst: true
   })
 
-  const parseTimeSignature = (signature: string): number => {
-    const [beats] = signature.split('/').map(Number)
-    return beats || 4
-  }
-  const beatsPerBar = parseTimeSignature(song.timeSignature)
+  const recorder = useTimingRecorder({
+    elements: autoScroll.timeline?.elements ?? [],
+    getCurrentBeat: autoScroll.getCurrentBeat
+  })
+
+  // Recording plays the song from the top; each tap marks a line start
+  const handleRecordTiming = useCallback(async () => {
+    autoScroll.reset()
+    recorder.start()
+    await player.play()
+  }, [autoScroll, recorder, player])
+
+  const handleSaveTiming = useCallback(() => {
+    const recorded = recorder.finish()
+    player.pause()
+    if (!autoScroll.timeline || Object.keys(recorded).length === 0) return
+    void updateSong(mergeRecordedTiming(autoScroll.timeline.elements, song, recorded))
+  }, [recorder, player, autoScroll.timeline, song, updateSong])
+
+  const handleCancelTiming = useCallback(() => {
+    recorder.cancel()
+    player.pause()
+  }, [recorder, player])
 
   const isSeekEnabled =
     autoScroll.isReady &&
@@ -147,12 +330,13 @@ export function SongPlayerContent({
     [autoScroll]
   )
 
-  // Chords are editable when stopped (drag-and-drop active)
-  const isEditable = !player.state.isPlaying && player.state.showChords
+  // Chords are editable when stopped (drag-and-drop active), on the sheet as written
+  const isEditable = !player.state.isPlaying && player.state.showChords && !arrangement
 
+  // Chord edits come one drag at a time; a run of them keeps one revision
   const handleLyricsChange = useCallback(
     (newLyrics: string) => {
-      void updateSong({ lyrics: newLyrics })
+      void updateSong({ lyrics: newLyrics }, { coalesce: true })
     },
     [updateSong]
   )
@@ -309,6 +493,10 @@ export function SongPlayerContent({
                 <span className={cn('w-1 h-3 rounded-full animate-pulse delay-150', isSetlistMode ? 'bg-primary' : 'bg-indigo-500')} />
               </div>
             )}
+            <ExportMenu
+              onExport={handleExport}
+              className={isSetlistMode ? 'text-slate-400 hover:text-white' : undefined}
+            />
             {!isSetlistMode && (
               <Link
                 {...routeHelpers.songEdit(song.id)}
@@ -328,13 +516,45 @@ export function SongPlayerContent({
           )}
         >
           <span>
-            {song.key}
-            {player.state.transpose !== 0 && ` (+${player.state.transpose})`}
+            {player.state.transpose !== 0 && concertKey ? (
+              <>
+                <span className="font-medium text-slate-700 dark:text-slate-200">{concertKey}</span>
+                {` (${songKey} ${transposeInterval > 0 ? `+${transposeInterval}` : transposeInterval})`}
+              </>
+            ) : (
+              songKey
+            )}
           </span>
+          {capo > 0 && (
+            <>
+              <span>•</span>
+              <span className={cn(showCapoShapes && 'text-amber-600 dark:text-amber-400 font-medium')}>
+                Capo {capo}
+              </span>
+            </>
+          )}
           <span>•</span>
-          <span>{song.bpm} BPM</span>
+          <span>{sheet.bpm} BPM</span>
           <span>•</span>
-          <span>{song.timeSignature}</span>
+          <span>{sheet.timeSignature}</span>
+          {!!song.arrangements?.length && (
+            <>
+              <span>•</span>
+              <select
+                value={arrangement?.id ?? ''}
+                onChange={(e) => handleArrangementChange(e.target.value || undefined)}
+                aria-label="Arrangement"
+                className="bg-transparent border-none p-0 pr-6 text-sm focus:ring-0"
+              >
+                <option value="">As written</option>
+                {song.arrangements.map(({ id, name }) => (
+                  <option key={id} value={id}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
           {player.state.isAutoScrollEnabled &&
             player.state.isPlaying &&
             !autoScroll.hasFallback && (
@@ -342,7 +562,7 @@ export function SongPlayerContent({
                 <span>•</span>
                 <div className="flex items-center gap-2">
                   <VisualBeat
-                    count={beatsPerBar}
+                    count={autoScroll.currentBeatsPerBar}
                     activeIndex={autoScroll.currentBeatInBar + 1}
                     isPlaying={true}
                     variant="circles"
@@ -444,8 +664,8 @@ export function SongPlayerContent({
       >
         {player.state.showChords ? (
           <ChordOverlay
-            lyrics={song.lyrics}
-            transpose={player.state.transpose}
+            lyrics={sheet.lyrics}
+            transpose={displayTranspose}
             columns={2}
             onChordClick={handleChordClick}
             isSeekEnabled={isSeekEnabled}
@@ -453,9 +673,21 @@ export function SongPlayerContent({
             onLyricsChange={handleLyricsChange}
             lineIndexToElementId={autoScroll.lineIndexToElementId ?? undefined}
             gridResolution={settings?.player.gridResolution ?? 0.25}
+            chordInstrument={chordDiagramInstrument}
+            useFlats={useFlats}
+            songKey={songKey}
+            chordNotation={chordNotation}
           />
         ) : (
-          <LyricsDisplay lyrics={song.lyrics} />
+          <LyricsDisplay lyrics={sheet.lyrics} songKey={songKey} />
+        )}
+        {diagramSource && (
+          <ChordDiagramList
+            chords={diagramSource.chords}
+            instrument={chordDiagramInstrument}
+            defines={diagramSource.defines}
+            className="mt-10"
+          />
         )}
       </div>
 
@@ -468,29 +700,59 @@ export function SongPlayerContent({
         </div>
       )}
 
-      <PlayerControls
-        isPlaying={player.state.isPlaying}
-        onPlayPause={player.togglePlay}
-        autoScrollEnabled={player.state.isAutoScrollEnabled}
-        onToggleAutoScroll={player.toggleAutoScroll}
-        autoScrollSpeed={player.state.autoScrollSpeed}
-        onAutoScrollSpeedChange={player.setAutoScrollSpeed}
-        showChords={player.state.showChords}
-        onToggleChords={player.toggleChords}
-        fontSize={player.state.fontSize}
-        onFontSizeChange={player.setFontSize}
-        transpose={player.state.transpose}
-        onTranspose={player.transpose}
-        onResetTranspose={player.resetTranspose}
-        metronomeSoundEnabled={player.state.metronomeSoundEnabled}
-        onToggleMetronomeSound={player.toggleMetronomeSound}
-        smartScrollContextWindow={smartScrollContextWindowPercent}
-        onSmartScrollContextWindowChange={handleContextWindowChange}
-        smartScrollSmoothness={smartScrollSmoothness}
-        onSmartScrollSmoothnessChange={handleSmoothnessChange}
-        showBeatIndicatorDebug={showBeatIndicatorDebug}
-        onToggleBeatIndicatorDebug={handleToggleBeatIndicator}
-      />
+      {recorder.isRecording ? (
+        <TimingRecorder
+          nextLabel={recorder.nextElement ? timingLabel(recorder.nextElement) : undefined}
+          tapped={recorder.taps.length}
+          total={recorder.total}
+          isComplete={recorder.isComplete}
+          onTap={recorder.tap}
+          onSave={handleSaveTiming}
+          onCancel={handleCancelTiming}
+        />
+      ) : (
+        <PlayerControls
+          isPlaying={player.state.isPlaying}
+          onPlayPause={player.togglePlay}
+          autoScrollEnabled={player.state.isAutoScrollEnabled}
+          onToggleAutoScroll={player.toggleAutoScroll}
+          autoScrollSpeed={player.state.autoScrollSpeed}
+          onAutoScrollSpeedChange={player.setAutoScrollSpeed}
+          showChords={player.state.showChords}
+          onToggleChords={player.toggleChords}
+          fontSize={player.state.fontSize}
+          onFontSizeChange={player.setFontSize}
+          transpose={player.state.transpose}
+          onTranspose={player.transpose}
+          onResetTranspose={player.resetTranspose}
+          onApplyTranspose={handleApplyTranspose}
+          onUndoApplyTranspose={song.lastTransposition ? handleUndoApplyTranspose : undefined}
+          songKey={songKey}
+          onSelectKey={handleSelectKey}
+          onRememberKey={handleRememberKey}
+          isKeyRemembered={isKeyRemembered}
+          capo={capo}
+          onCapoChange={handleCapoChange}
+          onUseSheetCapo={song.capo !== undefined ? handleUseSheetCapo : undefined}
+          showCapoShapes={showCapoShapes}
+          onToggleCapoShapes={player.toggleCapoShapes}
+          accidentalPreference={song.accidentals}
+          onAccidentalPreferenceChange={handleAccidentalPreferenceChange}
+          chordNotation={chordNotation}
+          onChordNotationChange={handleChordNotationChange}
+          metronomeSoundEnabled={player.state.metronomeSoundEnabled}
+          onToggleMetronomeSound={player.toggleMetronomeSound}
+          onRecordTiming={
+            isSetlistMode || arrangement || !autoScroll.isReady || autoScroll.hasFallback ? undefined : handleRecordTiming
+          }
+          smartScrollContextWindow={smartScrollContextWindowPercent}
+          onSmartScrollContextWindowChange={handleContextWindowChange}
+          smartScrollSmoothness={smartScrollSmoothness}
+          onSmartScrollSmoothnessChange={handleSmoothnessChange}
+          showBeatIndicatorDebug={showBeatIndicatorDebug}
+          onToggleBeatIndicatorDebug={handleToggleBeatIndicator}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,92 @@
+import { useEffect } from 'react'
+import { Check, X } from 'lucide-react'
+import { cn } from '~/lib/utils'
+
+interface TimingRecorderProps {
+  /** Label of the line the next tap starts; undefined when the next tap marks the end */
+  nextLabel?: string
+  /** Taps so far */
+  tapped: number
+  /** Lines to tap */
+  total: number
+  isComplete: boolean
+  onTap: () => void
+  onSave: () => void
+  onCancel: () => void
+}
+
+/**
+ * Bar shown while recording timing: tap (or press Space / Enter, so a
+ * page-turn pedal works) as each line starts, then once where the last ends.
+ */
+export function TimingRecorder({
+  nextLabel,
+  tapped,
+  total,
+  isComplete,
+  onTap,
+  onSave,
+  onCancel
+}: TimingRecorderProps) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === ' ' || e.key === 'Enter') {
+        e.preventDefault()
+        onTap()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onTap])
+
+  const prompt = isComplete
+    ? 'All lines recorded'
+    : tapped === 0
+      ? 'Tap when the first line starts'
+      : nextLabel !== undefined
+        ? 'Tap when the next line starts'
+        : 'Tap when the last line ends'
+
+  return (
+    <div className="sticky bottom-0 z-10 px-4 py-3 bg-rose-50 dark:bg-rose-950/40 border-t border-rose-200 dark:border-rose-900/50">
+      <div className="flex items-center gap-3">
+        <div className="flex-1 min-w-0">
+          <p className="flex items-center gap-2 text-xs font-medium text-rose-700 dark:text-rose-300">
+            <span className="w-2 h-2 rounded-full bg-rose-500 animate-pulse" />
+            Recording timing · {Math.min(tapped, total)}/{total}
+          </p>
+          <p className="text-sm text-slate-700 dark:text-slate-200 truncate">{prompt}</p>
+          {!isComplete && nextLabel && (
+            <p className="text-sm font-mono text-slate-900 dark:text-white truncate">{nextLabel}</p>
+          )}
+        </div>
+
+        <button
+          onClick={onCancel}
+          aria-label="Cancel recording"
+          className="p-3 rounded-xl bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <button
+          onClick={onTap}
+          disabled={isComplete}
+          className={cn(
+            'px-6 py-3 rounded-xl text-sm font-semibold transition-colors',
+            'bg-rose-500 text-white hover:bg-rose-600 active:bg-rose-700 disabled:opacity-40'
+          )}
+        >
+          Tap
+        </button>
+        <button
+          onClick={onSave}
+          disabled={tapped < 2}
+          aria-label="Save timing"
+          className="p-3 rounded-xl bg-indigo-500 text-white hover:bg-indigo-600 disabled:opacity-40"
+        >
+          <Check className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -18,6 +18,12 @@ describe('PlayerControls', () => {
     transpose: 0,
     onTranspose: vi.fn(),
     onResetTranspose: vi.fn(),
+    capo: 0,
+    onCapoChange: vi.fn(),
+    showCapoShapes: false,
+    onToggleCapoShapes: vi.fn(),
+    accidentalPreference: undefined,
+    onAccidentalPreferenceChange: vi.fn(),
     metronomeSoundEnabled: false,
     onToggleMetronomeSound: vi.fn(),
     smartScrollContextWindow: 33,
@@ -331,4 +337,140 @@ describe('PlayerControls', () => {
 
     expect(screen.getByText('-2')).toBeInTheDocument()
   })
+
+  it('should not show the capo toggle without a capo', () => {
+    render(<PlayerControls {...defaultProps} capo={0} />)
+
+    expect(screen.queryByTitle('Show capo shapes')).not.toBeInTheDocument()
+  })
+
+  it('should toggle capo shapes from the main controls', async () => {
+    const user = userEvent.setup()
+    const onToggleCapoShapes = vi.fn()
+    const { rerender } = render(
+      <PlayerControls {...defaultProps} capo={2} onToggleCapoShapes={onToggleCapoShapes} />
+    )
+
+    await user.click(screen.getByTitle('Show capo shapes'))
+    expect(onToggleCapoShapes).toHaveBeenCalledTimes(1)
+
+    rerender(
+      <PlayerControls {...defaultProps} capo={2} showCapoShapes onToggleCapoShapes={onToggleCapoShapes} />
+    )
+    expect(screen.getByTitle('Show concert pitch')).toHaveTextContent('Capo 2')
+  })
+
+  it('should change the capo from the settings panel', async () => {
+    const user = userEvent.setup()
+    const onCapoChange = vi.fn()
+    render(<PlayerControls {...defaultProps} capo={2} onCapoChange={onCapoChange} />)
+
+    await user.click(screen.getByRole('button', { name: /show settings|hide settings/i }))
+    await user.click(screen.getByRole('button', { name: 'Capo up' }))
+    await user.click(screen.getByRole('button', { name: 'Capo down' }))
+
+    expect(onCapoChange).toHaveBeenNthCalledWith(1, 3)
+    expect(onCapoChange).toHaveBeenNthCalledWith(2, 1)
+  })
+
+  it('should offer the sheet capo only when the song overrides it', async () => {
+    const user = userEvent.setup()
+    const onUseSheetCapo = vi.fn()
+    const { rerender } = render(<PlayerControls {...defaultProps} capo={2} />)
+
+    await user.click(screen.getByRole('button', { name: /show settings|hide settings/i }))
+    expect(screen.queryByRole('button', { name: 'Use sheet' })).not.toBeInTheDocument()
+
+    rerender(<PlayerControls {...defaultProps} capo={2} onUseSheetCapo={onUseSheetCapo} />)
+    await user.click(screen.getByRole('button', { name: 'Use sheet' }))
+    expect(onUseSheetCapo).toHaveBeenCalledTimes(1)
+  })
+
+  it('should set the accidental preference', async () => {
+    const user = userEvent.setup()
+    const onAccidentalPreferenceChange = vi.fn()
+    render(
+      <PlayerControls
+        {...defaultProps}
+        accidentalPreference="sharps"
+        onAccidentalPreferenceChange={onAccidentalPreferenceChange}
+      />
+    )
+
+    await user.click(screen.getByRole('button', { name: /show settings|hide settings/i }))
+    expect(screen.getByRole('button', { name: 'Prefer sharps' })).toHaveAttribute('aria-pressed', 'true')
+
+    await user.click(screen.getByRole('button', { name: 'Prefer flats' }))
+    await user.click(screen.getByRole('button', { name: 'Accidentals from key' }))
+
+    expect(onAccidentalPreferenceChange).toHaveBeenNthCalledWith(1, 'flats')
+    expect(onAccidentalPreferenceChange).toHaveBeenNthCalledWith(2, undefined)
+  })
+
+  it('should select a target key relative to the song key', async () => {
+    const user = userEvent.setup()
+    const onSelectKey = vi.fn()
+    render(
+      <PlayerControls {...defaultProps} songKey="Am" transpose={3} onSelectKey={onSelectKey} />
+    )
+
+    await user.click(screen.getByRole('button', { name: /show settings|hide settings/i }))
+    const select = screen.getByRole('combobox', { name: 'Key' })
+    expect(select).toHaveValue('Cm')
+
+    await user.selectOptions(select, 'Dm')
+    expect(onSelectKey).toHaveBeenCalledWith('Dm')
+  })
+
+  it('should remember the selected key', async () => {
+    const user = userEvent.setup()
+    const onRememberKey = vi.fn()
+    const { rerender } = render(
+      <PlayerControls {...defaultProps} songKey="C" onSelectKey={vi.fn()} onRememberKey={onRememberKey} />
+    )
+
+    await user.click(screen.getByRole('button', { name: /show settings|hide settings/i }))
+    await user.click(screen.getByRole('button', { name: 'Remember' }))
+    expect(onRememberKey).toHaveBeenCalledTimes(1)
+
+    rerender(
+      <PlayerControls {...defaultProps} songKey="C" onSelectKey={vi.fn()} onRememberKey={onRememberKey} isKeyRemembered />
+    )
+    expect(screen.getByRole('button', { name: 'Saved' })).toBeDisabled()
+  })
+
+  it('should apply a non-zero transposition to the song', async () => {
+    const user = userEvent.setup()
+    const onApplyTranspose = vi.fn()
+    const { rerender } = render(<PlayerControls {...defaultProps} onApplyTranspose={onApplyTranspose} />)
+
+    await user.click(screen.getByRole('button', { name: /show settings|hide settings/i }))
+    expect(screen.queryByRole('button', { name: 'Apply to song' })).not.toBeInTheDocument()
+
+    rerender(<PlayerControls {...defaultProps} transpose={2} onApplyTranspose={onApplyTranspose} />)
+    await user.click(screen.getByRole('button', { name: 'Apply to song' }))
+    expect(onApplyTranspose).toHaveBeenCalledTimes(1)
+  })
+
+  it('should offer undo after a transposition was applied', async () => {
+    const user = userEvent.setup()
+    const onUndoApplyTranspose = vi.fn()
+    render(<PlayerControls {...defaultProps} onApplyTranspose={vi.fn()} onUndoApplyTranspose={onUndoApplyTranspose} />)
+
+    await user.click(screen.getByRole('button', { name: /show settings|hide settings/i }))
+    await user.click(screen.getByRole('button', { name: 'Undo transposition' }))
+    expect(onUndoApplyTranspose).toHaveBeenCalledTimes(1)
+  })
+
+  it('should switch chord notation', async () => {
+    const user = userEvent.setup()
+    const onChordNotationChange = vi.fn()
+    render(<PlayerControls {...defaultProps} chordNotation="letters" onChordNotationChange={onChordNotationChange} />)
+
+    await user.click(screen.getByRole('button', { name: /show settings|hide settings/i }))
+    expect(screen.getByRole('button', { name: 'Chord names' })).toHaveAttribute('aria-pressed', 'true')
+
+    await user.click(screen.getByRole('button', { name: 'Nashville numbers' }))
+    expect(onChordNotationChange).toHaveBeenCalledWith('nashville')
+  })
 })
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import {
+  useEditHistory,
+  replaceLineCommand,
+  insertLinesCommand,
+  deleteLineCommand,
+  EDIT_HISTORY_LIMIT,
+} from '../useEditHistory'
+import type { AnyParsedLine, LyricParsedLine } from '~/lib/chordpro'
+
+const lyric = (text: string, chord = 'C'): LyricParsedLine => ({
+  type: 'lyric',
+  text,
+  chords: [{ chord, position: 0, beats: 4 }],
+  raw: `[${chord}]${text}`,
+})
+
+const texts = (lines: AnyParsedLine[]) => lines.map((line) => (line as LyricParsedLine).text)
+
+function setup(initial = [lyric('one'), lyric('two'), lyric('three')]) {
+  const onChange = vi.fn()
+  const { result } = renderHook(() => useEditHistory({ initialLines: initial, onChange }))
+  return { result, onChange }
+}
+
+describe('useEditHistory', () => {
+  it('should undo and redo a line edit', () => {
+    const { result, onChange } = setup()
+
+    act(() => result.current.execute((lines) => replaceLineCommand(lines, 1, lyric('TWO', 'G'))))
+    expect(texts(result.current.lines)).toEqual(['one', 'TWO', 'three'])
+    expect(result.current.canUndo).toBe(true)
+    expect(result.current.undoLabel).toBe('Editar línea')
+
+    act(() => result.current.undo())
+    expect(texts(result.current.lines)).toEqual(['one', 'two', 'three'])
+    expect(result.current.canUndo).toBe(false)
+    expect(result.current.canRedo).toBe(true)
+
+    act(() => result.current.redo())
+    expect(texts(result.current.lines)).toEqual(['one', 'TWO', 'three'])
+    expect(onChange).toHaveBeenCalledTimes(3)
+    expect(texts(onChange.mock.calls[1][0])).toEqual(['one', 'two', 'three'])
+  })
+
+  it('should undo inserts and deletes in reverse order', () => {
+    const { result } = setup()
+
+    act(() => result.current.execute(insertLinesCommand(1, [lyric('new a'), lyric('new b')], 'Agregar sección')))
+    act(() => result.current.execute((lines) => deleteLineCommand(lines, 0)))
+    expect(texts(result.current.lines)).toEqual(['new a', 'new b', 'two', 'three'])
+
+    act(() => result.current.undo())
+    expect(texts(result.current.lines)).toEqual(['one', 'new a', 'new b', 'two', 'three'])
+    expect(result.current.undoLabel).toBe('Agregar sección')
+
+    act(() => result.current.undo())
+    expect(texts(result.current.lines)).toEqual(['one', 'two', 'three'])
+  })
+
+  it('should drop the redo steps when a new edit is made', () => {
+    const { result } = setup()
+
+    act(() => result.current.execute((lines) => replaceLineCommand(lines, 0, lyric('first'))))
+    act(() => result.current.undo())
+    act(() => result.current.execute((lines) => replaceLineCommand(lines, 2, lyric('last'))))
+
+    expect(result.current.canRedo).toBe(false)
+    expect(texts(result.current.lines)).toEqual(['one', 'two', 'last'])
+  })
+
+  it('should group the edits of one gesture into a single step', () => {
+    const { result } = setup()
+
+    act(() => {
+      result.current.beginGesture()
+      result.current.execute((lines) => replaceLineCommand(lines, 0, lyric('a')))
+      result.current.execute((lines) => replaceLineCommand(lines, 0, lyric('b')))
+      result.current.execute((lines) => replaceLineCommand(lines, 1, lyric('c')))
+      result.current.endGesture()
+    })
+    act(() => result.current.execute((lines) => replaceLineCommand(lines, 2, lyric('d'))))
+    expect(texts(result.current.lines)).toEqual(['b', 'c', 'd'])
+
+    act(() => result.current.undo())
+    expect(texts(result.current.lines)).toEqual(['b', 'c', 'three'])
+
+    act(() => result.current.undo())
+    expect(texts(result.current.lines)).toEqual(['one', 'two', 'three'])
+    expect(result.current.canUndo).toBe(false)
+  })
+
+  it('should forget the history on reset without reporting a change', () => {
+    const { result, onChange } = setup()
+
+    act(() => result.current.execute((lines) => replaceLineCommand(lines, 0, lyric('a'))))
+    act(() => result.current.reset([lyric('fresh')]))
+
+    expect(texts(result.current.lines)).toEqual(['fresh'])
+    expect(result.current.canUndo).toBe(false)
+    expect(onChange).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep at most EDIT_HISTORY_LIMIT steps', () => {
+    const { result } = setup()
+
+    act(() => {
+      for (let i = 0; i < EDIT_HISTORY_LIMIT + 5; i++) {
+        result.current.execute((lines) => replaceLineCommand(lines, 0, lyric(`v${i}`)))
+      }
+    })
+    act(() => {
+      for (let i = 0; i < EDIT_HISTORY_LIMIT + 5; i++) result.current.undo()
+    })
+
+    expect(texts(result.current.lines)[0]).toBe('v4')
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * useEditHistory Hook
+ *
+ * Undo/redo for the chord editor, over the ParsedSong line array.
+ * Every edit is a command that splices lines: `before` lines at `index`
+ * are swapped for `after` lines, so it can be applied and reverted.
+ *
+ * Commands issued during one pointer gesture (beginGesture → endGesture)
+ * are grouped into a single undo step, so a drag is undone in one go.
+ */
+
+import { useCallback, useRef, useState } from 'react'
+import type { AnyParsedLine } from '~/lib/chordpro'
+
+export interface EditCommand {
+  /** Shown in the undo/redo button titles */
+  label: string
+  /** Line where the splice starts */
+  index: number
+  /** Lines removed by the command */
+  before: AnyParsedLine[]
+  /** Lines inserted in their place */
+  after: AnyParsedLine[]
+}
+
+/** One undo step: its commands are applied in order and reverted in reverse */
+export interface EditStep {
+  label: string
+  commands: EditCommand[]
+}
+
+interface EditHistoryState {
+  lines: AnyParsedLine[]
+  past: EditStep[]
+  future: EditStep[]
+}
+
+/** Undo steps kept; the oldest are dropped beyond this */
+export const EDIT_HISTORY_LIMIT = 100
+
+export function applyCommand(lines: AnyParsedLine[], command: EditCommand): AnyParsedLine[] {
+  const next = [...lines]
+  next.splice(command.index, command.before.length, ...command.after)
+  return next
+}
+
+export function revertCommand(lines: AnyParsedLine[], command: EditCommand): AnyParsedLine[] {
+  const next = [...lines]
+  next.splice(command.index, command.after.length, ...command.before)
+  return next
+}
+
+// ── Command builders ──────────────────────────────────────────────────────────
+
+export function replaceLineCommand(lines: AnyParsedLine[], index: number, updated: AnyParsedLine): EditCommand {
+  return { label: 'Editar línea', index, before: [lines[index]], after: [updated] }
+}
+
+export function insertLinesCommand(index: number, inserted: AnyParsedLine[], label = 'Insertar línea'): EditCommand {
+  return { label, index, before: [], after: inserted }
+}
+
+export function deleteLineCommand(lines: AnyParsedLine[], index: number): EditCommand {
+  return { label: 'Eliminar línea', index, before: [lines[index]], after: [] }
+}
+
+export interface UseEditHistoryOptions {
+  initialLines: AnyParsedLine[]
+  /** Called with the new lines after every execute, undo and redo */
+  onChange?: (lines: AnyParsedLine[]) => void
+}
+
+export function useEditHistory({ initialLines, onChange }: UseEditHistoryOptions) {
+  const [state, setState] = useState<EditHistoryState>(() => ({
+    lines: initialLines,
+    past: [],
+    future: [],
+  }))
+  // Source of truth between renders, so several commands in one event all
+  // see each other's result
+  const stateRef = useRef(state)
+  const gestureRef = useRef<{ active: boolean; step: EditStep | null }>({ active: false, step: null })
+
+  const commit = useCallback(
+    (next: EditHistoryState, notify = true) => {
+      stateRef.current = next
+      setState(next)
+      if (notify) onChange?.(next.lines)
+    },
+    [onChange]
+  )
+
+  /** Run a command, or build one from the current lines and run it */
+  const execute = useCallback(
+    (commandOrBuild: EditCommand | ((lines: AnyParsedLine[]) => EditCommand)) => {
+      const current = stateRef.current
+      const command = typeof commandOrBuild === 'function' ? commandOrBuild(current.lines) : commandOrBuild
+      const lines = applyCommand(current.lines, command)
+      const gesture = gestureRef.current
+
+      // Later commands of the same gesture join the step its first one opened
+      if (gesture.active && gesture.step) {
+        const step = { ...gesture.step, commands: [...gesture.step.commands, command] }
+        gesture.step = step
+        commit({ lines, past: [...current.past.slice(0, -1), step], future: [] })
+        return
+      }
+
+      const step: EditStep = { label: command.label, commands: [command] }
+      if (gesture.active) gesture.step = step
+      commit({ lines, past: [...current.past, step].slice(-EDIT_HISTORY_LIMIT), future: [] })
+    },
+    [commit]
+  )
+
+  const undo = useCallback(() => {
+    const current = stateRef.current
+    const step = current.past[current.past.length - 1]
+    if (!step) return
+    gestureRef.current.step = null
+    const lines = step.commands.reduceRight(revertCommand, current.lines)
+    commit({ lines, past: current.past.slice(0, -1), future: [step, ...current.future] })
+  }, [commit])
+
+  const redo = useCallback(() => {
+    const current = stateRef.current
+    const [step, ...future] = current.future
+    if (!step) return
+    gestureRef.current.step = null
+    const lines = step.commands.reduce(applyCommand, current.lines)
+    commit({ lines, past: [...current.past, step], future })
+  }, [commit])
+
+  /** Replace the lines and forget the history (e.g. the song changed elsewhere) */
+  const reset = useCallback(
+    (lines: AnyParsedLine[]) => {
+      gestureRef.current = { active: false, step: null }
+      commit({ lines, past: [], future: [] }, false)
+    },
+    [commit]
+  )
+
+  const beginGesture = useCallback(() => {
+    gestureRef.current = { active: true, step: null }
+  }, [])
+
+  const endGesture = useCallback(() => {
+    gestureRef.current = { active: false, step: null }
+  }, [])
+
+  return {
+    lines: state.lines,
+    execute,
+    undo,
+    redo,
+    reset,
+    beginGesture,
+    endGesture,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    undoLabel: state.past[state.past.length - 1]?.label ?? null,
+    redoLabel: state.future[0]?.label ?? null,
+  }
+}
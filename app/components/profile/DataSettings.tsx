@@ -1,5 +1,8 @@
 import { useState, useCallback } from 'react'
 import type { AppSettings } from '~/types/profile'
+import type { Backup, RestoreMode } from '~/types/backup'
+import type { ConflictChoice, SyncConflict, SyncRecord } from '~/types/sync'
+import type { SyncStatus } from '~/hooks/useOfflineSync'
 import {
   SettingsSection,
   SettingsRow,
@@ -13,6 +16,73 @@ export interface DataSettingsProps {
   onExportData: () => void
   onImportData: () => void
   onDeleteAllData: () => void
+  /** Backup read from a file, waiting for the user to pick a restore mode */
+  pendingRestore?: Backup | null
+  onConfirmRestore?: (mode: RestoreMode) => void
+  onCancelRestore?: () => void
+  /** Library sync with other devices through the sync server */
+  syncStatus?: SyncStatus
+  isOnline?: boolean
+  conflicts?: SyncConflict[]
+  onSyncNow?: () => void
+  onResolveConflict?: (conflictId: string, choice: ConflictChoice) => void
+  /** Open the merge screen for a song edited on both devices */
+  onMergeConflict?: (conflictId: string) => void
+}
+
+const recordName = (record: SyncRecord | null | undefined) =>
+  record ? ('title' in record ? record.title : record.name) : undefined
+
+function ConflictItem({
+  conflict,
+  onResolve,
+  onMerge,
+}: {
+  conflict: SyncConflict
+  onResolve?: (choice: ConflictChoice) => void
+  onMerge?: () => void
+}) {
+  const remote = conflict.remote.record ?? null
+  const name = recordName(conflict.local) ?? recordName(remote) ?? recordName(conflict.base) ?? 'Untitled'
+  const kind = conflict.table === 'songs' ? 'Song' : 'Setlist'
+  const detail = !conflict.local
+    ? 'Deleted here, edited on another device'
+    : !remote
+      ? 'Edited here, deleted on another device'
+      : 'Edited here and on another device'
+
+  return (
+    <li className="p-3 rounded-xl bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-900/40 space-y-2">
+      <div className="text-sm">
+        <p className="font-medium text-slate-900 dark:text-white">
+          {kind}: {name}
+        </p>
+        <p className="text-slate-500 dark:text-slate-400">{detail}</p>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => onResolve?.('local')}
+          className="px-3 py-2 rounded-lg bg-primary text-white text-sm font-medium hover:opacity-90 transition-opacity"
+        >
+          Keep mine
+        </button>
+        <button
+          onClick={() => onResolve?.('remote')}
+          className="px-3 py-2 rounded-lg bg-slate-100 dark:bg-[#232948] text-slate-700 dark:text-slate-300 text-sm font-medium hover:bg-slate-200 dark:hover:bg-[#2a3158] transition-colors"
+        >
+          Use theirs
+        </button>
+      </div>
+      {conflict.table === 'songs' && conflict.local && remote && onMerge && (
+        <button
+          onClick={onMerge}
+          className="w-full px-3 py-2 rounded-lg border border-primary text-primary text-sm font-medium hover:bg-primary/10 transition-colors"
+        >
+          Merge changes…
+        </button>
+      )}
+    </li>
+  )
 }
 
 export function DataSettings({
@@ -21,8 +91,18 @@ export function DataSettings({
   onExportData,
   onImportData,
   onDeleteAllData,
+  pendingRestore,
+  onConfirmRestore,
+  onCancelRestore,
+  syncStatus,
+  isOnline = true,
+  conflicts = [],
+  onSyncNow,
+  onResolveConflict,
+  onMergeConflict,
 }: DataSettingsProps) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [serverUrl, setServerUrl] = useState(settings.serverUrl ?? '')
 
   const handleDeleteClick = useCallback(() => {
     if (showDeleteConfirm) {
@@ -55,17 +135,85 @@ export function DataSettings({
         />
       </SettingsRow>
 
+      <div className="p-4 space-y-2">
+        <label htmlFor="sync-server" className="block font-medium text-slate-900 dark:text-white">
+          Sync Server
+        </label>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Share songs and setlists with your band's devices on the same network
+        </p>
+        <input
+          id="sync-server"
+          type="url"
+          inputMode="url"
+          placeholder="http://192.168.1.20:4455"
+          value={serverUrl}
+          onChange={(e) => setServerUrl(e.target.value)}
+          onBlur={() => onUpdate({ serverUrl: serverUrl.trim() || undefined })}
+          className={cn(
+            'w-full px-3 py-2 rounded-lg text-sm',
+            'bg-slate-100 dark:bg-[#232948]',
+            'text-slate-900 dark:text-white',
+            'border border-transparent focus:border-primary focus:outline-none'
+          )}
+        />
+      </div>
+
       <SettingsRow
         label="Auto Sync"
-        description="Automatically sync changes"
+        description="Sync changes shortly after you make them"
       >
         <SettingsToggle
           checked={settings.autoSync}
           onChange={(checked) => onUpdate({ autoSync: checked })}
-          disabled // Disabled until cloud feature is implemented
+          disabled={!settings.serverUrl}
         />
       </SettingsRow>
 
+      {syncStatus && (
+        <div className="p-4 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {!isOnline
+                ? 'Offline'
+                : syncStatus.isSyncing
+                  ? 'Syncing…'
+                  : syncStatus.pendingChanges === 0
+                    ? 'Everything is synced'
+                    : `${syncStatus.pendingChanges} ${syncStatus.pendingChanges === 1 ? 'change' : 'changes'} waiting to sync`}
+            </p>
+            <button
+              onClick={onSyncNow}
+              disabled={!settings.serverUrl || !isOnline || syncStatus.isSyncing}
+              className="px-3 py-2 rounded-lg bg-primary text-white text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              Sync Now
+            </button>
+          </div>
+          {syncStatus.error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{syncStatus.error}</p>
+          )}
+
+          {conflicts.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-slate-900 dark:text-white">
+                {conflicts.length === 1 ? '1 conflict' : `${conflicts.length} conflicts`} to resolve
+              </p>
+              <ul className="space-y-2">
+                {conflicts.map((conflict) => (
+                  <ConflictItem
+                    key={conflict.id}
+                    conflict={conflict}
+                    onResolve={(choice) => onResolveConflict?.(conflict.id, choice)}
+                    onMerge={onMergeConflict && (() => onMergeConflict(conflict.id))}
+                  />
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
       {settings.lastSyncDate && (
         <SettingsRow label="Last Sync" description={formatDate(settings.lastSyncDate)}>
           <span className="text-sm text-slate-500 dark:text-slate-400">
@@ -108,6 +256,44 @@ export function DataSettings({
           <span>Import Data</span>
         </button>
 
+        {pendingRestore && (
+          <div className="p-4 rounded-xl bg-slate-50 dark:bg-[#161a2a] border border-slate-200 dark:border-[#3b3f54] space-y-3">
+            <div className="text-sm text-slate-700 dark:text-slate-300">
+              <p className="font-medium text-slate-900 dark:text-white">
+                Backup from {formatDate(pendingRestore.exportedAt)}
+              </p>
+              <p>
+                {pendingRestore.songs.length} songs · {pendingRestore.setlists.length} setlists
+                {pendingRestore.profile ? ' · profile' : ''}
+                {pendingRestore.settings ? ' · settings' : ''}
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => onConfirmRestore?.('merge')}
+                className="px-3 py-2 rounded-lg bg-primary text-white text-sm font-medium hover:opacity-90 transition-opacity"
+              >
+                Merge
+              </button>
+              <button
+                onClick={() => onConfirmRestore?.('replace')}
+                className="px-3 py-2 rounded-lg bg-red-100 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-sm font-medium hover:bg-red-200 dark:hover:bg-red-900/30 transition-colors"
+              >
+                Replace
+              </button>
+            </div>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              Merge keeps your data and adds what is missing (newer songs win). Replace erases this device first.
+            </p>
+            <button
+              onClick={onCancelRestore}
+              className="w-full px-4 py-2 text-sm text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-300"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+
         <button
           onClick={handleDeleteClick}
           className={cn(
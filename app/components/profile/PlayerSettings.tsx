@@ -3,6 +3,7 @@ import {
   SettingsSection,
   SettingsRow,
   SettingsSlider,
+  SettingsToggle,
 } from './SettingsSection'
 import { cn } from '~/lib/utils'
 
@@ -13,6 +14,18 @@ export interface PlayerSettingsProps {
 
 const SCROLL_BEHAVIORS: AppSettings['player']['scrollBehavior'][] = ['auto', 'manual']
 
+const DIAGRAM_INSTRUMENTS: { value: AppSettings['player']['chordDiagramInstrument']; label: string }[] = [
+  { value: 'guitar', label: 'Guitarra' },
+  { value: 'ukulele', label: 'Ukelele' },
+  { value: 'bass', label: 'Bajo' },
+]
+
+const CHORD_NOTATIONS: { value: AppSettings['player']['chordNotation']; label: string }[] = [
+  { value: 'letters', label: 'Acordes' },
+  { value: 'nashville', label: 'Nashville' },
+  { value: 'roman', label: 'Romanos' },
+]
+
 const GRID_RESOLUTION_OPTIONS: { value: number; label: string }[] = [
   { value: 1.0, label: '1/4' },
   { value: 0.5, label: '1/8' },
@@ -85,6 +98,53 @@ export function PlayerSettings({ settings, onUpdate }: PlayerSettingsProps) {
           ))}
         </div>
       </SettingsRow>
+
+      <SettingsRow label="Diagramas de acordes" description="Mostrar los acordes de la canción al final del reproductor">
+        <SettingsToggle
+          checked={settings.showChordDiagrams ?? false}
+          onChange={(checked) => onUpdate({ showChordDiagrams: checked })}
+        />
+      </SettingsRow>
+
+      <SettingsRow label="Instrumento" description="Digitaciones usadas en los diagramas">
+        <div className="flex gap-2">
+          {DIAGRAM_INSTRUMENTS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => onUpdate({ chordDiagramInstrument: opt.value })}
+              className={cn(
+                'px-3 py-2 rounded-lg text-sm font-medium',
+                'transition-colors',
+                (settings.chordDiagramInstrument ?? 'guitar') === opt.value
+                  ? 'bg-primary text-white'
+                  : 'bg-slate-100 dark:bg-[#232948] text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-[#2a3158]'
+              )}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+      </SettingsRow>
+
+      <SettingsRow label="Notación" description="Nombres de acorde o grados relativos al tono (1 4 5, I IV V)">
+        <div className="flex gap-2">
+          {CHORD_NOTATIONS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => onUpdate({ chordNotation: opt.value })}
+              className={cn(
+                'px-3 py-2 rounded-lg text-sm font-medium',
+                'transition-colors',
+                (settings.chordNotation ?? 'letters') === opt.value
+                  ? 'bg-primary text-white'
+                  : 'bg-slate-100 dark:bg-[#232948] text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-[#2a3158]'
+              )}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+      </SettingsRow>
     </SettingsSection>
   )
 }
@@ -6,11 +6,14 @@ import type { Song } from '~/types'
 interface SongItemProps {
   song: Song
   index: number
+  /** Arrangement this setlist plays the song in; undefined plays it as written */
+  arrangementId?: string
+  onArrangementChange?: (arrangementId: string | undefined) => void
   onRemove: () => void
   onReorder: (fromIndex: number, toIndex: number) => void
 }
 
-export function SongItem({ song, index, onRemove, onReorder }: SongItemProps) {
+export function SongItem({ song, index, arrangementId, onArrangementChange, onRemove, onReorder }: SongItemProps) {
   const {
     attributes,
     listeners,
@@ -67,6 +70,23 @@ export function SongItem({ song, index, onRemove, onReorder }: SongItemProps) {
         </p>
       </div>
 
+      {/* Arrangement */}
+      {onArrangementChange && !!song.arrangements?.length && (
+        <select
+          value={arrangementId ?? ''}
+          onChange={(e) => onArrangementChange(e.target.value || undefined)}
+          aria-label={`Arrangement for ${song.title}`}
+          className="max-w-[8rem] px-2 py-1 rounded-lg text-sm bg-slate-100 dark:bg-[#232948] text-slate-700 dark:text-slate-300 border-none"
+        >
+          <option value="">As written</option>
+          {song.arrangements.map((arrangement) => (
+            <option key={arrangement.id} value={arrangement.id}>
+              {arrangement.name}
+            </option>
+          ))}
+        </select>
+      )}
+
       {/* Metadata */}
       <div className="flex items-center gap-4 text-sm text-slate-500">
         <span className="hidden sm:inline">{song.bpm} BPM</span>
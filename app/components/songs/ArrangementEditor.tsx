@@ -0,0 +1,218 @@
+import { useMemo, useState } from 'react'
+import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core'
+import { SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from '@dnd-kit/sortable'
+import { Plus, Trash2 } from 'lucide-react'
+import { cn } from '~/lib/utils'
+import { parseChordPro } from '~/lib/chordpro'
+import { arrangementSections } from '~/lib/timeline'
+import { ArrangementSectionItem } from './ArrangementSectionItem'
+import type { Song, SongArrangement } from '~/types'
+
+interface ArrangementEditorProps {
+  song: Song
+  isSaving: boolean
+  onSave: (arrangements: SongArrangement[]) => void
+  onClose: () => void
+}
+
+/** An arrangement being edited: every entry gets its own id to drag by */
+interface DraftArrangement {
+  id: string
+  name: string
+  entries: { id: string; section: string }[]
+}
+
+const toEntries = (sections: string[]) => sections.map((section) => ({ id: crypto.randomUUID(), section }))
+
+/**
+ * Named orders of the song's sections (Intro, V1, C, V2, C, Solo, C, C,
+ * Outro). Sections are referenced by name, so the lyrics are never
+ * duplicated; the player and setlists pick which arrangement to play.
+ */
+export function ArrangementEditor({ song, isSaving, onSave, onClose }: ArrangementEditorProps) {
+  const sections = useMemo(() => arrangementSections(parseChordPro(song.lyrics).lines), [song.lyrics])
+
+  const [drafts, setDrafts] = useState<DraftArrangement[]>(() =>
+    (song.arrangements ?? []).map(({ id, name, sections }) => ({ id, name, entries: toEntries(sections) }))
+  )
+  const [selectedId, setSelectedId] = useState<string | undefined>(() => song.arrangements?.[0]?.id)
+  const selected = drafts.find((draft) => draft.id === selectedId)
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  )
+
+  const updateSelected = (update: (draft: DraftArrangement) => DraftArrangement) =>
+    setDrafts((prev) => prev.map((draft) => (draft.id === selectedId ? update(draft) : draft)))
+
+  const handleAdd = () => {
+    // A new arrangement starts from the sheet as written
+    const draft = { id: crypto.randomUUID(), name: `Arrangement ${drafts.length + 1}`, entries: toEntries(sections) }
+    setDrafts((prev) => [...prev, draft])
+    setSelectedId(draft.id)
+  }
+
+  const handleDelete = () => {
+    const remaining = drafts.filter((draft) => draft.id !== selectedId)
+    setDrafts(remaining)
+    setSelectedId(remaining[0]?.id)
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event
+    if (!over || !selected) return
+
+    const oldIndex = selected.entries.findIndex((entry) => entry.id === active.id)
+    const newIndex = selected.entries.findIndex((entry) => entry.id === over.id)
+    if (oldIndex === newIndex) return
+
+    updateSelected((draft) => {
+      const entries = [...draft.entries]
+      const [moved] = entries.splice(oldIndex, 1)
+      entries.splice(newIndex, 0, moved)
+      return { ...draft, entries }
+    })
+  }
+
+  const handleSave = () =>
+    onSave(
+      drafts.map((draft, index) => ({
+        id: draft.id,
+        name: draft.name.trim() || `Arrangement ${index + 1}`,
+        sections: draft.entries.map((entry) => entry.section),
+      }))
+    )
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-base font-semibold text-slate-900 dark:text-white">Arrangements</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Orders of the song's sections to play. Each section is played as written on the sheet.
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-sm font-medium text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white"
+        >
+          Close
+        </button>
+      </div>
+
+      {sections.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">
+          Add section headers such as [Verse] or [Chorus] to arrange the song.
+        </p>
+      ) : (
+        <>
+          {/* Arrangements */}
+          <div className="flex flex-wrap items-center gap-2">
+            {drafts.map((draft) => (
+              <button
+                key={draft.id}
+                onClick={() => setSelectedId(draft.id)}
+                aria-pressed={draft.id === selectedId}
+                className={cn(
+                  'px-3 py-1.5 rounded-lg text-sm font-medium transition-colors',
+                  draft.id === selectedId
+                    ? 'bg-indigo-500 text-white'
+                    : 'bg-slate-200 dark:bg-[#232948] text-slate-900 dark:text-white hover:bg-slate-300 dark:hover:bg-[#2a3155]'
+                )}
+              >
+                {draft.name || 'Untitled'}
+              </button>
+            ))}
+            <button
+              onClick={handleAdd}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:bg-slate-200 dark:hover:bg-[#232948]"
+            >
+              <Plus className="w-4 h-4" />
+              New arrangement
+            </button>
+          </div>
+
+          {selected && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={selected.name}
+                  onChange={(e) => updateSelected((draft) => ({ ...draft, name: e.target.value }))}
+                  placeholder="Arrangement name"
+                  aria-label="Arrangement name"
+                  className="flex-1 px-3 py-2 rounded-lg text-sm bg-white dark:bg-[#1a1f35] border border-slate-200 dark:border-slate-700 text-slate-900 dark:text-white"
+                />
+                <button
+                  onClick={handleDelete}
+                  aria-label="Delete arrangement"
+                  className="p-2 text-red-500 hover:text-red-600"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              </div>
+
+              {selected.entries.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-4">
+                  Add the sections in the order they are played.
+                </p>
+              ) : (
+                <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+                  <SortableContext
+                    items={selected.entries.map((entry) => entry.id)}
+                    strategy={verticalListSortingStrategy}
+                  >
+                    <div className="space-y-2">
+                      {selected.entries.map((entry, index) => (
+                        <ArrangementSectionItem
+                          key={entry.id}
+                          id={entry.id}
+                          section={entry.section}
+                          index={index}
+                          isMissing={!sections.includes(entry.section)}
+                          onRemove={() =>
+                            updateSelected((draft) => ({
+                              ...draft,
+                              entries: draft.entries.filter((other) => other.id !== entry.id),
+                            }))
+                          }
+                        />
+                      ))}
+                    </div>
+                  </SortableContext>
+                </DndContext>
+              )}
+
+              {/* Sections to add */}
+              <div className="flex flex-wrap gap-2">
+                {sections.map((section) => (
+                  <button
+                    key={section}
+                    onClick={() =>
+                      updateSelected((draft) => ({ ...draft, entries: [...draft.entries, ...toEntries([section])] }))
+                    }
+                    className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs font-medium bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700"
+                  >
+                    <Plus className="w-3 h-3" />
+                    {section}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="w-full px-4 py-2.5 rounded-xl bg-indigo-500 text-white text-sm font-medium hover:bg-indigo-600 transition-colors disabled:opacity-50"
+      >
+        Save arrangements
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+import { useSortable } from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import { cn } from '~/lib/utils'
+
+interface ArrangementSectionItemProps {
+  /** Id of this entry in the arrangement (a section can appear more than once) */
+  id: string
+  section: string
+  index: number
+  /** The section is no longer on the sheet; the player skips it */
+  isMissing: boolean
+  onRemove: () => void
+}
+
+export function ArrangementSectionItem({ id, section, index, isMissing, onRemove }: ArrangementSectionItemProps) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id })
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  }
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={cn(
+        'flex items-center gap-3 px-3 py-2 rounded-xl',
+        'border border-slate-200 dark:border-[#3b3f54]',
+        'bg-white dark:bg-[#111218]',
+        isDragging && 'shadow-lg'
+      )}
+    >
+      {/* Drag Handle */}
+      <span
+        {...attributes}
+        {...listeners}
+        className="cursor-grab active:cursor-grabbing text-slate-400 hover:text-slate-600"
+      >
+        <span className="material-symbols-outlined">drag_indicator</span>
+      </span>
+
+      {/* Index */}
+      <span className="w-6 text-center text-sm font-medium text-slate-400">
+        {index + 1}
+      </span>
+
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-slate-900 dark:text-white truncate">{section}</p>
+        {isMissing && (
+          <p className="text-xs text-amber-600 dark:text-amber-400">Not on the sheet, skipped when playing</p>
+        )}
+      </div>
+
+      {/* Remove Button */}
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          onRemove()
+        }}
+        aria-label={`Remove ${section}`}
+        className="p-1 text-slate-400 hover:text-red-500 transition-colors"
+      >
+        <span className="material-symbols-outlined text-xl">close</span>
+      </button>
+    </div>
+  )
+}
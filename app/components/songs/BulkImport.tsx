@@ -0,0 +1,252 @@
+import { useState, useCallback } from 'react'
+import { Upload, Check, AlertCircle, Copy, Loader2 } from 'lucide-react'
+import { cn } from '~/lib/utils'
+import { IMPORT_EXTENSIONS } from '~/lib/import'
+import type { BulkImportItem, BulkImportResult, DuplicateAction } from '~/types'
+
+interface BulkImportProps {
+  items: BulkImportItem[]
+  result: BulkImportResult | null
+  isPreparing: boolean
+  isImporting: boolean
+  onFiles: (files: File[]) => void
+  onActionChange: (index: number, action: DuplicateAction) => void
+  onDuplicateActionChange: (action: DuplicateAction) => void
+  onImport: () => void
+  onReset: () => void
+  onDone: () => void
+}
+
+const DUPLICATE_ACTIONS: { value: DuplicateAction; label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'merge', label: 'Merge' },
+]
+
+const ACCEPT = [...IMPORT_EXTENSIONS, '.zip'].join(',')
+
+function ActionPicker({
+  value,
+  onChange,
+  label,
+}: {
+  value: string
+  onChange: (action: DuplicateAction) => void
+  label: string
+}) {
+  return (
+    <div className="flex rounded-lg bg-slate-200 dark:bg-slate-700 p-0.5" role="radiogroup" aria-label={label}>
+      {DUPLICATE_ACTIONS.map((option) => (
+        <button
+          key={option.value}
+          role="radio"
+          aria-checked={value === option.value}
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'px-2 py-1 rounded-md text-xs font-medium transition-colors',
+            value === option.value
+              ? 'bg-white dark:bg-slate-900 text-indigo-600 dark:text-indigo-400 shadow-sm'
+              : 'text-slate-600 dark:text-slate-300'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+function ItemRow({
+  item,
+  onActionChange,
+}: {
+  item: BulkImportItem
+  onActionChange: (action: DuplicateAction) => void
+}) {
+  const song = item.imported?.song
+
+  return (
+    <li className="flex items-center gap-3 p-3 rounded-xl bg-white dark:bg-[#1a1f36] border border-slate-200 dark:border-slate-800">
+      {item.status === 'new' && <Check className="w-4 h-4 shrink-0 text-emerald-500" aria-label="New" />}
+      {item.status === 'duplicate' && <Copy className="w-4 h-4 shrink-0 text-amber-500" aria-label="Duplicate" />}
+      {item.status === 'error' && <AlertCircle className="w-4 h-4 shrink-0 text-red-500" aria-label="Error" />}
+
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-slate-900 dark:text-white truncate">
+          {song ? `${song.title}${song.artist ? ` — ${song.artist}` : ''}` : item.fileName}
+        </p>
+        <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+          {item.status === 'error'
+            ? `${item.fileName}: ${item.error}`
+            : item.status === 'duplicate'
+              ? `${item.fileName} · already ${item.existing ? 'in your library' : `in ${item.duplicateOf}`}`
+              : item.fileName}
+        </p>
+      </div>
+
+      {item.status === 'duplicate' && (
+        <ActionPicker value={item.action} onChange={onActionChange} label={`Action for ${item.fileName}`} />
+      )}
+    </li>
+  )
+}
+
+export function BulkImport({
+  items,
+  result,
+  isPreparing,
+  isImporting,
+  onFiles,
+  onActionChange,
+  onDuplicateActionChange,
+  onImport,
+  onReset,
+  onDone,
+}: BulkImportProps) {
+  const [dragActive, setDragActive] = useState(false)
+
+  const handleDrop = useCallback(
+    (e: React.DragEvent) => {
+      e.preventDefault()
+      setDragActive(false)
+      const files = Array.from(e.dataTransfer.files)
+      if (files.length > 0) onFiles(files)
+    },
+    [onFiles]
+  )
+
+  const handleFileSelect = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(e.target.files ?? [])
+      if (files.length > 0) onFiles(files)
+    },
+    [onFiles]
+  )
+
+  const duplicates = items.filter((i) => i.status === 'duplicate')
+  const counts = {
+    new: items.filter((i) => i.status === 'new').length,
+    duplicate: duplicates.length,
+    error: items.filter((i) => i.status === 'error').length,
+  }
+  // Highlight the shared choice only when every duplicate agrees
+  const sharedAction = duplicates.every((i) => i.action === duplicates[0].action) ? duplicates[0]?.action ?? '' : ''
+
+  // Report after the import has run
+  if (result) {
+    return (
+      <div className="space-y-4">
+        <div className="p-4 rounded-xl bg-slate-100 dark:bg-slate-800 text-sm text-slate-700 dark:text-slate-300 space-y-1">
+          <h3 className="font-semibold text-slate-900 dark:text-white mb-2">Import complete</h3>
+          <p><strong>Created:</strong> {result.created}</p>
+          <p><strong>Overwritten:</strong> {result.overwritten}</p>
+          <p><strong>Merged:</strong> {result.merged}</p>
+          <p><strong>Skipped:</strong> {result.skipped}</p>
+          {result.failed > 0 && <p><strong>Failed:</strong> {result.failed}</p>}
+        </div>
+        <button
+          onClick={onDone}
+          className="w-full py-3 rounded-xl font-medium bg-indigo-500 text-white hover:bg-indigo-600 transition-colors"
+        >
+          Back to library
+        </button>
+      </div>
+    )
+  }
+
+  if (items.length === 0) {
+    return (
+      <div
+        onDragOver={(e) => { e.preventDefault(); setDragActive(true) }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={handleDrop}
+        className={cn(
+          'border-2 border-dashed rounded-xl p-8 text-center transition-colors',
+          dragActive
+            ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20'
+            : 'border-slate-300 dark:border-slate-700'
+        )}
+      >
+        {isPreparing ? (
+          <Loader2 className="w-8 h-8 mx-auto text-indigo-500 animate-spin" />
+        ) : (
+          <>
+            <Upload className="w-8 h-8 mx-auto mb-2 text-slate-400" />
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-2">
+              Drop song files or a .zip here, or
+            </p>
+            <label className="inline-block">
+              <input type="file" multiple accept={ACCEPT} onChange={handleFileSelect} className="hidden" />
+              <span className={cn(
+                'inline-block px-4 py-2 rounded-lg cursor-pointer',
+                'bg-slate-100 dark:bg-slate-800',
+                'text-slate-700 dark:text-slate-300',
+                'hover:bg-slate-200 dark:hover:bg-slate-700',
+                'transition-colors text-sm font-medium'
+              )}>
+                Choose Files
+              </span>
+            </label>
+            <p className="mt-3 text-xs text-slate-500 dark:text-slate-500">
+              ChordPro, OnSong, OpenLyrics, Ultimate Guitar and plain text charts
+            </p>
+          </>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Summary */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          {counts.new} new · {counts.duplicate} duplicates · {counts.error} errors
+        </p>
+        {counts.duplicate > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-500 dark:text-slate-400">All duplicates:</span>
+            <ActionPicker
+              value={sharedAction}
+              onChange={onDuplicateActionChange}
+              label="Action for all duplicates"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Per-file report */}
+      <ul className="space-y-2">
+        {items.map((item, index) => (
+          <ItemRow key={`${item.fileName}-${index}`} item={item} onActionChange={(action) => onActionChange(index, action)} />
+        ))}
+      </ul>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onReset}
+          disabled={isImporting}
+          className={cn(
+            'flex-1 py-3 rounded-xl font-medium',
+            'bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300',
+            'hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors',
+            'disabled:opacity-50'
+          )}
+        >
+          Start over
+        </button>
+        <button
+          onClick={onImport}
+          disabled={isImporting || counts.new + counts.duplicate === 0}
+          className={cn(
+            'flex-1 py-3 rounded-xl font-medium',
+            'bg-indigo-500 text-white hover:bg-indigo-600 transition-colors',
+            'disabled:opacity-50 disabled:cursor-not-allowed'
+          )}
+        >
+          {isImporting ? 'Importing…' : 'Import'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,63 +1,81 @@
 import { useState, useCallback } from 'react'
 import { Upload, FileText, X, Check } from 'lucide-react'
 import { cn } from '~/lib/utils'
-import { parseChordProLegacy, type ChordProSong } from '~/lib/chordpro'
+import { importSongFile, IMPORT_EXTENSIONS } from '~/lib/import'
+import type { CreateSongInput, ImportedSong, ImportFormat } from '~/types'
 
 interface ChordProImporterProps {
-  onImport: (song: ChordProSong) => void
+  /** Called with the song fields; lyrics holds the ChordPro body */
+  onImport: (song: CreateSongInput) => void
   onCancel: () => void
 }
 
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  chordpro: 'ChordPro',
+  text: 'Chords over lyrics',
+  onsong: 'OnSong',
+  openlyrics: 'OpenLyrics',
+  'ultimate-guitar': 'Ultimate Guitar',
+}
+
 export function ChordProImporter({ onImport, onCancel }: ChordProImporterProps) {
   const [content, setContent] = useState('')
-  const [preview, setPreview] = useState<ChordProSong | null>(null)
+  /** Name of the loaded file; pasted text is detected from its content */
+  const [fileName, setFileName] = useState('')
+  const [preview, setPreview] = useState<ImportedSong | null>(null)
+  const [error, setError] = useState<string | null>(null)
   const [dragActive, setDragActive] = useState(false)
 
   const handleParse = useCallback(() => {
     if (!content.trim()) return
-    const parsed = parseChordProLegacy(content)
-    setPreview(parsed)
-  }, [content])
+    try {
+      setPreview(importSongFile(fileName, content))
+      setError(null)
+    } catch (err) {
+      setPreview(null)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }, [content, fileName])
 
   const handleImport = useCallback(() => {
     if (preview) {
-      onImport(preview)
+      onImport(preview.song)
     }
   }, [preview, onImport])
 
+  const loadFile = useCallback((file: File) => {
+    const reader = new FileReader()
+    reader.onload = (event) => {
+      const text = event.target?.result as string
+      setContent(text)
+      setFileName(file.name)
+      setPreview(null)
+      setError(null)
+    }
+    reader.readAsText(file)
+  }, [])
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     setDragActive(false)
 
     const file = e.dataTransfer.files[0]
-    if (file && (file.name.endsWith('.cho') || file.name.endsWith('.chopro') || file.name.endsWith('.txt'))) {
-      const reader = new FileReader()
-      reader.onload = (event) => {
-        const text = event.target?.result as string
-        setContent(text)
-      }
-      reader.readAsText(file)
+    if (file && IMPORT_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext))) {
+      loadFile(file)
     }
-  }, [])
+  }, [loadFile])
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
-    if (file) {
-      const reader = new FileReader()
-      reader.onload = (event) => {
-        const text = event.target?.result as string
-        setContent(text)
-      }
-      reader.readAsText(file)
-    }
-  }, [])
+    if (file) loadFile(file)
+  }, [loadFile])
 
   return (
     <div className="space-y-4">
       {/* Header */}
       <div className="flex items-center justify-between">
         <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
-          Import ChordPro
+          Import Song
         </h2>
         <button
           onClick={onCancel}
@@ -81,12 +99,12 @@ export function ChordProImporter({ onImport, onCancel }: ChordProImporterProps)
       >
         <Upload className="w-8 h-8 mx-auto mb-2 text-slate-400" />
         <p className="text-sm text-slate-600 dark:text-slate-400 mb-2">
-          Drag & drop a ChordPro file here, or
+          Drag & drop a ChordPro, OnSong, OpenLyrics or text file here, or
         </p>
         <label className="inline-block">
           <input
             type="file"
-            accept=".cho,.chopro,.txt"
+            accept={IMPORT_EXTENSIONS.join(',')}
             onChange={handleFileSelect}
             className="hidden"
           />
@@ -105,11 +123,15 @@ export function ChordProImporter({ onImport, onCancel }: ChordProImporterProps)
       {/* Text Input */}
       <div>
         <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
-          Or paste ChordPro content:
+          Or paste ChordPro or chords-over-lyrics text:
         </label>
         <textarea
           value={content}
-          onChange={(e) => setContent(e.target.value)}
+          onChange={(e) => {
+            setContent(e.target.value)
+            setFileName('')
+            setPreview(null)
+          }}
           placeholder={`{title: Song Name}
 {artist: Artist Name}
 {key: G}
@@ -148,6 +170,12 @@ export function ChordProImporter({ onImport, onCancel }: ChordProImporterProps)
         Preview Import
       </button>
 
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+
       {/* Preview */}
       {preview && (
         <div className="p-4 rounded-xl bg-slate-100 dark:bg-slate-800 space-y-2">
@@ -155,13 +183,35 @@ export function ChordProImporter({ onImport, onCancel }: ChordProImporterProps)
             Preview
           </h3>
           <div className="text-sm text-slate-600 dark:text-slate-400 space-y-1">
-            <p><strong>Title:</strong> {preview.title || '(not set)'}</p>
-            <p><strong>Artist:</strong> {preview.artist || '(not set)'}</p>
-            {preview.key && <p><strong>Key:</strong> {preview.key}</p>}
-            {preview.tempo && <p><strong>Tempo:</strong> {preview.tempo} BPM</p>}
-            <p><strong>Lines:</strong> {preview.lines.length}</p>
+            <p><strong>Format:</strong> {FORMAT_LABELS[preview.format]}</p>
+            <p><strong>Title:</strong> {preview.song.title || '(not set)'}</p>
+            <p><strong>Artist:</strong> {preview.song.artist || '(not set)'}</p>
+            {preview.song.key && <p><strong>Key:</strong> {preview.song.key}</p>}
+            {preview.song.bpm && <p><strong>Tempo:</strong> {preview.song.bpm} BPM</p>}
           </div>
 
+          {/* Side-by-side: pasted text and the ChordPro that will be saved */}
+          {preview.format !== 'chordpro' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2" data-testid="import-conversion">
+              <div>
+                <p className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">
+                  {FORMAT_LABELS[preview.format]}
+                </p>
+                <pre className="p-3 rounded-lg bg-white dark:bg-[#1a1f36] text-xs font-mono text-slate-700 dark:text-slate-300 overflow-x-auto max-h-80">
+                  {content}
+                </pre>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">
+                  ChordPro
+                </p>
+                <pre className="p-3 rounded-lg bg-white dark:bg-[#1a1f36] text-xs font-mono text-indigo-700 dark:text-indigo-300 overflow-x-auto max-h-80">
+                  {preview.chordPro}
+                </pre>
+              </div>
+            </div>
+          )}
+
           <button
             onClick={handleImport}
             className={cn(
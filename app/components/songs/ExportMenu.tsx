@@ -0,0 +1,72 @@
+import { useState, useRef, useEffect } from 'react'
+import { Download } from 'lucide-react'
+import { cn } from '~/lib/utils'
+import type { ExportFormat } from '~/types'
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void
+  className?: string
+}
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'chordpro', label: 'ChordPro', description: '.cho file' },
+  { format: 'text', label: 'Plain text', description: 'Chords above lyrics (.txt)' },
+  { format: 'pdf', label: 'Print / PDF', description: 'Printable pages' },
+]
+
+export function ExportMenu({ onExport, className }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('pointerdown', handlePointerDown)
+    return () => document.removeEventListener('pointerdown', handlePointerDown)
+  }, [isOpen])
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        className={cn(
+          'p-2 text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white',
+          className
+        )}
+        aria-label="Export"
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        <Download className="w-5 h-5" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className={cn(
+            'absolute right-0 top-full mt-1 z-30 w-56 py-1 rounded-xl shadow-lg',
+            'bg-white dark:bg-[#1a1f36] border border-slate-200 dark:border-slate-700'
+          )}
+        >
+          {EXPORT_OPTIONS.map((option) => (
+            <button
+              key={option.format}
+              role="menuitem"
+              onClick={() => {
+                setIsOpen(false)
+                onExport(option.format)
+              }}
+              className="w-full px-4 py-2 text-left hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
+            >
+              <span className="block text-sm font-medium text-slate-900 dark:text-white">{option.label}</span>
+              <span className="block text-xs text-slate-500 dark:text-slate-400">{option.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
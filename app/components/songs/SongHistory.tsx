@@ -0,0 +1,168 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, RotateCcw } from 'lucide-react'
+import { cn } from '~/lib/utils'
+import { diffLines, snapshotSong } from '~/lib/revisions'
+import type { Song, SongRevision, SongSnapshot } from '~/types'
+
+interface SongHistoryProps {
+  song: Song
+  /** Newest first */
+  revisions: SongRevision[]
+  isRestoring: boolean
+  onRestore: (revisionId: string) => void
+  onClose: () => void
+}
+
+const FIELD_LABELS: Record<Exclude<keyof SongSnapshot, 'lyrics'>, string> = {
+  title: 'Title',
+  artist: 'Artist',
+  bpm: 'BPM',
+  key: 'Key',
+  timeSignature: 'Time',
+  duration: 'Duration',
+  tags: 'Tags',
+  notes: 'Notes',
+  capo: 'Capo',
+  accidentals: 'Accidentals',
+  performanceKey: 'Performance key',
+  timingOverrides: 'Timing',
+  timingMap: 'Recorded timing',
+  arrangements: 'Arrangements',
+}
+
+function formatValue(value: SongSnapshot[keyof SongSnapshot]): string {
+  if (value === undefined || value === '') return '—'
+  if (Array.isArray(value)) {
+    if (!value.length) return '—'
+    // Arrangements show by name
+    return value.map((item) => (typeof item === 'object' ? item.name : item)).join(', ')
+  }
+  if (typeof value === 'object') {
+    const count = Object.keys(value).length
+    return count === 1 ? '1 timing change' : `${count} timing changes`
+  }
+  return String(value)
+}
+
+/** Metadata that differs between a revision and the current song */
+function metadataChanges(before: SongSnapshot, after: SongSnapshot) {
+  return (Object.keys(FIELD_LABELS) as (keyof typeof FIELD_LABELS)[])
+    .map((field) => ({ label: FIELD_LABELS[field], from: formatValue(before[field]), to: formatValue(after[field]) }))
+    .filter((change) => change.from !== change.to)
+}
+
+function RevisionDetails({ revision, song }: { revision: SongRevision; song: Song }) {
+  const changes = metadataChanges(revision.snapshot, snapshotSong(song))
+  const diff = diffLines(revision.snapshot.lyrics, song.lyrics)
+  const lyricsChanged = diff.some((line) => line.type !== 'same')
+
+  return (
+    <div className="px-3 pb-3 space-y-3">
+      {changes.length > 0 && (
+        <ul className="text-xs text-slate-600 dark:text-slate-400 space-y-0.5">
+          {changes.map((change) => (
+            <li key={change.label}>
+              <strong>{change.label}:</strong> {change.from} → {change.to}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {lyricsChanged ? (
+        <pre className="text-xs font-mono rounded-lg bg-slate-50 dark:bg-[#101322] p-2 overflow-x-auto max-h-80">
+          {diff.map((line, index) => (
+            <div
+              key={index}
+              className={cn(
+                line.type === 'added' && 'bg-emerald-100 text-emerald-800 dark:bg-emerald-900/30 dark:text-emerald-300',
+                line.type === 'removed' && 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+                line.type === 'same' && 'text-slate-500 dark:text-slate-400'
+              )}
+            >
+              {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+              {line.text}
+            </div>
+          ))}
+        </pre>
+      ) : (
+        <p className="text-xs text-slate-500 dark:text-slate-400">Lyrics are the same as now.</p>
+      )}
+    </div>
+  )
+}
+
+export function SongHistory({ song, revisions, isRestoring, onRestore, onClose }: SongHistoryProps) {
+  const [openId, setOpenId] = useState<string | null>(null)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-base font-semibold text-slate-900 dark:text-white">History</h2>
+        <button
+          onClick={onClose}
+          className="text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          Back to editing
+        </button>
+      </div>
+
+      {revisions.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          No earlier versions yet. Each time you save changes, the previous version is kept here.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Open a version to see what has changed since (- that version, + now).
+          </p>
+          <ul className="space-y-2">
+            {revisions.map((revision) => {
+              const isOpen = openId === revision.id
+              return (
+                <li
+                  key={revision.id}
+                  className="rounded-xl bg-white dark:bg-[#1a1f36] border border-slate-200 dark:border-slate-800"
+                >
+                  <div className="flex items-center gap-2 p-3">
+                    <button
+                      onClick={() => setOpenId(isOpen ? null : revision.id)}
+                      aria-expanded={isOpen}
+                      className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                    >
+                      {isOpen ? (
+                        <ChevronDown className="w-4 h-4 shrink-0 text-slate-400" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4 shrink-0 text-slate-400" />
+                      )}
+                      <span className="min-w-0">
+                        <span className="block text-sm font-medium text-slate-900 dark:text-white">
+                          {new Date(revision.createdAt).toLocaleString()}
+                        </span>
+                        <span className="block text-xs text-slate-500 dark:text-slate-400 truncate">
+                          {revision.snapshot.title} · {revision.snapshot.key}
+                        </span>
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => onRestore(revision.id)}
+                      disabled={isRestoring}
+                      className={cn(
+                        'flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium',
+                        'bg-indigo-500 text-white hover:bg-indigo-600 transition-colors',
+                        'disabled:opacity-50'
+                      )}
+                    >
+                      <RotateCcw className="w-3.5 h-3.5" />
+                      Restore
+                    </button>
+                  </div>
+                  {isOpen && <RevisionDetails revision={revision} song={song} />}
+                </li>
+              )
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
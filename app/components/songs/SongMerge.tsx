@@ -0,0 +1,207 @@
+import { useState, type ReactNode } from 'react'
+import { cn } from '~/lib/utils'
+import { buildMergedSong } from '~/lib/sync'
+import type { MergeChoice } from '~/lib/chordpro'
+import type { ConflictChoice, MergedSongField, Song, SongFieldChoices, SongMerge as SongMergeResult } from '~/types'
+
+interface SongMergeProps {
+  merge: SongMergeResult
+  isSaving: boolean
+  onSave: (song: Song) => void
+  onCancel: () => void
+}
+
+const FIELD_LABELS: Record<MergedSongField, string> = {
+  title: 'Title',
+  artist: 'Artist',
+  bpm: 'BPM',
+  key: 'Key',
+  timeSignature: 'Time',
+  duration: 'Duration',
+  tags: 'Tags',
+  notes: 'Notes',
+  capo: 'Capo',
+  accidentals: 'Accidentals',
+  performanceKey: 'Performance key',
+  timingOverrides: 'Timing',
+  timingMap: 'Recorded timing',
+  arrangements: 'Arrangements',
+}
+
+const SIDE_LABELS: Record<MergeChoice, string> = {
+  local: 'This device',
+  remote: 'Other device',
+  both: 'Keep both',
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—'
+  if (Array.isArray(value)) {
+    if (!value.length) return '—'
+    // Arrangements show by name
+    return value.map((item) => (typeof item === 'object' ? item.name : item)).join(', ')
+  }
+  if (typeof value === 'object') {
+    const count = Object.keys(value).length
+    return count === 1 ? '1 timing change' : `${count} timing changes`
+  }
+  return String(value)
+}
+
+function Option({
+  label,
+  selected,
+  onSelect,
+  children,
+}: {
+  label: string
+  selected: boolean
+  onSelect: () => void
+  children: ReactNode
+}) {
+  return (
+    <button
+      onClick={onSelect}
+      aria-pressed={selected}
+      className={cn(
+        'w-full text-left rounded-lg border p-2 transition-colors',
+        selected
+          ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20'
+          : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600'
+      )}
+    >
+      <span className="block text-xs font-medium text-slate-500 dark:text-slate-400 mb-1">{label}</span>
+      {children}
+    </button>
+  )
+}
+
+function Blocks({ blocks }: { blocks: string[] }) {
+  return (
+    <pre className="text-xs font-mono whitespace-pre-wrap text-slate-800 dark:text-slate-200">
+      {blocks.length > 0 ? blocks.join('\n') : <span className="italic text-slate-400">(removed)</span>}
+    </pre>
+  )
+}
+
+/**
+ * Resolution screen for a song edited on two devices. Changes that merged
+ * on their own are shown as context; for the rest, pick a side.
+ */
+export function SongMerge({ merge, isSaving, onSave, onCancel }: SongMergeProps) {
+  const [fieldChoices, setFieldChoices] = useState<SongFieldChoices>({})
+  const [lyricChoices, setLyricChoices] = useState<MergeChoice[]>(() =>
+    new Array<MergeChoice>(merge.lyrics.conflicts).fill(merge.newer)
+  )
+
+  const fieldChoice = (field: MergedSongField): ConflictChoice => fieldChoices[field] ?? merge.newer
+  const chooseLyrics = (index: number, choice: MergeChoice) =>
+    setLyricChoices((prev) => prev.map((current, i) => (i === index ? choice : current)))
+
+  const clashes = merge.fields.length + merge.lyrics.conflicts
+  let conflictIndex = 0
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-base font-semibold text-slate-900 dark:text-white">{merge.song.title}</h2>
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Edited here and on another device. Changes that don't overlap are already combined;{' '}
+          {clashes === 1 ? 'pick a version for the one that does.' : `pick a version for the ${clashes} that do.`}
+        </p>
+      </div>
+
+      {merge.fields.length > 0 && (
+        <section className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Details</h3>
+          {merge.fields.map((conflict) => (
+            <div key={conflict.field} className="space-y-1">
+              <p className="text-xs font-medium text-slate-600 dark:text-slate-300">
+                {FIELD_LABELS[conflict.field]}
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {(['local', 'remote'] as const).map((side) => (
+                  <Option
+                    key={side}
+                    label={SIDE_LABELS[side]}
+                    selected={fieldChoice(conflict.field) === side}
+                    onSelect={() => setFieldChoices((prev) => ({ ...prev, [conflict.field]: side }))}
+                  >
+                    <span className="text-sm text-slate-900 dark:text-white break-words">
+                      {formatValue(conflict[side])}
+                    </span>
+                  </Option>
+                ))}
+              </div>
+            </div>
+          ))}
+        </section>
+      )}
+
+      <section className="space-y-3">
+        <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Lyrics & chords</h3>
+        {merge.lyrics.hunks.map((hunk, index) => {
+          if (hunk.type === 'merged') {
+            return (
+              <div key={index} className="rounded-lg bg-slate-50 dark:bg-[#101322] p-2 opacity-70">
+                <Blocks blocks={hunk.blocks} />
+              </div>
+            )
+          }
+
+          const current = conflictIndex++
+          return (
+            <div
+              key={index}
+              className="rounded-xl border border-amber-200 dark:border-amber-900/40 bg-amber-50/50 dark:bg-amber-900/10 p-3 space-y-2"
+            >
+              <p className="text-xs font-medium text-amber-800 dark:text-amber-300">
+                {hunk.section ? `Changed on both devices in ${hunk.section}` : 'Changed on both devices'}
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {(['local', 'remote'] as const).map((side) => (
+                  <Option
+                    key={side}
+                    label={SIDE_LABELS[side]}
+                    selected={lyricChoices[current] === side}
+                    onSelect={() => chooseLyrics(current, side)}
+                  >
+                    <Blocks blocks={hunk[side]} />
+                  </Option>
+                ))}
+              </div>
+              <button
+                onClick={() => chooseLyrics(current, 'both')}
+                aria-pressed={lyricChoices[current] === 'both'}
+                className={cn(
+                  'text-xs font-medium',
+                  lyricChoices[current] === 'both'
+                    ? 'text-indigo-600 dark:text-indigo-400'
+                    : 'text-slate-500 dark:text-slate-400 hover:underline'
+                )}
+              >
+                {SIDE_LABELS.both} (this device's first)
+              </button>
+            </div>
+          )
+        })}
+      </section>
+
+      <div className="flex gap-3">
+        <button
+          onClick={onCancel}
+          className="flex-1 px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-[#232948] text-slate-700 dark:text-slate-300 text-sm font-medium hover:bg-slate-200 dark:hover:bg-[#2a3158] transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(buildMergedSong(merge, fieldChoices, lyricChoices))}
+          disabled={isSaving}
+          className="flex-1 px-4 py-2.5 rounded-xl bg-indigo-500 text-white text-sm font-medium hover:bg-indigo-600 transition-colors disabled:opacity-50"
+        >
+          Save merged song
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,215 @@
+import { useMemo, useState } from 'react'
+import { Minus, Plus, RotateCcw } from 'lucide-react'
+import { cn } from '~/lib/utils'
+import {
+  applyTimingOverrides,
+  createSongTimeline,
+  isTimeable,
+  sectionElements,
+  timingKeys,
+  timingLabel,
+} from '~/lib/timeline'
+import type { SongTimeline, TimingOverrides } from '~/lib/timeline'
+import type { Song } from '~/types'
+
+interface TimingEditorProps {
+  song: Song
+  isSaving: boolean
+  onSave: (overrides: TimingOverrides) => void
+  onClose: () => void
+}
+
+/** Same estimation the player's autoscroll starts from (before recorded timing) */
+const PLAYER_OPTIONS = {
+  defaultBarsPerLine: 2,
+  defaultBeatsPerChord: 4,
+  intelligentEstimation: false,
+}
+
+/** Beats of the element, or of its whole section for a section header */
+function beatsAt(timeline: SongTimeline, index: number): number {
+  const element = timeline.elements[index]
+  if (element.type !== 'section') return element.durationBeats
+  return sectionElements(timeline.elements, index).reduce((sum, member) => sum + member.durationBeats, 0)
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+function formatTime(seconds: number): string {
+  const min = Math.floor(seconds / 60)
+  const sec = Math.round(seconds % 60)
+  return `${min}:${sec.toString().padStart(2, '0')}`
+}
+
+/**
+ * Per-song timing for smart autoscroll. Every line shows the bars the
+ * timeline estimated; changing a line or a whole section stores an
+ * override with the song, leaving the lyrics untouched.
+ */
+export function TimingEditor({ song, isSaving, onSave, onClose }: TimingEditorProps) {
+  const [overrides, setOverrides] = useState<TimingOverrides>(() => ({ ...song.timingOverrides }))
+
+  const estimated = useMemo(
+    () =>
+      createSongTimeline(song.lyrics, song.bpm || 120, song.timeSignature || '4/4', {
+        ...PLAYER_OPTIONS,
+        key: song.key,
+        timingMap: song.timingMap,
+      }),
+    [song.lyrics, song.bpm, song.timeSignature, song.key, song.timingMap]
+  )
+  const keys = useMemo(() => timingKeys(estimated.elements), [estimated])
+  const timeline = useMemo(() => applyTimingOverrides(estimated, overrides), [estimated, overrides])
+  const setBeats = (index: number, beats: number) => {
+    const key = keys[index]
+    setOverrides((prev) => {
+      const next = { ...prev }
+      delete next[key]
+      // Setting a row back to what it would be anyway removes its override
+      const fallback = beatsAt(applyTimingOverrides(estimated, next), index)
+      if (round(beats) !== round(fallback)) next[key] = Math.max(0, round(beats))
+      return next
+    })
+  }
+
+  const resetRow = (index: number) =>
+    setOverrides((prev) => {
+      const next = { ...prev }
+      delete next[keys[index]]
+      return next
+    })
+
+  // Overrides for lines that were since removed from the lyrics are dropped
+  const handleSave = () =>
+    onSave(Object.fromEntries(keys.filter((key) => key in overrides).map((key) => [key, overrides[key]])))
+
+  // One row per line on the sheet: later passes through a repeat share its timing
+  const rows = estimated.elements
+    .map((element, index) => ({ element, index }))
+    .filter(({ element, index }) => isTimeable(element) && estimated.elements.findIndex((e) => e.id === element.id) === index)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-base font-semibold text-slate-900 dark:text-white">Timing</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Bars per line for autoscroll at {estimated.bpm} BPM. A section's bars stretch all its lines.
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-sm font-medium text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white"
+        >
+          Close
+        </button>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">
+          Add lyrics or chords to set their timing.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {rows.map(({ element, index }) => {
+            const isSection = element.type === 'section'
+            // Bars in the meter the element is played in
+            const { beatsPerBar } = element
+            const beats = beatsAt(timeline, index)
+            const isOverridden = keys[index] in overrides
+            const source = song.timingMap && keys[index] in song.timingMap ? 'Recorded' : 'Estimated'
+
+            return (
+              <li
+                key={element.id}
+                className={cn(
+                  'flex items-center gap-2 rounded-lg px-3 py-2',
+                  isSection
+                    ? 'bg-slate-100 dark:bg-[#232948] mt-3'
+                    : 'bg-white dark:bg-[#1a1f35]'
+                )}
+              >
+                <div className="flex-1 min-w-0">
+                  <p
+                    className={cn(
+                      'text-sm truncate text-slate-900 dark:text-white',
+                      isSection ? 'font-semibold' : 'font-mono'
+                    )}
+                  >
+                    {timingLabel(element)}
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {isOverridden ? `${source} ${round(beatsAt(estimated, index) / beatsPerBar)} bars` : source}
+                    {' · '}
+                    {round(beats)} beats
+                  </p>
+                </div>
+
+                <button
+                  onClick={() => setBeats(index, beats - 1)}
+                  disabled={beats <= 0}
+                  aria-label="One beat less"
+                  className="p-1.5 rounded-lg text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40"
+                >
+                  <Minus className="w-4 h-4" />
+                </button>
+                <input
+                  type="number"
+                  min={0}
+                  step={1 / beatsPerBar}
+                  value={round(beats / beatsPerBar)}
+                  onChange={(e) => {
+                    const bars = parseFloat(e.target.value)
+                    if (!Number.isNaN(bars)) setBeats(index, bars * beatsPerBar)
+                  }}
+                  aria-label={`Bars for ${timingLabel(element)}`}
+                  className={cn(
+                    'w-16 px-2 py-1 rounded-lg text-sm text-center',
+                    'bg-slate-50 dark:bg-[#101322] border',
+                    isOverridden
+                      ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                      : 'border-slate-200 dark:border-slate-700 text-slate-900 dark:text-white'
+                  )}
+                />
+                <button
+                  onClick={() => setBeats(index, beats + 1)}
+                  aria-label="One beat more"
+                  className="p-1.5 rounded-lg text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => resetRow(index)}
+                  disabled={!isOverridden}
+                  aria-label="Use estimate"
+                  className="p-1.5 rounded-lg text-slate-400 hover:text-slate-900 dark:hover:text-white disabled:invisible"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between text-sm text-slate-600 dark:text-slate-400">
+        <span>
+          {round(timeline.totalBars)} bars · {formatTime(timeline.totalDurationSeconds)}
+        </span>
+        {Object.keys(overrides).length > 0 && (
+          <button onClick={() => setOverrides({})} className="font-medium hover:underline">
+            Reset all
+          </button>
+        )}
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={isSaving}
+        className="w-full px-4 py-2.5 rounded-xl bg-indigo-500 text-white text-sm font-medium hover:bg-indigo-600 transition-colors disabled:opacity-50"
+      >
+        Save timing
+      </button>
+    </div>
+  )
+}
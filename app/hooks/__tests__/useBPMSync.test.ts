@@ -193,6 +193,82 @@ describe('useBPMSync', () => {
     expect(mockTransport.position).toBe('2:2:0')
   })
 
+  it('should read the exact beat from the Transport clock', () => {
+    const { result } = renderHook(() =>
+      useBPMSync({
+        bpm: 120,
+        timeSignature: '4/4',
+        isPlaying: false
+      })
+    )
+
+    // Bar 2, beat 2, two sixteenths in = 10.5 beats, between 16th-note state updates
+    mockTransport.position = '2:2:2'
+
+    expect(result.current.getCurrentBeat()).toBe(10.5)
+  })
+
+  it('should follow the tempo map when seeking', () => {
+    const tempoMap = [
+      { beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 },
+      { beat: 16, bar: 4, bpm: 90, beatsPerBar: 3 }
+    ]
+    const { result } = renderHook(() =>
+      useBPMSync({
+        bpm: 120,
+        timeSignature: '4/4',
+        tempoMap,
+        isPlaying: false
+      })
+    )
+
+    act(() => {
+      result.current.seekToBeat(20)
+    })
+
+    // Transport keeps counting in 4/4; the song is in its second 3/4 bar
+    expect(mockTransport.position).toBe('5:0:0')
+    expect(mockTransport.bpm.value).toBe(90)
+    expect(result.current.currentBar).toBe(5)
+    expect(result.current.currentBeatInBar).toBe(1)
+
+    act(() => {
+      result.current.reset()
+    })
+
+    expect(mockTransport.bpm.value).toBe(120)
+  })
+
+  it('should change tempo when playback reaches a tempo change', async () => {
+    const tempoMap = [
+      { beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 },
+      { beat: 16, bar: 4, bpm: 60, beatsPerBar: 4 }
+    ]
+    renderHook(() =>
+      useBPMSync({
+        bpm: 120,
+        timeSignature: '4/4',
+        tempoMap,
+        isPlaying: true
+      })
+    )
+
+    await waitFor(() => {
+      expect(mockTone.Loop).toHaveBeenCalled()
+    })
+
+    const loopInstances = (mockTone.Loop as any).mock.results
+    const loopInstance = loopInstances[loopInstances.length - 1].value
+
+    mockTransport.position = '3:3:0'
+    act(() => loopInstance.callback(1))
+    expect(mockTransport.bpm.setValueAtTime).not.toHaveBeenCalled()
+
+    mockTransport.position = '4:0:0'
+    act(() => loopInstance.callback(2))
+    expect(mockTransport.bpm.setValueAtTime).toHaveBeenCalledWith(60, 2)
+  })
+
   it('should sync with isPlaying prop', async () => {
     const { result, rerender } = renderHook(
       ({ isPlaying }) =>
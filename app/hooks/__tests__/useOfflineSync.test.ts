@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { createElement, type ReactNode } from 'react'
+import { renderHook, act } from '@testing-library/react'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { useOfflineSync } from '../useOfflineSync'
+import { clearPendingChanges, syncWith } from '~/lib/sync'
+import type { SyncTransport } from '~/types'
+
+vi.mock('~/lib/sync', () => ({
+  countPendingChanges: vi.fn(() => Promise.resolve(0)),
+  listConflicts: vi.fn(() => Promise.resolve([])),
+  clearPendingChanges: vi.fn(() => Promise.resolve()),
+  resolveConflict: vi.fn(() => Promise.resolve()),
+  syncWith: vi.fn(() => Promise.resolve({ pushed: 0, pulled: 0, conflicts: 0, syncedAt: new Date('2024-05-01') })),
+}))
+
+const transport = {} as SyncTransport
+
+function wrapper({ children }: { children: ReactNode }) {
+  return createElement(QueryClientProvider, { client: new QueryClient() }, children)
+}
+
+/** Let the sync promises settle */
+const flush = () => act(async () => {})
+
+describe('useOfflineSync', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.mocked(syncWith).mockClear()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should pull on start, on focus and periodically with auto-sync and no local changes', async () => {
+    renderHook(() => useOfflineSync({ transport, autoSync: true }), { wrapper })
+    await flush()
+    expect(syncWith).toHaveBeenCalledTimes(1)
+
+    window.dispatchEvent(new Event('focus'))
+    await flush()
+    expect(syncWith).toHaveBeenCalledTimes(2)
+
+    await act(async () => {
+      vi.advanceTimersByTime(5 * 60 * 1000)
+    })
+    expect(syncWith).toHaveBeenCalledTimes(3)
+  })
+
+  it('should not pull on its own without auto-sync', async () => {
+    renderHook(() => useOfflineSync({ transport }), { wrapper })
+    window.dispatchEvent(new Event('focus'))
+    await flush()
+
+    expect(syncWith).not.toHaveBeenCalled()
+  })
+
+  it('should report every successful sync, automatic ones included', async () => {
+    const onSynced = vi.fn()
+    const { result } = renderHook(() => useOfflineSync({ transport, autoSync: true, onSynced }), { wrapper })
+    await flush()
+
+    expect(onSynced).toHaveBeenCalledWith(expect.objectContaining({ syncedAt: new Date('2024-05-01') }))
+    expect(result.current.status.lastSyncDate).toEqual(new Date('2024-05-01'))
+  })
+
+  it('should clear the pending changes from the change log', async () => {
+    const { result } = renderHook(() => useOfflineSync({ transport }), { wrapper })
+    await act(() => result.current.clearPendingChanges())
+
+    expect(clearPendingChanges).toHaveBeenCalled()
+  })
+})
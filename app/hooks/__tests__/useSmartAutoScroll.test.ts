@@ -125,7 +125,8 @@ describe('useSmartAutoScroll', () => {
         totalBars: 4,
         totalDurationSeconds: 8,
         beatsPerBar: 4,
-        bpm: 120
+        bpm: 120,
+        tempoMap: [{ beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 }]
       },
       isReady: true,
       getElementAtBeat: vi.fn((beat: number) => {
@@ -190,7 +191,8 @@ describe('useSmartAutoScroll', () => {
         totalBars: 0,
         totalDurationSeconds: 0,
         beatsPerBar: 4,
-        bpm: 120
+        bpm: 120,
+        tempoMap: [{ beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 }]
       },
       isReady: true,
       getElementAtBeat: vi.fn(),
@@ -226,7 +228,8 @@ describe('useSmartAutoScroll', () => {
         totalBars: 2,
         totalDurationSeconds: 4,
         beatsPerBar: 4,
-        bpm: 120
+        bpm: 120,
+        tempoMap: [{ beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 }]
       },
       isReady: true,
       getElementAtBeat: vi.fn(),
@@ -375,7 +378,8 @@ describe('useSmartAutoScroll', () => {
         totalBars: 2,
         totalDurationSeconds: 4,
         beatsPerBar: 4,
-        bpm: 120
+        bpm: 120,
+        tempoMap: [{ beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 }]
       },
       isReady: true,
       getElementAtBeat: vi.fn((beat: number) => {
@@ -451,7 +455,8 @@ describe('useSmartAutoScroll', () => {
         totalBars: 2,
         totalDurationSeconds: 4,
         beatsPerBar: 4,
-        bpm: 120
+        bpm: 120,
+        tempoMap: [{ beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 }]
       },
       isReady: true,
       getElementAtBeat: getElementAtBeatMock,
@@ -539,7 +544,8 @@ describe('useSmartAutoScroll', () => {
         totalBars: 0,
         totalDurationSeconds: 0,
         beatsPerBar: 4,
-        bpm: 120
+        bpm: 120,
+        tempoMap: [{ beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 }]
       },
       isReady: true,
       getElementAtBeat: vi.fn(),
@@ -791,7 +797,8 @@ describe('useSmartAutoScroll', () => {
           totalBars: 2,
           totalDurationSeconds: 4,
           beatsPerBar: 4,
-          bpm: 120
+          bpm: 120,
+          tempoMap: [{ beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 }]
         },
         isReady: true,
         error: null,
@@ -875,7 +882,8 @@ describe('useSmartAutoScroll', () => {
           totalBars: 2,
           totalDurationSeconds: 4,
           beatsPerBar: 4,
-          bpm: 120
+          bpm: 120,
+          tempoMap: [{ beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 }]
         },
         isReady: true,
         error: null,
@@ -938,7 +946,8 @@ describe('useSmartAutoScroll', () => {
           totalBars: 0,
           totalDurationSeconds: 0,
           beatsPerBar: 4,
-          bpm: 120
+          bpm: 120,
+          tempoMap: [{ beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 }]
         },
         isReady: true,
         error: null,
@@ -99,12 +99,21 @@ vi.mock('~/lib/db', () => {
             return Promise.resolve()
           }
         )
+      },
+      songRevisions: {
+        where: vi.fn(() => ({
+          equals: vi.fn(() => ({ delete: vi.fn(() => Promise.resolve(0)) }))
+        }))
       }
     },
     __resetMock: resetMock
   }
 })
 
+vi.mock('~/lib/sync', () => ({
+  recordChange: vi.fn(() => Promise.resolve())
+}))
+
 function createWrapper() {
   const queryClient = new QueryClient({
     defaultOptions: {
@@ -189,6 +198,7 @@ describe('useSongLibrary - deleteSong cascade', () => {
 
     expect(db.songs.delete).toHaveBeenCalledWith('s1')
     expect(db.setlists.update).not.toHaveBeenCalled()
+    expect(db.songRevisions.where).toHaveBeenCalledWith('songId')
   })
 
   it('should update single setlist when song is in one setlist only', async () => {
@@ -222,6 +232,38 @@ describe('useSongLibrary - deleteSong cascade', () => {
     })
   })
 
+  it('should drop the deleted song\'s performance key and arrangement from setlists', async () => {
+    const { db } = await import('~/lib/db')
+    vi.mocked(db.setlists.toArray).mockResolvedValueOnce([
+      createMockSetlist({
+        id: 'sl-keys',
+        songIds: ['s1', 's2'],
+        totalDuration: 300,
+        performanceKeys: { s1: 'D', s2: 'A' },
+        arrangements: { s1: 'short' }
+      })
+    ])
+
+    const { result } = renderHook(() => useSongLibrary(), {
+      wrapper: createWrapper()
+    })
+
+    await waitFor(() => {
+      expect(result.current.songs.length).toBeGreaterThan(0)
+    })
+
+    await act(async () => {
+      await result.current.deleteSong('s1')
+    })
+
+    expect(db.setlists.update).toHaveBeenCalledWith('sl-keys', {
+      songIds: ['s2'],
+      totalDuration: 180,
+      performanceKeys: { s2: 'A' },
+      arrangements: {}
+    })
+  })
+
   it('should throw when deleting non-existent song', async () => {
     const { db } = await import('~/lib/db')
     vi.mocked(db.songs.get).mockResolvedValueOnce(undefined)
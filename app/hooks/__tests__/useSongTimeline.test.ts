@@ -178,6 +178,22 @@ describe('useSongTimeline', () => {
     }
   })
 
+  it('should apply the song timing overrides', async () => {
+    const { result } = renderHook(() =>
+      useSongTimeline({ ...defaultOptions, timingOverrides: { '[Am]Hello [G]world#0': 16 } })
+    )
+
+    await waitFor(() => {
+      expect(result.current.timeline).not.toBeNull()
+    })
+
+    const line = result.current.timeline!.elements.find(
+      el => el.content.type === 'lyric' && el.content.text === 'Hello world'
+    )
+    expect(line?.durationBeats).toBe(16)
+    expect(line?.bars).toBe(4)
+  })
+
   it('should recalculate timeline when lyrics change', async () => {
     const { result, rerender } = renderHook(
       ({ lyrics }) => useSongTimeline({ ...defaultOptions, lyrics }),
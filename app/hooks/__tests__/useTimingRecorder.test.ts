@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useTimingRecorder } from '../useTimingRecorder'
+import { createSongTimeline } from '~/lib/timeline/calculator'
+
+const { elements } = createSongTimeline(
+  `[Verse]\n[Am]Hello [G]world\n[C]Goodbye`,
+  120,
+  '4/4',
+  { defaultBarsPerLine: 2, defaultBeatsPerChord: 4, intelligentEstimation: false }
+)
+
+describe('useTimingRecorder', () => {
+  const setup = () => {
+    const clock = { beat: 0 }
+    const hook = renderHook(() => useTimingRecorder({ elements, getCurrentBeat: () => clock.beat }))
+    return { clock, ...hook }
+  }
+
+  const tapAt = (result: ReturnType<typeof setup>['result'], clock: { beat: number }, beat: number) => {
+    clock.beat = beat
+    act(() => {
+      result.current.tap()
+    })
+  }
+
+  it('should ignore taps until recording starts', () => {
+    const { result, clock } = setup()
+
+    tapAt(result, clock, 4)
+
+    expect(result.current.isRecording).toBe(false)
+    expect(result.current.taps).toEqual([])
+  })
+
+  it('should quantise taps to the nearest beat and walk through the lines', () => {
+    const { result, clock } = setup()
+    act(() => {
+      result.current.start()
+    })
+
+    expect(result.current.total).toBe(2)
+    expect(result.current.nextElement?.content).toMatchObject({ text: 'Hello world' })
+
+    tapAt(result, clock, 3.8)
+    expect(result.current.nextElement?.content).toMatchObject({ text: 'Goodbye' })
+    tapAt(result, clock, 16.3)
+    expect(result.current.nextElement).toBeNull()
+    tapAt(result, clock, 23.6)
+
+    expect(result.current.taps).toEqual([4, 16, 24])
+    expect(result.current.isComplete).toBe(true)
+  })
+
+  it('should drop a second tap on the same beat and taps past the end', () => {
+    const { result, clock } = setup()
+    act(() => {
+      result.current.start()
+    })
+
+    tapAt(result, clock, 4)
+    tapAt(result, clock, 4.2)
+    tapAt(result, clock, 12)
+    tapAt(result, clock, 20)
+    tapAt(result, clock, 28)
+
+    expect(result.current.taps).toEqual([4, 12, 20])
+  })
+
+  it('should return the recorded durations on finish', () => {
+    const { result, clock } = setup()
+    act(() => {
+      result.current.start()
+    })
+    tapAt(result, clock, 0)
+    tapAt(result, clock, 6)
+    tapAt(result, clock, 10)
+
+    let timingMap = {}
+    act(() => {
+      timingMap = result.current.finish()
+    })
+
+    expect(timingMap).toEqual({ '[Am]Hello [G]world#0': 6, '[C]Goodbye#0': 4 })
+    expect(result.current.isRecording).toBe(false)
+  })
+
+  it('should discard taps on cancel', () => {
+    const { result, clock } = setup()
+    act(() => {
+      result.current.start()
+    })
+    tapAt(result, clock, 0)
+
+    act(() => {
+      result.current.cancel()
+    })
+
+    expect(result.current.isRecording).toBe(false)
+    expect(result.current.taps).toEqual([])
+  })
+})
@@ -15,8 +15,10 @@ export type { UseSettingsReturn } from './useSettings'
 export { useStats } from './useStats'
 export type { UseStatsReturn } from './useStats'
 
+export { useDatabaseStatus } from './useDatabaseStatus'
+
 export { useOfflineSync } from './useOfflineSync'
-export type { UseOfflineSyncReturn, SyncStatus } from './useOfflineSync'
+export type { UseOfflineSyncReturn, UseOfflineSyncOptions, SyncStatus } from './useOfflineSync'
 
 // Setlist Hooks
 export { useSetlists } from './useSetlists'
@@ -29,6 +31,15 @@ export type { UseSetlistReturn } from './useSetlist'
 export { useSongLibrary, useSong, useSongPlayer } from './useSongs'
 export type { UseSongLibraryReturn, UseSongReturn, UseSongPlayerReturn } from './useSongs'
 
+export { useSongRevisions } from './useSongRevisions'
+export type { UseSongRevisionsReturn } from './useSongRevisions'
+
+export { useSongMerge } from './useSongMerge'
+export type { UseSongMergeReturn } from './useSongMerge'
+
+export { useBulkImport } from './useBulkImport'
+export type { UseBulkImportReturn } from './useBulkImport'
+
 export { useSongTimeline } from './useSongTimeline'
 export type { UseSongTimelineReturn, UseSongTimelineOptions } from './useSongTimeline'
 
@@ -38,6 +49,9 @@ export type { UseBPMSyncReturn, UseBPMSyncOptions } from './useBPMSync'
 export { useSmartAutoScroll } from './useSmartAutoScroll'
 export type { UseSmartAutoScrollReturn, UseSmartAutoScrollOptions } from './useSmartAutoScroll'
 
+export { useTimingRecorder } from './useTimingRecorder'
+export type { UseTimingRecorderReturn, UseTimingRecorderOptions } from './useTimingRecorder'
+
 // Tuner Hooks
 export { useTuner } from './useTuner'
 export type { UseTunerReturn } from './useTuner'
@@ -3,6 +3,8 @@
  * 
  * Synchronizes playback with BPM using Tone.js Transport for precise musical timing.
  * Tracks current beat, bar, and beat-in-bar position, updating at 16th note resolution.
+ * With a `tempoMap` the Transport follows the song's tempo changes and bars are
+ * counted in the meter in effect at each point.
  * 
  * Automatically syncs with the `isPlaying` prop - when true, starts playback; when false, pauses.
  * Requires user interaction to start AudioContext (browser security requirement).
@@ -35,6 +37,8 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react'
 import * as Tone from 'tone'
+import type { TempoChange } from '~/types/timeline'
+import { barPosition, tempoAt } from '~/lib/timeline/tempo'
 
 /**
  * Options for useBPMSync hook
@@ -44,6 +48,11 @@ export interface UseBPMSyncOptions {
   bpm: number
   /** Time signature in format "beats/noteValue" (e.g., "4/4", "3/4", "6/8") */
   timeSignature: string
+  /**
+   * Tempo and meter changes along the song (from the timeline). `bpm` and
+   * `timeSignature` are the starting values; when omitted they hold throughout.
+   */
+  tempoMap?: TempoChange[]
   /** Whether playback is active - automatically starts/pauses Transport */
   isPlaying: boolean
   /** Optional callback fired when beat changes (every 16th note) */
@@ -78,6 +87,11 @@ export interface UseBPMSyncReturn {
    * @param beat - Target beat number (0-based)
    */
   seekToBeat: (beat: number) => void
+  /**
+   * Exact Transport position in beats, read from the clock at call time
+   * (fractional; the `currentBeat` state only updates every 16th note)
+   */
+  getCurrentBeat: () => number
   /** Current Transport time in seconds */
   transportTime: number
 }
@@ -94,6 +108,7 @@ export interface UseBPMSyncReturn {
 export function useBPMSync({
   bpm,
   timeSignature,
+  tempoMap,
   isPlaying,
   onBeatChange,
   onBarChange
@@ -110,15 +125,19 @@ export function useBPMSync({
   const onBeatChangeRef = useRef(onBeatChange)
   const onBarChangeRef = useRef(onBarChange)
   
+  // Parse time signature
+  const [beatsPerBar] = timeSignature.split('/').map(Number)
+  
+  // Without changes the whole song is one stretch
+  const tempoMapRef = useRef<TempoChange[]>([])
+  tempoMapRef.current = tempoMap?.length ? tempoMap : [{ beat: 0, bar: 0, bpm, beatsPerBar }]
+  
   // Keep callback refs up to date without triggering effect re-runs
   useEffect(() => {
     onBeatChangeRef.current = onBeatChange
     onBarChangeRef.current = onBarChange
   })
   
-  // Parse time signature
-  const [beatsPerBar] = timeSignature.split('/').map(Number)
-  
   // Initialize Transport
   useEffect(() => {
     Tone.Transport.bpm.value = bpm
@@ -143,14 +162,22 @@ export function useBPMSync({
       const barNumber = parseInt(bars, 10)
       const beatNumber = parseInt(beats, 10)
       
-      // Calculate absolute beat
+      // Transport bars stay in the starting meter, so this is the absolute beat
       const absoluteBeat = barNumber * beatsPerBar + beatNumber
+      // Bar and beat as the song counts them, in the meter in effect
+      const { bar: songBar, beatInBar } = barPosition(tempoMapRef.current, absoluteBeat)
+      
+      // Follow tempo changes from the beat they start on
+      const { bpm: targetBpm } = tempoAt(tempoMapRef.current, absoluteBeat)
+      if (Tone.Transport.bpm.value !== targetBpm) {
+        Tone.Transport.bpm.setValueAtTime(targetBpm, time)
+      }
       
       // Schedule UI updates slightly ahead of audio time
       Tone.Draw.schedule(() => {
         setCurrentBeat(absoluteBeat)
-        setCurrentBar(barNumber)
-        setCurrentBeatInBar(beatNumber)
+        setCurrentBar(songBar)
+        setCurrentBeatInBar(beatInBar)
         setTransportTime(Tone.Transport.seconds)
         
         // Fire callbacks if beat/bar changed
@@ -159,9 +186,9 @@ export function useBPMSync({
           previousBeatRef.current = absoluteBeat
         }
         
-        if (barNumber !== previousBarRef.current) {
-          onBarChangeRef.current?.(barNumber)
-          previousBarRef.current = barNumber
+        if (songBar !== previousBarRef.current) {
+          onBarChangeRef.current?.(songBar)
+          previousBarRef.current = songBar
         }
       }, time)
     }, '16n') // Update at 16th note resolution for smooth tracking
@@ -200,6 +227,7 @@ export function useBPMSync({
   const reset = useCallback(() => {
     Tone.Transport.stop()
     Tone.Transport.position = 0
+    Tone.Transport.bpm.value = tempoMapRef.current[0].bpm
     setCurrentBeat(0)
     setCurrentBar(0)
     setCurrentBeatInBar(0)
@@ -209,15 +237,21 @@ export function useBPMSync({
   }, [])
   
   const seekToBeat = useCallback((beat: number) => {
-    const bar = Math.floor(beat / beatsPerBar)
-    const beatInBar = beat % beatsPerBar
+    const { bar, beatInBar } = barPosition(tempoMapRef.current, beat)
     
-    Tone.Transport.position = `${bar}:${beatInBar}:0`
+    Tone.Transport.position = `${Math.floor(beat / beatsPerBar)}:${beat % beatsPerBar}:0`
+    Tone.Transport.bpm.value = tempoAt(tempoMapRef.current, beat).bpm
     setCurrentBeat(beat)
     setCurrentBar(bar)
     setCurrentBeatInBar(beatInBar)
   }, [beatsPerBar])
   
+  // Read from the position rather than seconds, which stop matching beats once the tempo changes
+  const getCurrentBeat = useCallback(() => {
+    const [bars, beats, sixteenths] = Tone.Transport.position.toString().split(':').map(Number)
+    return (bars || 0) * beatsPerBar + (beats || 0) + (sixteenths || 0) / 4
+  }, [beatsPerBar])
+  
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -237,6 +271,7 @@ export function useBPMSync({
     pause,
     reset,
     seekToBeat,
+    getCurrentBeat,
     transportTime
   }
 }
@@ -0,0 +1,141 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState, useCallback } from 'react'
+import { db } from '~/lib/db'
+import { unpackImportFiles, planBulkImport, mergeImportedSong, songMatchKey } from '~/lib/import'
+import { recordRevision } from '~/lib/revisions'
+import { recordChange } from '~/lib/sync'
+import { buildSong } from './useSongs'
+import type { BulkImportItem, BulkImportResult, DuplicateAction } from '~/types'
+
+// ============================================================================
+// useBulkImport - Import many song files or a zip into the library
+// ============================================================================
+
+export interface UseBulkImportReturn {
+  /** One entry per file, in the order they were picked */
+  items: BulkImportItem[]
+  isPreparing: boolean
+  isImporting: boolean
+  /** Counts from the last run, null until the import has run */
+  result: BulkImportResult | null
+  /** Read and convert files, matching them against the library */
+  prepare: (files: File[]) => Promise<void>
+  /** Choose what to do with a duplicate */
+  setAction: (index: number, action: DuplicateAction) => void
+  /** Apply one choice to every duplicate */
+  setDuplicateAction: (action: DuplicateAction) => void
+  runImport: () => Promise<BulkImportResult>
+  reset: () => void
+}
+
+function readAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(file)
+  })
+}
+
+export function useBulkImport(): UseBulkImportReturn {
+  const queryClient = useQueryClient()
+  const [items, setItems] = useState<BulkImportItem[]>([])
+  const [isPreparing, setIsPreparing] = useState(false)
+  const [result, setResult] = useState<BulkImportResult | null>(null)
+
+  const prepare = useCallback(async (files: File[]) => {
+    setIsPreparing(true)
+    setResult(null)
+    try {
+      const data = await Promise.all(
+        files.map(async (file) => ({ name: file.name, data: await readAsArrayBuffer(file) }))
+      )
+      const unpacked = await unpackImportFiles(data)
+      const library = await db.songs.toArray()
+      setItems(planBulkImport(unpacked, library))
+    } finally {
+      setIsPreparing(false)
+    }
+  }, [])
+
+  const setAction = useCallback((index: number, action: DuplicateAction) => {
+    setItems((prev) =>
+      prev.map((item, i) => (i === index && item.status === 'duplicate' ? { ...item, action } : item))
+    )
+  }, [])
+
+  const setDuplicateAction = useCallback((action: DuplicateAction) => {
+    setItems((prev) => prev.map((item) => (item.status === 'duplicate' ? { ...item, action } : item)))
+  }, [])
+
+  // Mutation: Write the planned songs. Files are applied in order so a
+  // duplicate within the batch overwrites or merges into the song created
+  // from the earlier file.
+  const importMutation = useMutation({
+    mutationFn: async (plan: BulkImportItem[]): Promise<BulkImportResult> => {
+      const counts: BulkImportResult = { created: 0, overwritten: 0, merged: 0, skipped: 0, failed: 0 }
+      const createdIds = new Map<string, string>()
+
+      await db.transaction('rw', [db.songs, db.songRevisions, db.changes, db.syncState], async () => {
+        for (const item of plan) {
+          if (item.status === 'error' || !item.imported) {
+            counts.failed++
+            continue
+          }
+          if (item.action === 'skip') {
+            counts.skipped++
+            continue
+          }
+
+          const input = item.imported.song
+          const key = songMatchKey(input.title, input.artist)
+          const targetId = item.existing?.id ?? createdIds.get(key)
+          const target = targetId ? await db.songs.get(targetId) : undefined
+
+          if (item.action === 'create' || !target) {
+            const song = buildSong(input)
+            await db.songs.add(song)
+            await recordChange('songs', 'created', song.id)
+            createdIds.set(key, song.id)
+            counts.created++
+          } else if (item.action === 'overwrite') {
+            await recordRevision(target)
+            await db.songs.update(target.id, { ...input, updatedAt: new Date() })
+            await recordChange('songs', 'updated', target.id)
+            counts.overwritten++
+          } else {
+            await recordRevision(target)
+            await db.songs.update(target.id, { ...mergeImportedSong(target, input), updatedAt: new Date() })
+            await recordChange('songs', 'updated', target.id)
+            counts.merged++
+          }
+        }
+      })
+
+      return counts
+    },
+    onSuccess: (counts) => {
+      setResult(counts)
+      queryClient.invalidateQueries({ queryKey: ['songs'] })
+      queryClient.invalidateQueries({ queryKey: ['song'] })
+      queryClient.invalidateQueries({ queryKey: ['songRevisions'] })
+    }
+  })
+
+  const reset = useCallback(() => {
+    setItems([])
+    setResult(null)
+  }, [])
+
+  return {
+    items,
+    isPreparing,
+    isImporting: importMutation.isPending,
+    result,
+    prepare,
+    setAction,
+    setDuplicateAction,
+    runImport: () => importMutation.mutateAsync(items),
+    reset
+  }
+}
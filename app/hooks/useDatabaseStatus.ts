@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react'
+import { openDatabase, type DatabaseStatus } from '~/lib/db'
+
+/**
+ * Open the database on startup and report the result.
+ * null while opening (and during SSR, where there is no IndexedDB).
+ */
+export function useDatabaseStatus(): DatabaseStatus | null {
+  const [status, setStatus] = useState<DatabaseStatus | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    openDatabase().then((result) => {
+      if (!cancelled) setStatus(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return status
+}
@@ -2,6 +2,8 @@
  * useMetronomeSound Hook
  * Provides metronome sound synchronized with BPM sync
  * Reuses logic from useMetronome but integrates with useBPMSync
+ * Clicks follow the bar and beat it is given, so it keeps time through the
+ * tempo and meter changes useBPMSync follows
  */
 
 import { useEffect, useRef, useCallback } from 'react'
@@ -29,11 +31,6 @@ const SOUNDS: Record<MetronomeSoundType, { accent: number; normal: number }> = {
   silent: { accent: 0, normal: 0 },
 }
 
-function parseTimeSignature(signature: string): number {
-  const [beats] = signature.split('/').map(Number)
-  return beats || 4
-}
-
 export function useMetronomeSound({
   enabled,
   bpm,
@@ -46,7 +43,7 @@ export function useMetronomeSound({
   accentFirst = true,
 }: UseMetronomeSoundOptions): void {
   const synthRef = useRef<Tone.Synth | null>(null)
-  const previousBeatInBarRef = useRef<number>(-1)
+  const previousBeatRef = useRef<string | null>(null)
   const isInitializedRef = useRef(false)
 
   // Initialize synth
@@ -58,7 +55,7 @@ export function useMetronomeSound({
         synthRef.current = null
       }
       isInitializedRef.current = false
-      previousBeatInBarRef.current = -1
+      previousBeatRef.current = null
       return
     }
 
@@ -84,7 +81,7 @@ export function useMetronomeSound({
         synthRef.current = null
       }
       isInitializedRef.current = false
-      previousBeatInBarRef.current = -1
+      previousBeatRef.current = null
     }
   }, [enabled])
 
@@ -101,9 +98,9 @@ export function useMetronomeSound({
       return
     }
 
-    // Only play sound when beat actually changes
-    if (currentBeatInBar !== previousBeatInBarRef.current && currentBeatInBar >= 0) {
-      const beatsPerBar = parseTimeSignature(timeSignature)
+    // Only play sound when beat actually changes (bar too, so one-beat bars still click)
+    const beatKey = `${currentBar}:${currentBeatInBar}`
+    if (beatKey !== previousBeatRef.current && currentBeatInBar >= 0) {
       // currentBeatInBar is 0-based (0, 1, 2, 3), so accent is on beat 0
       const isAccent = accentFirst && currentBeatInBar === 0
       const soundConfig = SOUNDS[sound]
@@ -120,7 +117,7 @@ export function useMetronomeSound({
         }
       }
 
-      previousBeatInBarRef.current = currentBeatInBar
+      previousBeatRef.current = beatKey
     }
   }, [
     enabled,
@@ -135,7 +132,7 @@ export function useMetronomeSound({
   // Reset previous beat when stopped
   useEffect(() => {
     if (!isPlaying) {
-      previousBeatInBarRef.current = -1
+      previousBeatRef.current = null
     }
   }, [isPlaying])
 }
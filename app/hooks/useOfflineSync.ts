@@ -1,20 +1,56 @@
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { liveQuery } from 'dexie'
+import { useQueryClient } from '@tanstack/react-query'
+import {
+  clearPendingChanges as clearPendingLog,
+  countPendingChanges,
+  listConflicts,
+  syncWith,
+  resolveConflict as resolveSyncConflict,
+} from '~/lib/sync'
+import type { ConflictChoice, SyncConflict, SyncResult, SyncTransport } from '~/types'
 
 export interface SyncStatus {
   isSyncing: boolean
   lastSyncDate?: Date
+  /** Local changes not sent to the peer yet */
   pendingChanges: number
   error?: string
 }
 
+export interface UseOfflineSyncOptions {
+  /** Where changes go; sync() reports an error while there is none */
+  transport?: SyncTransport | null
+  /** Sync shortly after local changes, on focus and every few minutes while online */
+  autoSync?: boolean
+  /** Called after every successful sync, manual or automatic (e.g. to save lastSyncDate) */
+  onSynced?: (result: SyncResult) => void
+}
+
 export interface UseOfflineSyncReturn {
   status: SyncStatus
   isOnline: boolean
-  sync: () => Promise<void>
-  clearPendingChanges: () => void
+  /** Records changed on this device and another one, waiting for a choice */
+  conflicts: SyncConflict[]
+  /** Resolves with the result, or null when the sync could not run */
+  sync: () => Promise<SyncResult | null>
+  resolveConflict: (conflictId: string, choice: ConflictChoice) => Promise<void>
+  /** Drop the local changes not sent yet; the records on this device stay */
+  clearPendingChanges: () => Promise<void>
 }
 
-export function useOfflineSync(): UseOfflineSyncReturn {
+/** Delay before an automatic sync, so a burst of edits goes out together */
+const AUTO_SYNC_DELAY = 2000
+
+/** How often auto-sync pulls from the peer when there is nothing to push */
+const AUTO_SYNC_INTERVAL = 5 * 60 * 1000
+
+export function useOfflineSync({
+  transport = null,
+  autoSync = false,
+  onSynced,
+}: UseOfflineSyncOptions = {}): UseOfflineSyncReturn {
+  const queryClient = useQueryClient()
   const [isOnline, setIsOnline] = useState(
     typeof navigator !== 'undefined' ? navigator.onLine : true
   )
@@ -24,6 +60,11 @@ export function useOfflineSync(): UseOfflineSyncReturn {
     pendingChanges: 0,
     error: undefined,
   })
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const isSyncingRef = useRef(false)
+  const prevPendingRef = useRef(0)
+  const onSyncedRef = useRef(onSynced)
+  onSyncedRef.current = onSynced
 
   // Listen for online/offline events
   useEffect(() => {
@@ -39,59 +80,128 @@ export function useOfflineSync(): UseOfflineSyncReturn {
     }
   }, [])
 
-  // Auto-sync when coming back online
+  // Follow the change log and open conflicts; liveQuery also sees writes from other tabs
   useEffect(() => {
-    if (isOnline && status.pendingChanges > 0) {
-      // Could trigger automatic sync here in the future
+    const pending = liveQuery(countPendingChanges).subscribe({
+      next: (count) => setStatus((prev) => ({ ...prev, pendingChanges: count })),
+      error: (err) => console.error('Failed to count pending changes:', err),
+    })
+    const open = liveQuery(listConflicts).subscribe({
+      next: setConflicts,
+      error: (err) => console.error('Failed to read sync conflicts:', err),
+    })
+    return () => {
+      pending.unsubscribe()
+      open.unsubscribe()
     }
-  }, [isOnline, status.pendingChanges])
+  }, [])
 
-  const sync = useCallback(async () => {
+  const sync = useCallback(async (): Promise<SyncResult | null> => {
     if (!isOnline) {
       setStatus((prev) => ({
         ...prev,
         error: 'Cannot sync while offline',
       }))
-      return
+      return null
+    }
+    if (!transport) {
+      setStatus((prev) => ({ ...prev, error: 'No sync server configured' }))
+      return null
     }
 
+    if (isSyncingRef.current) return null
+
     try {
+      isSyncingRef.current = true
       setStatus((prev) => ({
         ...prev,
         isSyncing: true,
         error: undefined,
       }))
 
-      // TODO: Implement actual sync logic with cloud backend
-      // This is a placeholder for future cloud backup feature
-      await new Promise((resolve) => setTimeout(resolve, 1000))
+      const result = await syncWith(transport)
+      if (result.pulled > 0) {
+        queryClient.invalidateQueries({ queryKey: ['songs'] })
+        queryClient.invalidateQueries({ queryKey: ['song'] })
+        queryClient.invalidateQueries({ queryKey: ['setlists'] })
+        queryClient.invalidateQueries({ queryKey: ['setlist'] })
+      }
 
       setStatus((prev) => ({
         ...prev,
         isSyncing: false,
-        lastSyncDate: new Date(),
-        pendingChanges: 0,
+        lastSyncDate: result.syncedAt,
       }))
+      onSyncedRef.current?.(result)
+      return result
     } catch (err) {
       setStatus((prev) => ({
         ...prev,
         isSyncing: false,
         error: err instanceof Error ? err.message : 'Sync failed',
       }))
+      return null
+    } finally {
+      isSyncingRef.current = false
     }
+  }, [isOnline, transport, queryClient])
+
+  // Auto-sync: shortly after new local changes...
+  useEffect(() => {
+    const grew = status.pendingChanges > prevPendingRef.current
+    prevPendingRef.current = status.pendingChanges
+    if (!autoSync || !transport || !isOnline || !grew) return
+    const timer = setTimeout(() => void sync(), AUTO_SYNC_DELAY)
+    return () => clearTimeout(timer)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status.pendingChanges])
+
+  // ...and when coming back online with changes waiting
+  useEffect(() => {
+    if (autoSync && transport && isOnline && prevPendingRef.current > 0) void sync()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOnline])
 
-  const clearPendingChanges = useCallback(() => {
-    setStatus((prev) => ({
-      ...prev,
-      pendingChanges: 0,
-    }))
+  // Pull what other devices changed even without local edits: on start, on focus and periodically
+  useEffect(() => {
+    if (!autoSync || !transport || !isOnline) return
+    const pull = () => void sync()
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') pull()
+    }
+
+    pull()
+    const timer = setInterval(pull, AUTO_SYNC_INTERVAL)
+    window.addEventListener('focus', pull)
+    document.addEventListener('visibilitychange', handleVisibility)
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener('focus', pull)
+      document.removeEventListener('visibilitychange', handleVisibility)
+    }
+  }, [autoSync, transport, isOnline, sync])
+
+  const resolveConflict = useCallback(
+    async (conflictId: string, choice: ConflictChoice) => {
+      await resolveSyncConflict(conflictId, choice)
+      queryClient.invalidateQueries({ queryKey: ['songs'] })
+      queryClient.invalidateQueries({ queryKey: ['song'] })
+      queryClient.invalidateQueries({ queryKey: ['setlists'] })
+      queryClient.invalidateQueries({ queryKey: ['setlist'] })
+    },
+    [queryClient]
+  )
+
+  const clearPendingChanges = useCallback(async () => {
+    await clearPendingLog()
   }, [])
 
   return {
     status,
     isOnline,
+    conflicts,
     sync,
+    resolveConflict,
     clearPendingChanges,
   }
 }
@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect } from 'react'
 import type { UserProfile, DEFAULT_PROFILE } from '~/types/profile'
+import { db } from '~/lib/db'
 
 export interface UseProfileReturn {
   profile: UserProfile | null
@@ -9,8 +10,6 @@ export interface UseProfileReturn {
   resetProfile: () => Promise<void>
 }
 
-const STORAGE_KEY = 'gigsync_profile'
-
 function generateId(): string {
   return `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 }
@@ -37,17 +36,13 @@ export function useProfile(): UseProfileReturn {
     const loadProfile = async () => {
       try {
         setIsLoading(true)
-        const stored = localStorage.getItem(STORAGE_KEY)
+        const stored = await db.profile.toCollection().first()
         if (stored) {
-          const parsed = JSON.parse(stored)
-          // Convert date strings back to Date objects
-          parsed.createdAt = new Date(parsed.createdAt)
-          parsed.updatedAt = new Date(parsed.updatedAt)
-          setProfile(parsed)
+          setProfile(stored)
         } else {
           // Create default profile
           const defaultProfile = getDefaultProfile()
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(defaultProfile))
+          await db.profile.put(defaultProfile)
           setProfile(defaultProfile)
         }
       } catch (err) {
@@ -69,7 +64,7 @@ export function useProfile(): UseProfileReturn {
           ...updates,
           updatedAt: new Date(),
         }
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+        void db.profile.put(updated)
         return updated
       })
     } catch (err) {
@@ -81,7 +76,8 @@ export function useProfile(): UseProfileReturn {
   const resetProfile = useCallback(async () => {
     try {
       const defaultProfile = getDefaultProfile()
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(defaultProfile))
+      await db.profile.clear()
+      await db.profile.put(defaultProfile)
       setProfile(defaultProfile)
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Failed to reset profile'))
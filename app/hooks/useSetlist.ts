@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { db } from '~/lib/db'
+import { recordChange } from '~/lib/sync'
 import type { Setlist, Song, UpdateSetlistInput } from '~/types'
 
 export interface UseSetlistReturn {
@@ -62,6 +63,7 @@ export function useSetlist(setlistId: string): UseSetlistReturn {
         songIds: newSongIds,
         totalDuration: newDuration
       } as any)
+      await recordChange('setlists', 'updated', setlistId)
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['setlist', setlistId] })
@@ -84,10 +86,16 @@ export function useSetlist(setlistId: string): UseSetlistReturn {
       const song = await db.songs.get(songId)
       const newSongIds = setlist.songIds.filter((id: string) => id !== songId)
       const newDuration = Math.max(0, setlist.totalDuration - (song?.duration ?? 0))
+      // Drop the entry's performance key and arrangement along with the entry
+      const { [songId]: _removed, ...performanceKeys } = setlist.performanceKeys ?? {}
+      const { [songId]: _arrangement, ...arrangements } = setlist.arrangements ?? {}
       await db.setlists.update(setlistId, {
         songIds: newSongIds,
-        totalDuration: newDuration
+        totalDuration: newDuration,
+        ...(setlist.performanceKeys && { performanceKeys }),
+        ...(setlist.arrangements && { arrangements })
       } as any)
+      await recordChange('setlists', 'updated', setlistId)
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['setlist', setlistId] })
@@ -118,6 +126,7 @@ export function useSetlist(setlistId: string): UseSetlistReturn {
         songIds,
         totalDuration
       } as any)
+      await recordChange('setlists', 'updated', setlistId)
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['setlist', setlistId] })
@@ -138,6 +147,7 @@ export function useSetlist(setlistId: string): UseSetlistReturn {
       }
 
       await db.setlists.update(setlistId, data as any)
+      await recordChange('setlists', 'updated', setlistId)
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['setlist', setlistId] })
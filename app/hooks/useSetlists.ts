@@ -1,6 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { v4 as uuidv4 } from 'uuid'
 import { db } from '~/lib/db'
+import { recordChange } from '~/lib/sync'
 import type { Setlist, CreateSetlistInput, UpdateSetlistInput } from '~/types'
 
 export interface UseSetlistsReturn {
@@ -54,6 +55,7 @@ export function useSetlists(): UseSetlistsReturn {
           createdAt: new Date()
         }
         await db.setlists.add(newSetlist)
+        await recordChange('setlists', 'created', newSetlist.id)
         return newSetlist
       } else {
         const newSetlist: Setlist = {
@@ -66,6 +68,7 @@ export function useSetlists(): UseSetlistsReturn {
           createdAt: new Date()
         }
         await db.setlists.add(newSetlist)
+        await recordChange('setlists', 'created', newSetlist.id)
         return newSetlist
       }
     },
@@ -89,6 +92,7 @@ export function useSetlists(): UseSetlistsReturn {
       }
       
       await db.setlists.update(id, data as any)
+      await recordChange('setlists', 'updated', id)
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['setlists'] })
@@ -105,6 +109,7 @@ export function useSetlists(): UseSetlistsReturn {
       }
       
       await db.setlists.delete(id)
+      await recordChange('setlists', 'deleted', id)
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['setlists'] })
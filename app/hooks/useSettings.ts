@@ -1,6 +1,7 @@
 import { useState, useCallback, useEffect } from 'react'
 import type { AppSettings } from '~/types/profile'
 import { DEFAULT_SETTINGS } from '~/types/profile'
+import { db } from '~/lib/db'
 
 export interface UseSettingsReturn {
   settings: AppSettings | null
@@ -15,8 +16,6 @@ export interface UseSettingsReturn {
   resetSettings: () => Promise<void>
 }
 
-const STORAGE_KEY = 'gigsync_settings'
-
 function generateId(): string {
   return `settings_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 }
@@ -45,19 +44,13 @@ export function useSettings(): UseSettingsReturn {
     const loadSettings = async () => {
       try {
         setIsLoading(true)
-        const stored = localStorage.getItem(STORAGE_KEY)
+        const stored = await db.settings.toCollection().first()
         if (stored) {
-          const parsed = JSON.parse(stored)
-          // Convert date strings back to Date objects
-          parsed.updatedAt = new Date(parsed.updatedAt)
-          if (parsed.sync?.lastSyncDate) {
-            parsed.sync.lastSyncDate = new Date(parsed.sync.lastSyncDate)
-          }
-          setSettings(parsed)
+          setSettings(stored)
         } else {
           // Create default settings
           const defaultSettings = getDefaultSettings()
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(defaultSettings))
+          await db.settings.put(defaultSettings)
           setSettings(defaultSettings)
         }
       } catch (err) {
@@ -79,7 +72,7 @@ export function useSettings(): UseSettingsReturn {
           ...updates,
           updatedAt: new Date(),
         }
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+        void db.settings.put(updated)
         return updated
       })
     } catch (err) {
@@ -98,7 +91,7 @@ export function useSettings(): UseSettingsReturn {
             metronome: { ...current.metronome, ...updates },
             updatedAt: new Date(),
           }
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+          void db.settings.put(updated)
           return updated
         })
       } catch (err) {
@@ -119,7 +112,7 @@ export function useSettings(): UseSettingsReturn {
             tuner: { ...current.tuner, ...updates },
             updatedAt: new Date(),
           }
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+          void db.settings.put(updated)
           return updated
         })
       } catch (err) {
@@ -140,7 +133,7 @@ export function useSettings(): UseSettingsReturn {
             performance: { ...current.performance, ...updates },
             updatedAt: new Date(),
           }
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+          void db.settings.put(updated)
           return updated
         })
       } catch (err) {
@@ -161,7 +154,7 @@ export function useSettings(): UseSettingsReturn {
             player: { ...current.player, ...updates },
             updatedAt: new Date(),
           }
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+          void db.settings.put(updated)
           return updated
         })
       } catch (err) {
@@ -182,7 +175,7 @@ export function useSettings(): UseSettingsReturn {
             sync: { ...current.sync, ...updates },
             updatedAt: new Date(),
           }
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+          void db.settings.put(updated)
           return updated
         })
       } catch (err) {
@@ -196,7 +189,8 @@ export function useSettings(): UseSettingsReturn {
   const resetSettings = useCallback(async () => {
     try {
       const defaultSettings = getDefaultSettings()
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(defaultSettings))
+      await db.settings.clear()
+      await db.settings.put(defaultSettings)
       setSettings(defaultSettings)
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Failed to reset settings'))
@@ -42,7 +42,8 @@
 import { useRef, useEffect, useCallback, useState } from 'react'
 import { useSongTimeline, type UseSongTimelineOptions } from './useSongTimeline'
 import { useBPMSync } from './useBPMSync'
-import type { TimelineElement } from '~/types/timeline'
+import { tempoAt } from '~/lib/timeline/tempo'
+import type { SongTimeline, TimelineElement } from '~/types/timeline'
 
 /** Returns the number of chord cells in a timeline element (lyric, chords-only, or instrumental). */
 function getChordCount(element: TimelineElement): number {
@@ -86,6 +87,10 @@ export interface UseSmartAutoScrollReturn {
   currentBar: number
   /** Current beat within current bar (0-based) */
   currentBeatInBar: number
+  /** Tempo in effect at the current beat ({tempo} changes in the song body) */
+  currentBpm: number
+  /** Beats per bar in effect at the current beat ({time} changes in the song body) */
+  currentBeatsPerBar: number
   /** ID of the currently active timeline element (for highlighting) */
   currentElementId: string | null
   /** Start beat of the currently active timeline element */
@@ -115,6 +120,8 @@ export interface UseSmartAutoScrollReturn {
    * @param beat - Target beat number (0-based)
    */
   seekToBeat: (beat: number) => void
+  /** Exact playback position in beats, read on demand (proxies to BPM sync) */
+  getCurrentBeat: () => number
   /**
    * Seek to a timeline element by ID and optional chord index.
    * Encapsulates the formula: targetBeat = element.startBeat + chordIndex * beatsPerBar.
@@ -129,6 +136,8 @@ export interface UseSmartAutoScrollReturn {
    * Null when timeline is not yet ready.
    */
   lineIndexToElementId: Map<number, string> | null
+  /** The timeline being followed, or null when not yet ready */
+  timeline: SongTimeline | null
 }
 
 /** Default duration for smooth scroll animation in milliseconds */
@@ -148,6 +157,7 @@ export function useSmartAutoScroll({
   bpm,
   timeSignature,
   calculationOptions,
+  timingOverrides,
   isPlaying,
   isEnabled,
   containerRef,
@@ -170,7 +180,8 @@ export function useSmartAutoScroll({
     lyrics,
     bpm,
     timeSignature,
-    calculationOptions
+    calculationOptions,
+    timingOverrides
   })
   
   // Keep refs for stable callback access
@@ -232,13 +243,13 @@ export function useSmartAutoScroll({
     currentElementIdRef.current = element.id
     currentElementStartBeatRef.current = element.startBeat
     const chordCount = getChordCount(element)
-    const elDuration = element.durationBeats ?? (tl.timeline?.beatsPerBar ?? 4)
+    const elDuration = element.durationBeats ?? element.beatsPerBar
 
     // Check for explicit beats in lyric elements
     const content = element.content
     let beatsPerChord = chordCount > 0
       ? elDuration / chordCount
-      : (tl.timeline?.beatsPerBar ?? 4)
+      : element.beatsPerBar
 
     if (content && 'type' in content && content.type === 'lyric') {
       const lyricChords = (content as { chords: { beats?: number }[] }).chords
@@ -281,6 +292,7 @@ export function useSmartAutoScroll({
   const bpmSync = useBPMSync({
     bpm,
     timeSignature,
+    tempoMap: timeline.timeline?.tempoMap,
     isPlaying: isPlaying && isEnabled,
     onBeatChange: handleBeatChange
   })
@@ -354,7 +366,14 @@ export function useSmartAutoScroll({
     if (!timeline.isReady || hasFallback) return
     const elements = timeline.timeline?.elements
     if (!elements) return
-    const element = elements.find(e => e.id === elementId)
+    // A line played more than once (repeats, D.S.) seeks to the pass nearest the playhead
+    const playhead = bpmSync.getCurrentBeat()
+    const element = elements
+      .filter(e => e.id === elementId)
+      .reduce<TimelineElement | undefined>(
+        (nearest, e) => !nearest || Math.abs(e.startBeat - playhead) < Math.abs(nearest.startBeat - playhead) ? e : nearest,
+        undefined
+      )
     if (!element) return
 
     if (chordIndex === undefined) {
@@ -362,7 +381,7 @@ export function useSmartAutoScroll({
       return
     }
 
-    const beatsPerBar = timeline.timeline?.beatsPerBar ?? 4
+    const beatsPerBar = element.beatsPerBar
     const content = element.content
 
     // For bar-based elements (instrumental, chords-only), sum beats up to chordIndex
@@ -390,7 +409,7 @@ export function useSmartAutoScroll({
       : element.startBeat + chordIndex * (element.durationBeats / getChordCount(element))
 
     bpmSync.seekToBeat(targetBeat)
-  }, [timeline.isReady, timeline.timeline, hasFallback, bpmSync.seekToBeat])
+  }, [timeline.isReady, timeline.timeline, hasFallback, bpmSync.seekToBeat, bpmSync.getCurrentBeat])
 
   // Retry function: resets fallback state to force re-evaluation
   const retrySmartAutoscroll = useCallback(() => {
@@ -400,10 +419,16 @@ export function useSmartAutoScroll({
     // The timeline hook will recalculate automatically
   }, [])
   
+  const currentTempo = timeline.timeline
+    ? tempoAt(timeline.timeline.tempoMap, bpmSync.currentBeat)
+    : null
+
   return {
     currentBeat: bpmSync.currentBeat,
     currentBar: bpmSync.currentBar,
     currentBeatInBar: bpmSync.currentBeatInBar,
+    currentBpm: currentTempo?.bpm ?? bpm,
+    currentBeatsPerBar: currentTempo?.beatsPerBar ?? (parseInt(timeSignature, 10) || 4),
     currentElementId: currentElementIdRef.current,
     currentElementStartBeat: currentElementStartBeatRef.current,
     currentBeatsPerChord: currentBeatsPerChordRef.current,
@@ -414,7 +439,9 @@ export function useSmartAutoScroll({
     pause: bpmSync.pause,
     reset: bpmSync.reset,
     seekToBeat: bpmSync.seekToBeat,
+    getCurrentBeat: bpmSync.getCurrentBeat,
     seekToElement,
-    lineIndexToElementId: timeline.timeline?.lineIndexToElementId ?? null
+    lineIndexToElementId: timeline.timeline?.lineIndexToElementId ?? null,
+    timeline: timeline.timeline
   }
 }
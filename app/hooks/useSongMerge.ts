@@ -0,0 +1,53 @@
+import { useMemo } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getConflict, mergeSongs, settleConflict } from '~/lib/sync'
+import type { Song, SongMerge, SyncConflict } from '~/types'
+
+// ============================================================================
+// useSongMerge - Three-way merge of a song in sync conflict
+// ============================================================================
+
+export interface UseSongMergeReturn {
+  /** Null once resolved, or when the id is unknown */
+  conflict: SyncConflict | null
+  /** Null unless the conflict is between two edits of a song */
+  merge: SongMerge | null
+  isLoading: boolean
+  /** Resolve the conflict with the merged song; it syncs like any local edit */
+  saveMerge: (song: Song) => Promise<void>
+  isSaving: boolean
+}
+
+export function useSongMerge(conflictId: string): UseSongMergeReturn {
+  const queryClient = useQueryClient()
+
+  const { data: conflict = null, isLoading } = useQuery({
+    queryKey: ['syncConflict', conflictId],
+    queryFn: () => getConflict(conflictId),
+    enabled: !!conflictId
+  })
+
+  const merge = useMemo(() => {
+    const remote = conflict?.remote.record
+    if (conflict?.table !== 'songs' || !conflict.local || !remote) return null
+    return mergeSongs(conflict.base as Song | null, conflict.local as Song, remote as Song)
+  }, [conflict])
+
+  const saveMutation = useMutation({
+    mutationFn: (song: Song) => settleConflict(conflictId, song),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['syncConflict', conflictId] })
+      queryClient.invalidateQueries({ queryKey: ['song', conflictId] })
+      queryClient.invalidateQueries({ queryKey: ['songs'] })
+      queryClient.invalidateQueries({ queryKey: ['setlist-songs'] })
+    }
+  })
+
+  return {
+    conflict,
+    merge,
+    isLoading,
+    saveMerge: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending
+  }
+}
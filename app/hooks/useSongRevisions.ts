@@ -0,0 +1,44 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { listRevisions, restoreRevision } from '~/lib/revisions'
+import type { SongRevision } from '~/types'
+
+// ============================================================================
+// useSongRevisions - Earlier versions of a song and restoring them
+// ============================================================================
+
+export interface UseSongRevisionsReturn {
+  /** Newest first */
+  revisions: SongRevision[]
+  isLoading: boolean
+  /** Make a revision the current song; the replaced version is kept as a revision */
+  restoreRevision: (revisionId: string) => Promise<void>
+  isRestoring: boolean
+}
+
+export function useSongRevisions(songId: string): UseSongRevisionsReturn {
+  const queryClient = useQueryClient()
+
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: ['songRevisions', songId],
+    queryFn: () => listRevisions(songId),
+    enabled: !!songId
+  })
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      await restoreRevision(revisionId)
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['song', songId] })
+      queryClient.invalidateQueries({ queryKey: ['songs'] })
+      queryClient.invalidateQueries({ queryKey: ['songRevisions', songId] })
+    }
+  })
+
+  return {
+    revisions,
+    isLoading,
+    restoreRevision: restoreMutation.mutateAsync,
+    isRestoring: restoreMutation.isPending
+  }
+}
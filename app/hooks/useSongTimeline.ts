@@ -28,8 +28,10 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react'
-import type { SongTimeline, TimelineElement, TimelineCalculationOptions } from '~/types/timeline'
+import type { SongTimeline, TimelineElement, TimelineCalculationOptions, TimingOverrides } from '~/types/timeline'
 import { createSongTimeline, applyCustomDurations } from '~/lib/timeline/calculator'
+import { applyTimingOverrides } from '~/lib/timeline/overrides'
+import { withTimelineTotals } from '~/lib/timeline/tempo'
 
 /**
  * Options for useSongTimeline hook
@@ -43,6 +45,8 @@ export interface UseSongTimelineOptions {
   timeSignature: string
   /** Optional calculation options to override defaults */
   calculationOptions?: Partial<TimelineCalculationOptions>
+  /** Timing the user set for this song (Song.timingOverrides) */
+  timingOverrides?: TimingOverrides
 }
 
 /**
@@ -108,21 +112,17 @@ export function useSongTimeline({
   lyrics,
   bpm,
   timeSignature,
-  calculationOptions
+  calculationOptions,
+  timingOverrides
 }: UseSongTimelineOptions): UseSongTimelineReturn {
   const [timeline, setTimeline] = useState<SongTimeline | null>(null)
   const elementPositionsRef = useRef<Map<string, number>>(new Map())
   const [customDurations, setCustomDurations] = useState<Map<string, number>>(new Map())
-  const customDurationsRef = useRef(customDurations)
   const [error, setError] = useState<Error | null>(null)
   
   // Stabilize options by serializing - avoids infinite loop from inline objects
   const optionsKey = JSON.stringify(calculationOptions ?? {})
-  
-  // Keep customDurations ref in sync
-  useEffect(() => {
-    customDurationsRef.current = customDurations
-  }, [customDurations])
+  const overridesKey = JSON.stringify(timingOverrides ?? {})
   
   // Calculate timeline when inputs change
   useEffect(() => {
@@ -130,13 +130,10 @@ export function useSongTimeline({
       const options = { ...DEFAULT_OPTIONS, ...JSON.parse(optionsKey) }
       let newTimeline = createSongTimeline(lyrics, bpm, timeSignature, options)
       
-      // Apply custom durations if they exist
-      const durations = customDurationsRef.current
-      if (durations.size > 0) {
-        newTimeline = {
-          ...newTimeline,
-          elements: applyCustomDurations(newTimeline.elements, durations)
-        }
+      // Stored song timing first, then any custom durations set at runtime
+      newTimeline = applyTimingOverrides(newTimeline, JSON.parse(overridesKey))
+      if (customDurations.size > 0) {
+        newTimeline = withTimelineTotals(newTimeline, applyCustomDurations(newTimeline.elements, customDurations))
       }
       
       setTimeline(newTimeline)
@@ -146,7 +143,7 @@ export function useSongTimeline({
       setError(err as Error)
       setTimeline(null)
     }
-  }, [lyrics, bpm, timeSignature, optionsKey])
+  }, [lyrics, bpm, timeSignature, optionsKey, overridesKey, customDurations])
   
   // Find element at specific beat
   const getElementAtBeat = useCallback((beat: number): TimelineElement | null => {
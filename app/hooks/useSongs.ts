@@ -2,18 +2,44 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useState, useCallback } from 'react'
 import * as Tone from 'tone'
 import { db } from '~/lib/db'
+import { applyTransposition } from '~/lib/chordpro'
+import { updateSongWithRevision, deleteRevisions } from '~/lib/revisions'
+import { recordChange } from '~/lib/sync'
 import type { 
   Song, 
   CreateSongInput, 
   UpdateSongInput, 
   SongPlayerState,
-  SongFilterOptions 
+  SongFilterOptions,
+  RevisionOptions
 } from '~/types'
 
 // ============================================================================
 // useSongLibrary - CRUD operations for songs with Dexie.js
 // ============================================================================
 
+/**
+ * New song record with defaults for the fields the input leaves out
+ */
+export function buildSong(input: CreateSongInput): Song {
+  const now = new Date()
+  return {
+    id: crypto.randomUUID(),
+    title: input.title,
+    artist: input.artist,
+    bpm: input.bpm ?? 120,
+    key: input.key ?? 'C',
+    timeSignature: input.timeSignature ?? '4/4',
+    duration: input.duration ?? 0,
+    lyrics: input.lyrics ?? '',
+    tags: input.tags ?? [],
+    timesPlayed: 0,
+    notes: input.notes,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
 export interface UseSongLibraryReturn {
   songs: Song[]
   isLoading: boolean
@@ -45,25 +71,10 @@ export function useSongLibrary(): UseSongLibraryReturn {
   // Mutation: Create song
   const createMutation = useMutation({
     mutationFn: async (input: CreateSongInput): Promise<string> => {
-      const id = crypto.randomUUID()
-      const now = new Date()
-      const song: Song = {
-        id,
-        title: input.title,
-        artist: input.artist,
-        bpm: input.bpm ?? 120,
-        key: input.key ?? 'C',
-        timeSignature: input.timeSignature ?? '4/4',
-        duration: input.duration ?? 0,
-        lyrics: input.lyrics ?? '',
-        tags: input.tags ?? [],
-        timesPlayed: 0,
-        notes: input.notes,
-        createdAt: now,
-        updatedAt: now
-      }
+      const song = buildSong(input)
       await db.songs.add(song)
-      return id
+      await recordChange('songs', 'created', song.id)
+      return song.id
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['songs'] })
@@ -73,13 +84,11 @@ export function useSongLibrary(): UseSongLibraryReturn {
   // Mutation: Update song
   const updateMutation = useMutation({
     mutationFn: async ({ id, input }: { id: string; input: UpdateSongInput }) => {
-      await db.songs.update(id, {
-        ...input,
-        updatedAt: new Date()
-      })
+      await updateSongWithRevision(id, input)
     },
-    onSuccess: () => {
+    onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: ['songs'] })
+      queryClient.invalidateQueries({ queryKey: ['songRevisions', id] })
     }
   })
 
@@ -101,13 +110,21 @@ export function useSongLibrary(): UseSongLibraryReturn {
           0,
           setlist.totalDuration - (song?.duration ?? 0)
         )
+        // Drop the entry's performance key and arrangement along with the entry
+        const { [id]: _removed, ...performanceKeys } = setlist.performanceKeys ?? {}
+        const { [id]: _arrangement, ...arrangements } = setlist.arrangements ?? {}
         await db.setlists.update(setlist.id, {
           songIds: newSongIds,
-          totalDuration: newDuration
+          totalDuration: newDuration,
+          ...(setlist.performanceKeys && { performanceKeys }),
+          ...(setlist.arrangements && { arrangements })
         })
+        await recordChange('setlists', 'updated', setlist.id)
       }
 
       await db.songs.delete(id)
+      await recordChange('songs', 'deleted', id)
+      await deleteRevisions(id)
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['songs'] })
@@ -188,8 +205,14 @@ export interface UseSongReturn {
   song: Song | null
   isLoading: boolean
   error: Error | null
-  updateSong: (input: UpdateSongInput) => Promise<void>
+  /** Save changes; `coalesce` folds quick successive edits into one revision */
+  updateSong: (input: UpdateSongInput, options?: RevisionOptions) => Promise<void>
+  isUpdating: boolean
   incrementPlayCount: () => Promise<void>
+  /** Rewrite lyrics and key by `semitones`, keeping the previous version for undo */
+  applyTransposition: (semitones: number) => Promise<void>
+  /** Restore the lyrics and key saved by the last applyTransposition */
+  undoTransposition: () => Promise<void>
 }
 
 export function useSong(songId: string): UseSongReturn {
@@ -206,15 +229,13 @@ export function useSong(songId: string): UseSongReturn {
 
   // Mutation: Update song
   const updateMutation = useMutation({
-    mutationFn: async (input: UpdateSongInput) => {
-      await db.songs.update(songId, {
-        ...input,
-        updatedAt: new Date()
-      })
+    mutationFn: async ({ input, options }: { input: UpdateSongInput; options?: RevisionOptions }) => {
+      await updateSongWithRevision(songId, input, options)
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['song', songId] })
       queryClient.invalidateQueries({ queryKey: ['songs'] })
+      queryClient.invalidateQueries({ queryKey: ['songRevisions', songId] })
     }
   })
 
@@ -235,12 +256,65 @@ export function useSong(songId: string): UseSongReturn {
     }
   })
 
+  // Mutation: Apply transposition (rewrites lyrics + key)
+  const applyTranspositionMutation = useMutation({
+    mutationFn: async (semitones: number) => {
+      const currentSong = await db.songs.get(songId)
+      if (!currentSong) {
+        throw new Error('Song not found')
+      }
+      if (semitones % 12 === 0) return
+
+      const transposed = applyTransposition(currentSong, semitones, currentSong.accidentals)
+      await updateSongWithRevision(songId, {
+        ...transposed,
+        lastTransposition: {
+          lyrics: currentSong.lyrics,
+          key: currentSong.key,
+          semitones,
+          appliedAt: new Date()
+        }
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['song', songId] })
+      queryClient.invalidateQueries({ queryKey: ['songs'] })
+      queryClient.invalidateQueries({ queryKey: ['songRevisions', songId] })
+    }
+  })
+
+  // Mutation: Undo the last applied transposition
+  const undoTranspositionMutation = useMutation({
+    mutationFn: async () => {
+      const currentSong = await db.songs.get(songId)
+      if (!currentSong?.lastTransposition) {
+        throw new Error('Nothing to undo')
+      }
+
+      const { lyrics, key } = currentSong.lastTransposition
+      await updateSongWithRevision(songId, {
+        lyrics,
+        key,
+        lastTransposition: undefined
+      })
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['song', songId] })
+      queryClient.invalidateQueries({ queryKey: ['songs'] })
+      queryClient.invalidateQueries({ queryKey: ['songRevisions', songId] })
+    }
+  })
+
   return {
     song,
     isLoading,
     error: error as Error | null,
-    updateSong: updateMutation.mutateAsync,
-    incrementPlayCount: incrementPlayMutation.mutateAsync
+    updateSong: (input: UpdateSongInput, options?: RevisionOptions) =>
+      updateMutation.mutateAsync({ input, options }),
+    isUpdating: updateMutation.isPending,
+    incrementPlayCount: incrementPlayMutation.mutateAsync,
+    applyTransposition: applyTranspositionMutation.mutateAsync,
+    undoTransposition: () => undoTranspositionMutation.mutateAsync()
   }
 }
 
@@ -257,10 +331,12 @@ export interface UseSongPlayerReturn {
   setAutoScrollSpeed: (speed: number) => void
   toggleAutoScroll: () => void
   transpose: (semitones: number) => void
+  setTranspose: (semitones: number) => void
   resetTranspose: () => void
   toggleChords: () => void
   setFontSize: (size: number) => void
   toggleMetronomeSound: () => void
+  toggleCapoShapes: () => void
 }
 
 export function useSongPlayer(): UseSongPlayerReturn {
@@ -272,7 +348,8 @@ export function useSongPlayer(): UseSongPlayerReturn {
     transpose: 0,
     showChords: true,
     fontSize: 22,
-    metronomeSoundEnabled: false
+    metronomeSoundEnabled: false,
+    showCapoShapes: false
   })
 
   const play = useCallback(async () => {
@@ -322,6 +399,10 @@ export function useSongPlayer(): UseSongPlayerReturn {
     }))
   }, [])
 
+  const setTranspose = useCallback((semitones: number) => {
+    setState((prev) => ({ ...prev, transpose: ((semitones % 12) + 12) % 12 }))
+  }, [])
+
   const resetTranspose = useCallback(() => {
     setState((prev) => ({ ...prev, transpose: 0 }))
   }, [])
@@ -338,6 +419,10 @@ export function useSongPlayer(): UseSongPlayerReturn {
     setState((prev) => ({ ...prev, metronomeSoundEnabled: !prev.metronomeSoundEnabled }))
   }, [])
 
+  const toggleCapoShapes = useCallback(() => {
+    setState((prev) => ({ ...prev, showCapoShapes: !prev.showCapoShapes }))
+  }, [])
+
   return {
     state,
     play,
@@ -347,9 +432,11 @@ export function useSongPlayer(): UseSongPlayerReturn {
     setAutoScrollSpeed,
     toggleAutoScroll,
     transpose,
+    setTranspose,
     resetTranspose,
     toggleChords,
     setFontSize,
-    toggleMetronomeSound
+    toggleMetronomeSound,
+    toggleCapoShapes
   }
 }
@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect } from 'react'
 import type { UserStats } from '~/types/profile'
-import { db } from '~/lib/db'
+import { db, STATS_ID } from '~/lib/db'
 
 export interface UseStatsReturn {
   stats: UserStats
@@ -9,8 +9,6 @@ export interface UseStatsReturn {
   refreshStats: () => Promise<void>
 }
 
-const STORAGE_KEY = 'gigsync_stats'
-
 function getDefaultStats(): UserStats {
   return {
     totalSongs: 0,
@@ -35,9 +33,8 @@ export function useStats(): UseStatsReturn {
       const allSongs = await db.songs.toArray()
       const topSong = allSongs.sort((a, b) => b.timesPlayed - a.timesPlayed)[0]
 
-      // Get practice minutes and session date from localStorage (session-based)
-      const stored = localStorage.getItem(STORAGE_KEY)
-      const parsed = stored ? JSON.parse(stored) : null
+      // Practice minutes and session date are kept from the stored stats (session-based)
+      const stored = await db.stats.get(STATS_ID)
 
       return {
         totalSongs,
@@ -45,8 +42,8 @@ export function useStats(): UseStatsReturn {
         mostPlayedSong: topSong && topSong.timesPlayed > 0
           ? { id: topSong.id, title: topSong.title, playCount: topSong.timesPlayed }
           : undefined,
-        totalPracticeMinutes: parsed?.totalPracticeMinutes ?? 0,
-        lastSessionDate: parsed?.lastSessionDate ? new Date(parsed.lastSessionDate) : undefined,
+        totalPracticeMinutes: stored?.totalPracticeMinutes ?? 0,
+        lastSessionDate: stored?.lastSessionDate,
       }
     } catch {
       return getDefaultStats()
@@ -58,7 +55,7 @@ export function useStats(): UseStatsReturn {
       setIsLoading(true)
       const calculatedStats = await calculateStats()
       setStats(calculatedStats)
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(calculatedStats))
+      await db.stats.put({ ...calculatedStats, id: STATS_ID })
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Failed to refresh stats'))
     } finally {
@@ -0,0 +1,94 @@
+/**
+ * useTimingRecorder Hook
+ *
+ * Records a timing map by tapping along while the song plays. Each tap is
+ * read from the BPM clock and rounded to the nearest beat; the first tap
+ * marks where the first line starts, each next tap the next line, and a
+ * final tap where the last line ends.
+ *
+ * @example
+ * ```tsx
+ * const recorder = useTimingRecorder({
+ *   elements: autoScroll.timeline?.elements ?? [],
+ *   getCurrentBeat: autoScroll.getCurrentBeat
+ * })
+ *
+ * recorder.start()
+ * recorder.tap() // at each line start
+ * const timingMap = recorder.finish()
+ * ```
+ */
+
+import { useState, useCallback, useMemo } from 'react'
+import type { TimelineElement, TimingMap } from '~/types/timeline'
+import { recordableElements, timingMapFromTaps } from '~/lib/timeline/recording'
+
+export interface UseTimingRecorderOptions {
+  /** Timeline elements being played */
+  elements: TimelineElement[]
+  /** Playback position in beats, read at tap time */
+  getCurrentBeat: () => number
+}
+
+export interface UseTimingRecorderReturn {
+  isRecording: boolean
+  /** Quantised beat of every tap so far */
+  taps: number[]
+  /** Element the next tap starts, or null when the next tap marks the end */
+  nextElement: TimelineElement | null
+  /** Number of elements that get a tap */
+  total: number
+  /** True once the end of the last element has been tapped */
+  isComplete: boolean
+  start: () => void
+  tap: () => void
+  /** Stop recording and return the recorded durations */
+  finish: () => TimingMap
+  cancel: () => void
+}
+
+export function useTimingRecorder({ elements, getCurrentBeat }: UseTimingRecorderOptions): UseTimingRecorderReturn {
+  const [isRecording, setIsRecording] = useState(false)
+  const [taps, setTaps] = useState<number[]>([])
+
+  const recordable = useMemo(() => recordableElements(elements), [elements])
+  const isComplete = taps.length > recordable.length
+
+  const start = useCallback(() => {
+    setTaps([])
+    setIsRecording(true)
+  }, [])
+
+  const tap = useCallback(() => {
+    if (!isRecording) return
+    const beat = Math.round(getCurrentBeat())
+    setTaps((prev) => {
+      // One tap per element, and never two on the same beat
+      if (prev.length > recordable.length) return prev
+      if (prev.length > 0 && beat <= prev[prev.length - 1]) return prev
+      return [...prev, beat]
+    })
+  }, [isRecording, getCurrentBeat, recordable.length])
+
+  const finish = useCallback(() => {
+    setIsRecording(false)
+    return timingMapFromTaps(elements, taps)
+  }, [elements, taps])
+
+  const cancel = useCallback(() => {
+    setIsRecording(false)
+    setTaps([])
+  }, [])
+
+  return {
+    isRecording,
+    taps,
+    nextElement: recordable[taps.length] ?? null,
+    total: recordable.length,
+    isComplete,
+    start,
+    tap,
+    finish,
+    cancel
+  }
+}
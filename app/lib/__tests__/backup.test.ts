@@ -0,0 +1,299 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  BACKUP_VERSION,
+  createBackup,
+  serializeBackup,
+  parseBackup,
+  mergeRecords,
+  readBackupData,
+  restoreBackup,
+  deleteAllData,
+} from '../backup'
+import { recordChange } from '~/lib/sync'
+import type { AppSettings, Setlist, Song, SongRevision, UserProfile, UserStats } from '~/types'
+import { DEFAULT_SETTINGS } from '~/types'
+
+vi.mock('~/lib/db', () => {
+  const table = <T extends { id: string }>() => {
+    const rows = new Map<string, T>()
+    return {
+      rows,
+      toArray: vi.fn(() => Promise.resolve(Array.from(rows.values()))),
+      clear: vi.fn(() => {
+        rows.clear()
+        return Promise.resolve()
+      }),
+      bulkPut: vi.fn((items: T[]) => {
+        items.forEach((item) => rows.set(item.id, item))
+        return Promise.resolve()
+      }),
+      put: vi.fn((item: T) => {
+        rows.set(item.id, item)
+        return Promise.resolve(item.id)
+      }),
+      get: vi.fn((id: string) => Promise.resolve(rows.get(id))),
+      count: vi.fn(() => Promise.resolve(rows.size)),
+      toCollection: () => ({ first: () => Promise.resolve(rows.values().next().value) }),
+      where: (field: string) => ({
+        equals: (value: unknown) => ({
+          delete: vi.fn(() => {
+            for (const [id, row] of rows) if ((row as Record<string, unknown>)[field] === value) rows.delete(id)
+            return Promise.resolve()
+          }),
+        }),
+      }),
+    }
+  }
+  const songs = table<Song>()
+  const setlists = table<Setlist>()
+  const profile = table<UserProfile>()
+  const settings = table<AppSettings>()
+  const stats = table<UserStats & { id: string }>()
+  const songRevisions = table<SongRevision>()
+  const changes = table<{ id: string; pending?: number }>()
+  const syncState = table<{ id: string }>()
+  return {
+    STATS_ID: 'stats',
+    db: {
+      songs,
+      setlists,
+      profile,
+      settings,
+      stats,
+      songRevisions,
+      changes,
+      syncState,
+      tables: [songs, setlists, profile, settings, stats, songRevisions, changes, syncState],
+      transaction: vi.fn((...args: unknown[]) => (args[args.length - 1] as () => Promise<unknown>)()),
+    },
+  }
+})
+
+vi.mock('~/lib/sync', () => ({
+  recordChange: vi.fn(() => Promise.resolve()),
+}))
+
+type Rows<T> = { rows: Map<string, T> }
+const { db } = (await import('~/lib/db')) as unknown as {
+  db: {
+    songs: Rows<Song>
+    setlists: Rows<Setlist>
+    profile: Rows<UserProfile>
+    settings: Rows<AppSettings>
+    stats: Rows<UserStats & { id: string }>
+    songRevisions: Rows<SongRevision>
+    changes: Rows<{ id: string; pending?: number }>
+    syncState: Rows<{ id: string }>
+  }
+}
+
+const createSong = (overrides: Partial<Song> = {}): Song => ({
+  id: 's1',
+  title: 'Song 1',
+  artist: 'Artist 1',
+  bpm: 120,
+  key: 'C',
+  timeSignature: '4/4',
+  duration: 120,
+  lyrics: '[C]Hello',
+  tags: ['rock'],
+  timesPlayed: 2,
+  lastPlayed: new Date('2024-03-01T20:00:00Z'),
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-02-01T00:00:00Z'),
+  ...overrides,
+})
+
+const createSetlist = (overrides: Partial<Setlist> = {}): Setlist => ({
+  id: 'sl1',
+  name: 'Set A',
+  songIds: ['s1'],
+  totalDuration: 120,
+  date: new Date('2024-04-01T00:00:00Z'),
+  createdAt: new Date('2024-01-02T00:00:00Z'),
+  ...overrides,
+})
+
+const profile: UserProfile = {
+  id: 'profile_1',
+  name: 'Ana',
+  instrument: 'Bass',
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+}
+
+const settings: AppSettings = {
+  ...DEFAULT_SETTINGS,
+  id: 'settings_1',
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+}
+
+describe('parseBackup', () => {
+  it('should round-trip a backup and revive dates', () => {
+    const backup = createBackup(
+      { songs: [createSong()], setlists: [createSetlist()], profile, settings, stats: null },
+      new Date('2024-05-01T12:00:00Z')
+    )
+    const restored = parseBackup(serializeBackup(backup))
+
+    expect(restored.version).toBe(BACKUP_VERSION)
+    expect(restored.exportedAt).toEqual(new Date('2024-05-01T12:00:00Z'))
+    expect(restored.songs[0].createdAt).toBeInstanceOf(Date)
+    expect(restored.songs[0].lastPlayed).toEqual(new Date('2024-03-01T20:00:00Z'))
+    expect(restored.setlists[0].date).toEqual(new Date('2024-04-01T00:00:00Z'))
+    expect(restored.profile?.updatedAt).toBeInstanceOf(Date)
+    expect(restored).toEqual(backup)
+  })
+
+  it('should upgrade the old settings export with stringified sections', () => {
+    const legacy = {
+      version: 1,
+      profile: JSON.stringify(profile),
+      settings: JSON.stringify(settings),
+      stats: null,
+      songs: [createSong()],
+      setlists: [],
+      exportedAt: '2024-05-01T12:00:00.000Z',
+    }
+    const restored = parseBackup(JSON.stringify(legacy))
+
+    expect(restored.profile?.name).toBe('Ana')
+    expect(restored.settings?.theme).toBe('auto')
+    expect(restored.stats).toBeNull()
+    expect(restored.songs[0].updatedAt).toEqual(new Date('2024-02-01T00:00:00Z'))
+  })
+
+  it('should keep fields it does not know about', () => {
+    const backup = createBackup({ songs: [createSong()], setlists: [], profile: null, settings: null, stats: null })
+    const json = JSON.parse(serializeBackup(backup))
+    json.songs[0].futureField = 'kept'
+    expect(parseBackup(JSON.stringify(json)).songs[0]).toMatchObject({ futureField: 'kept' })
+  })
+
+  it('should reject invalid files with the failing field', () => {
+    expect(() => parseBackup('not json')).toThrow('Not a backup file: invalid JSON')
+    expect(() => parseBackup(JSON.stringify({ app: 'gigsync', version: 99 }))).toThrow('newer version')
+
+    const backup = JSON.parse(serializeBackup(createBackup({ songs: [createSong()], setlists: [], profile: null, settings: null, stats: null })))
+    delete backup.songs[0].title
+    expect(() => parseBackup(JSON.stringify(backup))).toThrow('Invalid backup: songs.0.title: Required')
+  })
+})
+
+describe('mergeRecords', () => {
+  it('should add missing records and keep local ones unless the incoming copy is newer', () => {
+    const local = [createSong({ id: 'a', title: 'Local A' }), createSong({ id: 'b', title: 'Local B' })]
+    const incoming = [
+      createSong({ id: 'a', title: 'Older A', updatedAt: new Date('2023-01-01T00:00:00Z') }),
+      createSong({ id: 'b', title: 'Newer B', updatedAt: new Date('2025-01-01T00:00:00Z') }),
+      createSong({ id: 'c', title: 'New C' }),
+    ]
+    const written = mergeRecords(local, incoming, (a, b) => a.updatedAt > b.updatedAt)
+    expect(written.map((song) => song.title)).toEqual(['Newer B', 'New C'])
+  })
+})
+
+describe('readBackupData', () => {
+  it('should read every table and drop the stats row key', async () => {
+    clearTables()
+    db.songs.rows.set('s1', createSong())
+    db.settings.rows.set('settings_1', settings)
+    db.stats.rows.set('stats', { id: 'stats', totalSongs: 1, totalSetlists: 0, totalPracticeMinutes: 30 })
+
+    expect(await readBackupData()).toEqual({
+      songs: [createSong()],
+      setlists: [],
+      profile: null,
+      settings,
+      stats: { totalSongs: 1, totalSetlists: 0, totalPracticeMinutes: 30 },
+    })
+  })
+})
+
+function clearTables() {
+  for (const table of [db.songs, db.setlists, db.profile, db.settings, db.stats, db.songRevisions]) table.rows.clear()
+}
+
+describe('restoreBackup', () => {
+  beforeEach(() => {
+    clearTables()
+    vi.mocked(recordChange).mockClear()
+    db.songs.rows.set('s1', createSong({ title: 'Local' }))
+    db.songs.rows.set('s9', createSong({ id: 's9', title: 'Only here' }))
+    db.setlists.rows.set('sl1', createSetlist({ name: 'Local set' }))
+    db.profile.rows.set('profile_local', { ...profile, id: 'profile_local', name: 'Local' })
+  })
+
+  const backup = createBackup({
+    songs: [createSong({ title: 'Backup', updatedAt: new Date('2025-01-01T00:00:00Z') }), createSong({ id: 's2', title: 'New' })],
+    setlists: [createSetlist({ name: 'Backup set' })],
+    profile,
+    settings,
+    stats: null,
+  })
+
+  it('should merge into the library and fill only missing sections', async () => {
+    const result = await restoreBackup(backup, 'merge')
+
+    expect(result).toEqual({ songs: 2, setlists: 0 })
+    expect(Array.from(db.songs.rows.values()).map((song) => song.title).sort()).toEqual(['Backup', 'New', 'Only here'])
+    expect(db.setlists.rows.get('sl1')?.name).toBe('Local set')
+    expect(Array.from(db.profile.rows.values()).map((p) => p.name)).toEqual(['Local'])
+    expect(db.settings.rows.get('settings_1')).toEqual(settings)
+  })
+
+  it('should replace everything with the backup', async () => {
+    db.stats.rows.set('stats', { id: 'stats', totalSongs: 2, totalSetlists: 1, totalPracticeMinutes: 10 })
+    db.songRevisions.rows.set('r1', { id: 'r1', songId: 'local', createdAt: new Date(), snapshot: createSong() })
+    const result = await restoreBackup(backup, 'replace')
+
+    expect(result).toEqual({ songs: 2, setlists: 1 })
+    expect(Array.from(db.songs.rows.keys()).sort()).toEqual(['s1', 's2'])
+    expect(db.setlists.rows.get('sl1')?.name).toBe('Backup set')
+    expect(Array.from(db.profile.rows.values()).map((p) => p.name)).toEqual(['Ana'])
+    expect(db.stats.rows.size).toBe(0)
+    expect(db.songRevisions.rows.size).toBe(0)
+  })
+
+  it('should log merged records for sync', async () => {
+    await restoreBackup(backup, 'merge')
+
+    expect(vi.mocked(recordChange).mock.calls).toEqual([
+      ['songs', 'updated', 's1'],
+      ['songs', 'created', 's2'],
+    ])
+  })
+
+  it('should log restored and removed records on replace', async () => {
+    await restoreBackup(backup, 'replace')
+
+    expect(vi.mocked(recordChange).mock.calls).toEqual([
+      ['songs', 'updated', 's1'],
+      ['songs', 'created', 's2'],
+      ['songs', 'deleted', 's9'],
+      ['setlists', 'updated', 'sl1'],
+    ])
+  })
+})
+
+describe('deleteAllData', () => {
+  it('should clear every table', async () => {
+    db.songs.rows.set('s1', createSong())
+    db.settings.rows.set('settings_1', settings)
+    await deleteAllData()
+
+    expect(db.songs.rows.size).toBe(0)
+    expect(db.setlists.rows.size).toBe(0)
+    expect(db.settings.rows.size).toBe(0)
+  })
+
+  it('should keep the device identity and drop unsent changes, so peers keep their data', async () => {
+    db.changes.rows.set('c1', { id: 'c1', pending: 0 })
+    db.changes.rows.set('c2', { id: 'c2', pending: 1 })
+    db.syncState.rows.set('sync', { id: 'sync' })
+    await deleteAllData()
+
+    expect(Array.from(db.changes.rows.keys())).toEqual(['c1'])
+    expect(db.syncState.rows.size).toBe(1)
+  })
+})
@@ -0,0 +1,117 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import fixture from './fixtures/gigsync-v1.json'
+import { GigSyncDB, MIGRATIONS, LEGACY_STORAGE_KEYS, STATS_ID, openDatabase } from '../db'
+
+let databases = 0
+
+/** Put the fixture's localStorage back, as a version 1 app left it */
+function loadLocalStorage() {
+  localStorage.clear()
+  for (const [key, value] of Object.entries(fixture.localStorage)) localStorage.setItem(key, value)
+}
+
+/**
+ * A database at `fixture.version` holding its rows, created in the
+ * in-memory IndexedDB with that version's schema. Opening it with
+ * `new GigSyncDB(name)` runs the later upgrade steps, like the app does.
+ */
+async function createV1Database(): Promise<string> {
+  loadLocalStorage()
+
+  const name = `gigsync-v1-${++databases}`
+  const v1 = new GigSyncDB(name, MIGRATIONS.filter((m) => m.version <= fixture.version))
+  await v1.open()
+  for (const [table, rows] of Object.entries(fixture.tables)) await v1.table(table).bulkPut(rows)
+  v1.close()
+  return name
+}
+
+/** Open a version 1 database with the current schema */
+async function upgradeV1Database(): Promise<GigSyncDB> {
+  const database = new GigSyncDB(await createV1Database())
+  await database.open()
+  return database
+}
+
+describe('MIGRATIONS', () => {
+  it('should be numbered from 1 in increasing order', () => {
+    expect(MIGRATIONS[0].version).toBe(1)
+    MIGRATIONS.slice(1).forEach((migration, i) => {
+      expect(migration.version).toBeGreaterThan(MIGRATIONS[i].version)
+    })
+  })
+
+  it('should declare every table on the database', () => {
+    const database = new GigSyncDB('gigsync-test')
+    expect(database.verno).toBe(MIGRATIONS[MIGRATIONS.length - 1].version)
+    expect(database.tables.map((table) => table.name).sort()).toEqual([
+      'changes', 'profile', 'setlists', 'settings', 'songRevisions', 'songs', 'stats', 'syncConflicts', 'syncState'
+    ])
+  })
+})
+
+describe('upgrading a version 1 database', () => {
+  it('should move settings, profile and stats into their tables with dates revived', async () => {
+    const database = await upgradeV1Database()
+    expect(database.verno).toBe(MIGRATIONS[MIGRATIONS.length - 1].version)
+
+    const [settings] = await database.settings.toArray()
+    expect(settings).toMatchObject({ id: 'settings_1700000000000_abc', theme: 'dark', language: 'es' })
+    expect(settings.updatedAt).toEqual(new Date('2024-03-12T09:00:00.000Z'))
+    expect((settings.sync as { lastSyncDate: Date }).lastSyncDate).toBeInstanceOf(Date)
+    expect((settings.tuner as { calibration: number }).calibration).toBe(442)
+
+    const [profile] = await database.profile.toArray()
+    expect(profile).toMatchObject({ name: 'Lucía', instrument: 'Bass', band: 'Los Tempos' })
+    expect(profile.createdAt).toEqual(new Date('2023-11-14T22:13:20.000Z'))
+
+    const stats = await database.stats.get(STATS_ID)
+    expect(stats).toMatchObject({ totalPracticeMinutes: 340, mostPlayedSong: { title: 'Amazing Grace' } })
+    expect(stats?.lastSessionDate).toBeInstanceOf(Date)
+  })
+
+  it('should leave songs and setlists as they were', async () => {
+    const database = await upgradeV1Database()
+
+    expect(await database.songs.toArray()).toEqual(fixture.tables.songs)
+    expect(await database.setlists.toArray()).toEqual(fixture.tables.setlists)
+  })
+
+  it('should skip unreadable values instead of failing the upgrade', async () => {
+    const name = await createV1Database()
+    localStorage.setItem(LEGACY_STORAGE_KEYS.settings, '{not json')
+    localStorage.setItem(LEGACY_STORAGE_KEYS.profile, JSON.stringify({ name: 'No id or dates' }))
+    localStorage.removeItem(LEGACY_STORAGE_KEYS.stats)
+    const database = new GigSyncDB(name)
+    await database.open()
+
+    expect(await database.settings.count()).toBe(0)
+    expect(await database.profile.count()).toBe(0)
+    expect(await database.stats.count()).toBe(0)
+  })
+})
+
+describe('openDatabase', () => {
+  beforeEach(() => {
+    loadLocalStorage()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('should report the version and drop the migrated localStorage copies', async () => {
+    const status = await openDatabase({ open: vi.fn().mockResolvedValue(undefined), verno: 2 } as never)
+
+    expect(status).toEqual({ status: 'ready', version: 2 })
+    for (const key of Object.values(LEGACY_STORAGE_KEYS)) {
+      expect(localStorage.getItem(key)).toBeNull()
+    }
+  })
+
+  it('should report a failed migration instead of throwing and keep the old data', async () => {
+    const open = vi.fn().mockRejectedValue(new Error('UpgradeError: Not yet support for changing primary key'))
+    const status = await openDatabase({ open, verno: 2 } as never)
+
+    expect(status).toEqual({ status: 'failed', error: 'UpgradeError: Not yet support for changing primary key' })
+    expect(localStorage.getItem(LEGACY_STORAGE_KEYS.settings)).not.toBeNull()
+  })
+})
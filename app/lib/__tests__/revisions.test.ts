@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  REVISION_LIMIT,
+  REVISION_COALESCE_MS,
+  diffLines,
+  changesSnapshot,
+  updateSongWithRevision,
+  listRevisions,
+  restoreRevision,
+  deleteRevisions,
+} from '../revisions'
+import { recordChange } from '~/lib/sync'
+import type { Song, SongRevision } from '~/types'
+
+vi.mock('~/lib/db', () => {
+  const table = <T extends { id: string }>() => {
+    const rows = new Map<string, T>()
+    const matching = (field: keyof T, value: unknown) => Array.from(rows.values()).filter((row) => row[field] === value)
+    return {
+      rows,
+      get: vi.fn((id: string) => Promise.resolve(rows.get(id))),
+      add: vi.fn((item: T) => {
+        rows.set(item.id, item)
+        return Promise.resolve(item.id)
+      }),
+      update: vi.fn((id: string, changes: Partial<T>) => {
+        const row = rows.get(id)
+        if (row) rows.set(id, { ...row, ...changes })
+        return Promise.resolve(row ? 1 : 0)
+      }),
+      bulkDelete: vi.fn((ids: string[]) => {
+        ids.forEach((id) => rows.delete(id))
+        return Promise.resolve()
+      }),
+      where: (field: keyof T) => ({
+        equals: (value: unknown) => ({
+          sortBy: (key: keyof T) =>
+            Promise.resolve(matching(field, value).sort((a, b) => Number(a[key]) - Number(b[key]))),
+          delete: () => {
+            const found = matching(field, value)
+            found.forEach((row) => rows.delete(row.id))
+            return Promise.resolve(found.length)
+          },
+        }),
+      }),
+    }
+  }
+  return {
+    db: {
+      songs: table<Song>(),
+      songRevisions: table<SongRevision>(),
+      transaction: vi.fn((...args: unknown[]) => (args[args.length - 1] as () => Promise<unknown>)()),
+    },
+  }
+})
+
+vi.mock('~/lib/sync', () => ({
+  recordChange: vi.fn(() => Promise.resolve()),
+}))
+
+type Rows<T> = { rows: Map<string, T> }
+const { db } = (await import('~/lib/db')) as unknown as {
+  db: { songs: Rows<Song>; songRevisions: Rows<SongRevision> }
+}
+
+const song: Song = {
+  id: 'song-1',
+  title: 'Wonderwall',
+  artist: 'Oasis',
+  bpm: 87,
+  key: 'F#m',
+  timeSignature: '4/4',
+  duration: 258,
+  lyrics: '[Em7]Today is gonna be the day\n[G]That they gonna throw it back to you',
+  tags: ['rock'],
+  timesPlayed: 3,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+}
+
+beforeEach(() => {
+  db.songs.rows.clear()
+  db.songRevisions.rows.clear()
+  db.songs.rows.set(song.id, { ...song })
+  vi.useRealTimers()
+})
+
+describe('diffLines', () => {
+  it('should mark unchanged, removed and added lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc\nd')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'B' },
+      { type: 'same', text: 'c' },
+      { type: 'added', text: 'd' },
+    ])
+  })
+
+  it('should keep moved-around common lines aligned', () => {
+    const diff = diffLines('[Verse]\nline 1\n[Chorus]\nhook', '[Intro]\n[Verse]\nline 1\nhook')
+    expect(diff.filter((line) => line.type === 'same').map((line) => line.text)).toEqual(['[Verse]', 'line 1', 'hook'])
+    expect(diff.filter((line) => line.type !== 'same')).toEqual([
+      { type: 'added', text: '[Intro]' },
+      { type: 'removed', text: '[Chorus]' },
+    ])
+  })
+
+  it('should report no changes for identical text', () => {
+    expect(diffLines('x\ny', 'x\ny').every((line) => line.type === 'same')).toBe(true)
+  })
+})
+
+describe('changesSnapshot', () => {
+  it('should ignore updates that leave lyrics and metadata as they are', () => {
+    expect(changesSnapshot(song, { title: 'Wonderwall', tags: ['rock'] })).toBe(false)
+    expect(changesSnapshot(song, { timesPlayed: 4 })).toBe(false)
+  })
+
+  it('should detect changed fields, including arrays', () => {
+    expect(changesSnapshot(song, { tags: ['rock', 'acoustic'] })).toBe(true)
+    expect(changesSnapshot(song, { capo: 2 })).toBe(true)
+  })
+})
+
+describe('updateSongWithRevision', () => {
+  it('should keep the previous version and apply the update', async () => {
+    await updateSongWithRevision(song.id, { key: 'G', lyrics: 'new lyrics' })
+
+    expect(db.songs.rows.get(song.id)).toMatchObject({ key: 'G', lyrics: 'new lyrics' })
+    const [revision] = db.songRevisions.rows.values()
+    expect(revision.songId).toBe(song.id)
+    expect(revision.snapshot).toMatchObject({ key: 'F#m', lyrics: song.lyrics, title: 'Wonderwall' })
+    expect(recordChange).toHaveBeenCalledWith('songs', 'updated', song.id)
+  })
+
+  it('should not add a revision when nothing revisioned changes', async () => {
+    await updateSongWithRevision(song.id, { bpm: 87 })
+    expect(db.songRevisions.rows.size).toBe(0)
+  })
+
+  it('should throw for a missing song', async () => {
+    await expect(updateSongWithRevision('missing', { key: 'G' })).rejects.toThrow('Song not found')
+  })
+
+  it('should drop the oldest revisions beyond the limit', async () => {
+    vi.useFakeTimers()
+    for (let i = 1; i <= REVISION_LIMIT + 2; i++) {
+      vi.setSystemTime(new Date(2024, 0, 1, 0, 0, i))
+      await updateSongWithRevision(song.id, { bpm: 100 + i })
+    }
+
+    const revisions = await listRevisions(song.id)
+    expect(revisions).toHaveLength(REVISION_LIMIT)
+    // Newest first: the version replaced by the last update had bpm 100 + LIMIT + 1
+    expect(revisions[0].snapshot.bpm).toBe(100 + REVISION_LIMIT + 1)
+    expect(revisions[REVISION_LIMIT - 1].snapshot.bpm).toBe(102)
+  })
+
+  it('should keep one revision for a run of coalesced saves', async () => {
+    vi.useFakeTimers()
+    const saveAt = (seconds: number, changes: Partial<Song>, coalesce = true) => {
+      vi.setSystemTime(new Date(2024, 1, 1, 0, 0, seconds))
+      return updateSongWithRevision(song.id, changes, { coalesce })
+    }
+
+    await saveAt(0, { lyrics: '[Am]Today' })
+    await saveAt(30, { lyrics: '[Am]Today [C]is' })
+    await saveAt(60, { lyrics: '[Am]Today [C]is [D]gonna' })
+    expect((await listRevisions(song.id)).map((r) => r.snapshot.lyrics)).toEqual([song.lyrics])
+
+    // A pause longer than the window, or another save in between, starts a new run
+    await saveAt(60 + REVISION_COALESCE_MS / 1000 + 1, { lyrics: '[G]Today' })
+    await saveAt(200, { key: 'G' }, false)
+    await saveAt(210, { lyrics: '[G]Today is' })
+
+    expect((await listRevisions(song.id)).map((r) => r.snapshot.lyrics)).toEqual([
+      '[G]Today',
+      '[G]Today',
+      '[Am]Today [C]is [D]gonna',
+      song.lyrics,
+    ])
+  })
+})
+
+describe('restoreRevision', () => {
+  it('should bring back the revision and keep the replaced version', async () => {
+    await updateSongWithRevision(song.id, { key: 'G', notes: 'added later' })
+    const [revision] = await listRevisions(song.id)
+
+    await expect(restoreRevision(revision.id)).resolves.toBe(song.id)
+
+    const restored = db.songs.rows.get(song.id)!
+    expect(restored).toMatchObject({ key: 'F#m', lyrics: song.lyrics })
+    expect(restored.notes).toBeUndefined()
+    expect(restored.timesPlayed).toBe(3)
+    expect(db.songRevisions.rows.size).toBe(2)
+    expect(Array.from(db.songRevisions.rows.values()).some((r) => r.snapshot.key === 'G')).toBe(true)
+  })
+
+  it('should bring back the timing and arrangements that went with the lyrics', async () => {
+    const timing = { timingOverrides: { 'Verse:0': 8 }, timingMap: { 'Verse:0': 7.5 } }
+    const arrangements = [{ id: 'a1', name: 'Short', sections: ['Verse'] }]
+    db.songs.rows.set(song.id, { ...song, ...timing, arrangements })
+    await updateSongWithRevision(song.id, {
+      lyrics: '{start_of_chorus}\n[G]Because maybe\n{end_of_chorus}',
+      timingOverrides: undefined,
+      timingMap: undefined,
+      arrangements: [{ id: 'a2', name: 'Chorus only', sections: ['Chorus'] }],
+    })
+    const [revision] = await listRevisions(song.id)
+
+    await restoreRevision(revision.id)
+
+    expect(db.songs.rows.get(song.id)).toMatchObject({ lyrics: song.lyrics, ...timing, arrangements })
+  })
+
+  it('should throw for an unknown revision', async () => {
+    await expect(restoreRevision('nope')).rejects.toThrow('Revision not found')
+  })
+})
+
+describe('deleteRevisions', () => {
+  it('should remove only the given song\'s revisions', async () => {
+    db.songs.rows.set('song-2', { ...song, id: 'song-2' })
+    await updateSongWithRevision(song.id, { key: 'G' })
+    await updateSongWithRevision('song-2', { key: 'A' })
+
+    await deleteRevisions(song.id)
+
+    expect(await listRevisions(song.id)).toEqual([])
+    expect(await listRevisions('song-2')).toHaveLength(1)
+  })
+})
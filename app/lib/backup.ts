@@ -0,0 +1,227 @@
+/**
+ * Backup & Restore
+ * Versioned full-library backups of every IndexedDB table: songs, setlists,
+ * profile, settings and stats. Restores are validated with zod (dates
+ * revived) and either merge into or replace this device's data.
+ */
+
+import { z } from 'zod'
+import type { Table } from 'dexie'
+import { db, STATS_ID } from '~/lib/db'
+import {
+  songSchema,
+  setlistSchema,
+  userProfileSchema,
+  appSettingsSchema,
+  userStatsSchema,
+} from '~/lib/schemas'
+import { recordChange } from '~/lib/sync'
+import type { Backup, BackupData, RestoreMode, RestoreResult, Song, SyncTable } from '~/types'
+
+/**
+ * Current backup format
+ * - 1: localStorage values as JSON strings, no app marker (settings page before backups)
+ * - 2: every section as JSON, app marker, validated on restore
+ */
+export const BACKUP_VERSION = 2
+
+const backupSchema = z.object({
+  app: z.literal('gigsync'),
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.coerce.date(),
+  songs: z.array(songSchema),
+  setlists: z.array(setlistSchema),
+  profile: userProfileSchema.nullable(),
+  settings: appSettingsSchema.nullable(),
+  stats: userStatsSchema.nullable(),
+})
+
+const legacyBackupSchema = z.object({
+  version: z.literal(1),
+  exportedAt: z.string().optional(),
+  profile: z.string().nullable().optional(),
+  settings: z.string().nullable().optional(),
+  stats: z.string().nullable().optional(),
+  songs: z.array(z.unknown()).optional(),
+  setlists: z.array(z.unknown()).optional(),
+})
+
+function parseJson(text: string | null | undefined): unknown {
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+/** Version 1 → 2: unwrap the stringified localStorage values */
+function upgradeLegacyBackup(data: z.infer<typeof legacyBackupSchema>): unknown {
+  return {
+    app: 'gigsync',
+    version: 2,
+    exportedAt: data.exportedAt ?? new Date(0).toISOString(),
+    songs: data.songs ?? [],
+    setlists: data.setlists ?? [],
+    profile: parseJson(data.profile),
+    settings: parseJson(data.settings),
+    stats: parseJson(data.stats),
+  }
+}
+
+/** First zod issue as "songs.3.title: Required" */
+function describeIssue(error: z.ZodError): string {
+  const [issue] = error.issues
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+}
+
+/**
+ * Read a backup file, upgrading older formats
+ * @throws When the text is not a GigSync backup or fails validation
+ */
+export function parseBackup(text: string): Backup {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Not a backup file: invalid JSON')
+  }
+
+  const version = (data as { version?: unknown } | null)?.version
+  if (typeof version === 'number' && version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of GigSync')
+  }
+  if (version === 1) {
+    const legacy = legacyBackupSchema.safeParse(data)
+    if (!legacy.success) throw new Error(`Invalid backup: ${describeIssue(legacy.error)}`)
+    data = upgradeLegacyBackup(legacy.data)
+  }
+
+  const result = backupSchema.safeParse(data)
+  if (!result.success) throw new Error(`Invalid backup: ${describeIssue(result.error)}`)
+  return result.data as Backup
+}
+
+export function createBackup(data: BackupData, exportedAt = new Date()): Backup {
+  return { app: 'gigsync', version: BACKUP_VERSION, exportedAt, ...data }
+}
+
+export function serializeBackup(backup: Backup): string {
+  return JSON.stringify(backup, null, 2)
+}
+
+/** Everything on this device, ready for createBackup */
+export async function readBackupData(): Promise<BackupData> {
+  const [songs, setlists, profile, settings, stored] = await Promise.all([
+    db.songs.toArray(),
+    db.setlists.toArray(),
+    db.profile.toCollection().first(),
+    db.settings.toCollection().first(),
+    db.stats.get(STATS_ID),
+  ])
+  // The row key is storage detail, not part of the stats
+  const stats = stored ? (({ id: _id, ...rest }) => rest)(stored) : null
+  return { songs, setlists, profile: profile ?? null, settings: settings ?? null, stats }
+}
+
+/**
+ * Records from a backup that a merge should write: the ones this device
+ * doesn't have, plus those `isNewer` prefers over the local copy
+ */
+export function mergeRecords<T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  isNewer: (incoming: T, current: T) => boolean = () => false
+): T[] {
+  const byId = new Map(current.map((record) => [record.id, record]))
+  return incoming.filter((record) => {
+    const local = byId.get(record.id)
+    return !local || isNewer(record, local)
+  })
+}
+
+const isNewerSong = (incoming: Song, current: Song) =>
+  new Date(incoming.updatedAt).getTime() > new Date(current.updatedAt).getTime()
+
+/**
+ * Write a single-record section. Replace swaps it for the backup's (clearing
+ * it when the backup has none); merge only fills it when this device has none.
+ */
+async function restoreSection<T>(table: Table<T>, value: T | null, mode: RestoreMode): Promise<void> {
+  const isEmpty = (await table.count()) === 0
+  if (mode === 'replace') await table.clear()
+  if (value && (mode === 'replace' || isEmpty)) await table.put(value)
+}
+
+/**
+ * Log a restore to the change log so it syncs: every record written, and on
+ * replace every record the backup doesn't have
+ */
+async function recordRestore(
+  table: SyncTable,
+  current: { id: string }[],
+  written: { id: string }[],
+  mode: RestoreMode
+): Promise<void> {
+  const existing = new Set(current.map((record) => record.id))
+  for (const record of written) {
+    await recordChange(table, existing.has(record.id) ? 'updated' : 'created', record.id)
+  }
+  if (mode !== 'replace') return
+  const restored = new Set(written.map((record) => record.id))
+  for (const record of current) {
+    if (!restored.has(record.id)) await recordChange(table, 'deleted', record.id)
+  }
+}
+
+/**
+ * Restore a parsed backup
+ * - replace: songs, setlists and song history are cleared first; every section comes from the backup
+ * - merge: missing records are added and newer songs (updatedAt) overwrite older ones;
+ *   profile, settings and stats are only restored when this device has none
+ * Restored songs and setlists (and on replace, removed ones) are logged for sync.
+ */
+export async function restoreBackup(backup: Backup, mode: RestoreMode): Promise<RestoreResult> {
+  const tables = [db.songs, db.setlists, db.songRevisions, db.profile, db.settings, db.stats, db.changes, db.syncState]
+  return db.transaction('rw', tables, async () => {
+    await restoreSection(db.profile, backup.profile, mode)
+    await restoreSection(db.settings, backup.settings, mode)
+    await restoreSection(db.stats, backup.stats && { ...backup.stats, id: STATS_ID }, mode)
+
+    const currentSongs = await db.songs.toArray()
+    const currentSetlists = await db.setlists.toArray()
+
+    if (mode === 'replace') {
+      await db.songs.clear()
+      await db.setlists.clear()
+      await db.songRevisions.clear()
+      await db.songs.bulkPut(backup.songs)
+      await db.setlists.bulkPut(backup.setlists)
+      await recordRestore('songs', currentSongs, backup.songs, mode)
+      await recordRestore('setlists', currentSetlists, backup.setlists, mode)
+      return { songs: backup.songs.length, setlists: backup.setlists.length }
+    }
+
+    const songs = mergeRecords(currentSongs, backup.songs, isNewerSong)
+    const setlists = mergeRecords(currentSetlists, backup.setlists)
+    await db.songs.bulkPut(songs)
+    await db.setlists.bulkPut(setlists)
+    await recordRestore('songs', currentSongs, songs, mode)
+    await recordRestore('setlists', currentSetlists, setlists, mode)
+    return { songs: songs.length, setlists: setlists.length }
+  })
+}
+
+/**
+ * Remove the records of every table. The sync state stays, so the device
+ * keeps its id and clock instead of turning into a new device. Changes not
+ * sent yet are dropped with the data: they hold whole records, and pushing
+ * them would bring the deleted songs back on the other devices.
+ */
+export async function deleteAllData(): Promise<void> {
+  const tables = db.tables.filter((table) => table !== db.changes && table !== db.syncState)
+  await db.transaction('rw', [...tables, db.changes], async () => {
+    await Promise.all(tables.map((table) => table.clear()))
+    await db.changes.where('pending').equals(1).delete()
+  })
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { isChordOverLyrics, convertChordOverLyrics } from '../chordOverLyrics'
+import { parseChordPro } from '../parser'
+import type { LyricParsedLine, SectionLine, InstrumentalLine } from '../types'
+
+const CHART = `Title: Amazing Grace
+Artist: John Newton
+Key: G
+
+Intro:
+G   C   G   D
+
+Verse 1:
+G            C        G
+Amazing grace how sweet the sound
+        G              D
+That saved a wretch like me
+
+[Chorus]
+Em     C
+Was blind`
+
+describe('Chord-over-lyrics converter', () => {
+  describe('isChordOverLyrics', () => {
+    it('should detect chord lines above lyrics', () => {
+      expect(isChordOverLyrics(CHART)).toBe(true)
+    })
+
+    it('should not treat ChordPro as plain text', () => {
+      expect(isChordOverLyrics('{title: X}\n[Verse]\n[G]Amazing [C]grace')).toBe(false)
+      expect(isChordOverLyrics('[Intro]\nAm | G | C |\nLyrics here')).toBe(false)
+    })
+
+    it('should not trigger on plain lyrics', () => {
+      expect(isChordOverLyrics('A man walks\ninto a bar')).toBe(false)
+      expect(isChordOverLyrics('Go\nDo what you must')).toBe(false)
+      expect(isChordOverLyrics('NC Go Do\nOn the road')).toBe(false)
+    })
+  })
+
+  describe('convertChordOverLyrics', () => {
+    it('should align chord columns into the lyric below', () => {
+      expect(convertChordOverLyrics('G            C        G\nAmazing grace how sweet the sound')).toBe(
+        '[G]Amazing grace[C] how swee[G]t the sound'
+      )
+    })
+
+    it('should pad lyrics shorter than the chord line', () => {
+      expect(convertChordOverLyrics('G     D\nMe')).toBe('[G]Me    [D]')
+    })
+
+    it('should expand tabs before aligning', () => {
+      expect(convertChordOverLyrics('\tG\nAmazing grace')).toBe('Amazing [G]grace')
+    })
+
+    it('should turn chord lines without lyrics into bar lines', () => {
+      expect(convertChordOverLyrics('G   C   G   D\n\nG C x2')).toBe('G | C | G | D |\n\nG | C | x2')
+    })
+
+    it('should recognise section labels', () => {
+      expect(convertChordOverLyrics('Verse 1:\n[Chorus]\nPre-Chorus\nBridge:')).toBe(
+        '[Verse 1]\n[Chorus]\n[Pre-Chorus]\n[Bridge]'
+      )
+    })
+
+    it('should split a label followed by chords', () => {
+      expect(convertChordOverLyrics('Intro: Am G C')).toBe('[Intro]\nAm | G | C |')
+    })
+
+    it('should turn header lines into directives', () => {
+      expect(convertChordOverLyrics('Title: Hey\nArtista: Ana\nCapo: 2\nBPM: 90')).toBe(
+        '{title: Hey}\n{artist: Ana}\n{capo: 2}\n{tempo: 90}'
+      )
+    })
+
+    it('should leave lyrics, directives and tabs alone', () => {
+      const text = '{comment: Softly}\nJust words here\ne|--3--2--|'
+      expect(convertChordOverLyrics(text)).toBe(text)
+    })
+
+    it('should produce ChordPro the parser reads as sections, lyrics and bars', () => {
+      const song = parseChordPro(convertChordOverLyrics(CHART))
+
+      expect(song.directives).toMatchObject({ title: 'Amazing Grace', artist: 'John Newton', key: 'G' })
+
+      const intro = song.lines.find((l): l is InstrumentalLine => l.type === 'instrumental')
+      expect(intro?.section.name).toBe('Intro')
+      expect(intro?.section.chordBars.map((b) => b.chord)).toEqual(['G', 'C', 'G', 'D'])
+
+      const sections = song.lines.filter((l): l is SectionLine => l.type === 'section')
+      expect(sections.map((s) => s.name)).toEqual(['Verse 1', 'Chorus'])
+
+      const lyrics = song.lines.filter((l): l is LyricParsedLine => l.type === 'lyric')
+      expect(lyrics[1].text).toBe('That saved a wretch like me')
+      expect(lyrics[1].chords).toEqual([
+        { chord: 'G', position: 8 },
+        { chord: 'D', position: 23 },
+      ])
+      expect(lyrics[2].chords.map((c) => c.chord)).toEqual(['Em', 'C'])
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { parseChordDefinition, parseChordDefinitions, getChordShape } from '../chordShapes'
+import { parseChordPro, extractParsedChords } from '../parser'
+
+describe('Chord shapes', () => {
+  describe('parseChordDefinition', () => {
+    it('should parse frets with muted strings and default base fret', () => {
+      expect(parseChordDefinition('Am frets x 0 2 2 1 0')).toEqual({
+        name: 'Am',
+        baseFret: 1,
+        frets: [null, 0, 2, 2, 1, 0],
+      })
+    })
+
+    it('should parse base-fret and fingers', () => {
+      expect(parseChordDefinition('Bm base-fret 2 frets x 1 3 3 2 1 fingers 0 1 3 4 2 1')).toEqual({
+        name: 'Bm',
+        baseFret: 2,
+        frets: [null, 1, 3, 3, 2, 1],
+        fingers: [null, 1, 3, 4, 2, 1],
+      })
+    })
+
+    it('should accept N and -1 as muted strings', () => {
+      expect(parseChordDefinition('D frets N -1 0 2 3 2')?.frets).toEqual([null, null, 0, 2, 3, 2])
+    })
+
+    it('should return null for definitions without frets', () => {
+      expect(parseChordDefinition('Asus keys 0 4 7')).toBeNull()
+      expect(parseChordDefinition('')).toBeNull()
+    })
+
+    it('should key definitions by name, last one winning', () => {
+      const defs = parseChordDefinitions(['G frets 3 2 0 0 0 3', 'G frets 3 2 0 0 3 3'])
+      expect(defs.get('G')?.frets).toEqual([3, 2, 0, 0, 3, 3])
+    })
+  })
+
+  describe('getChordShape — guitar', () => {
+    it('should prefer open shapes', () => {
+      expect(getChordShape('C', 'guitar')).toEqual({ name: 'C', baseFret: 1, frets: [null, 3, 2, 0, 1, 0] })
+      expect(getChordShape('Am', 'guitar')?.frets).toEqual([null, 0, 2, 2, 1, 0])
+      expect(getChordShape('E7', 'guitar')?.frets).toEqual([0, 2, 0, 1, 0, 0])
+    })
+
+    it('should shift movable shapes into barre chords', () => {
+      expect(getChordShape('F', 'guitar')).toEqual({ name: 'F', baseFret: 1, frets: [1, 3, 3, 2, 1, 1] })
+      expect(getChordShape('Bb', 'guitar')?.frets).toEqual([null, 1, 3, 3, 3, 1])
+    })
+
+    it('should use a base fret for shapes higher up the neck', () => {
+      const shape = getChordShape('C#m', 'guitar')
+      expect(shape?.baseFret).toBe(4)
+      expect(shape?.frets).toEqual([null, 1, 3, 3, 2, 1])
+    })
+
+    it('should normalize quality aliases and slash chords', () => {
+      expect(getChordShape('Amin', 'guitar')?.frets).toEqual(getChordShape('Am', 'guitar')?.frets)
+      expect(getChordShape('Dsus', 'guitar')?.frets).toEqual([null, null, 0, 2, 3, 3])
+      expect(getChordShape('C/G', 'guitar')?.frets).toEqual([null, 3, 2, 0, 1, 0])
+    })
+
+    it('should resolve every chord the parser accepts', () => {
+      for (const chord of ['Cmaj7', 'Dm7', 'G9', 'Eadd9', 'Bdim', 'Faug', 'Gm6', 'A11', 'Ebsus2']) {
+        expect(getChordShape(chord, 'guitar'), chord).not.toBeNull()
+      }
+    })
+
+    it('should return null for non-chords', () => {
+      expect(getChordShape('N.C.', 'guitar')).toBeNull()
+    })
+  })
+
+  describe('getChordShape — ukulele and bass', () => {
+    it('should use four-string ukulele shapes', () => {
+      expect(getChordShape('C', 'ukulele')?.frets).toEqual([0, 0, 0, 3])
+      expect(getChordShape('Am', 'ukulele')?.frets).toEqual([2, 0, 0, 0])
+      expect(getChordShape('Bb', 'ukulele')?.frets).toEqual([3, 2, 1, 1])
+    })
+
+    it('should fall back to simpler shapes on bass', () => {
+      expect(getChordShape('A', 'bass')?.frets).toEqual([1, 3, 3, 2])
+      expect(getChordShape('A', 'bass')?.baseFret).toBe(5)
+      expect(getChordShape('C6', 'bass')).not.toBeNull()
+    })
+  })
+
+  describe('getChordShape — song definitions', () => {
+    it('should prefer {define} shapes matching the instrument', () => {
+      const defs = parseChordDefinitions(['C frets x 3 5 5 5 3'])
+      expect(getChordShape('C', 'guitar', defs)?.frets).toEqual([null, 3, 5, 5, 5, 3])
+    })
+
+    it('should ignore definitions for a different string count', () => {
+      const defs = parseChordDefinitions(['C frets x 3 5 5 5 3'])
+      expect(getChordShape('C', 'ukulele', defs)?.frets).toEqual([0, 0, 0, 3])
+    })
+  })
+
+  describe('extractParsedChords', () => {
+    it('should list unique chords in order, including instrumental bars', () => {
+      const song = parseChordPro('[Intro | 2 bars]\nAm | F |\n[G]Hello [Am]world', 2)
+      expect(extractParsedChords(song.lines)).toEqual(['Bm', 'G', 'A'])
+    })
+  })
+})
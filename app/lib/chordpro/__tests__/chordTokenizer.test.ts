@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import { tokenizeChord, isNoChord } from '../chordTokenizer'
+import { isValidChord } from '../instrumental'
+import { parseChordPositions, extractParsedChords, parseChordPro } from '../parser'
+import { transposeChord, transposeLine } from '../transpose'
+import { getChordShape } from '../chordShapes'
+import type { ChordQuality } from '../types'
+
+/** [chord, quality, extensions, alterations] */
+const CORPUS: [string, ChordQuality, string[], string[]][] = [
+  ['C', 'major', [], []],
+  ['Am', 'minor', [], []],
+  ['F#m', 'minor', [], []],
+  ['Bbmaj7', 'major', ['maj7'], []],
+  ['CM7', 'major', ['maj7'], []],
+  ['CΔ', 'major', ['maj7'], []],
+  ['Cmaj7#11', 'major', ['maj7'], ['#11']],
+  ['Cmaj9', 'major', ['maj9'], []],
+  ['G7', 'major', ['7'], []],
+  ['G7b9', 'major', ['7'], ['b9']],
+  ['E7#9', 'major', ['7'], ['#9']],
+  ['C7(b9,#11)', 'major', ['7'], ['b9', '#11']],
+  ['G7alt', 'major', ['7'], ['alt']],
+  ['C7+5', 'major', ['7'], ['#5']],
+  ['Bm7b5', 'minor', ['7'], ['b5']],
+  ['Cm7-5', 'minor', ['7'], ['b5']],
+  ['Cø7', 'half-diminished', ['7'], []],
+  ['Cø', 'half-diminished', ['7'], []],
+  ['Bdim', 'diminished', [], []],
+  ['Bdim7', 'diminished', ['7'], []],
+  ['B°7', 'diminished', ['7'], []],
+  ['Caug', 'augmented', [], []],
+  ['C+', 'augmented', [], []],
+  ['C+7', 'augmented', ['7'], []],
+  ['C6/9', 'major', ['6/9'], []],
+  ['C69', 'major', ['6/9'], []],
+  ['Am6', 'minor', ['6'], []],
+  ['Asus4add9', 'sus4', ['add9'], []],
+  ['Dsus', 'sus4', [], []],
+  ['Dsus2', 'sus2', [], []],
+  ['G7sus4', 'sus4', ['7'], []],
+  ['Cadd9', 'major', ['add9'], []],
+  ['Cmadd9', 'minor', ['add9'], []],
+  ['Cm(maj7)', 'minor', ['maj7'], []],
+  ['C-7', 'minor', ['7'], []],
+  ['Cmin7', 'minor', ['7'], []],
+  ['E5', 'power', [], []],
+  ['A13', 'major', ['13'], []],
+  ['D11', 'major', ['11'], []],
+  ['C2', 'major', ['2'], []],
+  ['Cmaj7no3', 'major', ['maj7'], ['no3']],
+]
+
+/** Section names, words and typos that must not read as chords */
+const NOT_CHORDS = [
+  'Bridge', 'Coda', 'Chorus', 'Bass', 'Fine', 'Amen', 'Add', 'Dim', 'Aug', 'Ebb',
+  'H', 'Verse 1', 'Cmm', 'Cmaj7maj7', 'Cmdim', 'C1', 'C8', 'C-5', 'C7/9', '', 'Am ',
+  'Go', 'Co', 'Do', 'Bo7', 'NC',
+]
+
+describe('Chord tokenizer', () => {
+  describe('tokenizeChord', () => {
+    it.each(CORPUS)('should tokenize %s', (chord, quality, extensions, alterations) => {
+      expect(tokenizeChord(chord)).toMatchObject({ quality, extensions, alterations })
+    })
+
+    it.each(NOT_CHORDS)('should reject %j', (text) => {
+      expect(tokenizeChord(text)).toBeNull()
+    })
+
+    it('should split root, suffix and bass', () => {
+      expect(tokenizeChord('Bbm7b5/Fb')).toEqual({
+        root: 'B',
+        accidental: 'b',
+        suffix: 'm7b5',
+        bass: { note: 'F', accidental: 'b' },
+        quality: 'minor',
+        extensions: ['7'],
+        alterations: ['b5'],
+      })
+    })
+
+    it('should keep 6/9 in the suffix rather than reading 9 as a bass', () => {
+      expect(tokenizeChord('C6/9')).toMatchObject({ suffix: '6/9' })
+      expect(tokenizeChord('C6/9')?.bass).toBeUndefined()
+      expect(tokenizeChord('C6/9/E')).toMatchObject({ suffix: '6/9', bass: { note: 'E' } })
+    })
+  })
+
+  describe('no chord', () => {
+    it('should recognise N.C. spellings', () => {
+      expect(['N.C.', 'N.C', ' N.C. '].every(isNoChord)).toBe(true)
+      expect(['No', 'NC', 'N.', 'NC.'].some(isNoChord)).toBe(false)
+    })
+
+    it('should be valid but not tokenized or transposed', () => {
+      expect(isValidChord('N.C.')).toBe(true)
+      expect(tokenizeChord('N.C.')).toBeNull()
+      expect(transposeChord('N.C.', 3)).toBe('N.C.')
+    })
+
+    it('should show over lyrics and in bars but not in the chord list', () => {
+      const song = parseChordPro('[N.C.]Stop [G]now\nN.C. | C |')
+      expect(extractParsedChords(song.lines)).toEqual(['G', 'C'])
+    })
+  })
+
+  describe('shared by the parser and the transposer', () => {
+    it.each(CORPUS.map(([chord]) => chord))('should accept and round-trip %s', (chord) => {
+      expect(isValidChord(chord)).toBe(true)
+      expect(parseChordPositions(`[${chord}]la`).chords[0]?.chord).toBe(chord)
+      expect(transposeChord(transposeChord(chord, 5), -5)).toBe(chord)
+    })
+
+    it('should keep the suffix as written when transposing', () => {
+      expect(transposeChord('Cmaj7#11', 2)).toBe('Dmaj7#11')
+      expect(transposeChord('Bm7b5/F', 1)).toBe('Cm7b5/F#')
+      expect(transposeChord('C6/9', 7)).toBe('G6/9')
+    })
+
+    it('should leave section names alone', () => {
+      expect(transposeChord('Bridge', 2)).toBe('Bridge')
+      expect(transposeLine('[Bridge]', 2)).toBe('[Bridge]')
+    })
+
+    it('should keep inline beats when transposing a line', () => {
+      expect(transposeLine('[Am:2]la [E7#9]lo', 2)).toBe('[Bm:2]la [F#7#9]lo')
+    })
+  })
+
+  describe('chord shapes', () => {
+    it('should find a diagram for every chord in the corpus', () => {
+      for (const [chord] of CORPUS) {
+        expect(getChordShape(chord, 'guitar'), chord).not.toBeNull()
+      }
+    })
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import { mergeChordPro, resolveChordProMerge, mergeValue } from '../merge'
+import { parseChordPro } from '../parser'
+
+const BASE = [
+  '{title: Wonderwall}',
+  '[Intro | 4 bars]',
+  'Em7 | G | Dsus4 | A7sus4 |',
+  '',
+  '[Verse]',
+  '[Em7]Today is gonna be the day',
+  'That they\'re gonna [G]throw it back to you',
+  '',
+  '[Chorus]',
+  'And [C]all the roads we [D]have to walk are [Em]winding',
+].join('\n')
+
+const edit = (text: string, from: string, to: string) => {
+  expect(text).toContain(from)
+  return text.replace(from, to)
+}
+
+describe('mergeValue', () => {
+  it('should take the side that changed', () => {
+    expect(mergeValue(1, 1, 2)).toEqual({ value: 2 })
+    expect(mergeValue(1, 3, 1)).toEqual({ value: 3 })
+    expect(mergeValue(['a'], ['b'], ['b'])).toEqual({ value: ['b'] })
+  })
+
+  it('should return null when both sides changed differently', () => {
+    expect(mergeValue(1, 2, 3)).toBeNull()
+  })
+})
+
+describe('mergeChordPro', () => {
+  it('should apply edits to different lines from both sides', () => {
+    const local = edit(BASE, 'Today is gonna', 'Today is going')
+    const remote = edit(BASE, '[C]all the roads', '[Cadd9]all the roads')
+
+    const merge = mergeChordPro(BASE, local, remote)
+
+    expect(merge.conflicts).toBe(0)
+    const text = resolveChordProMerge(merge)
+    expect(text).toContain('[Em7]Today is going be the day')
+    expect(text).toContain('And [Cadd9]all the roads')
+    expect(text.split('\n')).toHaveLength(BASE.split('\n').length)
+  })
+
+  it('should keep lines added on both sides at different places', () => {
+    const local = `${BASE}\n[Em]I said maybe`
+    const remote = edit(BASE, '[Verse]', '[Verse 1]')
+
+    const text = resolveChordProMerge(mergeChordPro(BASE, local, remote))
+
+    expect(text).toContain('[Verse 1]')
+    expect(text.endsWith('[Em]I said maybe')).toBe(true)
+  })
+
+  it('should not conflict on the same edit or on spacing-only differences', () => {
+    const local = edit(BASE, 'Em7 | G | Dsus4 | A7sus4 |', 'Em7|G|Dsus4|A7sus4|')
+    const remote = BASE
+    expect(mergeChordPro(BASE, local, remote).conflicts).toBe(0)
+
+    const both = edit(BASE, '[Chorus]', '[Chorus 1]')
+    expect(mergeChordPro(BASE, both, both).conflicts).toBe(0)
+  })
+
+  it('should merge different chord bars of the same instrumental section', () => {
+    const local = edit(BASE, 'Em7 | G |', 'Em | G |')
+    const remote = edit(BASE, 'Dsus4 | A7sus4 |', 'Dsus4 | A7 |')
+
+    const merge = mergeChordPro(BASE, local, remote)
+
+    expect(merge.conflicts).toBe(0)
+    const intro = parseChordPro(resolveChordProMerge(merge)).lines.find((line) => line.type === 'instrumental')
+    expect(intro?.type === 'instrumental' && intro.section.chordBars.map((bar) => bar.chord)).toEqual([
+      'Em',
+      'G',
+      'Dsus4',
+      'A7',
+    ])
+  })
+
+  it('should merge chords at different positions of an unchanged lyric line', () => {
+    const local = edit(BASE, 'And [C]all', 'And [Cmaj7]all')
+    const remote = edit(BASE, 'are [Em]winding', 'are [Em7]winding')
+
+    const merge = mergeChordPro(BASE, local, remote)
+
+    expect(merge.conflicts).toBe(0)
+    expect(resolveChordProMerge(merge)).toContain('And [Cmaj7]all the roads we [D]have to walk are [Em7]winding')
+  })
+
+  it('should report overlapping edits as a conflict in their section', () => {
+    const local = edit(BASE, 'Today is gonna be the day', 'Today is the day')
+    const remote = edit(BASE, 'Today is gonna be the day', 'Today will be the day')
+
+    const merge = mergeChordPro(BASE, local, remote)
+
+    expect(merge.conflicts).toBe(1)
+    const conflict = merge.hunks.find((hunk) => hunk.type === 'conflict')
+    expect(conflict).toEqual({
+      type: 'conflict',
+      section: 'Verse',
+      base: ['[Em7]Today is gonna be the day'],
+      local: ['[Em7]Today is the day'],
+      remote: ['[Em7]Today will be the day'],
+    })
+  })
+
+  it('should report the same chord bar changed differently as a conflict', () => {
+    const local = edit(BASE, 'Em7 | G |', 'Em | G |')
+    const remote = edit(BASE, 'Em7 | G |', 'E | G |')
+
+    const merge = mergeChordPro(BASE, local, remote)
+
+    expect(merge.conflicts).toBe(1)
+    expect(merge.hunks.find((hunk) => hunk.type === 'conflict')).toMatchObject({ section: 'Intro' })
+  })
+})
+
+describe('resolveChordProMerge', () => {
+  const local = edit(BASE, 'Today is gonna be the day', 'Today is the day')
+  const remote = edit(BASE, 'Today is gonna be the day', 'Today will be the day')
+  const merge = mergeChordPro(BASE, local, remote)
+
+  it('should keep the local side by default', () => {
+    expect(resolveChordProMerge(merge)).toBe(local)
+  })
+
+  it('should apply each choice', () => {
+    expect(resolveChordProMerge(merge, ['remote'])).toBe(remote)
+    expect(resolveChordProMerge(merge, ['both'])).toContain('[Em7]Today is the day\n[Em7]Today will be the day')
+  })
+
+  it('should produce text that parses back to the same structure', () => {
+    const merged = resolveChordProMerge(merge, ['remote'])
+    expect(parseChordPro(merged).lines.map((line) => line.type)).toEqual(
+      parseChordPro(BASE).lines.map((line) => line.type)
+    )
+  })
+})
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest'
+import { toChordNotation, resolveNumberChord } from '../notation'
+import { parseChordPro, resolveNumberChart } from '../parser'
+import { serializeChordPro } from '../serializer'
+import type { ChordsOnlyLine, LyricParsedLine, InstrumentalLine } from '../types'
+
+describe('Chord notation', () => {
+  describe('toChordNotation — Nashville', () => {
+    it('should number diatonic chords with their quality', () => {
+      expect(['C', 'Dm', 'Em7', 'F', 'G7', 'Am', 'Bdim'].map((c) => toChordNotation(c, 'nashville', 'C'))).toEqual([
+        '1', '2m', '3m7', '4', '57', '6m', '7°',
+      ])
+    })
+
+    it('should follow the key', () => {
+      expect(toChordNotation('D', 'nashville', 'G')).toBe('5')
+      expect(toChordNotation('Bbmaj7', 'nashville', 'F')).toBe('4maj7')
+    })
+
+    it('should number slash chord basses', () => {
+      expect(toChordNotation('C/E', 'nashville', 'C')).toBe('1/3')
+      expect(toChordNotation('D/F#', 'nashville', 'G')).toBe('5/7')
+    })
+
+    it('should mark borrowed chords with accidentals', () => {
+      expect(toChordNotation('Bb', 'nashville', 'C')).toBe('b7')
+      expect(toChordNotation('Ab', 'nashville', 'C')).toBe('b6')
+      expect(toChordNotation('Fm', 'nashville', 'C')).toBe('4m')
+      expect(toChordNotation('F#m7b5', 'nashville', 'C')).toBe('#4ø7')
+    })
+
+    it('should count minor keys from the minor tonic', () => {
+      expect(toChordNotation('Am', 'nashville', 'Am')).toBe('1m')
+      expect(toChordNotation('C', 'nashville', 'Am')).toBe('3')
+      expect(toChordNotation('E7', 'nashville', 'Am')).toBe('57')
+    })
+
+    it('should place enharmonic spellings by pitch', () => {
+      expect(toChordNotation('A#', 'nashville', 'C')).toBe('#6')
+      expect(toChordNotation('Gb', 'nashville', 'D#')).toBe('b3')
+    })
+  })
+
+  describe('toChordNotation — Roman', () => {
+    it('should use case for quality', () => {
+      expect(['C', 'Dm7', 'G7', 'Am', 'Bdim', 'Bm7b5'].map((c) => toChordNotation(c, 'roman', 'C'))).toEqual([
+        'I', 'ii7', 'V7', 'vi', 'vii°', 'viiø7',
+      ])
+    })
+
+    it('should handle borrowed chords and minor keys', () => {
+      expect(toChordNotation('Bb', 'roman', 'C')).toBe('bVII')
+      expect(toChordNotation('Fm', 'roman', 'C')).toBe('iv')
+      expect(toChordNotation('C', 'roman', 'Am')).toBe('III')
+      expect(toChordNotation('Dm', 'roman', 'Am')).toBe('iv')
+    })
+
+    it('should keep extensions and basses', () => {
+      expect(toChordNotation('Cmaj7', 'roman', 'C')).toBe('Imaj7')
+      expect(toChordNotation('G/B', 'roman', 'C')).toBe('V/7')
+    })
+  })
+
+  describe('toChordNotation — passthrough', () => {
+    it('should return the chord for letters, unknown keys and non-chords', () => {
+      expect(toChordNotation('Am', 'letters', 'C')).toBe('Am')
+      expect(toChordNotation('Am', 'nashville')).toBe('Am')
+      expect(toChordNotation('Am', 'nashville', 'H')).toBe('Am')
+      expect(toChordNotation('N.C.', 'roman', 'C')).toBe('N.C.')
+    })
+  })
+
+  describe('resolveNumberChord', () => {
+    it('should resolve Nashville numbers', () => {
+      expect(resolveNumberChord('1', 'G')).toBe('G')
+      expect(resolveNumberChord('6m', 'C')).toBe('Am')
+      expect(resolveNumberChord('2-7', 'C')).toBe('Dm7')
+      expect(resolveNumberChord('5/7', 'G')).toBe('D/F#')
+      expect(resolveNumberChord('b7', 'C')).toBe('Bb')
+      expect(resolveNumberChord('3', 'Am')).toBe('C')
+    })
+
+    it('should resolve Roman numerals', () => {
+      expect(resolveNumberChord('IV', 'Eb')).toBe('Ab')
+      expect(resolveNumberChord('vi', 'C')).toBe('Am')
+      expect(resolveNumberChord('V7', 'A')).toBe('E7')
+      expect(resolveNumberChord('vii°', 'C')).toBe('Bdim')
+      expect(resolveNumberChord('bVII', 'D')).toBe('C')
+    })
+
+    it('should avoid spellings the transposer cannot read', () => {
+      expect(resolveNumberChord('7', 'F#')).toBe('F')
+    })
+
+    it('should reject tokens that are not number chords', () => {
+      expect(resolveNumberChord('1st', 'C')).toBeNull()
+      expect(resolveNumberChord('Verse', 'C')).toBeNull()
+      expect(resolveNumberChord('8', 'C')).toBeNull()
+      expect(resolveNumberChord('4', 'H')).toBeNull()
+    })
+
+    it('should round-trip with toChordNotation', () => {
+      for (const chord of ['C', 'Dm7', 'G/B', 'Bb', 'Fm', 'Ab', 'Bdim', 'Cmaj7']) {
+        expect(resolveNumberChord(toChordNotation(chord, 'nashville', 'C'), 'C'), chord).toBe(chord)
+        expect(resolveNumberChord(toChordNotation(chord, 'roman', 'C'), 'C'), chord).toBe(chord)
+      }
+    })
+  })
+
+  describe('number charts in the parser', () => {
+    it('should resolve inline chords, bar lines and grids against a key', () => {
+      const text = '[1]Amazing [4:2]grace\n5 | 6m 2 (how) | x2\n{start_of_grid}\n| 1 . 4 . | 5 |\n{end_of_grid}'
+      expect(resolveNumberChart(text, 'G')).toBe(
+        '[G]Amazing [C:2]grace\nD | Em 2 (how) | x2\n{start_of_grid}\n| G . C . | D |\n{end_of_grid}'
+      )
+    })
+
+    it('should leave section headers, tabs and lyric lines alone', () => {
+      const text = '[Verse 1]\nI | love you\n{start_of_tab}\ne|--1--4--|\n{end_of_tab}'
+      expect(resolveNumberChart(text, 'C')).toBe(text)
+    })
+
+    it('should use the {key} directive when no key is given', () => {
+      const song = parseChordPro('{key: D}\n{numbers}\n1 | 4 | 5 |\n[6m]Hi')
+      expect((song.lines[0] as ChordsOnlyLine).chordBars.map((b) => b.chord)).toEqual(['D', 'G', 'A'])
+      expect((song.lines[1] as LyricParsedLine).chords[0].chord).toBe('Bm')
+    })
+
+    it('should prefer an explicit key and transpose the resolved chords', () => {
+      const song = parseChordPro('{key: D}\n{numbers}\n[Intro]\nI | IV |', 2, undefined, 'C')
+      expect((song.lines[0] as InstrumentalLine).section.chordBars.map((b) => b.chord)).toEqual(['D', 'G'])
+    })
+
+    it('should keep number tokens as text without a key', () => {
+      const song = parseChordPro('{numbers}\n[1]Hi')
+      expect((song.lines[0] as LyricParsedLine).chords).toEqual([])
+    })
+
+    it('should leave a chart without {numbers} as written', () => {
+      const text = '[V]\n[G]Hold on [2]now\n[IV]\n[C]Let go'
+      const song = parseChordPro(text, 0, undefined, 'C')
+
+      expect(song.lines.map((line) => line.raw)).toEqual(text.split('\n'))
+      expect(serializeChordPro(song)).toBe(text)
+    })
+
+    it('should save a resolved chart as letters, without {numbers}', () => {
+      const song = parseChordPro('{key: G}\n{numbers}\n[1]Amazing')
+      expect(song.directives.numbers).toBeUndefined()
+      expect(serializeChordPro(song)).toBe('{key: G}\n[G]Amazing')
+    })
+
+    it('should keep {numbers} through a round trip when there is no key to resolve it', () => {
+      const song = parseChordPro('{numbers}\n1 | 4 |')
+      expect(serializeChordPro(song)).toBe('{numbers}\n1 | 4 |')
+    })
+  })
+})
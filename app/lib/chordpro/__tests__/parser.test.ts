@@ -6,8 +6,19 @@ import {
   stripChords,
   extractChords,
 } from '../parser'
-import { parseSectionHeader, parseChordBars, parseInstrumentalSection } from '../instrumental'
-import { transposeChord, parseChordString, getInterval } from '../transpose'
+import { parseSectionHeader, parseSectionRepeat, parseChordBars, parseInstrumentalSection } from '../instrumental'
+import {
+  transposeChord,
+  parseChordString,
+  getInterval,
+  transposeKey,
+  normalizeKey,
+  getKeySignature,
+  prefersFlats,
+  getKeyInterval,
+  signedInterval,
+  getKeyOptions,
+} from '../transpose'
 
 describe('ChordPro Parser', () => {
   describe('parseLine', () => {
@@ -206,6 +217,25 @@ describe('Instrumental Section Parser', () => {
     })
   })
 
+  describe('parseSectionRepeat', () => {
+    it('should read a repeat marker ending the name', () => {
+      expect(parseSectionRepeat('Chorus x2')).toBe(2)
+      expect(parseSectionRepeat('Chorus (x3)')).toBe(3)
+      expect(parseSectionRepeat('Chorus ×2')).toBe(2)
+    })
+
+    it('should ignore names without a repeat', () => {
+      expect(parseSectionRepeat('Verse 2')).toBeUndefined()
+      expect(parseSectionRepeat('Chorus x1')).toBeUndefined()
+    })
+
+    it('should set repeatCount on section lines and keep the name', () => {
+      expect(parseLine('[Chorus x2]')).toMatchObject({ type: 'section', name: 'Chorus x2', sectionType: 'chorus', repeatCount: 2 })
+      expect(parseLine('{start_of_chorus: Chorus x2}')).toMatchObject({ type: 'section', repeatCount: 2 })
+      expect(parseLine('[Chorus]')).not.toHaveProperty('repeatCount')
+    })
+  })
+
   describe('parseChordBars', () => {
     it('should parse simple chord progression', () => {
       const result = parseChordBars('Am | G | C | F |')
@@ -329,6 +359,77 @@ describe('Transpose Utilities', () => {
       expect(transposeChord('G7', 0)).toBe('G7')
     })
   })
+
+  describe('key-aware spelling', () => {
+    it('should spell chords from the target key signature', () => {
+      // F up a tone → G major: F# not Gb
+      expect(transposeChord('E', 2, prefersFlats(transposeKey('F', 2)))).toBe('F#')
+      // F up three semitones → Ab major: the C chord becomes Eb, not D#
+      expect(transposeChord('C', 3, prefersFlats(transposeKey('F', 3)))).toBe('Eb')
+      // G up three semitones → Bb major
+      expect(transposeChord('G', 3, prefersFlats(transposeKey('G', 3)))).toBe('Bb')
+      expect(transposeChord('D7/F#', 3, true)).toBe('F7/A')
+      expect(transposeChord('C/E', 1, true)).toBe('Db/F')
+    })
+
+    it('should fall back to the source spelling when the key has no accidentals', () => {
+      expect(prefersFlats('C')).toBeUndefined()
+      expect(prefersFlats('Am')).toBeUndefined()
+      expect(transposeChord('Bb', 2, prefersFlats('C'))).toBe('C')
+      expect(transposeChord('F#', 1, prefersFlats('Am'))).toBe('G')
+    })
+
+    it('should let the per-song preference win over the key', () => {
+      expect(prefersFlats('E', 'flats')).toBe(true)
+      expect(prefersFlats('Eb', 'sharps')).toBe(false)
+      expect(transposeChord('C', 1, prefersFlats('D', 'flats'))).toBe('Db')
+    })
+  })
+
+  describe('keys', () => {
+    it('should cover majors and minors in the key signature table', () => {
+      expect(getKeySignature('D')).toBe(2)
+      expect(getKeySignature('Bb')).toBe(-2)
+      expect(getKeySignature('F#m')).toBe(3)
+      expect(getKeySignature('Cm')).toBe(-3)
+      expect(getKeySignature('H')).toBeNull()
+    })
+
+    it('should normalize key names and enharmonics', () => {
+      expect(normalizeKey('A minor')).toBe('Am')
+      expect(normalizeKey('Bb major')).toBe('Bb')
+      expect(normalizeKey('D#')).toBe('Eb')
+      expect(normalizeKey('A#m')).toBe('A#m')
+      expect(normalizeKey('Gb')).toBe('Gb')
+    })
+
+    it('should transpose keys with conventional spelling', () => {
+      expect(transposeKey('F', 2)).toBe('G')
+      expect(transposeKey('A', 1)).toBe('Bb')
+      expect(transposeKey('E', 2)).toBe('F#')
+      expect(transposeKey('C', 1)).toBe('Db')
+      expect(transposeKey('Am', 3)).toBe('Cm')
+      expect(transposeKey('Em', -1)).toBe('Ebm')
+      expect(transposeKey('Bm', -3)).toBe('G#m')
+    })
+
+    it('should compute the interval to a target key, including minor keys', () => {
+      expect(getKeyInterval('C', 'D')).toBe(2)
+      expect(getKeyInterval('Am', 'Cm')).toBe(3)
+      expect(getKeyInterval('G', 'E')).toBe(9)
+      expect(getKeyInterval('Bb', 'A#')).toBe(0)
+      expect(getKeyInterval('C', 'nope')).toBe(0)
+    })
+
+    it('should give the shortest signed interval', () => {
+      expect([0, 2, 6, 7, 10, -1, 14].map(signedInterval)).toEqual([0, 2, 6, -5, -2, -1, 2])
+    })
+
+    it('should list the twelve keys in the same mode', () => {
+      expect(getKeyOptions('G')).toEqual(['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'])
+      expect(getKeyOptions('Am')).toEqual(['Cm', 'C#m', 'Dm', 'Ebm', 'Em', 'Fm', 'F#m', 'Gm', 'G#m', 'Am', 'Bbm', 'Bm'])
+    })
+  })
 })
 
 import { parseChordPositions } from '../parser'
@@ -414,3 +515,244 @@ describe('ChordPosition beats syntax', () => {
     })
   })
 })
+
+import { parseDirective, parseEnvironmentDirective } from '../parser'
+import type { DirectiveLine, SectionLine } from '../types'
+
+describe('ChordPro 6 directives', () => {
+  describe('parseDirective', () => {
+    it('normalizes metadata aliases', () => {
+      expect(parseDirective('{st: Live version}')).toEqual({ key: 'subtitle', value: 'Live version' })
+      expect(parseDirective('{composer: J. Doe}')).toEqual({ key: 'composer', value: 'J. Doe' })
+      expect(parseDirective('{lyricist: A. Poet}')).toEqual({ key: 'lyricist', value: 'A. Poet' })
+      expect(parseDirective('{copyright: 2024 Someone}')).toEqual({ key: 'copyright', value: '2024 Someone' })
+    })
+
+    it('resolves {meta} onto dedicated fields when one exists', () => {
+      expect(parseDirective('{meta: artist The Band}')).toEqual({ key: 'artist', value: 'The Band' })
+      expect(parseDirective('{meta: arranger Someone}')).toEqual({ key: 'meta', value: 'arranger Someone' })
+    })
+
+    it('returns null for environment directives', () => {
+      expect(parseDirective('{soc}')).toBeNull()
+    })
+  })
+
+  describe('parseEnvironmentDirective', () => {
+    it('parses long and short forms', () => {
+      expect(parseEnvironmentDirective('{start_of_chorus}')).toEqual({ environment: 'chorus', boundary: 'start' })
+      expect(parseEnvironmentDirective('{eoc}')).toEqual({ environment: 'chorus', boundary: 'end' })
+      expect(parseEnvironmentDirective('{sot}')).toEqual({ environment: 'tab', boundary: 'start' })
+    })
+
+    it('keeps the optional label', () => {
+      expect(parseEnvironmentDirective('{start_of_verse: Verse 2}')).toEqual({
+        environment: 'verse',
+        boundary: 'start',
+        label: 'Verse 2',
+      })
+    })
+  })
+
+  describe('parseChordPro', () => {
+    it('collects extended metadata into directives', () => {
+      const result = parseChordPro(`{title: Song}
+{subtitle: Acoustic}
+{composer: J. Doe}
+{lyricist: A. Poet}
+{copyright: 2024 Someone}
+{duration: 3:45}
+{meta: arranger Someone Else}
+{define: Am base-fret 1 frets x 0 2 2 1 0}`)
+
+      expect(result.directives).toEqual({
+        title: 'Song',
+        subtitle: 'Acoustic',
+        composer: 'J. Doe',
+        lyricist: 'A. Poet',
+        copyright: '2024 Someone',
+        duration: 225,
+        meta: { arranger: 'Someone Else' },
+        defines: ['Am base-fret 1 frets x 0 2 2 1 0'],
+      })
+      expect(result.lines).toHaveLength(0)
+    })
+
+    it('accepts a plain seconds duration', () => {
+      expect(parseChordPro('{duration: 210}').directives.duration).toBe(210)
+    })
+
+    it('maps environments onto section lines', () => {
+      const result = parseChordPro(`{start_of_verse}
+[G]Hello
+{end_of_verse}
+{soc: Final Chorus}
+[C]Sing
+{eoc}
+{start_of_bridge}
+[D]Over
+{eob}`)
+
+      const [verse, , verseEnd, chorus, , , bridge] = result.lines
+      expect(verse).toMatchObject({ type: 'section', name: 'Verse', sectionType: 'verse', environment: 'verse' })
+      expect(verseEnd).toMatchObject({ type: 'directive', directive: 'end_of_verse', value: '' })
+      expect(chorus).toMatchObject({ type: 'section', name: 'Final Chorus', sectionType: 'chorus', environment: 'chorus' })
+      expect(bridge).toMatchObject({ type: 'section', name: 'Bridge', sectionType: 'bridge', environment: 'bridge' })
+    })
+
+    it('parses {chorus} as a chorus recall', () => {
+      const result = parseChordPro('{chorus}\n{chorus: Chorus 2}')
+      expect(result.lines[0]).toMatchObject({ type: 'section', name: 'Chorus', sectionType: 'chorus', recall: true })
+      expect((result.lines[1] as SectionLine).name).toBe('Chorus 2')
+    })
+
+    it('keeps unknown directives in the line flow instead of treating them as lyrics', () => {
+      const result = parseChordPro('{new_page}\n{textsize: 12}')
+      expect(result.lines[0]).toMatchObject({ type: 'directive', directive: 'new_page', value: '' })
+      expect((result.lines[1] as DirectiveLine).value).toBe('12')
+    })
+
+    it('keeps tempo and meter changes in the body as lines', () => {
+      const result = parseChordPro('{tempo: 120}\n{time: 4/4}\n[G]Verse\n{time: 6/8}\n{tempo: 90}\n[C]Bridge')
+
+      expect(result.directives).toMatchObject({ tempo: 120, timeSignature: '4/4' })
+      expect(result.lines[1]).toMatchObject({ type: 'directive', directive: 'time', value: '6/8' })
+      expect(result.lines[2]).toMatchObject({ type: 'directive', directive: 'tempo', value: '90' })
+    })
+  })
+})
+
+import type { TabLine } from '../types'
+
+describe('Tab blocks', () => {
+  const song = `[Verse]
+{start_of_tab: Riff | 2 bars}
+e|-----0-----|
+B|---1---1---|
+G|-2-------2-|
+{end_of_tab}
+[G]After`
+
+  it('groups the block into a single tab line kept verbatim', () => {
+    const result = parseChordPro(song)
+    const tab = result.lines[1] as TabLine
+    expect(tab.type).toBe('tab')
+    expect(tab.label).toBe('Riff')
+    expect(tab.bars).toBe(2)
+    expect(tab.lines).toEqual(['e|-----0-----|', 'B|---1---1---|', 'G|-2-------2-|'])
+    expect(result.lines[2].type).toBe('lyric')
+  })
+
+  it('does not detect chords or transpose inside tabs', () => {
+    const result = parseChordPro('{sot}\nA|--[C]--|\nE|-------|\n{eot}', 2)
+    const tab = result.lines[0] as TabLine
+    expect(tab.lines[0]).toBe('A|--[C]--|')
+    expect(tab.label).toBeUndefined()
+    expect(tab.bars).toBeUndefined()
+  })
+
+  it('accepts a bar count without a label', () => {
+    const tab = parseChordPro('{start_of_tab: 4 bars}\ne|--|\n{end_of_tab}').lines[0] as TabLine
+    expect(tab.label).toBeUndefined()
+    expect(tab.bars).toBe(4)
+  })
+
+  it('runs to the end of the song when {end_of_tab} is missing', () => {
+    const result = parseChordPro('{start_of_tab}\ne|--|\nB|--|')
+    expect(result.lines).toHaveLength(1)
+    expect((result.lines[0] as TabLine).lines).toHaveLength(2)
+  })
+})
+
+import { parseGridSection, formatGridRows } from '../instrumental'
+import type { InstrumentalLine } from '../types'
+
+describe('Grid sections', () => {
+  it('parses dot-notation beats into chord bars', () => {
+    const section = parseGridSection('Solo', ['| Am . . . | G . C . |', '| F . . . | % |'])
+    expect(section.name).toBe('Solo')
+    expect(section.type).toBe('solo')
+    expect(section.bars).toBe(4)
+    expect(section.gridCellsPerBar).toBe(4)
+    expect(section.chordBars).toEqual([
+      { chord: 'Am' },
+      { chord: 'G', beats: 2 },
+      { chord: 'C', beats: 2 },
+      { chord: 'F' },
+      { chord: 'F' },
+    ])
+  })
+
+  it('ignores shape labels, margin text and trailing comments', () => {
+    const section = parseGridSection('4x4', ['Intro | D . . . | A . . . | riff'])
+    expect(section.name).toBe('Grid')
+    expect(section.type).toBe('instrumental')
+    expect(section.chordBars).toEqual([{ chord: 'D' }, { chord: 'A' }])
+  })
+
+  it('accepts repeat bar lines and a trailing repeat count', () => {
+    const section = parseGridSection(undefined, ['|: C . . . | G . . . :| x3'])
+    expect(section.chordBars).toHaveLength(2)
+    expect(section.repeatCount).toBe(3)
+  })
+
+  it('carries a leading continuation over from the previous measure', () => {
+    const section = parseGridSection(undefined, ['| C . . . | . . G . |'])
+    expect(section.chordBars).toEqual([
+      { chord: 'C' },
+      { chord: 'C', beats: 2 },
+      { chord: 'G', beats: 2 },
+    ])
+  })
+
+  it('becomes an instrumental line in parseChordPro, with transpose', () => {
+    const result = parseChordPro('{start_of_grid: Intro}\n| C . . . | G . . . |\n{end_of_grid}\n[C]After', 2)
+    const line = result.lines[0] as InstrumentalLine
+    expect(line.type).toBe('instrumental')
+    expect(line.section.name).toBe('Intro')
+    expect(line.section.chordBars.map(b => b.chord)).toEqual(['D', 'A'])
+    expect(result.lines[1].type).toBe('lyric')
+  })
+
+  it('formats chord bars back into grid rows', () => {
+    expect(
+      formatGridRows(
+        [{ chord: 'Am' }, { chord: 'G', beats: 2 }, { chord: 'C', beats: 2 }],
+        4,
+        2
+      )
+    ).toEqual(['| Am . . . | G . C . | x2'])
+    expect(formatGridRows([{ chord: 'D' }, { chord: 'A', beats: 3 }], 3)).toEqual(['| D . . | A . . |'])
+  })
+
+  it('keeps bar lines on the beat when a chord is held across them', () => {
+    const bars = [{ chord: 'G', beats: 2 }, { chord: 'C', beats: 3 }, { chord: 'D', beats: 3 }]
+    expect(formatGridRows(bars, 4)).toEqual(['| G . C . | . D . . |'])
+    expect(parseGridSection(undefined, formatGridRows(bars, 4)).chordBars).toEqual([
+      { chord: 'G', beats: 2 },
+      { chord: 'C', beats: 2 },
+      { chord: 'C', beats: 1 },
+      { chord: 'D', beats: 3 },
+    ])
+  })
+
+  it('gives each measure repeat chord bars of its own', () => {
+    const { chordBars } = parseGridSection(undefined, ['| G . C . | % |'])
+    chordBars[2].beats = 3
+    expect(chordBars[0]).toEqual({ chord: 'G', beats: 2 })
+  })
+})
+
+import { stripSongFieldDirectives } from '../parser'
+
+describe('stripSongFieldDirectives', () => {
+  it('should drop directives that become song fields and keep the rest', () => {
+    const text = '{title: Hey}\n{artist: Ana}\n{key: G}\n\n{capo: 2}\n[Verse]\n[G]Hey\n\n[C]Jude'
+    expect(stripSongFieldDirectives(text)).toBe('{capo: 2}\n[Verse]\n[G]Hey\n\n[C]Jude')
+  })
+
+  it('should keep tempo and meter changes inside the body', () => {
+    const text = '{tempo: 120}\n[Verse]\n[G]Hey\n{tempo: 60}\n[C]Jude'
+    expect(stripSongFieldDirectives(text)).toBe('[Verse]\n[G]Hey\n{tempo: 60}\n[C]Jude')
+  })
+})
@@ -13,11 +13,13 @@
  */
 
 import { describe, it, expect } from 'vitest'
-import { parseChordPro } from '../parser'
+import { parseChordPro, extractDefines } from '../parser'
 import {
   serializeParsedSong,
   serializeLyricLine,
   serializeInstrumentalLine,
+  serializeChordPro,
+  serializeDirectives,
 } from '../serializer'
 import type { LyricParsedLine, InstrumentalLine, ChordPosition } from '../types'
 
@@ -239,3 +241,148 @@ describe('InstrumentalSection beats — serialize → re-parse round-trip', () =
     expect(instrLine.section.chordBars[3].beats).toBeCloseTo(3.75)
   })
 })
+
+// ── ChordPro 6 directives ─────────────────────────────────────────────────────
+
+describe('ChordPro 6 directives — round-trip', () => {
+  it('re-emits environments, end markers, recalls and unknown directives', () => {
+    const original = [
+      '{start_of_verse}',
+      '[G]Hello',
+      '{end_of_verse}',
+      '{start_of_chorus: Final Chorus}',
+      '[C]Sing',
+      '{end_of_chorus}',
+      '{chorus}',
+      '{new_page}',
+    ].join('\n')
+    const parsed = parseChordPro(original)
+    expect(serializeParsedSong(parsed.lines)).toBe(original)
+  })
+
+  it('normalizes short environment forms to the long form', () => {
+    const parsed = parseChordPro('{soc}\n[C]Sing\n{eoc}')
+    expect(serializeParsedSong(parsed.lines)).toBe('{start_of_chorus}\n[C]Sing\n{end_of_chorus}')
+  })
+
+  it('serializes metadata directives in canonical order', () => {
+    expect(
+      serializeDirectives({
+        key: 'G',
+        title: 'Song',
+        duration: 225,
+        meta: { arranger: 'Someone' },
+        defines: ['Am base-fret 1 frets x 0 2 2 1 0'],
+      })
+    ).toEqual([
+      '{title: Song}',
+      '{key: G}',
+      '{duration: 3:45}',
+      '{meta: arranger Someone}',
+      '{define: Am base-fret 1 frets x 0 2 2 1 0}',
+    ])
+  })
+
+  it('serializeChordPro output re-parses to the same song', () => {
+    const original = [
+      '{title: Song}',
+      '{composer: J. Doe}',
+      '{key: G}',
+      '',
+      '{start_of_verse: Verse 1}',
+      '[G]Hello [D]world',
+      '{end_of_verse}',
+    ].join('\n')
+    const parsed = parseChordPro(original)
+    const serialized = serializeChordPro(parsed)
+    expect(serialized).toBe(original)
+    expect(parseChordPro(serialized)).toEqual(parsed)
+  })
+  it('keeps each comment in the body where it was written', () => {
+    const original = [
+      '{title: Song}',
+      '{comment: Capo optional}',
+      '[Verse]',
+      '{comment: Softly}',
+      '[G]Hello',
+      '[Chorus]',
+      '{comment: Build up}',
+      '[C]Sing',
+    ].join('\n')
+    const parsed = parseChordPro(original)
+
+    expect(parsed.lines[0]).toMatchObject({ type: 'directive', directive: 'comment', value: 'Capo optional' })
+    expect(serializeChordPro(parsed)).toBe(original)
+  })
+
+  it('keeps every comment the song opens with', () => {
+    const original = [
+      '{comment: Capo optional}',
+      '{comment: Count in with 4 clicks}',
+      '{title: Song}',
+      '[G]Hello',
+    ].join('\n')
+    const serialized = serializeChordPro(parseChordPro(original))
+
+    expect(serialized).toBe(
+      ['{title: Song}', '{comment: Capo optional}', '{comment: Count in with 4 clicks}', '[G]Hello'].join('\n')
+    )
+    expect(serializeChordPro(parseChordPro(serialized))).toBe(serialized)
+  })
+
+  it('keeps a key change and a chord definition in the body where they were written', () => {
+    const original = [
+      '{key: G}',
+      '[G]Hello',
+      '{key: A}',
+      '{define: A7 base-fret 1 frets x 0 2 0 2 0}',
+      '[A7]Again',
+    ].join('\n')
+    const parsed = parseChordPro(original)
+
+    expect(parsed.directives.key).toBe('G')
+    expect(parsed.directives.defines).toBeUndefined()
+    expect(extractDefines(parsed)).toEqual(['A7 base-fret 1 frets x 0 2 0 2 0'])
+    expect(serializeChordPro(parsed)).toBe(original)
+  })
+})
+
+describe('Tab blocks — round-trip', () => {
+  it('re-emits the tab environment with label, bar count and content', () => {
+    const original = [
+      '[Intro]',
+      '{start_of_tab: Riff | 2 bars}',
+      'e|-----0-----|',
+      'B|---1---1---|',
+      '{end_of_tab}',
+      '{start_of_tab}',
+      'E|--3--|',
+      '{end_of_tab}',
+    ].join('\n')
+    const parsed = parseChordPro(original)
+    expect(serializeParsedSong(parsed.lines)).toBe(original)
+  })
+})
+
+describe('Grid sections — round-trip', () => {
+  it('re-emits grid sections as grids', () => {
+    const original = [
+      '{start_of_grid: Solo}',
+      '| Am . . . | G . C . | F . . . | E . . . |',
+      '| Am . . . | Am . . . | x2',
+      '{end_of_grid}',
+    ].join('\n')
+    const parsed = parseChordPro(original)
+    expect(serializeParsedSong(parsed.lines)).toBe(original)
+  })
+
+  it('falls back to bar syntax once beats no longer fit whole cells', () => {
+    const parsed = parseChordPro('{start_of_grid}\n| C . . . |\n{end_of_grid}')
+    const line = parsed.lines[0] as InstrumentalLine
+    const edited: InstrumentalLine = {
+      ...line,
+      section: { ...line.section, chordBars: [{ chord: 'C', beats: 3.5 }, { chord: 'G', beats: 0.5 }] },
+    }
+    expect(serializeInstrumentalLine(edited)).toBe('[Grid | 1 bars]\nC 3.5 | G 0.5 |')
+  })
+})
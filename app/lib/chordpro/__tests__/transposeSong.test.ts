@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { transposeChordProText, applyTransposition } from '../transposeSong'
+
+describe('Song transposition', () => {
+  describe('transposeChordProText', () => {
+    it('should transpose inline chords and keep lyrics', () => {
+      expect(transposeChordProText('[G]Amazing [C]grace', 2)).toBe('[A]Amazing [D]grace')
+    })
+
+    it('should leave the text untouched for zero semitones', () => {
+      const text = '{title: Test}\n[G]Hello'
+      expect(transposeChordProText(text, 0)).toBe(text)
+    })
+
+    it('should move the {key} directive', () => {
+      expect(transposeChordProText('{title: Test}\n{key: G}\n[G]Hi', 2)).toBe('{title: Test}\n{key: A}\n[A]Hi')
+    })
+
+    it('should keep section headers and other directives as written', () => {
+      const text = '[Bridge]\n{comment: Softly}\n[Chorus]\n[C]La'
+      expect(transposeChordProText(text, 2)).toBe('[Bridge]\n{comment: Softly}\n[Chorus]\n[D]La')
+    })
+
+    it('should transpose chords-only lines keeping beats and repeats', () => {
+      expect(transposeChordProText('Am | F 2 (and the) | G | x2', 2)).toBe('Bm | G 2 (and the) | A | x2')
+    })
+
+    it('should keep tab blocks verbatim', () => {
+      const text = '{start_of_tab}\ne|--3--2--|\nB|--C--D--|\n{end_of_tab}\n[C]Hi'
+      expect(transposeChordProText(text, 2)).toBe('{start_of_tab}\ne|--3--2--|\nB|--C--D--|\n{end_of_tab}\n[D]Hi')
+    })
+
+    it('should transpose grid cells only', () => {
+      const text = '{start_of_grid}\n| C . . . | G . . . |\n{end_of_grid}'
+      expect(transposeChordProText(text, 2)).toBe('{start_of_grid}\n| D . . . | A . . . |\n{end_of_grid}')
+    })
+  })
+
+  describe('applyTransposition', () => {
+    it('should rewrite lyrics and key together', () => {
+      expect(applyTransposition({ lyrics: '{key: F}\n[F]Hi [C]there', key: 'F' }, 2)).toEqual({
+        lyrics: '{key: G}\n[G]Hi [D]there',
+        key: 'G',
+      })
+    })
+
+    it('should spell chords from the new key', () => {
+      expect(applyTransposition({ lyrics: '[C]Hi [G]there', key: 'C' }, 3).lyrics).toBe('[Eb]Hi [Bb]there')
+    })
+
+    it('should honour the song accidental preference', () => {
+      expect(applyTransposition({ lyrics: '[C]Hi', key: 'C' }, 3, 'sharps')).toEqual({ lyrics: '[D#]Hi', key: 'Eb' })
+    })
+  })
+})
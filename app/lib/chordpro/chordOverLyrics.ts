@@ -0,0 +1,223 @@
+/**
+ * Chord-over-lyrics Converter
+ * Turn plain text charts, with chords on the line above the lyrics, into ChordPro:
+ *
+ *   Verse 1:                 [Verse 1]
+ *   G        C         →     [G]Amazing [C]grace
+ *   Amazing  grace
+ *
+ * - Chord columns become inline [Chord] positions in the lyric below
+ * - Chord lines with no lyric below become bar lines: G | C |
+ * - Section labels (Verse 1:, [Chorus], Chorus) become [Section] headers
+ * - Header lines (Title:, Artist:, Key:, Capo:, Tempo:) become directives
+ */
+
+import { isValidChord, getSectionType } from './instrumental'
+import { extractChords } from './parser'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Width of a tab stop when expanding tabs to columns */
+const TAB_WIDTH = 8
+
+/** Tokens allowed on a chord line besides chords: bar lines, slashes, repeats */
+const DECORATION = /^(?:\|+|:?\|:?|\/|-|%|\(?x\d+\)?)$/i
+
+const REPEAT = /^\(?x(\d+)\)?$/i
+
+/** Header labels and the directive they map to */
+const HEADERS: Record<string, string> = {
+  title: 'title',
+  'título': 'title',
+  titulo: 'title',
+  artist: 'artist',
+  artista: 'artist',
+  key: 'key',
+  tono: 'key',
+  capo: 'capo',
+  cejilla: 'capo',
+  tempo: 'tempo',
+  bpm: 'tempo',
+  time: 'time',
+}
+
+const HEADER_LINE = /^([A-Za-zÀ-ÿ]+)\s*:\s*(.+)$/
+
+/** "Verse 1:", "Chorus", "Pre-Chorus 2" — a short label, optionally ending in a colon */
+const BARE_LABEL = /^([A-Za-zÀ-ÿ]+(?:[ -][A-Za-zÀ-ÿ]+)?(?:\s*\d+)?)\s*:?$/
+
+/** "Intro: Am G C" — a label followed by chords on the same line */
+const LABELLED_CHORDS = /^([A-Za-zÀ-ÿ][A-Za-zÀ-ÿ -]*\d*)\s*:\s*(.+)$/
+
+// ============================================================================
+// Line classification
+// ============================================================================
+
+interface ChordColumn {
+  chord: string
+  column: number
+}
+
+function expandTabs(line: string): string {
+  let result = ''
+  for (const char of line) {
+    result += char === '\t' ? ' '.repeat(TAB_WIDTH - (result.length % TAB_WIDTH)) : char
+  }
+  return result
+}
+
+/**
+ * Chords of a chord line with their columns
+ * @returns null when the line has anything but chords and bar decorations
+ */
+function readChordLine(line: string): { chords: ChordColumn[]; repeatCount?: number } | null {
+  const chords: ChordColumn[] = []
+  let repeatCount: number | undefined
+
+  for (const match of line.matchAll(/\S+/g)) {
+    const token = match[0]
+    if (isValidChord(token)) {
+      chords.push({ chord: token, column: match.index! })
+    } else if (DECORATION.test(token)) {
+      const repeat = token.match(REPEAT)
+      if (repeat) repeatCount = Number(repeat[1])
+    } else {
+      return null
+    }
+  }
+
+  return chords.length > 0 ? { chords, repeatCount } : null
+}
+
+/**
+ * Section label on its own line
+ * @example "Verse 1:" → "Verse 1"
+ * @example "[Chorus]" → "Chorus"
+ */
+function readSectionLabel(line: string): string | null {
+  const trimmed = line.trim()
+
+  const bracketed = trimmed.match(/^\[([^\]]+)\]$/)
+  if (bracketed) return isValidChord(bracketed[1]) ? null : bracketed[1].trim()
+
+  const bare = trimmed.match(BARE_LABEL)
+  if (bare && getSectionType(bare[1]) !== 'other') return bare[1].trim()
+
+  return null
+}
+
+/**
+ * Header line as a directive
+ * @example "Key: G" → "{key: G}"
+ * @example "Capo: 2nd fret" → "{capo: 2}"
+ */
+function readHeader(line: string): string | null {
+  const match = line.trim().match(HEADER_LINE)
+  const directive = match && HEADERS[match[1].toLowerCase()]
+  if (!directive) return null
+
+  const value = match[2].trim()
+  const fret = directive === 'capo' ? value.match(/^\d+/) : null
+  return `{${directive}: ${fret ? fret[0] : value}}`
+}
+
+function toBarLine(chords: ChordColumn[], repeatCount?: number): string {
+  const bars = chords.map((c) => c.chord).join(' | ') + ' |'
+  return repeatCount && repeatCount > 1 ? `${bars} x${repeatCount}` : bars
+}
+
+/**
+ * Insert chords into the lyric below at their columns, padding short lyrics
+ * @example mergeChords([{ chord: 'G', column: 0 }, { chord: 'C', column: 8 }], 'Amazing grace')
+ *   → '[G]Amazing [C]grace'
+ */
+function mergeChords(chords: ChordColumn[], lyric: string): string {
+  let result = lyric
+  // Right to left so earlier columns stay valid
+  for (const { chord, column } of [...chords].reverse()) {
+    result = result.padEnd(column)
+    result = result.slice(0, column) + `[${chord}]` + result.slice(column)
+  }
+  return result.trimEnd()
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Whether text looks like a chord-over-lyrics chart rather than ChordPro:
+ * no inline [Chord] brackets, and a space-separated chord line (ChordPro bar
+ * lines use |) that sits above a lyric or holds several chords.
+ */
+export function isChordOverLyrics(text: string): boolean {
+  if (extractChords(text).length > 0) return false
+
+  const lines = text.split(/\r?\n/).map(expandTabs)
+  return lines.some((line, i) => {
+    const chordLine = !line.includes('|') && readChordLine(line)
+    if (!chordLine) return false
+
+    const next = lines[i + 1]
+    const aboveLyric = next !== undefined && next.trim() !== '' && readChordLine(next) === null
+    return aboveLyric || chordLine.chords.length > 1
+  })
+}
+
+/**
+ * Convert a chord-over-lyrics chart to ChordPro.
+ * ChordPro directives and lines it does not recognise pass through unchanged.
+ */
+export function convertChordOverLyrics(text: string): string {
+  const lines = text.split(/\r?\n/).map((line) => expandTabs(line).trimEnd())
+  const output: string[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    const trimmed = line.trim()
+
+    if (trimmed === '' || /^\{.*\}$/.test(trimmed)) {
+      output.push(line)
+      continue
+    }
+
+    const chordLine = readChordLine(line)
+    if (chordLine) {
+      const next = lines[i + 1]
+      const nextIsLyric =
+        next !== undefined &&
+        next.trim() !== '' &&
+        !/^\{.*\}$/.test(next.trim()) &&
+        readChordLine(next) === null &&
+        readSectionLabel(next) === null &&
+        readHeader(next) === null
+
+      if (nextIsLyric) {
+        output.push(mergeChords(chordLine.chords, next))
+        i++
+      } else {
+        output.push(toBarLine(chordLine.chords, chordLine.repeatCount))
+      }
+      continue
+    }
+
+    const label = readSectionLabel(line)
+    if (label) {
+      output.push(`[${label}]`)
+      continue
+    }
+
+    const labelled = trimmed.match(LABELLED_CHORDS)
+    const labelledChords = labelled && getSectionType(labelled[1]) !== 'other' && readChordLine(labelled[2])
+    if (labelled && labelledChords) {
+      output.push(`[${labelled[1].trim()}]`, toBarLine(labelledChords.chords, labelledChords.repeatCount))
+      continue
+    }
+
+    output.push(readHeader(line) ?? line)
+  }
+
+  return output.join('\n')
+}
@@ -0,0 +1,411 @@
+/**
+ * Chord Shapes
+ * Resolve chord names to fingerings for diagrams:
+ * - ChordPro {define} directives (song-specific, take priority)
+ * - Built-in library for guitar, ukulele and bass
+ *
+ * Library templates are stored with absolute frets and shifted along the
+ * neck (barre) to reach other roots, so every chord accepted by
+ * isValidChord (except N.C.) resolves to a playable shape.
+ */
+
+import type { ChordInstrument, ChordShape, ParsedChord } from './types'
+import { parseChordString, getInterval } from './transpose'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Number of strings per instrument (lowest to highest) */
+export const INSTRUMENT_STRINGS: Record<ChordInstrument, number> = {
+  guitar: 6,
+  ukulele: 4,
+  bass: 4,
+}
+
+/** Frets a diagram shows below its base fret */
+export const DIAGRAM_FRETS = 4
+
+type Fret = number | null
+
+interface ShapeTemplate {
+  /** Root note of the template as written (e.g. 'E', 'A', 'C') */
+  root: string
+  /** Normalized quality (see normalizeQuality) */
+  quality: string
+  /** Absolute frets, lowest string first */
+  frets: Fret[]
+  /** Open-position shapes that stop working once shifted */
+  movable: boolean
+}
+
+const x = null
+
+function templates(root: string, movable: boolean, shapes: Record<string, Fret[]>): ShapeTemplate[] {
+  return Object.entries(shapes).map(([quality, frets]) => ({ root, quality, frets, movable }))
+}
+
+/** Guitar (E A D G B E): E- and A-shape barres plus common open chords */
+const GUITAR_TEMPLATES: ShapeTemplate[] = [
+  ...templates('E', true, {
+    '': [0, 2, 2, 1, 0, 0],
+    m: [0, 2, 2, 0, 0, 0],
+    '7': [0, 2, 0, 1, 0, 0],
+    m7: [0, 2, 0, 0, 0, 0],
+    maj7: [0, 2, 1, 1, 0, 0],
+    sus4: [0, 2, 2, 2, 0, 0],
+    '6': [0, 2, 2, 1, 2, 0],
+    m6: [0, 2, 2, 0, 2, 0],
+    '9': [0, 2, 0, 1, 0, 2],
+    add9: [0, 2, 2, 1, 0, 2],
+    dim: [0, 1, 2, 0, x, x],
+    aug: [0, 3, 2, 1, 1, 0],
+    dim7: [0, 1, 2, 0, 2, 0],
+    m7b5: [0, 1, 0, 0, 3, 0],
+  }),
+  ...templates('A', true, {
+    '': [x, 0, 2, 2, 2, 0],
+    m: [x, 0, 2, 2, 1, 0],
+    '7': [x, 0, 2, 0, 2, 0],
+    m7: [x, 0, 2, 0, 1, 0],
+    maj7: [x, 0, 2, 1, 2, 0],
+    sus2: [x, 0, 2, 2, 0, 0],
+    sus4: [x, 0, 2, 2, 3, 0],
+    '6': [x, 0, 2, 2, 2, 2],
+    m6: [x, 0, 2, 2, 1, 2],
+    '9': [x, 0, 2, 4, 2, 3],
+    add9: [x, 0, 2, 4, 2, 0],
+    dim: [x, 0, 1, 2, 1, x],
+    aug: [x, 0, 3, 2, 2, 1],
+    dim7: [x, 0, 1, 2, 1, 2],
+    m7b5: [x, 0, 1, 0, 1, x],
+  }),
+  ...templates('C', false, {
+    '': [x, 3, 2, 0, 1, 0],
+    '7': [x, 3, 2, 3, 1, 0],
+    maj7: [x, 3, 2, 0, 0, 0],
+    add9: [x, 3, 2, 0, 3, 0],
+  }),
+  ...templates('D', false, {
+    '': [x, x, 0, 2, 3, 2],
+    m: [x, x, 0, 2, 3, 1],
+    '7': [x, x, 0, 2, 1, 2],
+    maj7: [x, x, 0, 2, 2, 2],
+    sus2: [x, x, 0, 2, 3, 0],
+    sus4: [x, x, 0, 2, 3, 3],
+  }),
+  ...templates('G', false, {
+    '': [3, 2, 0, 0, 0, 3],
+    '7': [3, 2, 0, 0, 0, 1],
+  }),
+  ...templates('F', false, { maj7: [x, x, 3, 2, 1, 0] }),
+  ...templates('B', false, { '7': [x, 2, 1, 2, 0, 2] }),
+]
+
+/** Ukulele (G C E A, re-entrant) */
+const UKULELE_TEMPLATES: ShapeTemplate[] = [
+  ...templates('C', true, {
+    '': [0, 0, 0, 3],
+    m: [0, 3, 3, 3],
+    '7': [0, 0, 0, 1],
+    m7: [3, 3, 3, 3],
+    maj7: [0, 0, 0, 2],
+    sus2: [0, 2, 3, 3],
+    sus4: [0, 0, 1, 3],
+    '6': [0, 0, 0, 0],
+    m6: [2, 3, 3, 3],
+    '9': [0, 2, 0, 1],
+    add9: [0, 2, 0, 3],
+    dim: [5, 3, 2, 3],
+    aug: [1, 0, 0, 3],
+    dim7: [2, 3, 2, 3],
+    m7b5: [3, 3, 2, 3],
+  }),
+  ...templates('A', true, {
+    '': [2, 1, 0, 0],
+    m: [2, 0, 0, 0],
+    '7': [0, 1, 0, 0],
+    m7: [0, 0, 0, 0],
+    maj7: [1, 1, 0, 0],
+    sus4: [2, 2, 0, 0],
+  }),
+  ...templates('G', true, {
+    '': [0, 2, 3, 2],
+    m: [0, 2, 3, 1],
+    '7': [0, 2, 1, 2],
+    m7: [0, 2, 1, 1],
+    maj7: [0, 2, 2, 2],
+    sus2: [0, 2, 3, 0],
+    sus4: [0, 2, 3, 3],
+  }),
+  ...templates('F', true, {
+    '': [2, 0, 1, 0],
+    m: [1, 0, 1, 3],
+    '7': [2, 3, 1, 3],
+  }),
+  ...templates('D', true, {
+    '': [2, 2, 2, 0],
+    m: [2, 2, 1, 0],
+    '7': [2, 2, 2, 3],
+  }),
+]
+
+/** Bass (E A D G): arpeggio shapes rooted on the E and A strings */
+const BASS_TEMPLATES: ShapeTemplate[] = [
+  ...templates('E', true, {
+    '': [0, 2, 2, 1],
+    m: [0, 2, 2, 0],
+    '7': [0, 2, 0, 1],
+    m7: [0, 2, 0, 0],
+    maj7: [0, 2, 1, 1],
+    sus4: [0, 2, 2, 2],
+    dim: [0, 1, 2, 0],
+    aug: [0, 3, 2, 1],
+    '5': [0, 2, 2, x],
+  }),
+  ...templates('A', true, { '5': [x, 0, 2, 2] }),
+]
+
+const LIBRARY: Record<ChordInstrument, ShapeTemplate[]> = {
+  guitar: GUITAR_TEMPLATES,
+  ukulele: UKULELE_TEMPLATES,
+  bass: BASS_TEMPLATES,
+}
+
+/** Suffix spellings mapped to the library's quality names */
+const QUALITY_ALIASES: Record<string, string> = {
+  '': '',
+  maj: '',
+  M: '',
+  major: '',
+  m: 'm',
+  min: 'm',
+  minor: 'm',
+  '-': 'm',
+  '7': '7',
+  maj7: 'maj7',
+  M7: 'maj7',
+  m7: 'm7',
+  min7: 'm7',
+  '-7': 'm7',
+  sus: 'sus4',
+  sus4: 'sus4',
+  sus2: 'sus2',
+  '2': 'sus2',
+  '5': '5',
+  '6': '6',
+  m6: 'm6',
+  min6: 'm6',
+  '9': '9',
+  add9: 'add9',
+  add2: 'add9',
+  dim: 'dim',
+  o: 'dim',
+  dim7: 'dim7',
+  o7: 'dim7',
+  aug: 'aug',
+  '+': 'aug',
+  m7b5: 'm7b5',
+  'ø': 'm7b5',
+  'ø7': 'm7b5',
+}
+
+// ============================================================================
+// Chord definitions ({define})
+// ============================================================================
+
+function parseFret(token: string): Fret | undefined {
+  if (/^(x|X|N|-1)$/.test(token)) return null
+  const n = Number(token)
+  return Number.isInteger(n) && n >= 0 ? n : undefined
+}
+
+/**
+ * Parse the value of a {define} directive into a chord shape
+ * @example parseChordDefinition('Am base-fret 1 frets x 0 2 2 1 0')
+ *   → { name: 'Am', baseFret: 1, frets: [null, 0, 2, 2, 1, 0] }
+ * @returns null when the definition has no usable frets (e.g. a
+ *   keyboard-only or copy definition)
+ */
+export function parseChordDefinition(value: string): ChordShape | null {
+  const tokens = value.trim().split(/\s+/)
+  const name = tokens.shift()
+  if (!name) return null
+
+  let baseFret = 1
+  let frets: Fret[] = []
+  let fingers: Fret[] | undefined
+  let current: Fret[] | null = null
+
+  for (const token of tokens) {
+    const keyword = token.toLowerCase()
+    if (keyword === 'base-fret') {
+      current = null
+      baseFret = -1
+      continue
+    }
+    if (keyword === 'frets') {
+      current = frets = []
+      continue
+    }
+    if (keyword === 'fingers') {
+      current = fingers = []
+      continue
+    }
+    if (baseFret === -1) {
+      const n = Number(token)
+      baseFret = Number.isInteger(n) && n > 0 ? n : 1
+      continue
+    }
+    if (current) {
+      const fret = parseFret(token)
+      if (fret !== undefined) current.push(fret)
+      continue
+    }
+    // Any other keyword (keys, display, copy…) ends the current list
+    current = null
+  }
+
+  if (baseFret === -1) baseFret = 1
+  if (frets.length === 0) return null
+
+  const shape: ChordShape = { name, baseFret, frets }
+  if (fingers && fingers.length === frets.length) {
+    shape.fingers = fingers.map((f) => (f === 0 ? null : f))
+  }
+  return shape
+}
+
+/**
+ * Parse every {define} of a song, keyed by chord name (last one wins)
+ */
+export function parseChordDefinitions(defines: string[] = []): Map<string, ChordShape> {
+  const result = new Map<string, ChordShape>()
+  for (const value of defines) {
+    const shape = parseChordDefinition(value)
+    if (shape) result.set(shape.name, shape)
+  }
+  return result
+}
+
+// ============================================================================
+// Library lookup
+// ============================================================================
+
+/**
+ * Reduce a chord to a quality present in the shape library.
+ * Unknown extensions fall back to the closest seventh or triad.
+ */
+function normalizeQuality(chord: ParsedChord): string {
+  if (chord.suffix in QUALITY_ALIASES) return QUALITY_ALIASES[chord.suffix]
+
+  const { quality, extensions, alterations } = chord
+  const seventh = extensions.some((e) => ['7', '9', '11', '13'].includes(e))
+
+  switch (quality) {
+    case 'power':
+      return '5'
+    case 'sus2':
+    case 'sus4':
+      return quality
+    case 'diminished':
+      return extensions.includes('7') ? 'dim7' : 'dim'
+    case 'half-diminished':
+      return 'm7b5'
+    case 'augmented':
+      return 'aug'
+    case 'minor':
+      if (seventh && alterations.includes('b5')) return 'm7b5'
+      if (seventh) return 'm7'
+      return extensions.includes('6') ? 'm6' : 'm'
+  }
+
+  if (extensions.some((e) => e.startsWith('maj'))) return 'maj7'
+  if (seventh) return '7'
+  if (extensions.includes('6') || extensions.includes('6/9')) return '6'
+  if (extensions.some((e) => ['add9', 'add2', '2'].includes(e))) return 'add9'
+  return ''
+}
+
+/** Quality to try when the instrument has no template for the requested one */
+function fallbackQuality(quality: string): string {
+  if (quality === 'm' || quality === '') return '5'
+  return quality.startsWith('m') && !quality.startsWith('maj') ? 'm' : ''
+}
+
+/**
+ * Turn absolute frets into a diagram shape (base fret + relative frets)
+ */
+function toShape(name: string, absolute: Fret[]): ChordShape {
+  const fretted = absolute.filter((f): f is number => f !== null && f > 0)
+  const maxFret = fretted.length ? Math.max(...fretted) : 0
+
+  if (maxFret <= DIAGRAM_FRETS) {
+    return { name, baseFret: 1, frets: absolute }
+  }
+
+  const baseFret = Math.min(...fretted)
+  return {
+    name,
+    baseFret,
+    frets: absolute.map((f) => (f === null || f === 0 ? f : f - baseFret + 1)),
+  }
+}
+
+function findTemplateShape(
+  name: string,
+  root: string,
+  quality: string,
+  instrument: ChordInstrument
+): ChordShape | null {
+  let best: { frets: Fret[]; shift: number; reach: number } | null = null
+
+  for (const template of LIBRARY[instrument]) {
+    if (template.quality !== quality) continue
+
+    const shift = getInterval(template.root, root)
+    if (shift !== 0 && !template.movable) continue
+
+    const frets = template.frets.map((f) => (f === null ? null : f + shift))
+    const reach = Math.max(...frets.map((f) => f ?? 0))
+
+    // Lowest position wins; open shapes win ties
+    if (!best || reach < best.reach || (reach === best.reach && shift < best.shift)) {
+      best = { frets, shift, reach }
+    }
+  }
+
+  return best ? toShape(name, best.frets) : null
+}
+
+/**
+ * Resolve a chord name to a shape for the given instrument.
+ * Song definitions ({define}) win over the built-in library when they
+ * match the instrument's string count. Slash chords use the upper chord.
+ * @returns null for strings that are not chords
+ */
+export function getChordShape(
+  chord: string,
+  instrument: ChordInstrument = 'guitar',
+  definitions?: Map<string, ChordShape>
+): ChordShape | null {
+  const defined = definitions?.get(chord)
+  if (defined && defined.frets.length === INSTRUMENT_STRINGS[instrument]) {
+    return defined
+  }
+
+  const parsed = parseChordString(chord)
+  if (!parsed) return null
+
+  const root = parsed.root + parsed.accidental
+  let quality = normalizeQuality(parsed)
+
+  // Walk down the fallback chain until the instrument has a template
+  for (let i = 0; i < 3; i++) {
+    const shape = findTemplateShape(chord, root, quality, instrument)
+    if (shape) return shape
+    quality = fallbackQuality(quality)
+  }
+
+  return null
+}
@@ -0,0 +1,154 @@
+/**
+ * Chord Tokenizer
+ * Grammar for chord symbols: root, quality, extensions, alterations and bass.
+ * Single source of truth for what counts as a chord (isValidChord,
+ * parseChordString, the chord picker).
+ *
+ * @example tokenizeChord('Cmaj7#11') → { root: 'C', quality: 'major', extensions: ['maj7'], alterations: ['#11'], ... }
+ * @example tokenizeChord('Bm7b5/F') → { root: 'B', quality: 'minor', extensions: ['7'], alterations: ['b5'], bass: F }
+ */
+
+import type { ParsedChord, ChordQuality, NoteName, Accidental } from './types'
+
+/** "No chord" markers, dotted so that a word like "NC" is not one */
+const NO_CHORD = /^N\.C\.?$/
+
+/** Root, suffix and optional bass. `6/9` stays in the suffix since 9 is not a note. */
+const CHORD_SYMBOL = /^([A-G])([#b]?)(.*?)(?:\/([A-G])([#b]?))?$/
+
+interface SuffixTokens {
+  quality: ChordQuality
+  extensions: string[]
+  alterations: string[]
+}
+
+/**
+ * One grammar rule: a pattern anchored at the current position and what it
+ * contributes. `at` limits the rule to the start of the suffix or after it;
+ * apply returning false rejects the suffix.
+ */
+interface SuffixRule {
+  pattern: RegExp
+  at?: 'start' | 'after-start'
+  apply: (match: RegExpMatchArray, tokens: SuffixTokens) => boolean
+}
+
+/** A quality can only be stated once, and only over a plain major triad */
+function setQuality(tokens: SuffixTokens, quality: ChordQuality): boolean {
+  if (tokens.quality !== 'major') return false
+  tokens.quality = quality
+  return true
+}
+
+/** Repeating an extension or alteration (Cmaj7maj7) is not a chord */
+function pushExtension(tokens: SuffixTokens, extension: string): boolean {
+  if (tokens.extensions.includes(extension)) return false
+  tokens.extensions.push(extension)
+  return true
+}
+
+function pushAlteration(tokens: SuffixTokens, alteration: string): boolean {
+  if (tokens.alterations.includes(alteration)) return false
+  tokens.alterations.push(alteration)
+  return true
+}
+
+/** Rules are tried in order; the first match at the current position wins */
+const SUFFIX_RULES: SuffixRule[] = [
+  // Major seventh family: maj7, M9, ma7, Δ, Δ13 (bare maj/M is just major)
+  {
+    pattern: /^(?:major|maj|Maj|MAJ|M|Δ|ma(?=7|9|11|13))(7|9|11|13)?/,
+    apply: (match, tokens) => {
+      if (match[1]) return pushExtension(tokens, 'maj' + match[1])
+      return match[0] === 'Δ' ? pushExtension(tokens, 'maj7') : true
+    },
+  },
+  { pattern: /^(?:minor|min|mi|m|-)(?!aj)/, at: 'start', apply: (_, tokens) => setQuality(tokens, 'minor') },
+  { pattern: /^(?:dim|°)/, apply: (_, tokens) => setQuality(tokens, 'diminished') },
+  { pattern: /^ø/, apply: (_, tokens) => setQuality(tokens, 'half-diminished') },
+  // Altered tones: b5, #9; +5 and -9 only after the start, where +/- are qualities
+  { pattern: /^([#b])(5|9|11|13)/, apply: (match, tokens) => pushAlteration(tokens, match[1] + match[2]) },
+  {
+    pattern: /^([+-])(5|9|11|13)/,
+    at: 'after-start',
+    apply: (match, tokens) => pushAlteration(tokens, (match[1] === '+' ? '#' : 'b') + match[2]),
+  },
+  { pattern: /^(?:aug|\+)/, apply: (_, tokens) => setQuality(tokens, 'augmented') },
+  { pattern: /^sus([24])?/, apply: (match, tokens) => setQuality(tokens, match[1] === '2' ? 'sus2' : 'sus4') },
+  { pattern: /^add(2|4|6|9|11|13)/, apply: (match, tokens) => pushExtension(tokens, 'add' + match[1]) },
+  // A leading 5 is a power chord
+  { pattern: /^5(?![/9])/, at: 'start', apply: (_, tokens) => setQuality(tokens, 'power') },
+  {
+    pattern: /^(6\/9|69|13|11|9|7|6|4|2)/,
+    apply: (match, tokens) => pushExtension(tokens, match[1] === '69' ? '6/9' : match[1]),
+  },
+  {
+    pattern: /^(?:alt|no3|no5|omit3|omit5)/,
+    apply: (match, tokens) => pushAlteration(tokens, match[0].replace('omit', 'no')),
+  },
+  // Grouping: C7(b9,#11)
+  { pattern: /^[(),]/, apply: () => true },
+]
+
+/**
+ * Tokenize a chord suffix (everything after the root)
+ * @returns null when the suffix is not a chord symbol
+ */
+function tokenizeSuffix(suffix: string): SuffixTokens | null {
+  const tokens: SuffixTokens = { quality: 'major', extensions: [], alterations: [] }
+  let rest = suffix
+
+  while (rest) {
+    const position = rest.length === suffix.length ? 'start' : 'after-start'
+    let matched = false
+
+    for (const rule of SUFFIX_RULES) {
+      if (rule.at && rule.at !== position) continue
+      const match = rest.match(rule.pattern)
+      if (!match) continue
+      if (!rule.apply(match, tokens)) return null
+      rest = rest.slice(match[0].length)
+      matched = true
+      break
+    }
+
+    if (!matched) return null
+  }
+
+  // A half-diminished chord is a seventh chord even when written "ø"
+  if (tokens.quality === 'half-diminished' && tokens.extensions.length === 0) {
+    tokens.extensions.push('7')
+  }
+
+  return tokens
+}
+
+/**
+ * Whether the text is a "no chord" marker (N.C.)
+ */
+export function isNoChord(text: string): boolean {
+  return NO_CHORD.test(text.trim())
+}
+
+/**
+ * Parse a chord symbol into its structure
+ * @returns null for anything that is not a chord, including N.C.
+ */
+export function tokenizeChord(chord: string): ParsedChord | null {
+  const match = chord.match(CHORD_SYMBOL)
+  if (!match) return null
+
+  const [, root, accidental, suffix, bassNote, bassAccidental] = match
+  const tokens = tokenizeSuffix(suffix)
+  if (!tokens) return null
+
+  return {
+    root: root as NoteName,
+    accidental: (accidental || '') as Accidental,
+    suffix,
+    ...(bassNote && {
+      bass: { note: bassNote as NoteName, accidental: (bassAccidental || '') as Accidental },
+    }),
+    ...tokens,
+  }
+}
@@ -9,6 +9,7 @@ export type {
   ChordBar,
   LyricLine,
   SectionType,
+  ChordProEnvironment,
   InstrumentalSection,
   ParsedLineType,
   ParsedLine,
@@ -17,6 +18,8 @@ export type {
   LyricParsedLine,
   ChordsOnlyLine,
   EmptyLine,
+  DirectiveLine,
+  TabLine,
   AnyParsedLine,
   ChordProDirectives,
   ParsedSong,
@@ -25,6 +28,14 @@ export type {
   Accidental,
   ChordSuffix,
   ParsedChord,
+  ChordQuality,
+  AccidentalPreference,
+  ChordNotation,
+  ChordInstrument,
+  ChordShape,
+  MergeHunk,
+  MergeChoice,
+  ChordProMerge,
 } from './types'
 
 // Parser functions
@@ -33,9 +44,15 @@ export {
   parseChordProLegacy,
   parseLine,
   parseDirective,
+  parseEnvironmentDirective,
+  createTabLine,
   parseChordPositions,
+  resolveNumberChart,
   stripChords,
+  stripSongFieldDirectives,
   extractChords,
+  extractParsedChords,
+  extractDefines,
   isValidChord,
 } from './parser'
 
@@ -47,6 +64,14 @@ export {
   parseChordString,
   chordToString,
   getInterval,
+  normalizeKey,
+  getKeySignature,
+  transposeKey,
+  getKeyInterval,
+  signedInterval,
+  getKeyOptions,
+  prefersFlats,
+  KEY_SIGNATURES,
   NOTES_SHARP,
   NOTES_FLAT,
 } from './transpose'
@@ -59,6 +84,34 @@ export {
   createChordsOnlyLine,
   isInstrumentalSectionType,
   getSectionType,
+  parseSectionRepeat,
   formatChordBars,
   isChordsOnlyLine,
+  parseGridSection,
+  formatGridRows,
+  isGridRepresentable,
 } from './instrumental'
+
+// Chord grammar
+export { tokenizeChord, isNoChord } from './chordTokenizer'
+
+// Plain text charts
+export { isChordOverLyrics, convertChordOverLyrics } from './chordOverLyrics'
+
+// Nashville numbers / Roman numerals
+export { toChordNotation, resolveNumberChord } from './notation'
+
+// Song transposition
+export { transposeChordProText, applyTransposition } from './transposeSong'
+
+// Three-way merge
+export { mergeChordPro, resolveChordProMerge, mergeValue } from './merge'
+
+// Chord shapes
+export {
+  parseChordDefinition,
+  parseChordDefinitions,
+  getChordShape,
+  INSTRUMENT_STRINGS,
+  DIAGRAM_FRETS,
+} from './chordShapes'
@@ -4,6 +4,7 @@
  * - [Intro | 4 bars]
  * - Am | G | C | F |
  * - C | G | Am | F | x4
+ * - ChordPro 6 grids: {start_of_grid} | Am . . . | G . C . | {end_of_grid}
  */
 
 import type { 
@@ -12,6 +13,7 @@ import type {
   SectionType,
   ChordsOnlyLine 
 } from './types'
+import { tokenizeChord, isNoChord } from './chordTokenizer'
 
 // ============================================================================
 // Constants
@@ -35,9 +37,18 @@ const PATTERNS = {
   
   /** Repeat marker at end: x4, x2, etc. */
   repeatMarker: /\s*x(\d+)\s*$/i,
+
+  /** Repeat marker at the end of a section name: Chorus x2, Chorus (x2), Chorus ×2 */
+  sectionRepeat: /\s\(?[x×]\s*(\d+)\)?$/i,
   
-  /** Valid chord pattern */
-  chord: /^[A-G][#b]?(?:m(?:aj|in)?|maj|M|dim|aug|\+|sus[24]?|add[249]?|[0-9]+)*(?:\/[A-G][#b]?)?$/,
+  /** Grid bar line: |, ||, |., |:, :|, :|: */
+  gridBarLine: /^[|:.]*\|[|:.]*$/,
+
+  /** Grid cell continuing the previous chord */
+  gridContinuation: /^[./]$/,
+
+  /** Grid shape spec used as environment label: 4x4, 1+4x2+4 */
+  gridShape: /^[\d+x\s]+$/i,
 }
 
 // ============================================================================
@@ -74,6 +85,17 @@ export function parseSectionHeader(line: string): { name: string; bars?: number
   return null
 }
 
+/**
+ * Times a section is played, from a repeat marker at the end of its name
+ * @example "Chorus x2" → 2
+ * @example "Verse 2" → undefined
+ */
+export function parseSectionRepeat(name: string): number | undefined {
+  const match = name.trim().match(PATTERNS.sectionRepeat)
+  const count = match ? parseInt(match[1], 10) : 0
+  return count > 1 ? count : undefined
+}
+
 /**
  * Determine if a section name is typically instrumental
  */
@@ -106,10 +128,11 @@ export function getSectionType(name: string): SectionType {
 }
 
 /**
- * Check if a string is a valid chord
+ * Check if a string is a valid chord or a "no chord" marker (N.C.)
  */
 export function isValidChord(text: string): boolean {
-  return PATTERNS.chord.test(text.trim())
+  const trimmed = text.trim()
+  return isNoChord(trimmed) || tokenizeChord(trimmed) !== null
 }
 
 /**
@@ -289,3 +312,161 @@ export function formatChordBars(
   
   return lines
 }
+
+// ============================================================================
+// Grid Sections
+// ============================================================================
+
+/** A grid cell: a chord, a continuation of the previous chord (null) or a measure repeat */
+type GridCell = string | null | '%'
+
+/**
+ * Split grid rows into measures of cells.
+ * Text before the first bar line (margin) and after the last one (comment) is ignored.
+ */
+function parseGridMeasures(lines: string[]): { measures: GridCell[][]; repeatCount?: number } {
+  const measures: GridCell[][] = []
+  let repeatCount: number | undefined
+
+  for (const line of lines) {
+    let trimmed = line.trim()
+    const repeatMatch = trimmed.match(PATTERNS.repeatMarker)
+    if (repeatMatch) {
+      repeatCount = parseInt(repeatMatch[1], 10)
+      trimmed = trimmed.replace(PATTERNS.repeatMarker, '').trim()
+    }
+
+    let current: GridCell[] | null = null
+    for (const token of trimmed.split(/\s+/).filter(Boolean)) {
+      if (PATTERNS.gridBarLine.test(token)) {
+        if (current && current.length > 0) measures.push(current)
+        current = []
+      } else if (current === null) {
+        continue
+      } else if (token === '%') {
+        current.push('%')
+      } else if (PATTERNS.gridContinuation.test(token)) {
+        current.push(null)
+      } else if (isValidChord(token)) {
+        current.push(token)
+      } else {
+        current = null
+        break
+      }
+    }
+    if (current && current.length > 0) measures.push(current)
+  }
+
+  return { measures, repeatCount }
+}
+
+/**
+ * Parse the body of a {start_of_grid} environment into an instrumental section.
+ * Each cell is one beat: `| G . C . |` → G for 2 beats, C for 2 beats.
+ * A measure holding a single chord is stored as a full bar (no explicit beats).
+ * @param label - Optional environment label (section name; shape specs like "4x4" are ignored)
+ * @param lines - Grid rows between the environment directives
+ */
+export function parseGridSection(label: string | undefined, lines: string[]): InstrumentalSection {
+  const { measures, repeatCount } = parseGridMeasures(lines)
+  const chordBars: ChordBar[] = []
+  let previousMeasure: ChordBar[] = []
+  let lastChord: string | null = null
+
+  for (const cells of measures) {
+    // % repeats the previous measure
+    if (cells.length === 1 && cells[0] === '%') {
+      chordBars.push(...previousMeasure.map((bar) => ({ ...bar })))
+      continue
+    }
+
+    const measure: ChordBar[] = []
+    for (const cell of cells) {
+      if (cell === '%') continue
+      if (cell === null) {
+        const last = measure[measure.length - 1]
+        if (last) {
+          last.beats = (last.beats ?? 1) + 1
+        } else if (lastChord) {
+          // Leading continuation: the previous chord rings into this measure
+          measure.push({ chord: lastChord, beats: 1 })
+        }
+        continue
+      }
+      measure.push({ chord: cell, beats: 1 })
+      lastChord = cell
+    }
+
+    if (measure.length === 1 && measure[0].chord === cells[0]) {
+      delete measure[0].beats
+    }
+
+    chordBars.push(...measure)
+    previousMeasure = measure
+  }
+
+  const name = label && !PATTERNS.gridShape.test(label) ? label : 'Grid'
+  const cellsPerBar = Math.max(0, ...measures.map(m => m.length)) || 4
+
+  return {
+    name,
+    type: name === 'Grid' ? 'instrumental' : getSectionType(name),
+    bars: measures.length,
+    chordBars,
+    repeatCount: repeatCount && repeatCount > 1 ? repeatCount : undefined,
+    gridCellsPerBar: cellsPerBar
+  }
+}
+
+/**
+ * Check whether chord bars can be written as grid cells (whole beats only)
+ */
+export function isGridRepresentable(bars: ChordBar[]): boolean {
+  return bars.every(bar => bar.beats === undefined || Number.isInteger(bar.beats))
+}
+
+/**
+ * Format chord bars as ChordPro grid rows: "| Am . . . | G . C . |".
+ * Every measure holds `cellsPerBar` cells, so bar lines fall on the beat.
+ * @param bars - Array of chord bars (beats become cells; omitted beats fill a whole bar)
+ * @param cellsPerBar - Cells (beats) per bar
+ * @param repeatCount - Optional repeat count, appended to the last row
+ * @param barsPerRow - How many bars per row (default: 4)
+ */
+export function formatGridRows(
+  bars: ChordBar[],
+  cellsPerBar: number,
+  repeatCount?: number,
+  barsPerRow = 4
+): string[] {
+  const measures: string[][] = []
+  let current: string[] = []
+
+  for (const bar of bars) {
+    if (bar.beats === undefined && current.length > 0) {
+      measures.push(current)
+      current = []
+    }
+    // A chord held past the bar line carries on as continuation cells in the next measure
+    const cellCount = Math.max(1, Math.round(bar.beats ?? cellsPerBar))
+    for (let cell = 0; cell < cellCount; cell++) {
+      current.push(cell === 0 ? bar.chord : '.')
+      if (current.length === cellsPerBar) {
+        measures.push(current)
+        current = []
+      }
+    }
+  }
+  if (current.length > 0) measures.push(current)
+
+  const rows: string[] = []
+  for (let i = 0; i < measures.length; i += barsPerRow) {
+    const slice = measures.slice(i, i + barsPerRow)
+    let row = '| ' + slice.map(m => m.join(' ')).join(' | ') + ' |'
+    if (i + barsPerRow >= measures.length && repeatCount && repeatCount > 1) {
+      row += ` x${repeatCount}`
+    }
+    rows.push(row)
+  }
+  return rows
+}
@@ -0,0 +1,286 @@
+/**
+ * ChordPro Three-way Merge
+ * Combines two edits of the same song text against their common base.
+ *
+ * The text is split into the blocks the parser sees (lines, instrumental
+ * sections with their chord rows, tab and grid blocks) and blocks are
+ * compared by their parsed form, so spacing-only differences never clash.
+ * Edits to different blocks merge on their own. When both sides changed
+ * the same block, chord bars and chord positions are merged one by one
+ * before giving up and reporting a conflict.
+ */
+
+import type { AnyParsedLine, ChordPosition, ChordProMerge, LyricParsedLine, MergeChoice, MergeHunk } from './types'
+import { parseChordPro, parseEnvironmentDirective } from './parser'
+import { parseChordBars, parseSectionHeader, isInstrumentalSectionType } from './instrumental'
+import { serializeChordPro, serializeLine } from './serializer'
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * Three-way merge of a single value: the side that changed wins, and a
+ * change both sides made identically is no conflict. Null when they differ.
+ */
+export function mergeValue<T>(base: T, local: T, remote: T): { value: T } | null {
+  if (same(local, remote) || same(remote, base)) return { value: local }
+  if (same(local, base)) return { value: remote }
+  return null
+}
+
+// ============================================================================
+// Blocks
+// ============================================================================
+
+/** Split text into the units the parser treats as one line */
+function splitBlocks(text: string): string[] {
+  const lines = text.split('\n')
+  const blocks: string[] = []
+
+  let i = 0
+  while (i < lines.length) {
+    const trimmed = lines[i].trim()
+
+    const environment = parseEnvironmentDirective(trimmed)
+    if (
+      environment?.boundary === 'start' &&
+      (environment.environment === 'tab' || environment.environment === 'grid')
+    ) {
+      let j = i + 1
+      while (j < lines.length) {
+        const end = parseEnvironmentDirective(lines[j].trim())
+        if (end?.environment === environment.environment && end.boundary === 'end') break
+        j++
+      }
+      blocks.push(lines.slice(i, j + 1).join('\n'))
+      i = j + 1
+      continue
+    }
+
+    const header = parseSectionHeader(trimmed)
+    if (header && (header.bars !== undefined || isInstrumentalSectionType(header.name))) {
+      let j = i + 1
+      while (j < lines.length && lines[j].trim() !== '' && parseChordBars(lines[j])) j++
+      if (j > i + 1 || header.bars !== undefined) {
+        blocks.push(lines.slice(i, j).join('\n'))
+        i = j
+        continue
+      }
+    }
+
+    blocks.push(lines[i])
+    i++
+  }
+
+  return blocks
+}
+
+/** Canonical form of a block, so formatting-only edits compare equal */
+function blockKey(block: string): string {
+  const trimmed = block.trim()
+  return trimmed === '' ? '' : serializeChordPro(parseChordPro(trimmed))
+}
+
+/** The block's single parsed line, if it has exactly one */
+function parseBlock(block: string): AnyParsedLine | undefined {
+  const parsed = parseChordPro(block.trim())
+  const hasDirectives = Object.keys(parsed.directives).length > 0
+  return !hasDirectives && parsed.lines.length === 1 ? parsed.lines[0] : undefined
+}
+
+/** Name of the section a block opens, if it opens one */
+function sectionName(block: string): string | undefined {
+  const line = parseBlock(block)
+  if (line?.type === 'section') return line.name
+  if (line?.type === 'instrumental') return line.section.name
+  return undefined
+}
+
+/** For each entry of `a`, the index of its match in `b` (longest common subsequence), or -1 */
+function matchBlocks(a: string[], b: string[]): number[] {
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1])
+    }
+  }
+
+  const matches = new Array<number>(a.length).fill(-1)
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches[i++] = j++
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return matches
+}
+
+// ============================================================================
+// Block merge
+// ============================================================================
+
+/** Merge two edits of one block by chord bar or chord position; null when they clash */
+function mergeBlock(base: string, local: string, remote: string): string | null {
+  const [b, l, r] = [parseBlock(base), parseBlock(local), parseBlock(remote)]
+  if (!b || !l || !r) return null
+
+  if (b.type === 'chords-only' && l.type === 'chords-only' && r.type === 'chords-only') {
+    const chordBars = mergeList(b.chordBars, l.chordBars, r.chordBars)
+    const repeatCount = mergeValue(b.repeatCount, l.repeatCount, r.repeatCount)
+    if (!chordBars || !repeatCount) return null
+    return serializeLine({ ...l, chordBars, repeatCount: repeatCount.value })
+  }
+
+  if (b.type === 'instrumental' && l.type === 'instrumental' && r.type === 'instrumental') {
+    const { chordBars: baseBars, ...baseSection } = b.section
+    const { chordBars: localBars, ...localSection } = l.section
+    const { chordBars: remoteBars, ...remoteSection } = r.section
+    const chordBars = mergeList(baseBars, localBars, remoteBars)
+    const section = mergeValue(baseSection, localSection, remoteSection)
+    if (!chordBars || !section) return null
+    return serializeLine({ ...l, section: { ...section.value, chordBars } })
+  }
+
+  if (b.type === 'lyric' && l.type === 'lyric' && r.type === 'lyric') {
+    // Chords can only be lined up when the words are the same on every side
+    if (b.text !== l.text || b.text !== r.text) return null
+    const positions = [...new Set([...b.chords, ...l.chords, ...r.chords].map((chord) => chord.position))]
+    const chords: ChordPosition[] = []
+    for (const position of positions.sort((x, y) => x - y)) {
+      const at = (line: LyricParsedLine) => line.chords.find((chord) => chord.position === position) ?? null
+      const merged = mergeValue(at(b), at(l), at(r))
+      if (!merged) return null
+      if (merged.value) chords.push(merged.value)
+    }
+    return serializeLine({ ...l, chords })
+  }
+
+  return null
+}
+
+/** Element-wise merge of equally long lists; null when lengths differ or an element clashes */
+function mergeList<T>(base: T[], local: T[], remote: T[]): T[] | null {
+  if (base.length !== local.length || base.length !== remote.length) return null
+
+  const merged: T[] = []
+  for (let i = 0; i < base.length; i++) {
+    const item = mergeValue(base[i], local[i], remote[i])
+    if (!item) return null
+    merged.push(item.value)
+  }
+  return merged
+}
+
+// ============================================================================
+// Text merge
+// ============================================================================
+
+/**
+ * Merge `local` and `remote`, two edits of `base`. Non-overlapping edits are
+ * applied; the rest come back as conflict hunks to resolve with
+ * resolveChordProMerge.
+ */
+export function mergeChordPro(base: string, local: string, remote: string): ChordProMerge {
+  const blocks = { base: splitBlocks(base), local: splitBlocks(local), remote: splitBlocks(remote) }
+  const keys = {
+    base: blocks.base.map(blockKey),
+    local: blocks.local.map(blockKey),
+    remote: blocks.remote.map(blockKey),
+  }
+  const toLocal = matchBlocks(keys.base, keys.local)
+  const toRemote = matchBlocks(keys.base, keys.remote)
+
+  const hunks: MergeHunk[] = []
+  let section: string | undefined
+  const emit = (merged: string[]) => {
+    for (const block of merged) section = sectionName(block) ?? section
+    const last = hunks.at(-1)
+    if (last?.type === 'merged') last.blocks.push(...merged)
+    else if (merged.length > 0) hunks.push({ type: 'merged', blocks: [...merged] })
+  }
+
+  let i = 0
+  let l = 0
+  let r = 0
+  while (i < blocks.base.length || l < blocks.local.length || r < blocks.remote.length) {
+    // Unchanged on both sides: keep the local text
+    if (i < blocks.base.length && toLocal[i] === l && toRemote[i] === r) {
+      emit([blocks.local[l]])
+      i++
+      l++
+      r++
+      continue
+    }
+
+    // Next base block both sides still have: the edits in between belong together
+    let next = i
+    while (next < blocks.base.length && (toLocal[next] < 0 || toRemote[next] < 0)) next++
+    const localEnd = next < blocks.base.length ? toLocal[next] : blocks.local.length
+    const remoteEnd = next < blocks.base.length ? toRemote[next] : blocks.remote.length
+
+    const chunk = {
+      base: blocks.base.slice(i, next),
+      local: blocks.local.slice(l, localEnd),
+      remote: blocks.remote.slice(r, remoteEnd),
+    }
+    const chunkKeys = {
+      base: keys.base.slice(i, next),
+      local: keys.local.slice(l, localEnd),
+      remote: keys.remote.slice(r, remoteEnd),
+    }
+
+    if (same(chunkKeys.local, chunkKeys.remote) || same(chunkKeys.remote, chunkKeys.base)) {
+      emit(chunk.local)
+    } else if (same(chunkKeys.local, chunkKeys.base)) {
+      emit(chunk.remote)
+    } else {
+      const merged =
+        chunk.base.length === chunk.local.length && chunk.base.length === chunk.remote.length
+          ? chunk.base.map((block, k) =>
+              chunkKeys.local[k] === chunkKeys.base[k]
+                ? chunk.remote[k]
+                : chunkKeys.remote[k] === chunkKeys.base[k] || chunkKeys.remote[k] === chunkKeys.local[k]
+                  ? chunk.local[k]
+                  : mergeBlock(block, chunk.local[k], chunk.remote[k])
+            )
+          : null
+
+      if (merged && merged.every((block): block is string => block !== null)) {
+        emit(merged)
+      } else {
+        hunks.push({
+          type: 'conflict',
+          section: sectionName(chunk.local[0] ?? '') ?? sectionName(chunk.remote[0] ?? '') ?? section,
+          ...chunk,
+        })
+      }
+    }
+
+    i = next
+    l = localEnd
+    r = remoteEnd
+  }
+
+  return { hunks, conflicts: hunks.filter((hunk) => hunk.type === 'conflict').length }
+}
+
+/**
+ * Final text of a merge. `choices` holds one entry per conflict, in order;
+ * unresolved conflicts keep the local side.
+ */
+export function resolveChordProMerge(merge: ChordProMerge, choices: MergeChoice[] = []): string {
+  let conflict = 0
+  return merge.hunks
+    .flatMap((hunk) => {
+      if (hunk.type === 'merged') return hunk.blocks
+      const choice = choices[conflict++] ?? 'local'
+      if (choice === 'remote') return hunk.remote
+      if (choice === 'both') return [...hunk.local, ...hunk.remote]
+      return hunk.local
+    })
+    .join('\n')
+}
@@ -0,0 +1,209 @@
+/**
+ * Chord Notation
+ * Nashville numbers and Roman numerals relative to a key, both ways:
+ * letter chords to numbers for display, number charts back to letters.
+ *
+ * Degrees count from the key tonic, so minor keys use 1m (Am in A minor is
+ * 1m, C is 3). Chords outside the key get an accidental against the key's
+ * scale: in C, Bb is b7 and F# is #4.
+ */
+
+import type { ChordNotation } from './types'
+import { parseChordString, normalizeKey, prefersFlats, NOTES_SHARP, NOTES_FLAT } from './transpose'
+import { isValidChord } from './instrumental'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B']
+
+/** Pitch class of each natural letter */
+const NATURALS = [0, 2, 4, 5, 7, 9, 11]
+
+/** Semitones from the tonic for each scale degree */
+const SCALES = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+}
+
+/** Degree names by semitones from the tonic, for enharmonic spellings the letters can't place */
+const DEGREE_NAMES = {
+  major: ['1', 'b2', '2', 'b3', '3', '4', '#4', '5', 'b6', '6', 'b7', '7'],
+  minor: ['1', 'b2', '2', '3', '#3', '4', '#4', '5', '6', '#6', '7', '#7'],
+}
+
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII']
+
+/** Nashville number: 4, b7, 2m7, 5/7 */
+const NASHVILLE_PATTERN = /^([#b]?)([1-7])([^/]*)(?:\/([#b]?)([1-7]))?$/
+
+/** Roman numeral: IV, bVII, vi7, vii°, I/3 */
+const ROMAN_PATTERN = /^([#b]?)(VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i)([^/]*)(?:\/([#b]?)([1-7]))?$/
+
+/** Letter spellings transposeChord cannot read back */
+const UNSUPPORTED_SPELLINGS = ['E#', 'B#', 'Cb', 'Fb']
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface KeyInfo {
+  /** Index into LETTERS */
+  letter: number
+  /** Pitch class of the tonic */
+  pitch: number
+  mode: 'major' | 'minor'
+  useFlats: boolean
+}
+
+function readKey(key: string): KeyInfo | null {
+  const normalized = normalizeKey(key)
+  const match = normalized?.match(/^([A-G])([#b]?)(m?)$/)
+  if (!match) return null
+
+  const letter = LETTERS.indexOf(match[1])
+  return {
+    letter,
+    pitch: pitchClass(letter, match[2]),
+    mode: match[3] ? 'minor' : 'major',
+    useFlats: prefersFlats(normalized!) ?? false,
+  }
+}
+
+function pitchClass(letter: number, accidental: string): number {
+  const offset = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0
+  return (NATURALS[letter] + offset + 12) % 12
+}
+
+/** Shortest signed distance between two pitch classes (-6..5) */
+function signedInterval(from: number, to: number): number {
+  return (((to - from) % 12) + 18) % 12 - 6
+}
+
+/**
+ * Scale degree of a note in a key, with an accidental when it is outside the scale
+ * @example toDegree('Bb', C major) → 'b7'
+ */
+function toDegree(note: string, key: KeyInfo): string {
+  const letter = LETTERS.indexOf(note[0])
+  const semitones = (pitchClass(letter, note.slice(1)) - key.pitch + 12) % 12
+  const degree = (letter - key.letter + 7) % 7
+  const diff = signedInterval(SCALES[key.mode][degree], semitones)
+
+  if (diff === 0) return String(degree + 1)
+  if (Math.abs(diff) === 1) return (diff < 0 ? 'b' : '#') + (degree + 1)
+  return DEGREE_NAMES[key.mode][semitones]
+}
+
+/**
+ * Note on a scale degree, spelled from the key's letters
+ * @example fromDegree('b', 7, C major) → 'Bb'
+ */
+function fromDegree(accidental: string, degree: number, key: KeyInfo): string {
+  const letter = (key.letter + degree - 1) % 7
+  const shift = accidental === '#' ? 1 : accidental === 'b' ? -1 : 0
+  const pitch = (key.pitch + SCALES[key.mode][degree - 1] + shift + 12) % 12
+  const diff = signedInterval(NATURALS[letter], pitch)
+  const name = LETTERS[letter] + (diff === 1 ? '#' : diff === -1 ? 'b' : '')
+
+  if (Math.abs(diff) <= 1 && !UNSUPPORTED_SPELLINGS.includes(name)) return name
+  return (key.useFlats ? NOTES_FLAT : NOTES_SHARP)[pitch]
+}
+
+/** Chord suffix with number-chart symbols: m7b5 → ø7, dim → °, aug → + */
+function toQualitySymbol(suffix: string): string {
+  return suffix
+    .replace(/^min(?!or)/, 'm')
+    .replace(/^m7b5/, 'ø7')
+    .replace(/^dim/, '°')
+    .replace(/^aug/, '+')
+}
+
+/** Inverse of toQualitySymbol; `-` is accepted as minor */
+function fromQualitySymbol(suffix: string): string {
+  return suffix
+    .replace(/^-/, 'm')
+    .replace(/^ø7?/, 'm7b5')
+    .replace(/^°/, 'dim')
+    .replace(/^\+/, 'aug')
+}
+
+function isMinorQuality(suffix: string): boolean {
+  return /^m(?!aj)/.test(suffix)
+}
+
+// ============================================================================
+// Letters → numbers
+// ============================================================================
+
+/**
+ * Show a chord as a Nashville number or Roman numeral relative to a key
+ * @param key - Key the chord is written in
+ * @returns The chord unchanged for 'letters', an unknown key or a non-chord (N.C.)
+ * @example toChordNotation('Dm7', 'nashville', 'C') → '2m7'
+ * @example toChordNotation('Dm7', 'roman', 'C') → 'ii7'
+ * @example toChordNotation('Bb/D', 'nashville', 'F') → '4/6'
+ */
+export function toChordNotation(chord: string, notation: ChordNotation, key?: string): string {
+  if (notation === 'letters' || !key) return chord
+
+  const info = readKey(key)
+  const parsed = parseChordString(chord)
+  if (!info || !parsed) return chord
+
+  const degree = toDegree(parsed.root + parsed.accidental, info)
+  const quality = toQualitySymbol(parsed.suffix)
+  const bass = parsed.bass ? '/' + toDegree(parsed.bass.note + parsed.bass.accidental, info) : ''
+
+  if (notation === 'nashville') return degree + quality + bass
+
+  const [, accidental, number] = degree.match(/^([#b]?)(\d)$/)!
+  const numeral = ROMAN_NUMERALS[Number(number) - 1]
+  if (isMinorQuality(quality)) return accidental + numeral.toLowerCase() + quality.slice(1) + bass
+  if (/^[°ø]/.test(quality)) return accidental + numeral.toLowerCase() + quality + bass
+  return accidental + numeral + quality + bass
+}
+
+// ============================================================================
+// Numbers → letters
+// ============================================================================
+
+/**
+ * Resolve a number-chart chord (Nashville or Roman) to a letter chord in a key
+ * @returns null when the token is not a number chord or the key is unknown
+ * @example resolveNumberChord('6m', 'C') → 'Am'
+ * @example resolveNumberChord('bVII', 'C') → 'Bb'
+ * @example resolveNumberChord('5/7', 'G') → 'D/F#'
+ */
+export function resolveNumberChord(token: string, key: string): string | null {
+  const info = readKey(key)
+  if (!info) return null
+
+  let accidental: string
+  let degree: number
+  let suffix: string
+  let bass: [string, string] | undefined
+
+  const nashville = token.match(NASHVILLE_PATTERN)
+  const roman = nashville ? null : token.match(ROMAN_PATTERN)
+  if (nashville) {
+    accidental = nashville[1]
+    degree = Number(nashville[2])
+    suffix = fromQualitySymbol(nashville[3])
+    if (nashville[5]) bass = [nashville[4], nashville[5]]
+  } else if (roman) {
+    accidental = roman[1]
+    degree = ROMAN_NUMERALS.indexOf(roman[2].toUpperCase()) + 1
+    suffix = fromQualitySymbol(roman[3])
+    const lowercase = roman[2] === roman[2].toLowerCase()
+    if (lowercase && !isMinorQuality(suffix) && !/^(dim|m7b5)/.test(suffix)) suffix = 'm' + suffix
+    if (roman[5]) bass = [roman[4], roman[5]]
+  } else {
+    return null
+  }
+
+  let chord = fromDegree(accidental, degree, info) + suffix
+  if (bass) chord += '/' + fromDegree(bass[0], Number(bass[1]), info)
+  return isValidChord(chord) ? chord : null
+}
@@ -16,16 +16,23 @@ import type {
   ChordProSong,
   LyricLine,
   DirectiveLine,
+  ChordProEnvironment,
+  SectionType,
+  TabLine,
 } from './types'
 
 import { transposeChord } from './transpose'
+import { resolveNumberChord } from './notation'
+import { isNoChord } from './chordTokenizer'
 import { 
   parseSectionHeader, 
   getSectionType, 
+  parseSectionRepeat,
   isInstrumentalSectionType,
   parseChordBars,
   isValidChord,
   parseInstrumentalSection,
+  parseGridSection,
   createChordsOnlyLine,
 } from './instrumental'
 
@@ -43,8 +50,14 @@ const DIRECTIVE_REGEX = /^\{([^:}]+)(?::\s*(.+))?\}$/
 const DIRECTIVE_MAP: Record<string, keyof ChordProDirectives> = {
   'title': 'title',
   't': 'title',
+  'subtitle': 'subtitle',
+  'st': 'subtitle',
+  'su': 'subtitle',
   'artist': 'artist',
   'a': 'artist',
+  'composer': 'composer',
+  'lyricist': 'lyricist',
+  'copyright': 'copyright',
   'key': 'key',
   'tempo': 'tempo',
   'bpm': 'tempo',
@@ -52,26 +65,189 @@ const DIRECTIVE_MAP: Record<string, keyof ChordProDirectives> = {
   'capo': 'capo',
   'album': 'album',
   'year': 'year',
+  'duration': 'duration',
   'comment': 'comment',
   'c': 'comment',
+  'meta': 'meta',
+  'define': 'defines',
+  'numbers': 'numbers',
+}
+
+/** Environment directives: {start_of_chorus} ... {end_of_chorus} and their short forms */
+const ENVIRONMENT_MAP: Record<string, { environment: ChordProEnvironment; boundary: 'start' | 'end' }> = {
+  'start_of_chorus': { environment: 'chorus', boundary: 'start' },
+  'soc': { environment: 'chorus', boundary: 'start' },
+  'end_of_chorus': { environment: 'chorus', boundary: 'end' },
+  'eoc': { environment: 'chorus', boundary: 'end' },
+  'start_of_verse': { environment: 'verse', boundary: 'start' },
+  'sov': { environment: 'verse', boundary: 'start' },
+  'end_of_verse': { environment: 'verse', boundary: 'end' },
+  'eov': { environment: 'verse', boundary: 'end' },
+  'start_of_bridge': { environment: 'bridge', boundary: 'start' },
+  'sob': { environment: 'bridge', boundary: 'start' },
+  'end_of_bridge': { environment: 'bridge', boundary: 'end' },
+  'eob': { environment: 'bridge', boundary: 'end' },
+  'start_of_tab': { environment: 'tab', boundary: 'start' },
+  'sot': { environment: 'tab', boundary: 'start' },
+  'end_of_tab': { environment: 'tab', boundary: 'end' },
+  'eot': { environment: 'tab', boundary: 'end' },
+  'start_of_grid': { environment: 'grid', boundary: 'start' },
+  'sog': { environment: 'grid', boundary: 'start' },
+  'end_of_grid': { environment: 'grid', boundary: 'end' },
+  'eog': { environment: 'grid', boundary: 'end' },
+}
+
+/** Section metadata for each environment (name used when the directive has no label) */
+export const ENVIRONMENT_SECTIONS: Record<ChordProEnvironment, { name: string; sectionType: SectionType }> = {
+  chorus: { name: 'Chorus', sectionType: 'chorus' },
+  verse: { name: 'Verse', sectionType: 'verse' },
+  bridge: { name: 'Bridge', sectionType: 'bridge' },
+  tab: { name: 'Tab', sectionType: 'other' },
+  grid: { name: 'Grid', sectionType: 'instrumental' },
 }
 
 /**
- * Parse a ChordPro directive line
+ * Parse a ChordPro metadata directive line
+ * `{meta: name value}` resolves to the dedicated field when one exists.
  * @example "{title: My Song}" → { key: 'title', value: 'My Song' }
+ * @example "{meta: composer J. Doe}" → { key: 'composer', value: 'J. Doe' }
  */
 export function parseDirective(line: string): { key: keyof ChordProDirectives; value: string } | null {
   const match = line.trim().match(DIRECTIVE_REGEX)
   if (!match) return null
   
   const [, directive, value = ''] = match
-  const normalizedKey = DIRECTIVE_MAP[directive.toLowerCase()]
+  const normalizedKey = DIRECTIVE_MAP[directive.trim().toLowerCase()]
   
   if (!normalizedKey) return null
+
+  if (normalizedKey === 'meta') {
+    const [name = '', ...rest] = value.trim().split(/\s+/)
+    const metaKey = DIRECTIVE_MAP[name.toLowerCase()]
+    if (metaKey && metaKey !== 'meta' && metaKey !== 'defines') {
+      return { key: metaKey, value: rest.join(' ') }
+    }
+  }
   
   return { key: normalizedKey, value: value.trim() }
 }
 
+/**
+ * Parse a ChordPro environment directive
+ * @example "{soc}" → { environment: 'chorus', boundary: 'start' }
+ * @example "{start_of_verse: Verse 2}" → { environment: 'verse', boundary: 'start', label: 'Verse 2' }
+ */
+export function parseEnvironmentDirective(
+  line: string
+): { environment: ChordProEnvironment; boundary: 'start' | 'end'; label?: string } | null {
+  const match = line.trim().match(DIRECTIVE_REGEX)
+  if (!match) return null
+
+  const [, directive, value = ''] = match
+  const entry = ENVIRONMENT_MAP[directive.trim().toLowerCase()]
+  if (!entry) return null
+
+  const label = value.trim()
+  return { ...entry, ...(label && { label }) }
+}
+
+/**
+ * Parse a duration value into seconds
+ * @example "3:45" → 225
+ * @example "225" → 225
+ */
+function parseDurationValue(value: string): number | undefined {
+  const parts = value.trim().split(':').map(Number)
+  if (parts.length === 0 || parts.length > 3 || parts.some(p => isNaN(p) || p < 0)) {
+    return undefined
+  }
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0)
+  return seconds > 0 ? seconds : undefined
+}
+
+/**
+ * Directives that keep their place in the body, by the name a body directive
+ * line carries: tempo and meter changes apply from there on, a key change
+ * marks a modulation, a {define} sits next to the chords it describes.
+ * Before the body they are the song's own.
+ */
+const BODY_DIRECTIVES: Partial<Record<keyof ChordProDirectives, string>> = {
+  tempo: 'tempo',
+  timeSignature: 'time',
+  key: 'key',
+  defines: 'define',
+}
+
+/** Whether a line starts the song body (anything but blank lines and metadata) */
+function isBodyLine(trimmed: string): boolean {
+  return trimmed !== '' && !parseDirective(trimmed)
+}
+
+/**
+ * Store a parsed metadata directive into the directives object
+ */
+function applyDirective(
+  directives: ChordProDirectives,
+  directive: { key: keyof ChordProDirectives; value: string }
+): void {
+  const { key, value } = directive
+  switch (key) {
+    case 'tempo':
+    case 'capo':
+    case 'year':
+      directives[key] = parseInt(value, 10) || undefined
+      break
+    case 'duration':
+      directives.duration = parseDurationValue(value)
+      break
+    case 'meta': {
+      const [name, ...rest] = value.split(/\s+/)
+      if (name) {
+        directives.meta = { ...directives.meta, [name]: rest.join(' ') }
+      }
+      break
+    }
+    case 'defines':
+      directives.defines = [...(directives.defines ?? []), value]
+      break
+    case 'numbers':
+      directives.numbers = true
+      break
+    default:
+      directives[key] = value
+  }
+}
+
+/**
+ * Split a tab environment label into name and optional bar count
+ * @example "Riff | 4 bars" → { label: 'Riff', bars: 4 }
+ * @example "2 bars" → { bars: 2 }
+ */
+function parseTabLabel(value?: string): { label?: string; bars?: number } {
+  const trimmed = value?.trim() ?? ''
+  const match = trimmed.match(/^(?:(.*?)\s*\|\s*)?(\d+)\s*bars?$/i)
+  if (match) {
+    const label = match[1]?.trim()
+    return { ...(label && { label }), bars: parseInt(match[2], 10) }
+  }
+  return trimmed ? { label: trimmed } : {}
+}
+
+/**
+ * Create a tab block from the lines between {start_of_tab} and {end_of_tab}
+ * @param label - Optional environment label (may carry "| N bars")
+ * @param tabLines - Tab content, kept verbatim
+ * @param rawLines - All raw lines of the block, including the directives
+ */
+export function createTabLine(label: string | undefined, tabLines: string[], rawLines: string[]): TabLine {
+  return {
+    type: 'tab',
+    raw: rawLines.join('\n'),
+    ...parseTabLabel(label),
+    lines: tabLines
+  }
+}
+
 // ============================================================================
 // Line Parsing
 // ============================================================================
@@ -120,8 +296,9 @@ export function parseChordPositions(line: string): { text: string; chords: Chord
 
 /**
  * Parse a single line of ChordPro text
+ * @param useFlats - Spelling for transposed chords (see transposeChord)
  */
-export function parseLine(line: string, transpose = 0): AnyParsedLine {
+export function parseLine(line: string, transpose = 0, useFlats?: boolean): AnyParsedLine {
   const trimmed = line.trim()
   
   // Empty line
@@ -139,6 +316,52 @@ export function parseLine(line: string, transpose = 0): AnyParsedLine {
       value: directive.value
     } as DirectiveLine
   }
+
+  // Environment start becomes a section header; the end marker stays a directive
+  const environment = parseEnvironmentDirective(trimmed)
+  if (environment) {
+    if (environment.boundary === 'end') {
+      return {
+        type: 'directive',
+        raw: line,
+        directive: `end_of_${environment.environment}`,
+        value: ''
+      } as DirectiveLine
+    }
+    const section = ENVIRONMENT_SECTIONS[environment.environment]
+    const labelType = environment.label ? getSectionType(environment.label) : 'other'
+    const repeatCount = environment.label ? parseSectionRepeat(environment.label) : undefined
+    return {
+      type: 'section',
+      raw: line,
+      name: environment.label ?? section.name,
+      sectionType: labelType !== 'other' ? labelType : section.sectionType,
+      environment: environment.environment,
+      ...(repeatCount && { repeatCount })
+    } as SectionLine
+  }
+
+  // Any other directive ({chorus} recall, formatting directives) keeps its place in the song
+  const otherDirective = trimmed.match(DIRECTIVE_REGEX)
+  if (otherDirective) {
+    const name = otherDirective[1].trim().toLowerCase()
+    const value = (otherDirective[2] ?? '').trim()
+    if (name === 'chorus') {
+      return {
+        type: 'section',
+        raw: line,
+        name: value || ENVIRONMENT_SECTIONS.chorus.name,
+        sectionType: 'chorus',
+        recall: true
+      } as SectionLine
+    }
+    return {
+      type: 'directive',
+      raw: line,
+      directive: name,
+      value
+    } as DirectiveLine
+  }
   
   // Check for section header (with or without bars)
   const sectionParsed = parseSectionHeader(trimmed)
@@ -155,12 +378,14 @@ export function parseLine(line: string, transpose = 0): AnyParsedLine {
       }
     }
     
-    // Simple section header: [Verse]
+    // Simple section header: [Verse], [Chorus x2]
+    const repeatCount = parseSectionRepeat(sectionParsed.name)
     return {
       type: 'section',
       raw: line,
       name: sectionParsed.name,
-      sectionType: getSectionType(sectionParsed.name)
+      sectionType: getSectionType(sectionParsed.name),
+      ...(repeatCount && { repeatCount })
     } as SectionLine
   }
   
@@ -171,7 +396,7 @@ export function parseLine(line: string, transpose = 0): AnyParsedLine {
     if (transpose !== 0) {
       chordsOnly.chordBars = chordsOnly.chordBars.map(bar => ({
         ...bar,
-        chord: transposeChord(bar.chord, transpose)
+        chord: transposeChord(bar.chord, transpose, useFlats)
       }))
     }
     return chordsOnly
@@ -183,7 +408,7 @@ export function parseLine(line: string, transpose = 0): AnyParsedLine {
   // Apply transpose
   const transposedChords = chords.map(c => ({
     ...c,
-    chord: transposeChord(c.chord, transpose)
+    chord: transposeChord(c.chord, transpose, useFlats)
   }))
   
   return {
@@ -194,6 +419,68 @@ export function parseLine(line: string, transpose = 0): AnyParsedLine {
   } as LyricParsedLine
 }
 
+// ============================================================================
+// Number Charts
+// ============================================================================
+
+/**
+ * Resolve the chord token of each bar in a chords-only line
+ * @returns null unless every bar starts with a number or letter chord
+ */
+function resolveNumberBarLine(line: string, key: string): string | null {
+  let resolved = false
+  const parts = line.split(/(\s*\|\s*)/).map((part, i) => {
+    // Separators, empty parts and a trailing repeat marker (| x2) pass through
+    if (i % 2 === 1 || !part.trim() || /^\s*x\d+\s*$/i.test(part)) return part
+    const [, indent, token, rest] = part.match(/^(\s*)(\S+)(.*)$/)!
+    if (isValidChord(token)) return part
+    const chord = resolveNumberChord(token, key)
+    if (!chord) return null
+    resolved = true
+    return indent + chord + rest
+  })
+  return resolved && parts.every((part) => part !== null) ? parts.join('') : null
+}
+
+/**
+ * Rewrite a number chart (Nashville 1 4 5m, Roman I IV vi) with letter chords in `key`.
+ * Inline [chords], chords-only bar lines and grid cells are resolved; letter
+ * chords, tabs, directives and section headers are left as written.
+ * @example resolveNumberChart('[1]Amazing [4]grace\n5 | 6m |', 'G') → '[G]Amazing [C]grace\nD | Em |'
+ */
+export function resolveNumberChart(text: string, key: string): string {
+  let block: 'tab' | 'grid' | null = null
+
+  return text
+    .split('\n')
+    .map((line) => {
+      const trimmed = line.trim()
+      const environment = parseEnvironmentDirective(trimmed)
+
+      if (block) {
+        if (environment?.environment === block && environment.boundary === 'end') block = null
+        else if (block === 'grid') return line.replace(/\S+/g, (token) => resolveNumberChord(token, key) ?? token)
+        return line
+      }
+
+      if (environment?.boundary === 'start' && (environment.environment === 'tab' || environment.environment === 'grid')) {
+        block = environment.environment
+        return line
+      }
+      if (trimmed.startsWith('{')) return line
+
+      if (line.includes('[')) {
+        return line.replace(/\[([^\]:]+)((?::[^\]]*)?)\]/g, (match, token: string, beats: string) => {
+          const chord = resolveNumberChord(token, key)
+          return chord ? `[${chord}${beats}]` : match
+        })
+      }
+
+      return line.includes('|') ? resolveNumberBarLine(line, key) ?? line : line
+    })
+    .join('\n')
+}
+
 // ============================================================================
 // Full Song Parsing
 // ============================================================================
@@ -202,11 +489,27 @@ export function parseLine(line: string, transpose = 0): AnyParsedLine {
  * Parse a complete ChordPro document
  * @param text - Raw ChordPro text
  * @param transpose - Semitones to transpose (optional)
+ * @param useFlats - Spelling for transposed chords (optional, see prefersFlats)
+ * @param key - Key for number-chart chords (optional, defaults to the {key} directive).
+ *   Only charts marked {numbers} are resolved: in any other chart, [V] or [2]
+ *   is a marker to keep as written. A resolved chart comes back as a letter
+ *   chart, without directives.numbers, so serializing it saves letters only.
  */
-export function parseChordPro(text: string, transpose = 0): ParsedSong {
+export function parseChordPro(text: string, transpose = 0, useFlats?: boolean, key?: string): ParsedSong {
+  const textDirectives = text.split('\n').map((line) => parseDirective(line))
+  let resolved = false
+  if (textDirectives.some((d) => d?.key === 'numbers')) {
+    const chartKey = key || textDirectives.find((d) => d?.key === 'key')?.value
+    if (chartKey) {
+      text = resolveNumberChart(text, chartKey)
+      resolved = true
+    }
+  }
+
   const lines = text.split('\n')
   const directives: ChordProDirectives = {}
   const parsedLines: AnyParsedLine[] = []
+  let inBody = false
   
   let i = 0
   while (i < lines.length) {
@@ -216,17 +519,57 @@ export function parseChordPro(text: string, transpose = 0): ParsedSong {
     // Check for directive
     const directive = parseDirective(trimmed)
     if (directive) {
-      if (directive.key === 'tempo') {
-        directives[directive.key] = parseInt(directive.value, 10) || undefined
-      } else if (directive.key === 'capo' || directive.key === 'year') {
-        directives[directive.key] = parseInt(directive.value, 10) || undefined
+      // A comment keeps its place for the reader, even among the header
+      // directives (a song can open with several); see BODY_DIRECTIVES
+      const inPlace = directive.key === 'comment' ? 'comment' : inBody && BODY_DIRECTIVES[directive.key]
+      if (inPlace) {
+        parsedLines.push({ type: 'directive', raw: line, directive: inPlace, value: directive.value } as DirectiveLine)
       } else {
-        (directives as any)[directive.key] = directive.value
+        applyDirective(directives, directive)
       }
       i++
       continue
     }
+    if (trimmed !== '') inBody = true
     
+    // Tab and grid blocks: consume every line up to the matching {end_of_*}
+    const environment = parseEnvironmentDirective(trimmed)
+    if (
+      environment?.boundary === 'start' &&
+      (environment.environment === 'tab' || environment.environment === 'grid')
+    ) {
+      let j = i + 1
+      while (j < lines.length) {
+        const end = parseEnvironmentDirective(lines[j].trim())
+        if (end?.environment === environment.environment && end.boundary === 'end') break
+        j++
+      }
+      const blockLines = lines.slice(i + 1, j)
+      const rawLines = lines.slice(i, j + 1)
+      i = j + 1
+
+      if (environment.environment === 'tab') {
+        // Tabs are kept verbatim (no chord detection)
+        parsedLines.push(createTabLine(environment.label, blockLines, rawLines))
+        continue
+      }
+
+      // Grids become instrumental sections
+      const grid = parseGridSection(environment.label, blockLines)
+      if (transpose !== 0) {
+        grid.chordBars = grid.chordBars.map(bar => ({
+          ...bar,
+          chord: transposeChord(bar.chord, transpose, useFlats)
+        }))
+      }
+      parsedLines.push({
+        type: 'instrumental',
+        raw: rawLines.join('\n'),
+        section: grid
+      } as InstrumentalLine)
+      continue
+    }
+
     // Check for section with bars - collect subsequent chord lines
     const sectionParsed = parseSectionHeader(trimmed)
     if (sectionParsed && (sectionParsed.bars !== undefined || isInstrumentalSectionType(sectionParsed.name))) {
@@ -252,7 +595,7 @@ export function parseChordPro(text: string, transpose = 0): ParsedSong {
           if (transpose !== 0) {
             instrumental.chordBars = instrumental.chordBars.map(bar => ({
               ...bar,
-              chord: transposeChord(bar.chord, transpose)
+              chord: transposeChord(bar.chord, transpose, useFlats)
             }))
           }
           parsedLines.push({
@@ -269,10 +612,11 @@ export function parseChordPro(text: string, transpose = 0): ParsedSong {
     }
     
     // Regular line parsing
-    parsedLines.push(parseLine(line, transpose))
+    parsedLines.push(parseLine(line, transpose, useFlats))
     i++
   }
-  
+
+  if (resolved) delete directives.numbers
   return { directives, lines: parsedLines }
 }
 
@@ -287,12 +631,15 @@ export function parseChordProLegacy(text: string): ChordProSong {
     lines: []
   }
   
+  let inBody = false
   for (const line of lines) {
     const trimmed = line.trim()
     
     // Check for directive
     const directive = parseDirective(trimmed)
     if (directive) {
+      // Tempo, meter and key changes inside the song are not the song's own
+      if (inBody && BODY_DIRECTIVES[directive.key]) continue
       if (directive.key === 'title') result.title = directive.value
       else if (directive.key === 'artist') result.artist = directive.value
       else if (directive.key === 'key') result.key = directive.value
@@ -303,6 +650,7 @@ export function parseChordProLegacy(text: string): ChordProSong {
     
     // Skip empty lines
     if (trimmed === '') continue
+    inBody = true
     
     // Skip section headers for legacy format
     if (parseSectionHeader(trimmed)) continue
@@ -315,6 +663,28 @@ export function parseChordProLegacy(text: string): ChordProSong {
   return result
 }
 
+/** Directives parseChordProLegacy lifts into song fields */
+const SONG_FIELD_DIRECTIVES: (keyof ChordProDirectives)[] = ['title', 'artist', 'key', 'tempo', 'timeSignature']
+
+/**
+ * Song body for the lyrics field: the ChordPro text without the directives
+ * that become song fields (see parseChordProLegacy) and leading blank lines.
+ * Tempo, meter and key changes inside the body stay.
+ */
+export function stripSongFieldDirectives(text: string): string {
+  let inBody = false
+  return text
+    .split(/\r?\n/)
+    .filter((line) => {
+      if (isBodyLine(line.trim())) inBody = true
+      const directive = parseDirective(line)
+      if (!directive || !SONG_FIELD_DIRECTIVES.includes(directive.key)) return true
+      return inBody && !!BODY_DIRECTIVES[directive.key]
+    })
+    .join('\n')
+    .replace(/^\s*\n/, '')
+}
+
 /**
  * Strip all chord brackets from text, keeping only lyrics
  */
@@ -340,3 +710,32 @@ export function extractChords(text: string): string[] {
   
   return Array.from(chords)
 }
+
+/** Every {define} of a song: the header's, then those kept in the body */
+export function extractDefines(song: ParsedSong): string[] {
+  const inBody = song.lines.flatMap((line) =>
+    line.type === 'directive' && line.directive === 'define' ? [line.value] : []
+  )
+  return [...(song.directives.defines ?? []), ...inBody]
+}
+
+/**
+ * Extract all unique chords from parsed lines, in order of appearance, without N.C.
+ * Works on already transposed output, unlike extractChords.
+ */
+export function extractParsedChords(lines: AnyParsedLine[]): string[] {
+  const chords = new Set<string>()
+
+  for (const line of lines) {
+    if (line.type === 'lyric') {
+      line.chords.forEach((c) => chords.add(c.chord))
+    } else if (line.type === 'chords-only') {
+      line.chordBars.forEach((b) => chords.add(b.chord))
+    } else if (line.type === 'instrumental') {
+      line.section.chordBars.forEach((b) => chords.add(b.chord))
+    }
+  }
+
+  // N.C. is a rest, not a chord to show
+  return Array.from(chords).filter((chord) => !isNoChord(chord))
+}
@@ -7,10 +7,17 @@
 import type {
   AnyParsedLine,
   ChordBar,
+  ChordProDirectives,
   ChordsOnlyLine,
+  DirectiveLine,
   InstrumentalLine,
   LyricParsedLine,
+  ParsedSong,
+  SectionLine,
+  TabLine,
 } from './types'
+import { ENVIRONMENT_SECTIONS } from './parser'
+import { formatGridRows, isGridRepresentable } from './instrumental'
 
 // ============================================================================
 // Per-line serializers
@@ -39,6 +46,16 @@ export function serializeChordsOnlyLine(line: ChordsOnlyLine): string {
 
 export function serializeInstrumentalLine(line: InstrumentalLine): string {
   const { section } = line
+
+  // Sections imported from a grid stay grids while their beats fit whole cells
+  if (section.gridCellsPerBar && isGridRepresentable(section.chordBars)) {
+    const header = section.name === ENVIRONMENT_SECTIONS.grid.name
+      ? '{start_of_grid}'
+      : `{start_of_grid: ${section.name}}`
+    const rows = formatGridRows(section.chordBars, section.gridCellsPerBar, section.repeatCount)
+    return [header, ...rows, '{end_of_grid}'].join('\n')
+  }
+
   // Header
   const barCount = section.bars
   const header = `[${section.name} | ${barCount} bars]`
@@ -85,6 +102,30 @@ export function serializeLyricLine(line: LyricParsedLine): string {
   return result
 }
 
+export function serializeSectionLine(line: SectionLine): string {
+  if (line.recall) {
+    return line.name === ENVIRONMENT_SECTIONS.chorus.name ? '{chorus}' : `{chorus: ${line.name}}`
+  }
+  if (line.environment) {
+    const directive = `start_of_${line.environment}`
+    return line.name === ENVIRONMENT_SECTIONS[line.environment].name
+      ? `{${directive}}`
+      : `{${directive}: ${line.name}}`
+  }
+  return `[${line.name}]`
+}
+
+export function serializeDirectiveLine(line: DirectiveLine): string {
+  return line.value ? `{${line.directive}: ${line.value}}` : `{${line.directive}}`
+}
+
+export function serializeTabLine(line: TabLine): string {
+  const bars = line.bars !== undefined ? `${line.bars} ${line.bars === 1 ? 'bar' : 'bars'}` : ''
+  const label = [line.label, bars].filter(Boolean).join(' | ')
+  const header = label ? `{start_of_tab: ${label}}` : '{start_of_tab}'
+  return [header, ...line.lines, '{end_of_tab}'].join('\n')
+}
+
 /**
  * Serialize a single parsed line back to ChordPro text.
  */
@@ -93,15 +134,17 @@ export function serializeLine(line: AnyParsedLine): string {
     case 'empty':
       return ''
     case 'directive':
-      return `{${line.directive}: ${line.value}}`
+      return serializeDirectiveLine(line)
     case 'section':
-      return `[${line.name}]`
+      return serializeSectionLine(line)
     case 'chords-only':
       return serializeChordsOnlyLine(line)
     case 'instrumental':
       return serializeInstrumentalLine(line)
     case 'lyric':
       return serializeLyricLine(line)
+    case 'tab':
+      return serializeTabLine(line)
   }
 }
 
@@ -110,15 +153,60 @@ export function serializeLine(line: AnyParsedLine): string {
 // ============================================================================
 
 /**
- * Rebuild the full ChordPro text from an array of parsed lines.
- * The `lineMap` maps original line indices (in `parsedLines`) to their
- * replacement. Lines not in the map are serialized as-is.
- *
- * NOTE: Instrumental sections occupy multiple raw lines (header + chord rows).
- * Those extra raw lines must be skipped; `rawLineCount` on the line object
- * is used for that (see the parser — instrumental lines store their raw span
- * via the raw string which we use as fallback).
+ * Rebuild the ChordPro body from an array of parsed lines, one entry per
+ * line (an instrumental section writes its header and chord rows).
  */
 export function serializeParsedSong(lines: AnyParsedLine[]): string {
   return lines.map(serializeLine).join('\n')
 }
+
+/** Format seconds as m:ss for the {duration} directive */
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const rest = Math.round(seconds % 60)
+  return `${minutes}:${String(rest).padStart(2, '0')}`
+}
+
+/**
+ * Serialize song metadata back to directive lines, in canonical order.
+ */
+export function serializeDirectives(directives: ChordProDirectives): string[] {
+  const result: string[] = []
+  const push = (name: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') result.push(`{${name}: ${value}}`)
+  }
+
+  push('title', directives.title)
+  push('subtitle', directives.subtitle)
+  push('artist', directives.artist)
+  push('composer', directives.composer)
+  push('lyricist', directives.lyricist)
+  push('album', directives.album)
+  push('year', directives.year)
+  push('copyright', directives.copyright)
+  push('key', directives.key)
+  if (directives.numbers) result.push('{numbers}')
+  push('capo', directives.capo)
+  push('tempo', directives.tempo)
+  push('time', directives.timeSignature)
+  push('duration', directives.duration !== undefined ? formatDuration(directives.duration) : undefined)
+  for (const [name, value] of Object.entries(directives.meta ?? {})) {
+    push('meta', `${name} ${value}`.trim())
+  }
+  push('comment', directives.comment)
+  for (const define of directives.defines ?? []) {
+    push('define', define)
+  }
+
+  return result
+}
+
+/**
+ * Serialize a complete parsed song: metadata directives followed by the body.
+ * Directives are always emitted at the top, so re-parsing the output is stable.
+ */
+export function serializeChordPro(song: ParsedSong): string {
+  const header = serializeDirectives(song.directives)
+  const body = serializeParsedSong(song.lines)
+  return header.length > 0 ? [...header, body].join('\n') : body
+}
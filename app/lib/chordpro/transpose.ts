@@ -3,7 +3,8 @@
  * Transpose chords up or down by semitones
  */
 
-import type { ParsedChord, NoteName, Accidental } from './types'
+import type { ParsedChord, AccidentalPreference } from './types'
+import { tokenizeChord } from './chordTokenizer'
 
 // ============================================================================
 // Constants
@@ -24,6 +25,19 @@ const FLAT_TO_SHARP: Record<string, string> = {
   'Bb': 'A#',
 }
 
+/**
+ * Key signatures: number of sharps (positive) or flats (negative).
+ * Covers every conventionally spelled major and minor key.
+ */
+export const KEY_SIGNATURES: Record<string, number> = {
+  // Major
+  'C': 0, 'G': 1, 'D': 2, 'A': 3, 'E': 4, 'B': 5, 'F#': 6, 'C#': 7,
+  'F': -1, 'Bb': -2, 'Eb': -3, 'Ab': -4, 'Db': -5, 'Gb': -6, 'Cb': -7,
+  // Minor
+  'Am': 0, 'Em': 1, 'Bm': 2, 'F#m': 3, 'C#m': 4, 'G#m': 5, 'D#m': 6, 'A#m': 7,
+  'Dm': -1, 'Gm': -2, 'Cm': -3, 'Fm': -4, 'Bbm': -5, 'Ebm': -6, 'Abm': -7,
+}
+
 /** Mapping from sharp to flat equivalents (for display preference) */
 const SHARP_TO_FLAT: Record<string, string> = {
   'C#': 'Db',
@@ -38,32 +52,14 @@ const SHARP_TO_FLAT: Record<string, string> = {
 // ============================================================================
 
 /**
- * Parse a chord string into its components
- * @example parseChordString('Am7') → { root: 'A', accidental: '', suffix: 'm7' }
- * @example parseChordString('F#m') → { root: 'F', accidental: '#', suffix: 'm' }
- * @example parseChordString('C/G') → { root: 'C', accidental: '', suffix: '', bass: { note: 'G', accidental: '' } }
+ * Parse a chord string into its components (see tokenizeChord for the grammar)
+ * @example parseChordString('Am7') → { root: 'A', accidental: '', suffix: 'm7', quality: 'minor', extensions: ['7'], ... }
+ * @example parseChordString('F#m') → { root: 'F', accidental: '#', suffix: 'm', quality: 'minor', ... }
+ * @example parseChordString('C/G') → { root: 'C', accidental: '', suffix: '', bass: { note: 'G', accidental: '' }, ... }
+ * @example parseChordString('Bridge') → null
  */
 export function parseChordString(chord: string): ParsedChord | null {
-  // Match: root note, optional accidental, suffix, optional bass note
-  const match = chord.match(/^([A-G])([#b]?)([^/]*)?(?:\/([A-G])([#b]?))?$/)
-  if (!match) return null
-
-  const [, root, accidental, suffix = '', bassNote, bassAccidental] = match
-  
-  const result: ParsedChord = {
-    root: root as NoteName,
-    accidental: (accidental || '') as Accidental,
-    suffix: suffix,
-  }
-
-  if (bassNote) {
-    result.bass = {
-      note: bassNote as NoteName,
-      accidental: (bassAccidental || '') as Accidental,
-    }
-  }
-
-  return result
+  return tokenizeChord(chord)
 }
 
 /**
@@ -109,16 +105,19 @@ export function transposeNote(note: string, semitones: number, useFlats = false)
  * Transpose a chord by semitones
  * @param chord - Chord string (e.g., 'Am7', 'F#m', 'C/G')
  * @param semitones - Number of semitones to transpose
+ * @param useFlats - Spelling for the result (see prefersFlats). When omitted,
+ *   follows the source chord: flats if it was written with flats.
  * @returns Transposed chord string
  */
-export function transposeChord(chord: string, semitones: number): string {
+export function transposeChord(chord: string, semitones: number, useFlats?: boolean): string {
   if (semitones === 0) return chord
 
   const parsed = parseChordString(chord)
   if (!parsed) return chord
 
-  // Detect if original uses flats
-  const useFlats = parsed.accidental === 'b' || (parsed.bass?.accidental === 'b')
+  if (useFlats === undefined) {
+    useFlats = parsed.accidental === 'b' || (parsed.bass?.accidental === 'b')
+  }
 
   // Transpose root
   const rootNote = parsed.root + parsed.accidental
@@ -151,13 +150,142 @@ export function getInterval(from: string, to: string): number {
 
 /**
  * Transpose all chords in a ChordPro line
- * @param line - Line with chords in brackets [Am] [G]
+ * @param line - Line with chords in brackets [Am] [G], beats kept as written [Am:2]
  * @param semitones - Number of semitones to transpose
+ * @param useFlats - Spelling for the result (see transposeChord)
  */
-export function transposeLine(line: string, semitones: number): string {
+export function transposeLine(line: string, semitones: number, useFlats?: boolean): string {
   if (semitones === 0) return line
   
-  return line.replace(/\[([A-G][#b]?[^\]]*)\]/g, (_, chord) => {
-    return `[${transposeChord(chord, semitones)}]`
+  return line.replace(/\[([A-G][#b]?[^\]:]*)(:[^\]]*)?\]/g, (_, chord, beats = '') => {
+    return `[${transposeChord(chord, semitones, useFlats)}${beats}]`
   })
 }
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+/**
+ * Split a key name into tonic and mode
+ * @example parseKey('F#m') → { tonic: 'F#', minor: true }
+ * @example parseKey('Bb major') → { tonic: 'Bb', minor: false }
+ */
+function parseKey(key: string): { tonic: string; minor: boolean } | null {
+  const match = key.trim().match(/^([A-G][#b]?)\s*(.*)$/)
+  if (!match) return null
+
+  const mode = match[2].toLowerCase()
+  if (['', 'maj', 'major'].includes(mode)) return { tonic: match[1], minor: false }
+  if (['m', 'min', 'minor', '-'].includes(mode)) return { tonic: match[1], minor: true }
+  return null
+}
+
+/**
+ * Conventional spelling of the key on a pitch class: the one with the fewest
+ * accidentals. Ties (F#/Gb, D#m/Ebm) go to F# major and Eb minor.
+ */
+function conventionalKey(index: number, minor: boolean): string {
+  const suffix = minor ? 'm' : ''
+  const sharp = NOTES_SHARP[index] + suffix
+  const flat = NOTES_FLAT[index] + suffix
+  const enharmonics = Object.keys(KEY_SIGNATURES).filter((name) => {
+    const parsed = parseKey(name)
+    return parsed !== null && parsed.minor === minor && getNoteIndex(parsed.tonic) === index
+  })
+
+  let best = enharmonics[0] ?? sharp
+  for (const name of enharmonics) {
+    const diff = Math.abs(KEY_SIGNATURES[name]) - Math.abs(KEY_SIGNATURES[best])
+    if (diff < 0 || (diff === 0 && name === (minor ? flat : sharp))) best = name
+  }
+  return best
+}
+
+/**
+ * Normalize a key name to an entry of KEY_SIGNATURES.
+ * Spellings outside the table resolve to their conventional enharmonic.
+ * @example normalizeKey('A minor') → 'Am'
+ * @example normalizeKey('D#') → 'Eb'
+ * @returns null when the key cannot be parsed
+ */
+export function normalizeKey(key: string): string | null {
+  const parsed = parseKey(key)
+  if (!parsed) return null
+
+  const name = parsed.tonic + (parsed.minor ? 'm' : '')
+  if (name in KEY_SIGNATURES) return name
+
+  const index = getNoteIndex(parsed.tonic)
+  return index === -1 ? null : conventionalKey(index, parsed.minor)
+}
+
+/**
+ * Number of sharps (positive) or flats (negative) in a key signature
+ * @returns null for unknown keys
+ */
+export function getKeySignature(key: string): number | null {
+  const normalized = normalizeKey(key)
+  return normalized ? KEY_SIGNATURES[normalized] : null
+}
+
+/**
+ * Transpose a key, spelling the result conventionally
+ * @example transposeKey('F', 2) → 'G'
+ * @example transposeKey('Am', 3) → 'Cm'
+ * @example transposeKey('E', 1) → 'F'; transposeKey('A', 1) → 'Bb'
+ */
+export function transposeKey(key: string, semitones: number): string {
+  const parsed = parseKey(key)
+  if (!parsed) return key
+  if (semitones === 0) return normalizeKey(key) ?? key
+
+  const index = getNoteIndex(parsed.tonic)
+  if (index === -1) return key
+
+  return conventionalKey(((index + semitones) % 12 + 12) % 12, parsed.minor)
+}
+
+/**
+ * Semitones to move a song from one key to another.
+ * Only the tonics count, so minor keys work like majors (Am → Cm = 3).
+ * @returns 0-11, or 0 when either key cannot be parsed
+ */
+export function getKeyInterval(from: string, to: string): number {
+  const fromKey = parseKey(from)
+  const toKey = parseKey(to)
+  if (!fromKey || !toKey) return 0
+  return getInterval(fromKey.tonic, toKey.tonic)
+}
+
+/**
+ * The shortest way to move by an interval, down when that is closer
+ * @example signedInterval(10) → -2, signedInterval(6) → 6
+ * @returns -5 to 6
+ */
+export function signedInterval(semitones: number): number {
+  return (((semitones + 5) % 12) + 12) % 12 - 5
+}
+
+/**
+ * The twelve keys sharing the mode of `key`, conventionally spelled, from C
+ * @example getKeyOptions('Am') → ['Cm', 'C#m', 'Dm', 'Ebm', ...]
+ */
+export function getKeyOptions(key: string): string[] {
+  const minor = parseKey(key)?.minor ?? false
+  return NOTES_SHARP.map((_, index) => conventionalKey(index, minor))
+}
+
+/**
+ * Decide how to spell accidentals for chords in a key
+ * @param key - Target key (e.g. the transposed Song.key)
+ * @param preference - Per-song override; wins over the key signature
+ * @returns undefined when neither decides (C major / A minor, unknown key),
+ *   leaving transposeChord to follow the source chord
+ */
+export function prefersFlats(key?: string, preference?: AccidentalPreference): boolean | undefined {
+  if (preference) return preference === 'flats'
+  const signature = key ? getKeySignature(key) : null
+  if (!signature) return undefined
+  return signature < 0
+}
@@ -0,0 +1,99 @@
+/**
+ * Song Transposition
+ * Rewrite a ChordPro document in a new key, keeping everything that is not
+ * a chord (comments, tabs, unknown directives, spacing) as written.
+ */
+
+import type { AccidentalPreference } from './types'
+import { parseDirective, parseEnvironmentDirective, isValidChord } from './parser'
+import { createChordsOnlyLine, parseSectionHeader } from './instrumental'
+import { serializeChordsOnlyLine } from './serializer'
+import { transposeChord, transposeLine, transposeKey, prefersFlats } from './transpose'
+
+/** Transpose the chord cells of a grid row, leaving bar lines and margins alone */
+function transposeGridLine(line: string, semitones: number, useFlats?: boolean): string {
+  return line.replace(/\S+/g, (token) =>
+    isValidChord(token) ? transposeChord(token, semitones, useFlats) : token
+  )
+}
+
+/**
+ * Transpose every chord in a ChordPro document
+ * - Lyric lines: transposeLine
+ * - Chords-only / instrumental bar lines: re-serialized with the chord-bar serializer
+ * - Grid rows: chord cells only
+ * - {key}: moved to the new key
+ * - Tabs, section headers and other directives: unchanged
+ * @param useFlats - Spelling for the result (see prefersFlats)
+ */
+export function transposeChordProText(text: string, semitones: number, useFlats?: boolean): string {
+  if (semitones === 0) return text
+
+  let block: 'tab' | 'grid' | null = null
+
+  return text
+    .split('\n')
+    .map((line) => {
+      const trimmed = line.trim()
+      const environment = parseEnvironmentDirective(trimmed)
+
+      if (block) {
+        if (environment?.environment === block && environment.boundary === 'end') {
+          block = null
+          return line
+        }
+        return block === 'grid' ? transposeGridLine(line, semitones, useFlats) : line
+      }
+
+      if (environment) {
+        if (environment.boundary === 'start' && (environment.environment === 'tab' || environment.environment === 'grid')) {
+          block = environment.environment
+        }
+        return line
+      }
+
+      if (trimmed.startsWith('{')) {
+        const directive = parseDirective(trimmed)
+        if (directive?.key === 'key' && directive.value) {
+          const at = line.lastIndexOf(directive.value)
+          return line.slice(0, at) + transposeKey(directive.value, semitones) + line.slice(at + directive.value.length)
+        }
+        return line
+      }
+
+      if (parseSectionHeader(trimmed)) return line
+
+      const chordsOnly = createChordsOnlyLine(trimmed)
+      if (chordsOnly) {
+        return serializeChordsOnlyLine({
+          ...chordsOnly,
+          chordBars: chordsOnly.chordBars.map((bar) => ({
+            ...bar,
+            chord: transposeChord(bar.chord, semitones, useFlats),
+          })),
+        })
+      }
+
+      return transposeLine(line, semitones, useFlats)
+    })
+    .join('\n')
+}
+
+/**
+ * Move a song to a new key for good: rewrites the lyrics and the key
+ * @param preference - Per-song accidental override (Song.accidentals)
+ * @example applyTransposition({ lyrics: '{key: F}\n[F]Hi [C]there', key: 'F' }, 2)
+ *   → { lyrics: '{key: G}\n[G]Hi [D]there', key: 'G' }
+ */
+export function applyTransposition(
+  song: { lyrics: string; key: string },
+  semitones: number,
+  preference?: AccidentalPreference
+): { lyrics: string; key: string } {
+  const key = song.key ? transposeKey(song.key, semitones) : song.key
+  const useFlats = prefersFlats(key, preference)
+  return {
+    lyrics: transposeChordProText(song.lyrics, semitones, useFlats),
+    key,
+  }
+}
@@ -47,6 +47,9 @@ export type SectionType =
   | 'break'
   | 'other'
 
+/** ChordPro environments delimited by {start_of_*} / {end_of_*} directives */
+export type ChordProEnvironment = 'chorus' | 'verse' | 'bridge' | 'tab' | 'grid'
+
 /** An instrumental section with bars and chord progression */
 export interface InstrumentalSection {
   name: string
@@ -54,6 +57,8 @@ export interface InstrumentalSection {
   bars: number
   chordBars: ChordBar[]
   repeatCount?: number
+  /** Set for sections parsed from {start_of_grid}: cells (beats) per bar, used to serialize back to grid syntax */
+  gridCellsPerBar?: number
 }
 
 // ============================================================================
@@ -67,6 +72,7 @@ export type ParsedLineType =
   | 'lyric'         // Regular line with text and optional chords
   | 'chords-only'   // Line with only chords (no lyrics)
   | 'directive'     // {title: My Song}, {capo: 2}
+  | 'tab'           // {start_of_tab} ... {end_of_tab} block
   | 'empty'         // Blank line
 
 /** A parsed line from ChordPro text */
@@ -80,6 +86,12 @@ export interface SectionLine extends ParsedLine {
   type: 'section'
   name: string
   sectionType: SectionType
+  /** Set when the header comes from an environment: {start_of_chorus: Label} */
+  environment?: ChordProEnvironment
+  /** Set for a chorus recall: {chorus} repeats a previously defined chorus */
+  recall?: boolean
+  /** Times the section is played, from a marker ending its name: [Chorus x2] (the name keeps it) */
+  repeatCount?: number
 }
 
 /** Instrumental section with bars: [Intro | 4 bars] */
@@ -102,12 +114,23 @@ export interface ChordsOnlyLine extends ParsedLine {
   repeatCount?: number
 }
 
+/** Tab block kept verbatim: {start_of_tab: Riff | 2 bars} ... {end_of_tab} */
+export interface TabLine extends ParsedLine {
+  type: 'tab'
+  label?: string
+  lines: string[]
+  bars?: number   // Explicit bar count for the timeline; omit to estimate
+}
+
 /** Empty/blank line */
 export interface EmptyLine extends ParsedLine {
   type: 'empty'
 }
 
-/** ChordPro directive: {title: My Song} */
+/**
+ * ChordPro directive kept in the line flow: {end_of_chorus}, {new_page}.
+ * Metadata directives ({title}, {key}...) are collected into ChordProDirectives instead.
+ */
 export interface DirectiveLine extends ParsedLine {
   type: 'directive'
   directive: string
@@ -122,6 +145,7 @@ export type AnyParsedLine =
   | ChordsOnlyLine 
   | EmptyLine
   | DirectiveLine
+  | TabLine
 
 // ============================================================================
 // Song Types
@@ -130,14 +154,27 @@ export type AnyParsedLine =
 /** Directives from ChordPro format */
 export interface ChordProDirectives {
   title?: string
+  subtitle?: string
   artist?: string
+  composer?: string
+  lyricist?: string
+  copyright?: string
   key?: string
   tempo?: number
   timeSignature?: string
   capo?: number
   album?: string
   year?: number
+  /** Song duration in seconds ({duration: 3:45} or {duration: 225}) */
+  duration?: number
+  /** Written by the serializer; parseChordPro keeps {comment} lines in place instead */
   comment?: string
+  /** Custom metadata from {meta: name value} without a dedicated field */
+  meta?: Record<string, string>
+  /** Raw chord definitions: {define: Am base-fret 1 frets x 0 2 2 1 0} */
+  defines?: string[]
+  /** The chart is written in numbers (Nashville or Roman) and resolved against the key: {numbers} */
+  numbers?: boolean
 }
 
 /** A fully parsed ChordPro song */
@@ -181,13 +218,89 @@ export type ChordSuffix =
   | '6' | 'm6'
   | string // Allow other suffixes
 
+/** Spelling override for transposed chords */
+export type AccidentalPreference = 'sharps' | 'flats'
+
+/**
+ * How chords are shown: letter names, Nashville numbers (1 4 5 6m)
+ * or Roman numerals (I IV V vi), both relative to the song key
+ */
+export type ChordNotation = 'letters' | 'nashville' | 'roman'
+
+/** Triad quality of a chord symbol */
+export type ChordQuality =
+  | 'major'
+  | 'minor'
+  | 'diminished'
+  | 'half-diminished'
+  | 'augmented'
+  | 'sus2'
+  | 'sus4'
+  | 'power'
+
 /** Parsed chord structure */
 export interface ParsedChord {
   root: NoteName
   accidental: Accidental
+  /** Everything between the root and the bass, as written */
   suffix: ChordSuffix
   bass?: {
     note: NoteName
     accidental: Accidental
   }
+  quality: ChordQuality
+  /** Sevenths, upper extensions and added notes in order: '7', 'maj9', '6/9', 'add9' */
+  extensions: string[]
+  /** Altered or omitted tones: 'b5', '#9', '#11', 'alt', 'no3' */
+  alterations: string[]
+}
+
+// ============================================================================
+// Chord Shapes (diagrams)
+// ============================================================================
+
+/** Fretted instruments with a built-in chord shape library */
+export type ChordInstrument = 'guitar' | 'ukulele' | 'bass'
+
+/**
+ * A fingering for a chord, following ChordPro {define} semantics.
+ * Strings are listed from lowest to highest pitch.
+ */
+export interface ChordShape {
+  name: string
+  /** Fret shown at the top of the diagram (1 = nut) */
+  baseFret: number
+  /** Per string: null = muted, 0 = open, 1..n = fret relative to baseFret */
+  frets: (number | null)[]
+  /** Per string finger number (1-4), null/0 = none */
+  fingers?: (number | null)[]
+}
+
+// ============================================================================
+// Three-way Merge
+// ============================================================================
+
+/**
+ * A stretch of a three-way merge. Blocks are raw ChordPro: one line, or a
+ * whole instrumental section / tab / grid block.
+ */
+export type MergeHunk =
+  | { type: 'merged'; blocks: string[] }
+  | {
+      type: 'conflict'
+      /** Section the conflict is in, when known */
+      section?: string
+      base: string[]
+      local: string[]
+      remote: string[]
+    }
+
+/** How a conflict hunk is resolved: one side, or both (local first) */
+export type MergeChoice = 'local' | 'remote' | 'both'
+
+/** Result of merging two edits of the same ChordPro text */
+export interface ChordProMerge {
+  hunks: MergeHunk[]
+  /** Number of conflict hunks */
+  conflicts: number
 }
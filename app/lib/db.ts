@@ -1,17 +1,140 @@
-import Dexie, { type Table } from 'dexie'
+import Dexie, { type Table, type Transaction } from 'dexie'
 import type { Song, Setlist } from '~/types/setlist'
+import type { AppSettings, UserProfile, UserStats } from '~/types/profile'
+import type { SongRevision } from '~/types/revision'
+import type { SyncChange, SyncConflict, SyncState } from '~/types/sync'
+import { appSettingsSchema, userProfileSchema, userStatsSchema } from '~/lib/schemas'
+
+/** Stats are a single row with a fixed key */
+export interface StoredStats extends UserStats {
+  id: string
+}
+
+export const STATS_ID = 'stats'
+
+/** Where settings, profile and stats lived before database version 2 */
+export const LEGACY_STORAGE_KEYS = {
+  profile: 'gigsync_profile',
+  settings: 'gigsync_settings',
+  stats: 'gigsync_stats',
+} as const
+
+/**
+ * A numbered schema step. `stores` lists only the tables that change
+ * (null deletes a table); `upgrade` moves existing data into the new shape.
+ */
+export interface Migration {
+  version: number
+  description: string
+  stores: Record<string, string | null>
+  upgrade?: (tx: Transaction) => Promise<void>
+}
+
+function readLegacyStorage(key: string): unknown {
+  try {
+    const stored = localStorage.getItem(key)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * v2 upgrade: copy settings, profile and stats out of localStorage.
+ * Unreadable values are skipped (the hooks recreate defaults); the keys
+ * are removed by openDatabase once the upgrade has committed.
+ */
+export async function moveLocalStorageToTables(tx: Transaction): Promise<void> {
+  const settings = appSettingsSchema.safeParse(readLegacyStorage(LEGACY_STORAGE_KEYS.settings))
+  if (settings.success) await tx.table('settings').put(settings.data)
+
+  const profile = userProfileSchema.safeParse(readLegacyStorage(LEGACY_STORAGE_KEYS.profile))
+  if (profile.success) await tx.table('profile').put(profile.data)
+
+  const stats = userStatsSchema.safeParse(readLegacyStorage(LEGACY_STORAGE_KEYS.stats))
+  if (stats.success) await tx.table('stats').put({ ...stats.data, id: STATS_ID })
+}
+
+/** Schema history, oldest first. Never edit a released step; add a new one. */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Songs and setlists',
+    stores: {
+      songs: 'id, title, artist, bpm, key, *tags, createdAt',
+      setlists: 'id, name, venue, date, createdAt'
+    }
+  },
+  {
+    version: 2,
+    description: 'Settings, profile and stats move from localStorage',
+    stores: {
+      settings: 'id',
+      profile: 'id',
+      stats: 'id'
+    },
+    upgrade: moveLocalStorageToTables
+  },
+  {
+    version: 3,
+    description: 'Song revision history',
+    stores: {
+      songRevisions: 'id, songId, createdAt'
+    }
+  },
+  {
+    version: 4,
+    description: 'Sync change log, state and conflicts',
+    stores: {
+      changes: 'id, entityId, pending, clock',
+      syncState: 'id',
+      syncConflicts: 'id'
+    }
+  }
+]
 
 export class GigSyncDB extends Dexie {
   songs!: Table<Song>
   setlists!: Table<Setlist>
+  settings!: Table<AppSettings>
+  profile!: Table<UserProfile>
+  stats!: Table<StoredStats>
+  songRevisions!: Table<SongRevision>
+  changes!: Table<SyncChange>
+  syncState!: Table<SyncState>
+  syncConflicts!: Table<SyncConflict>
 
-  constructor() {
-    super('gigsync')
-    this.version(1).stores({
-      songs: 'id, title, artist, bpm, key, *tags, createdAt',
-      setlists: 'id, name, venue, date, createdAt'
-    })
+  constructor(name = 'gigsync', migrations: Migration[] = MIGRATIONS) {
+    super(name)
+    for (const migration of migrations) {
+      const version = this.version(migration.version).stores(migration.stores)
+      if (migration.upgrade) version.upgrade(migration.upgrade)
+    }
   }
 }
 
 export const db = new GigSyncDB()
+
+export type DatabaseStatus =
+  | { status: 'ready'; version: number }
+  | { status: 'failed'; error: string }
+
+/**
+ * Open the database, running any pending migrations.
+ * A failed upgrade is reported instead of thrown; Dexie rolls it back, so
+ * the data stays as it was for the next attempt.
+ */
+export async function openDatabase(database: Pick<Dexie, 'open' | 'verno'> = db): Promise<DatabaseStatus> {
+  try {
+    await database.open()
+  } catch (error) {
+    console.error('Failed to open database:', error)
+    return { status: 'failed', error: error instanceof Error ? error.message : String(error) }
+  }
+
+  // The v2 upgrade has committed; the copies in localStorage are stale now
+  if (database.verno >= 2) {
+    for (const key of Object.values(LEGACY_STORAGE_KEYS)) localStorage.removeItem(key)
+  }
+  return { status: 'ready', version: database.verno }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import { songToChordPro, songsToChordPro, songToText, layoutLyricLine } from '..'
+import { convertChordOverLyrics, parseChordPro, parseLine, type LyricParsedLine } from '~/lib/chordpro'
+import type { Song } from '~/types'
+
+function makeSong(overrides: Partial<Song> = {}): Song {
+  return {
+    id: 'song-1',
+    title: 'Amazing Grace',
+    artist: 'John Newton',
+    bpm: 90,
+    key: 'G',
+    timeSignature: '3/4',
+    duration: 0,
+    lyrics: [
+      '{title: Old Title}',
+      '{capo: 2}',
+      '{subtitle: Traditional}',
+      '',
+      '[Verse 1]',
+      '[G]Amazing [G7]grace how [C]sweet the [G]sound',
+      '',
+      '[Intro | 2 bars]',
+      'G | D |',
+    ].join('\n'),
+    tags: [],
+    timesPlayed: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+describe('songToChordPro', () => {
+  it('should write directives from the song fields before the body', () => {
+    const chordPro = songToChordPro({ song: makeSong() })
+    expect(chordPro).toMatch(/^\{title: Amazing Grace\}\n\{subtitle: Traditional\}\n\{artist: John Newton\}\n\{key: G\}\n\{capo: 2\}\n\{tempo: 90\}\n\{time: 3\/4\}\n/)
+    expect(chordPro).not.toContain('Old Title')
+    expect(chordPro).toContain('[Verse 1]\n[G]Amazing [G7]grace how [C]sweet the [G]sound')
+  })
+
+  it('should round-trip through the parser', () => {
+    const song = makeSong()
+    const parsed = parseChordPro(songToChordPro({ song }))
+    expect(parsed.directives).toMatchObject({ title: 'Amazing Grace', artist: 'John Newton', key: 'G', tempo: 90, capo: 2 })
+    const written = parseChordPro(song.lyrics).lines
+    expect(parsed.lines.slice(0, -1)).toEqual(written.slice(0, -1))
+    expect(parsed.lines.at(-1)).toMatchObject({
+      type: 'instrumental',
+      section: { name: 'Intro', bars: 2, chordBars: [{ chord: 'G' }, { chord: 'D' }] },
+    })
+  })
+
+  it('should write bar charts as grids in the meter they are played in', () => {
+    const chordPro = songToChordPro({ song: makeSong() })
+    expect(chordPro).toContain('{start_of_grid: Intro}\n| G . . | D . . |\n{end_of_grid}')
+
+    const changed = songToChordPro({ song: makeSong({ lyrics: '[G]Waltz\n{time: 4/4}\n[Solo]\nC 2 | G 2 |\n[Outro]\nC 1.5 | G 2.5 |' }) })
+    expect(changed).toContain('{start_of_grid: Solo}\n| C . G . |\n{end_of_grid}')
+    expect(changed).toContain('[Outro | 2 bars]\nC 1.5 | G 2.5 |')
+  })
+
+  it('should transpose the chords and the key', () => {
+    const chordPro = songToChordPro({ song: makeSong(), transpose: 2 })
+    expect(chordPro).toContain('{key: A}')
+    expect(chordPro).toContain('[A]Amazing [A7]grace how [D]sweet the [A]sound')
+    expect(chordPro).toContain('| A . . | E . . |')
+  })
+
+  it('should honour the song spelling preference when transposing', () => {
+    const chordPro = songToChordPro({ song: makeSong({ accidentals: 'flats' }), transpose: 1 })
+    expect(chordPro).toContain('{key: Ab}')
+    expect(chordPro).toContain('[Ab]Amazing')
+  })
+
+  it('should resolve a number chart against the song key', () => {
+    const chordPro = songToChordPro({ song: makeSong({ key: 'D', lyrics: '{numbers}\n[1]Amazing [4]grace' }), transpose: 2 })
+    expect(chordPro).toContain('{key: E}')
+    expect(chordPro).toContain('[E]Amazing [A]grace')
+  })
+
+  it('should separate songs with {new_song}', () => {
+    const chordPro = songsToChordPro([{ song: makeSong() }, { song: makeSong({ title: 'Second' }) }])
+    expect(chordPro.match(/\{new_song\}/g)).toHaveLength(1)
+    expect(chordPro).toContain('{new_song}\n{title: Second}')
+  })
+})
+
+describe('layoutLyricLine', () => {
+  it('should put each chord above its syllable', () => {
+    const line = parseLine('[G]Amazing [C]grace') as LyricParsedLine
+    expect(layoutLyricLine(line)).toEqual({ chords: 'G       C', lyrics: 'Amazing grace' })
+  })
+
+  it('should push crowded chords apart and pad the lyric to match', () => {
+    const line = parseLine('[Gmaj7]a[Cadd9]men') as LyricParsedLine
+    expect(layoutLyricLine(line)).toEqual({ chords: 'Gmaj7 Cadd9', lyrics: 'a     men' })
+  })
+})
+
+describe('songToText', () => {
+  it('should write a header and chords above the lyrics', () => {
+    const text = songToText({ song: makeSong() })
+    expect(text).toBe(
+      [
+        'Title: Amazing Grace',
+        'Artist: John Newton',
+        'Key: G',
+        'Capo: 2',
+        'Tempo: 90',
+        'Time: 3/4',
+        '',
+        '[Verse 1]',
+        'G       G7        C         G',
+        'Amazing grace how sweet the sound',
+        '',
+        '[Intro]',
+        'G | D |',
+        '',
+      ].join('\n')
+    )
+  })
+
+  it('should convert back to the same chords with the text importer', () => {
+    const song = makeSong()
+    const reimported = parseChordPro(convertChordOverLyrics(songToText({ song })))
+    const lyric = reimported.lines.find((line) => line.type === 'lyric') as LyricParsedLine
+    expect(lyric.text).toBe('Amazing grace how sweet the sound')
+    expect(lyric.chords.map((c) => [c.chord, c.position])).toEqual([['G', 0], ['G7', 8], ['C', 18], ['G', 28]])
+    expect(reimported.directives).toMatchObject({ title: 'Amazing Grace', key: 'G', capo: 2, tempo: 90 })
+  })
+})
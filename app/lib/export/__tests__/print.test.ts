@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { renderPrintDocument, printFontSize, playerFontSize } from '..'
+import type { Song } from '~/types'
+
+function makeSong(overrides: Partial<Song> = {}): Song {
+  return {
+    id: 'song-1',
+    title: 'Amazing Grace',
+    artist: 'John Newton',
+    bpm: 90,
+    key: 'G',
+    timeSignature: '3/4',
+    duration: 0,
+    lyrics: '[Verse 1]\n[G]Amazing [C]grace\n\n[Chorus]\n[D]Sweet <sound>',
+    tags: [],
+    timesPlayed: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html')
+}
+
+describe('printFontSize', () => {
+  it('should scale from the player font size', () => {
+    expect(printFontSize()).toBe(12)
+    expect(printFontSize(22)).toBe(12)
+    expect(printFontSize(33)).toBe(18)
+    expect(printFontSize(16)).toBe(8.5)
+  })
+})
+
+describe('playerFontSize', () => {
+  it('should read the font size setting as a share of the player default', () => {
+    expect(playerFontSize(100)).toBe(22)
+    expect(printFontSize(playerFontSize(150))).toBe(18)
+  })
+})
+
+describe('renderPrintDocument', () => {
+  it('should lay out a song with its header and one block per section', () => {
+    const doc = parse(renderPrintDocument([{ song: makeSong() }]))
+    expect(doc.title).toBe('Amazing Grace')
+    expect(doc.querySelector('.song h1')?.textContent).toBe('Amazing Grace')
+    expect(doc.querySelector('.meta')?.textContent).toBe('Key G · 90 BPM · 3/4')
+
+    const blocks = doc.querySelectorAll('.block')
+    expect(blocks).toHaveLength(2)
+    expect(blocks[0].querySelector('h2')?.textContent).toBe('Verse 1')
+    expect(Array.from(blocks[0].querySelectorAll('.line')).map((line) => line.textContent)).toEqual([
+      'G       C',
+      'Amazing grace',
+    ])
+  })
+
+  it('should escape lyrics', () => {
+    const html = renderPrintDocument([{ song: makeSong() }])
+    expect(html).toContain('Sweet &lt;sound&gt;')
+  })
+
+  it('should print transposed chords and key', () => {
+    const doc = parse(renderPrintDocument([{ song: makeSong(), transpose: 2 }]))
+    expect(doc.querySelector('.meta')?.textContent).toContain('Key A')
+    expect(doc.querySelector('.chords')?.textContent).toBe('A       D')
+  })
+
+  it('should use the font size in the page styles', () => {
+    const html = renderPrintDocument([{ song: makeSong() }], { fontSize: 33 })
+    expect(html).toContain('font-size: 18pt')
+  })
+
+  it('should add a contents page for a titled set of songs', () => {
+    const doc = parse(
+      renderPrintDocument([{ song: makeSong() }, { song: makeSong({ id: 'song-2', title: 'How Great Thou Art', artist: '' }) }], {
+        title: 'Sunday',
+      })
+    )
+    expect(doc.title).toBe('Sunday')
+    expect(Array.from(doc.querySelectorAll('.contents li')).map((li) => li.textContent)).toEqual([
+      'Amazing Grace — John Newton',
+      'How Great Thou Art',
+    ])
+    expect(doc.querySelectorAll('.song')).toHaveLength(2)
+  })
+})
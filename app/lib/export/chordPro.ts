@@ -0,0 +1,70 @@
+/**
+ * ChordPro Export
+ * Write a song back to canonical ChordPro: directives from the song fields,
+ * then the body re-serialized from the parsed lines.
+ */
+
+import type { ExportSong } from '~/types'
+import {
+  parseChordPro,
+  transposeKey,
+  prefersFlats,
+  isGridRepresentable,
+  type AnyParsedLine,
+  type ChordProDirectives,
+  type ParsedSong,
+} from '~/lib/chordpro'
+import { serializeChordPro } from '~/lib/chordpro/serializer'
+
+/**
+ * Parse a song for export with its chords moved by `transpose`.
+ * Song fields win over the directives written in the lyrics.
+ */
+export function parseSongForExport({ song, transpose = 0 }: ExportSong): ParsedSong {
+  const key = song.key ? transposeKey(song.key, transpose) : undefined
+  const parsed = parseChordPro(song.lyrics || '', transpose, prefersFlats(key, song.accidentals), song.key)
+
+  const directives: ChordProDirectives = {
+    ...parsed.directives,
+    title: song.title,
+    artist: song.artist || parsed.directives.artist,
+    key: key ?? (parsed.directives.key && transposeKey(parsed.directives.key, transpose)),
+    tempo: song.bpm || parsed.directives.tempo,
+    timeSignature: song.timeSignature || parsed.directives.timeSignature,
+    capo: song.capo ?? parsed.directives.capo,
+    duration: song.duration || parsed.directives.duration,
+  }
+  if (!directives.capo) delete directives.capo
+
+  return { directives, lines: parsed.lines }
+}
+
+/**
+ * Instrumental sections as ChordPro grids, one cell per beat of the meter
+ * they are played in. Sections with beats finer than a cell keep the bar syntax.
+ */
+function withGrids(lines: AnyParsedLine[], timeSignature?: string): AnyParsedLine[] {
+  let beatsPerBar = parseInt(timeSignature ?? '', 10) || 4
+  return lines.map((line) => {
+    if (line.type === 'directive' && line.directive === 'time') {
+      beatsPerBar = parseInt(line.value, 10) || beatsPerBar
+    }
+    if (line.type !== 'instrumental' || line.section.gridCellsPerBar) return line
+    if (!isGridRepresentable(line.section.chordBars)) return line
+    return { ...line, section: { ...line.section, gridCellsPerBar: beatsPerBar } }
+  })
+}
+
+/**
+ * Song as a ChordPro document, bar charts written as grids
+ * @example songToChordPro({ song, transpose: 2 }) // {title: ...}\n{key: A}\n...
+ */
+export function songToChordPro(item: ExportSong): string {
+  const { directives, lines } = parseSongForExport(item)
+  return serializeChordPro({ directives, lines: withGrids(lines, directives.timeSignature) })
+}
+
+/** Several songs in one ChordPro file, separated by {new_song} */
+export function songsToChordPro(items: ExportSong[]): string {
+  return items.map(songToChordPro).join('\n\n{new_song}\n')
+}
@@ -0,0 +1,72 @@
+/**
+ * Export Delivery
+ * Hand exported songs to the user: a file download for ChordPro and text,
+ * the browser print dialog (Save as PDF) for the printable layout.
+ */
+
+import type { ExportFormat, ExportSong, PrintOptions } from '~/types'
+import { songsToChordPro } from './chordPro'
+import { songsToText } from './text'
+import { renderPrintDocument } from './print'
+
+const FILE_TYPES: Record<Exclude<ExportFormat, 'pdf'>, { extension: string; mimeType: string }> = {
+  chordpro: { extension: '.cho', mimeType: 'application/x-chordpro' },
+  text: { extension: '.txt', mimeType: 'text/plain' },
+}
+
+/**
+ * File name safe on every platform
+ * @example exportFileName('AC/DC: Back in Black', '.cho') → 'AC-DC- Back in Black.cho'
+ */
+export function exportFileName(name: string, extension: string): string {
+  const safe = name.replace(/[/\\:*?"<>|]/g, '-').replace(/\s+/g, ' ').trim()
+  return `${safe || 'song'}${extension}`
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Open the printable layout in a new window and show the print dialog
+ * @throws When the browser blocks the window
+ */
+export function openPrintWindow(html: string): void {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) {
+    throw new Error('Allow pop-ups for this site to print')
+  }
+  printWindow.document.open()
+  printWindow.document.write(html)
+  printWindow.document.close()
+  printWindow.focus()
+  printWindow.print()
+}
+
+/**
+ * Export songs in the chosen format
+ * @param name - Base file name / document title (song title or setlist name)
+ */
+export function exportSongs(
+  items: ExportSong[],
+  format: ExportFormat,
+  name: string,
+  options: Pick<PrintOptions, 'fontSize'> = {}
+): void {
+  if (format === 'pdf') {
+    openPrintWindow(renderPrintDocument(items, { ...options, title: items.length > 1 ? name : undefined }))
+    return
+  }
+
+  const { extension, mimeType } = FILE_TYPES[format]
+  const content = format === 'chordpro' ? songsToChordPro(items) : songsToText(items)
+  downloadFile(exportFileName(name, extension), content, mimeType)
+}
@@ -0,0 +1,9 @@
+/**
+ * Export Module
+ * Write songs and setlists to ChordPro, chord-over-lyrics text or a printable layout
+ */
+
+export { parseSongForExport, songToChordPro, songsToChordPro } from './chordPro'
+export { songToText, songsToText, layoutLyricLine, textHeader, lineToText } from './text'
+export { renderPrintDocument, printFontSize, playerFontSize } from './print'
+export { exportSongs, exportFileName, downloadFile, openPrintWindow } from './download'
@@ -0,0 +1,153 @@
+/**
+ * Printable Export
+ * A self-contained HTML document laid out for paper: one song per page
+ * (longer songs flow onto the next), sections kept together, page numbers
+ * in the margin. Printing it from the browser gives the PDF.
+ */
+
+import type { AnyParsedLine, ChordProDirectives } from '~/lib/chordpro'
+import type { ExportSong, PrintOptions } from '~/types'
+import { parseSongForExport } from './chordPro'
+import { layoutLyricLine, lineToText } from './text'
+
+/** The player's default font size prints at 12pt; other sizes scale from it */
+const PLAYER_DEFAULT_FONT_SIZE = 22
+const PRINT_DEFAULT_FONT_SIZE = 12
+
+/** Player font size (px) → print font size (pt), to the nearest half point */
+export function printFontSize(fontSize = PLAYER_DEFAULT_FONT_SIZE): number {
+  return Math.round((fontSize / PLAYER_DEFAULT_FONT_SIZE) * PRINT_DEFAULT_FONT_SIZE * 2) / 2
+}
+
+/** Font size setting (% of the player default) → player font size (px), for exports made outside the player */
+export function playerFontSize(scale: number): number {
+  return (scale / 100) * PLAYER_DEFAULT_FONT_SIZE
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function styles(fontSize: number): string {
+  return `
+    @page { size: A4; margin: 16mm 14mm; @bottom-right { content: counter(page) " / " counter(pages); font: 9pt sans-serif; } }
+    * { box-sizing: border-box; }
+    body { margin: 0; color: #111; font-family: system-ui, sans-serif; font-size: ${fontSize}pt; }
+    h1 { font-size: 1.6em; margin: 0; }
+    h2 { font-size: 1em; margin: 0 0 0.2em; text-transform: uppercase; letter-spacing: 0.05em; color: #555; }
+    .song + .song, .contents + .song { break-before: page; }
+    .song > header { margin-bottom: 1.2em; border-bottom: 1px solid #ccc; padding-bottom: 0.5em; }
+    .artist { margin: 0.2em 0 0; font-size: 1.1em; color: #444; }
+    .meta { margin: 0.3em 0 0; font-size: 0.85em; color: #666; }
+    .block { break-inside: avoid; margin-bottom: 0.9em; }
+    .line { margin: 0; font-family: ui-monospace, Menlo, Consolas, monospace; white-space: pre; line-height: 1.25; }
+    .chords { font-weight: 700; color: #3730a3; }
+    .comment { font-style: italic; color: #555; }
+    .contents ol { padding-left: 1.5em; line-height: 1.8; }
+    @media screen { body { max-width: 210mm; margin: 0 auto; padding: 16mm 14mm; } }
+  `
+}
+
+function metaLine(directives: ChordProDirectives): string {
+  return [
+    directives.key && `Key ${directives.key}`,
+    directives.capo && `Capo ${directives.capo}`,
+    directives.tempo && `${directives.tempo} BPM`,
+    directives.timeSignature,
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+function row(text: string, className?: string): string {
+  return `<p class="line${className ? ` ${className}` : ''}">${escapeHtml(text) || ' '}</p>`
+}
+
+function lineToHtml(line: AnyParsedLine): string {
+  switch (line.type) {
+    case 'section':
+      return `<h2>${escapeHtml(line.name)}</h2>`
+    case 'instrumental':
+      return `<h2>${escapeHtml(line.section.name)}</h2>` + lineToText(line).slice(1).map((text) => row(text, 'chords')).join('')
+    case 'chords-only':
+      return row(lineToText(line)[0], 'chords')
+    case 'lyric': {
+      const { chords, lyrics } = layoutLyricLine(line)
+      return (chords ? row(chords, 'chords') : '') + (lyrics || !chords ? row(lyrics) : '')
+    }
+    case 'tab':
+      return (line.label ? `<h2>${escapeHtml(line.label)}</h2>` : '') + line.lines.map((text) => row(text)).join('')
+    case 'directive':
+      return lineToText(line).map((text) => row(text, 'comment')).join('')
+    case 'empty':
+      return ''
+  }
+}
+
+/** Group lines into blocks that start at each section so a page break never splits one */
+function songBody(lines: AnyParsedLine[]): string {
+  const blocks: string[][] = [[]]
+  for (const line of lines) {
+    const startsBlock = line.type === 'section' || line.type === 'instrumental' || line.type === 'tab'
+    if (startsBlock || (line.type === 'empty' && blocks[blocks.length - 1].length > 0)) blocks.push([])
+    const html = lineToHtml(line)
+    if (html) blocks[blocks.length - 1].push(html)
+  }
+  return blocks
+    .filter((block) => block.length > 0)
+    .map((block) => `<div class="block">${block.join('')}</div>`)
+    .join('\n')
+}
+
+function songToHtml(item: ExportSong): string {
+  const { directives, lines } = parseSongForExport(item)
+  const meta = metaLine(directives)
+  return [
+    '<article class="song">',
+    '<header>',
+    `<h1>${escapeHtml(directives.title ?? '')}</h1>`,
+    directives.artist ? `<p class="artist">${escapeHtml(directives.artist)}</p>` : '',
+    meta ? `<p class="meta">${escapeHtml(meta)}</p>` : '',
+    '</header>',
+    songBody(lines),
+    '</article>',
+  ].join('\n')
+}
+
+/**
+ * Printable HTML for one song or a whole setlist.
+ * With a title and more than one song, a contents page comes first.
+ */
+export function renderPrintDocument(items: ExportSong[], options: PrintOptions = {}): string {
+  const title = options.title ?? items[0]?.song.title ?? 'Songs'
+  const contents =
+    options.title && items.length > 1
+      ? [
+          '<section class="contents">',
+          `<h1>${escapeHtml(options.title)}</h1>`,
+          '<ol>',
+          ...items.map(({ song }) => `<li>${escapeHtml(song.title)}${song.artist ? ` — ${escapeHtml(song.artist)}` : ''}</li>`),
+          '</ol>',
+          '</section>',
+        ].join('\n')
+      : ''
+
+  return [
+    '<!doctype html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${styles(printFontSize(options.fontSize))}</style>`,
+    '</head>',
+    '<body>',
+    contents,
+    ...items.map(songToHtml),
+    '</body>',
+    '</html>',
+  ].join('\n')
+}
@@ -0,0 +1,91 @@
+/**
+ * Plain Text Export
+ * Chord-over-lyrics charts: each chord printed above the syllable it falls
+ * on, in a monospaced layout that convertChordOverLyrics reads back.
+ *
+ * @example
+ *   [G]Amazing [C]grace
+ *     → G       C
+ *       Amazing grace
+ */
+
+import type { ExportSong } from '~/types'
+import { formatChordBars, type AnyParsedLine, type ChordProDirectives, type LyricParsedLine } from '~/lib/chordpro'
+import { serializeChordsOnlyLine } from '~/lib/chordpro/serializer'
+import { parseSongForExport } from './chordPro'
+
+/**
+ * Split a lyric line into the chord row and the lyric row.
+ * Chords that would touch are pushed right; the lyric is padded to keep up.
+ */
+export function layoutLyricLine(line: LyricParsedLine): { chords: string; lyrics: string } {
+  let chords = ''
+  let lyrics = ''
+  let consumed = 0
+
+  for (const { chord, position } of line.chords) {
+    lyrics += line.text.slice(consumed, position)
+    consumed = position
+    const column = Math.max(lyrics.length, chords.length > 0 ? chords.length + 1 : 0)
+    lyrics = lyrics.padEnd(column)
+    chords = chords.padEnd(column) + chord
+  }
+  lyrics += line.text.slice(consumed)
+
+  return { chords, lyrics: lyrics.trimEnd() }
+}
+
+/** Header lines in the Title: / Key: form the text importer understands */
+export function textHeader(directives: ChordProDirectives): string[] {
+  const header: string[] = []
+  const push = (label: string, value: string | number | undefined) => {
+    if (value !== undefined && value !== '') header.push(`${label}: ${value}`)
+  }
+
+  push('Title', directives.title)
+  push('Artist', directives.artist)
+  push('Key', directives.key)
+  push('Capo', directives.capo)
+  push('Tempo', directives.tempo)
+  push('Time', directives.timeSignature)
+  return header
+}
+
+/** A parsed line as plain text rows (empty array when it has no printable form) */
+export function lineToText(line: AnyParsedLine): string[] {
+  switch (line.type) {
+    case 'empty':
+      return ['']
+    case 'section':
+      return [`[${line.name}]`]
+    case 'instrumental':
+      return [`[${line.section.name}]`, ...formatChordBars(line.section.chordBars, line.section.repeatCount)]
+    case 'chords-only':
+      return [serializeChordsOnlyLine(line)]
+    case 'lyric': {
+      const { chords, lyrics } = layoutLyricLine(line)
+      return chords ? (lyrics ? [chords, lyrics] : [chords]) : [lyrics]
+    }
+    case 'tab':
+      return line.label ? [`[${line.label}]`, ...line.lines] : line.lines
+    case 'directive':
+      // Comments are shown to the reader; formatting directives are not
+      return /^(comment|c|ci|comment_italic|cb|comment_box|highlight)$/.test(line.directive) && line.value
+        ? [`(${line.value})`]
+        : []
+  }
+}
+
+/** Song as a chord-over-lyrics text chart */
+export function songToText(item: ExportSong): string {
+  const { directives, lines } = parseSongForExport(item)
+  const body = lines.flatMap(lineToText)
+  // Leading blank lines would double the gap after the header
+  while (body[0] === '') body.shift()
+  return [...textHeader(directives), '', ...body].join('\n').trimEnd() + '\n'
+}
+
+/** Several songs in one text file */
+export function songsToText(items: ExportSong[]): string {
+  return items.map(songToText).join('\n\n')
+}
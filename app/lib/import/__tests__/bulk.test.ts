@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { readZip } from '../zip'
+import { unpackImportFiles, planBulkImport, mergeImportedSong, songMatchKey } from '../bulk'
+import type { Song } from '~/types'
+
+function fixture(name: string): ArrayBuffer {
+  const buffer = readFileSync(resolve(__dirname, 'fixtures', name))
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)
+}
+
+function encode(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer
+}
+
+function librarySong(overrides: Partial<Song> = {}): Song {
+  return {
+    id: 'song-1',
+    title: 'Amazing Grace',
+    artist: 'John Newton',
+    bpm: 90,
+    key: 'G',
+    timeSignature: '3/4',
+    duration: 0,
+    lyrics: '',
+    tags: ['hymn'],
+    timesPlayed: 3,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+describe('readZip', () => {
+  it('should read stored and deflated entries and skip directories', async () => {
+    const entries = await readZip(fixture('songbook.zip'))
+    const names = entries.map((entry) => entry.name)
+    expect(names).toContain('songbook/amazing-grace.onsong')
+    expect(names).toContain('songbook/sublime-gracia.cho')
+    expect(names).not.toContain('songbook/')
+
+    const onsong = entries.find((entry) => entry.name.endsWith('.onsong'))!
+    expect(new TextDecoder().decode(onsong.data)).toBe(readFileSync(resolve(__dirname, 'fixtures', 'amazing-grace.onsong'), 'utf-8'))
+  })
+
+  it('should reject data that is not a zip', async () => {
+    await expect(readZip(encode('just some text'))).rejects.toThrow('Not a zip file')
+  })
+})
+
+describe('unpackImportFiles', () => {
+  it('should expand zips, drop archive clutter and flag unsupported files', async () => {
+    const files = await unpackImportFiles([{ name: 'songbook.zip', data: fixture('songbook.zip') }])
+    expect(files.map((file) => file.name)).toEqual([
+      'songbook.zip/songbook/amazing-grace.onsong',
+      'songbook.zip/songbook/sublime-gracia.cho',
+      'songbook.zip/songbook/setlist.pdf',
+    ])
+    expect(files[1].text).toContain('{title: Sublime Gracia}')
+    expect(files[2]).toEqual({ name: 'songbook.zip/songbook/setlist.pdf', error: 'Unsupported file type' })
+  })
+
+  it('should decode loose files and strip a byte order mark', async () => {
+    const [file] = await unpackImportFiles([{ name: 'song.cho', data: encode('\uFEFF{title: Song}') }])
+    expect(file.text).toBe('{title: Song}')
+  })
+
+  it('should report a broken zip instead of failing the batch', async () => {
+    const files = await unpackImportFiles([
+      { name: 'broken.zip', data: encode('not a zip') },
+      { name: 'song.cho', data: encode('{title: Song}') },
+    ])
+    expect(files[0]).toEqual({ name: 'broken.zip', error: 'Not a zip file' })
+    expect(files[1].text).toBe('{title: Song}')
+  })
+})
+
+describe('songMatchKey', () => {
+  it('should ignore case, accents and spacing', () => {
+    expect(songMatchKey('Cuán  Grande Es Él', 'Stuart Hine')).toBe(songMatchKey('cuan grande es el', ' STUART HINE'))
+    expect(songMatchKey('Amazing Grace', 'John Newton')).not.toBe(songMatchKey('Amazing Grace', 'Chris Tomlin'))
+  })
+})
+
+describe('planBulkImport', () => {
+  it('should mark new songs, library duplicates, batch duplicates and errors', () => {
+    const plan = planBulkImport(
+      [
+        { name: 'amazing-grace.cho', text: '{title: Amazing Grace}\n{artist: John Newton}' },
+        { name: 'sublime-gracia.cho', text: '{title: Sublime Gracia}\n{artist: John Newton}' },
+        { name: 'copy/sublime-gracia.cho', text: '{title: SUBLIME GRACIA}\n{artist: John Newton}' },
+        { name: 'notes.pdf', error: 'Unsupported file type' },
+      ],
+      [librarySong()]
+    )
+
+    expect(plan.map((item) => [item.status, item.action])).toEqual([
+      ['duplicate', 'skip'],
+      ['new', 'create'],
+      ['duplicate', 'skip'],
+      ['error', 'skip'],
+    ])
+    expect(plan[0].existing?.id).toBe('song-1')
+    expect(plan[2].duplicateOf).toBe('sublime-gracia.cho')
+    expect(plan[3].error).toBe('Unsupported file type')
+  })
+
+  it('should fall back to the file name when the song has no title', () => {
+    const [item] = planBulkImport([{ name: 'folder/My Song.txt', text: '[G]Hello' }], [])
+    expect(item.status).toBe('new')
+    expect(item.imported?.song.title).toBe('My Song')
+  })
+
+  it('should report files that fail to convert', () => {
+    const [item] = planBulkImport([{ name: 'broken.xml', text: '<song><unclosed>' }], [])
+    expect(item).toMatchObject({ status: 'error', action: 'skip', error: 'Not an OpenLyrics song' })
+  })
+})
+
+describe('mergeImportedSong', () => {
+  it('should keep library values, fill empty fields and combine tags', () => {
+    const merged = mergeImportedSong(librarySong({ notes: '' }), {
+      title: 'Amazing Grace',
+      artist: 'John Newton',
+      key: 'A',
+      lyrics: '[G]Amazing grace',
+      tags: ['hymn', 'classic'],
+      notes: 'From the songbook',
+    })
+
+    expect(merged).toMatchObject({
+      key: 'G',
+      bpm: 90,
+      lyrics: '[G]Amazing grace',
+      notes: 'From the songbook',
+      tags: ['hymn', 'classic'],
+    })
+  })
+
+  it('should take the file\'s key, tempo and meter over the defaults', () => {
+    const library = librarySong({ key: 'C', bpm: 120, timeSignature: '4/4' })
+    const incoming = { title: 'Amazing Grace', artist: 'John Newton', lyrics: '' }
+
+    expect(mergeImportedSong(library, { ...incoming, key: 'G', bpm: 90, timeSignature: '3/4' })).toMatchObject({
+      key: 'G',
+      bpm: 90,
+      timeSignature: '3/4',
+    })
+    expect(mergeImportedSong(library, incoming)).toMatchObject({ key: 'C', bpm: 120, timeSignature: '4/4' })
+  })
+})
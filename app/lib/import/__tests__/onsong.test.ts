@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { onSongToChordPro } from '../onsong'
+import { importSongFile } from '..'
+
+const fixture = readFileSync(resolve(__dirname, 'fixtures', 'amazing-grace.onsong'), 'utf-8')
+
+describe('OnSong importer', () => {
+  it('should read the title and artist from the first header lines', () => {
+    expect(onSongToChordPro(fixture)).toMatch(/^\{title: Amazing Grace\}\n\{artist: John Newton\}\n/)
+  })
+
+  it('should turn header tags into directives and drop OnSong-only tags', () => {
+    const chordPro = onSongToChordPro(fixture)
+    expect(chordPro).toContain('{key: G}\n{tempo: 90}\n{time: 3/4}\n{capo: 2}')
+    expect(chordPro).not.toContain('CCLI')
+  })
+
+  it('should keep inline chords and align chords written above lyrics', () => {
+    const chordPro = onSongToChordPro(fixture)
+    expect(chordPro).toContain('[Verse 1]\n[G]Amazing [G7]grace how [C]sweet the [G]sound')
+    expect(chordPro).toContain('[Chorus]\n[G]I once was [C]lost but [G]now am found')
+  })
+
+  it('should produce song fields with the body as lyrics', () => {
+    const { format, song } = importSongFile('amazing-grace.onsong', fixture)
+    expect(format).toBe('onsong')
+    expect(song).toMatchObject({ title: 'Amazing Grace', artist: 'John Newton', key: 'G', bpm: 90, timeSignature: '3/4' })
+    expect(song.lyrics).toMatch(/^\{capo: 2\}\n\n\[Verse 1\]/)
+  })
+
+  it('should accept tagged titles', () => {
+    expect(onSongToChordPro('Title: Hey\nArtist: Ana\n\n[C]La')).toBe('{title: Hey}\n{artist: Ana}\n\n[C]La')
+  })
+})
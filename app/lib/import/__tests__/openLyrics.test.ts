@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { openLyricsToChordPro } from '../openLyrics'
+import { importSongFile } from '..'
+
+const fixture = readFileSync(resolve(__dirname, 'fixtures', 'amazing-grace.xml'), 'utf-8')
+
+describe('OpenLyrics importer', () => {
+  it('should read properties into directives, skipping translators', () => {
+    expect(openLyricsToChordPro(fixture)).toMatch(
+      /^\{title: Amazing Grace\}\n\{artist: John Newton\}\n\{key: G\}\n\{tempo: 90\}\n\{time: 3\/4\}\n/
+    )
+  })
+
+  it('should name sections from verse ids and place chords inline', () => {
+    const chordPro = openLyricsToChordPro(fixture)
+    expect(chordPro).toContain(
+      '[Verse 1]\n[G]Amazing [G7]grace how [C]sweet the [G]sound\nThat saved a wretch like [D7]me'
+    )
+  })
+
+  it('should read 0.9 chords wrapping text and skip comments', () => {
+    expect(openLyricsToChordPro(fixture)).toContain('[Chorus]\nI once was [Em7/D]lost but now am found')
+  })
+
+  it('should detect XML content without the extension', () => {
+    const { format, song } = importSongFile('export.txt', fixture)
+    expect(format).toBe('openlyrics')
+    expect(song).toMatchObject({ title: 'Amazing Grace', artist: 'John Newton', bpm: 90 })
+    expect(song.lyrics).toMatch(/^\[Verse 1\]/)
+  })
+
+  it('should reject documents that are not OpenLyrics songs', () => {
+    expect(() => openLyricsToChordPro('<playlist/>')).toThrow('Not an OpenLyrics song')
+    expect(() => openLyricsToChordPro('<song><lyrics>')).toThrow('Not an OpenLyrics song')
+  })
+})
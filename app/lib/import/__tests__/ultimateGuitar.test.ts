@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { ultimateGuitarToChordPro, isUltimateGuitarText } from '../ultimateGuitar'
+import { importSongFile, detectImportFormat } from '..'
+
+const fixture = readFileSync(resolve(__dirname, 'fixtures', 'amazing-grace-ug.txt'), 'utf-8')
+
+describe('Ultimate Guitar importer', () => {
+  it('should detect [ch] and [tab] markup', () => {
+    expect(isUltimateGuitarText(fixture)).toBe(true)
+    expect(isUltimateGuitarText('[G]Amazing grace')).toBe(false)
+  })
+
+  it('should read title and artist from the "Chords by" line', () => {
+    expect(ultimateGuitarToChordPro(fixture)).toMatch(/^\{title: Amazing Grace\}\n\{artist: John Newton\}\n\{capo: 2\}\n/)
+  })
+
+  it('should align [ch] chords above lyrics inside [tab] blocks', () => {
+    expect(ultimateGuitarToChordPro(fixture)).toContain(
+      '[Verse 1]\n[G]Amazing grace [C]how [G]sweet the sound\nThat [G]saved a wretch like [D]me'
+    )
+  })
+
+  it('should turn chord-only lines into bars and inline [ch] into ChordPro chords', () => {
+    const chordPro = ultimateGuitarToChordPro(fixture)
+    expect(chordPro).toContain('[Intro]\nG | C | G | D |')
+    expect(chordPro).toContain('[Chorus]\nI once was [Em]lost but now am found')
+  })
+
+  it('should fall back to the file name for the title', () => {
+    const { format, song } = importSongFile('Songs/amazing.txt', '[ch]G[/ch]\nHello')
+    expect(format).toBe('ultimate-guitar')
+    expect(song).toMatchObject({ title: 'amazing', artist: '', lyrics: '[G]Hello' })
+  })
+})
+
+describe('detectImportFormat', () => {
+  it('should tell ChordPro from chord-over-lyrics text', () => {
+    expect(detectImportFormat('a.cho', '{title: X}\n[G]Hi')).toBe('chordpro')
+    expect(detectImportFormat('a.txt', 'G    C\nHello there')).toBe('text')
+    expect(detectImportFormat('a.onsong', '[G]Hi')).toBe('onsong')
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * Bulk Import
+ * Import many song files (or .zip archives of them) at once: unpack, convert
+ * each file, and flag songs whose title + artist already exist so the user
+ * can skip, overwrite or merge them.
+ */
+
+import type { BulkImportItem, CreateSongInput, Song, UpdateSongInput } from '~/types'
+import { readZip } from './zip'
+import { importSongFile, IMPORT_EXTENSIONS } from './songFile'
+
+/** A file picked or dropped by the user, already read */
+export interface ImportFileData {
+  name: string
+  data: ArrayBuffer
+}
+
+/** A song file ready to convert, or why it can't be */
+export interface UnpackedFile {
+  name: string
+  text?: string
+  error?: string
+}
+
+/** Archive clutter that is never a song: macOS resource forks, hidden files */
+function isArchiveClutter(path: string): boolean {
+  return path.startsWith('__MACOSX/') || path.split('/').pop()!.startsWith('.')
+}
+
+function isSongFile(name: string): boolean {
+  const lower = name.toLowerCase()
+  return IMPORT_EXTENSIONS.some((ext) => lower.endsWith(ext))
+}
+
+function decode(data: ArrayBuffer | Uint8Array): string {
+  return new TextDecoder().decode(data).replace(/^\uFEFF/, '')
+}
+
+/**
+ * Normalized title + artist used to spot duplicates: case, accents and
+ * spacing don't matter
+ * @example songMatchKey('Amazing  Grace', 'John Newton') === songMatchKey('amazing grace', 'JOHN NEWTON')
+ */
+export function songMatchKey(title: string, artist: string): string {
+  const normalize = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim()
+  return `${normalize(title)}\u0000${normalize(artist)}`
+}
+
+/**
+ * Expand zips and decode song files. Files with other extensions are kept
+ * with an error so they show up in the report.
+ */
+export async function unpackImportFiles(files: ImportFileData[]): Promise<UnpackedFile[]> {
+  const result: UnpackedFile[] = []
+
+  for (const file of files) {
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      try {
+        for (const entry of await readZip(file.data)) {
+          if (isArchiveClutter(entry.name)) continue
+          const name = `${file.name}/${entry.name}`
+          result.push(isSongFile(entry.name) ? { name, text: decode(entry.data) } : { name, error: 'Unsupported file type' })
+        }
+      } catch (error) {
+        result.push({ name: file.name, error: error instanceof Error ? error.message : String(error) })
+      }
+    } else if (isSongFile(file.name)) {
+      result.push({ name: file.name, text: decode(file.data) })
+    } else {
+      result.push({ name: file.name, error: 'Unsupported file type' })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Convert every file and match it against the library and the files before it.
+ * New songs default to 'create', duplicates to 'skip'.
+ */
+export function planBulkImport(files: UnpackedFile[], library: Song[]): BulkImportItem[] {
+  const librarySongs = new Map(library.map((song) => [songMatchKey(song.title, song.artist), song]))
+  const batchFiles = new Map<string, string>()
+
+  return files.map((file): BulkImportItem => {
+    if (file.text === undefined) {
+      return { fileName: file.name, status: 'error', action: 'skip', error: file.error }
+    }
+
+    let imported
+    try {
+      imported = importSongFile(file.name, file.text)
+    } catch (error) {
+      return { fileName: file.name, status: 'error', action: 'skip', error: error instanceof Error ? error.message : String(error) }
+    }
+
+    if (!imported.song.title.trim()) {
+      return { fileName: file.name, status: 'error', action: 'skip', imported, error: 'Missing title' }
+    }
+
+    const key = songMatchKey(imported.song.title, imported.song.artist)
+    const existing = librarySongs.get(key)
+    const duplicateOf = batchFiles.get(key)
+    if (!duplicateOf) batchFiles.set(key, file.name)
+
+    if (existing || duplicateOf) {
+      return { fileName: file.name, status: 'duplicate', action: 'skip', imported, existing, duplicateOf }
+    }
+    return { fileName: file.name, status: 'new', action: 'create', imported }
+  })
+}
+
+/** What createSongSchema fills in when a song is saved without them: not the user's choice */
+const SONG_DEFAULTS = { key: 'C', bpm: 120, timeSignature: '4/4' }
+
+/** The library value, unless it is empty or only the default and the file has one */
+function libraryValue<T>(existing: T, incoming: T | undefined, fallback?: T): T {
+  if (!incoming || (existing && existing !== fallback)) return existing
+  return incoming
+}
+
+/**
+ * Merge an imported song into a library song: library values win, empty or
+ * default fields are filled from the file and tags are combined
+ */
+export function mergeImportedSong(existing: Song, incoming: CreateSongInput): UpdateSongInput {
+  return {
+    artist: existing.artist || incoming.artist,
+    key: libraryValue(existing.key, incoming.key, SONG_DEFAULTS.key),
+    bpm: libraryValue(existing.bpm, incoming.bpm, SONG_DEFAULTS.bpm),
+    timeSignature: libraryValue(existing.timeSignature, incoming.timeSignature, SONG_DEFAULTS.timeSignature),
+    duration: existing.duration || incoming.duration,
+    lyrics: existing.lyrics.trim() ? existing.lyrics : incoming.lyrics,
+    notes: existing.notes || incoming.notes,
+    tags: [...new Set([...existing.tags, ...(incoming.tags ?? [])])],
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Import Module
+ * Convert song files from other chart formats to ChordPro plus song fields
+ */
+
+export { importSongFile, detectImportFormat, IMPORT_EXTENSIONS } from './songFile'
+export { onSongToChordPro } from './onsong'
+export { openLyricsToChordPro } from './openLyrics'
+export { ultimateGuitarToChordPro, isUltimateGuitarText } from './ultimateGuitar'
+export { songInputFromChordPro } from './songInput'
+
+// Bulk import
+export { readZip } from './zip'
+export type { ZipEntry } from './zip'
+export { unpackImportFiles, planBulkImport, mergeImportedSong, songMatchKey } from './bulk'
+export type { ImportFileData, UnpackedFile } from './bulk'
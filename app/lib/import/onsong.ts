@@ -0,0 +1,45 @@
+/**
+ * OnSong Importer
+ * OnSong files (.onsong) are plain text: a header block with the title and
+ * artist on the first lines plus "Key: G" style tags, then sections labelled
+ * "Verse 1:" with chords inline ([G]) or on the line above the lyrics.
+ *
+ * @example
+ *   Amazing Grace           {title: Amazing Grace}
+ *   John Newton             {artist: John Newton}
+ *   Key: G           →      {key: G}
+ *
+ *   Verse 1:                [Verse 1]
+ *   [G]Amazing [C]grace     [G]Amazing [C]grace
+ */
+
+import { convertChordOverLyrics } from '~/lib/chordpro'
+
+/** "Key: G", "Tempo: 90" — tags OnSong keeps in the header */
+const TAG_LINE = /^[A-Za-zÀ-ÿ ]+:\s*\S/
+
+/** OnSong-only tags with no ChordPro counterpart */
+const IGNORED_TAGS = /^(?:author|flow|book|number|ccli|copyright|keywords|topic|length|midi[^:]*)\s*:/i
+
+/**
+ * Convert an OnSong chart to ChordPro
+ */
+export function onSongToChordPro(text: string): string {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const headerEnd = lines.findIndex((line) => line.trim() === '')
+  const header = headerEnd === -1 ? lines : lines.slice(0, headerEnd)
+  const body = headerEnd === -1 ? [] : lines.slice(headerEnd + 1)
+
+  // Untagged header lines are the title, then the artist
+  const untagged = ['Title', 'Artist']
+  const headerLines = header
+    .filter((line) => !IGNORED_TAGS.test(line.trim()))
+    .map((line) => {
+      const trimmed = line.trim()
+      if (TAG_LINE.test(trimmed) || /^\{.*\}$/.test(trimmed)) return trimmed
+      const tag = untagged.shift()
+      return tag ? `${tag}: ${trimmed}` : trimmed
+    })
+
+  return convertChordOverLyrics([...headerLines, '', ...body].join('\n'))
+}
@@ -0,0 +1,131 @@
+/**
+ * OpenLyrics Importer
+ * OpenLyrics XML (openlyrics.org): song properties plus <verse> elements
+ * whose <lines> hold lyrics with <chord/> markers and <br/> line breaks.
+ *
+ * @example
+ *   <verse name="v1"><lines><chord name="G"/>Amazing <chord name="C"/>grace</lines></verse>
+ *     → [Verse 1]
+ *       [G]Amazing [C]grace
+ */
+
+/** Verse name prefixes: v1, c, b2, p, i, e */
+const SECTION_NAMES: Record<string, string> = {
+  v: 'Verse',
+  c: 'Chorus',
+  p: 'Pre-Chorus',
+  b: 'Bridge',
+  i: 'Intro',
+  e: 'Ending',
+  o: 'Other',
+}
+
+/** OpenLyrics 0.9 chord structures as ChordPro suffixes */
+const CHORD_STRUCTURES: Record<string, string> = {
+  maj: '',
+  min: 'm',
+  dom7: '7',
+  maj7: 'maj7',
+  min7: 'm7',
+  dim: 'dim',
+  dim7: 'dim7',
+  aug: 'aug',
+  sus2: 'sus2',
+  sus4: 'sus4',
+  halfdim7: 'm7b5',
+}
+
+function children(parent: Element | Document, name: string): Element[] {
+  return Array.from(parent.getElementsByTagName(name))
+}
+
+function text(parent: Element | Document, name: string): string {
+  return children(parent, name)[0]?.textContent?.trim() ?? ''
+}
+
+/**
+ * ChordPro chord from a <chord> element: name="Am7" (0.8) or
+ * root="A" structure="min7" bass="G" (0.9)
+ */
+function chordName(element: Element): string {
+  const name = element.getAttribute('name')
+  if (name) return name
+
+  const root = element.getAttribute('root') ?? ''
+  const structure = element.getAttribute('structure') ?? ''
+  const bass = element.getAttribute('bass')
+  return root + (CHORD_STRUCTURES[structure] ?? structure) + (bass ? `/${bass}` : '')
+}
+
+/** "v1" → "Verse 1", "c" → "Chorus", "v2a" → "Verse 2" */
+function sectionName(verseName: string): string {
+  const match = verseName.toLowerCase().match(/^([a-z])(\d*)/)
+  const base = match && SECTION_NAMES[match[1]]
+  if (!base) return verseName || SECTION_NAMES.v
+  return match[2] ? `${base} ${match[2]}` : base
+}
+
+/** Flatten <lines> content to ChordPro text: chords inline, <br/> as newlines */
+function linesToChordPro(node: Node): string {
+  let result = ''
+
+  for (const child of Array.from(node.childNodes)) {
+    if (child.nodeType === child.TEXT_NODE) {
+      // Source indentation is not part of the lyrics
+      result += (child.textContent ?? '').replace(/\s+/g, ' ')
+    } else if (child.nodeType === child.ELEMENT_NODE) {
+      const element = child as Element
+      const tag = element.localName
+      if (tag === 'br') result += '\n'
+      else if (tag === 'chord') result += `[${chordName(element)}]` + linesToChordPro(element)
+      else if (tag !== 'comment') result += linesToChordPro(element)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Convert an OpenLyrics XML document to ChordPro
+ * @throws When the text is not an OpenLyrics song
+ */
+export function openLyricsToChordPro(xml: string): string {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'song') {
+    throw new Error('Not an OpenLyrics song')
+  }
+
+  const output: string[] = []
+
+  const title = text(doc, 'title')
+  if (title) output.push(`{title: ${title}}`)
+
+  const authors = children(doc, 'author')
+    .filter((author) => author.getAttribute('type') !== 'translation')
+    .map((author) => author.textContent?.trim())
+    .filter(Boolean)
+  if (authors.length > 0) output.push(`{artist: ${authors.join(', ')}}`)
+
+  const key = text(doc, 'key')
+  if (key) output.push(`{key: ${key}}`)
+
+  const tempo = children(doc, 'tempo')[0]
+  if (tempo && tempo.getAttribute('type') !== 'text' && /^\d+$/.test(tempo.textContent?.trim() ?? '')) {
+    output.push(`{tempo: ${tempo.textContent!.trim()}}`)
+  }
+
+  const timeSignature = text(doc, 'timeSignature')
+  if (timeSignature) output.push(`{time: ${timeSignature}}`)
+
+  for (const verse of children(doc, 'verse')) {
+    output.push('', `[${sectionName(verse.getAttribute('name') ?? '')}]`)
+    for (const lines of children(verse, 'lines')) {
+      const body = linesToChordPro(lines)
+        .split('\n')
+        .map((line) => line.trim())
+      output.push(...body)
+    }
+  }
+
+  return output.join('\n')
+}
@@ -0,0 +1,47 @@
+/**
+ * Song File
+ * Pick the format of a song file and convert it to ChordPro plus song fields
+ */
+
+import { isChordOverLyrics, convertChordOverLyrics } from '~/lib/chordpro'
+import type { ImportFormat, ImportedSong } from '~/types'
+import { onSongToChordPro } from './onsong'
+import { openLyricsToChordPro } from './openLyrics'
+import { ultimateGuitarToChordPro, isUltimateGuitarText } from './ultimateGuitar'
+import { songInputFromChordPro } from './songInput'
+
+/** File extensions accepted by the song importer */
+export const IMPORT_EXTENSIONS = ['.cho', '.chopro', '.chordpro', '.crd', '.txt', '.onsong', '.xml']
+
+/**
+ * Pick the import format from the file extension, then the content
+ * @example detectImportFormat('song.onsong', text) → 'onsong'
+ * @example detectImportFormat('song.txt', '[ch]G[/ch]\nHi') → 'ultimate-guitar'
+ */
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  const name = fileName.toLowerCase()
+  if (name.endsWith('.onsong')) return 'onsong'
+  if (name.endsWith('.xml') || /^\s*(<\?xml[^>]*>\s*)?<song[\s>]/.test(text)) return 'openlyrics'
+  if (isUltimateGuitarText(text)) return 'ultimate-guitar'
+  if (isChordOverLyrics(text)) return 'text'
+  return 'chordpro'
+}
+
+/**
+ * Convert a song file to ChordPro and CreateSongInput
+ * @param fileName - Used to detect the format and as the title when the file has none
+ * @throws When an OpenLyrics file is not valid XML
+ */
+export function importSongFile(fileName: string, text: string, format = detectImportFormat(fileName, text)): ImportedSong {
+  const converters: Record<ImportFormat, (text: string) => string> = {
+    chordpro: (t) => t,
+    text: convertChordOverLyrics,
+    onsong: onSongToChordPro,
+    openlyrics: openLyricsToChordPro,
+    'ultimate-guitar': ultimateGuitarToChordPro,
+  }
+
+  const chordPro = converters[format](text)
+  const fallbackTitle = fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '')
+  return { format, chordPro, song: songInputFromChordPro(chordPro, fallbackTitle) }
+}
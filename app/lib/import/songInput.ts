@@ -0,0 +1,26 @@
+/**
+ * Song Input
+ * Song fields from the directives of imported ChordPro
+ */
+
+import { parseChordPro, stripSongFieldDirectives } from '~/lib/chordpro'
+import type { CreateSongInput } from '~/types'
+
+/**
+ * Build CreateSongInput from ChordPro text: title, artist, key, tempo, time
+ * and duration come from the directives, the rest becomes the lyrics.
+ * @param fallbackTitle - Used when the text has no {title} (e.g. the file name)
+ */
+export function songInputFromChordPro(chordPro: string, fallbackTitle = ''): CreateSongInput {
+  const { directives } = parseChordPro(chordPro)
+
+  return {
+    title: directives.title || fallbackTitle,
+    artist: directives.artist || '',
+    ...(directives.key && { key: directives.key }),
+    ...(directives.tempo && { bpm: directives.tempo }),
+    ...(directives.timeSignature && { timeSignature: directives.timeSignature }),
+    ...(directives.duration && { duration: directives.duration }),
+    lyrics: stripSongFieldDirectives(chordPro),
+  }
+}
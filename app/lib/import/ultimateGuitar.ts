@@ -0,0 +1,51 @@
+/**
+ * Ultimate Guitar Importer
+ * Ultimate Guitar exports mark chords with [ch]G[/ch] on the line above the
+ * lyrics and wrap chord/lyric pairs in [tab]...[/tab]. Section headers are
+ * already [Verse 1] style.
+ *
+ * @example
+ *   [tab][ch]G[/ch]      [ch]C[/ch]          [G]Amazing [C]grace
+ *   Amazing grace[/tab]                →
+ */
+
+import { convertChordOverLyrics } from '~/lib/chordpro'
+
+const CHORD_MARKUP = /\[ch\](.*?)\[\/ch\]/g
+
+/** "Amazing Grace Chords by John Newton" */
+const TITLE_LINE = /^(.+?)\s+(?:chords|tabs?|ukulele chords)\s+by\s+(.+)$/i
+
+/**
+ * Convert a line with [ch] markup. Chord-only lines keep their columns
+ * (the tags are dropped); chords inside lyrics become inline [Chord].
+ */
+function convertChordMarkup(line: string): string {
+  const withoutChords = line.replace(CHORD_MARKUP, '')
+  if (withoutChords.trim() === '' || /^[\s|/x\d()%-]*$/i.test(withoutChords)) {
+    return line.replace(CHORD_MARKUP, '$1')
+  }
+  return line.replace(CHORD_MARKUP, '[$1]')
+}
+
+/**
+ * Whether text uses Ultimate Guitar markup
+ */
+export function isUltimateGuitarText(text: string): boolean {
+  return /\[ch\].*?\[\/ch\]/.test(text) || /\[tab\]/.test(text)
+}
+
+/**
+ * Convert an Ultimate Guitar chart to ChordPro
+ */
+export function ultimateGuitarToChordPro(text: string): string {
+  const lines = text
+    .replace(/\[\/?tab\]/g, '')
+    .split(/\r?\n/)
+    .map(convertChordMarkup)
+
+  const title = lines[0]?.trim().match(TITLE_LINE)
+  if (title) lines.splice(0, 1, `{title: ${title[1]}}`, `{artist: ${title[2]}}`)
+
+  return convertChordOverLyrics(lines.join('\n'))
+}
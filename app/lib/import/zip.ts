@@ -0,0 +1,88 @@
+/**
+ * Zip Reader
+ * Minimal reader for .zip archives of song files: stored and deflated
+ * entries, inflated with the platform DecompressionStream. No zip64,
+ * encryption or multi-disk archives.
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive */
+  name: string
+  data: Uint8Array
+}
+
+const SIGNATURES = {
+  endOfCentralDirectory: 0x06054b50,
+  centralDirectory: 0x02014b50,
+  localFile: 0x04034b50,
+}
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+/** End of central directory record: 22 bytes plus a comment of up to 64 KB */
+function findEndOfCentralDirectory(view: DataView): number {
+  const last = view.byteLength - 22
+  for (let offset = last; offset >= Math.max(0, last - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === SIGNATURES.endOfCentralDirectory) return offset
+  }
+  throw new Error('Not a zip file')
+}
+
+async function inflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(data)
+      controller.close()
+    },
+  }).pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Read every file in a zip archive (directories are skipped)
+ * @throws When the data is not a zip or uses an unsupported compression method
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<ZipEntry[]> {
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  const decoder = new TextDecoder()
+
+  const end = findEndOfCentralDirectory(view)
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+
+  const entries: ZipEntry[] = []
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== SIGNATURES.centralDirectory) {
+      throw new Error('Corrupt zip file')
+    }
+
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue
+
+    // Sizes come from the central directory; the local header may defer them
+    const localNameLength = view.getUint16(localOffset + 26, true)
+    const localExtraLength = view.getUint16(localOffset + 28, true)
+    const start = localOffset + 30 + localNameLength + localExtraLength
+    const raw = bytes.subarray(start, start + compressedSize)
+
+    if (method === METHOD_STORED) {
+      entries.push({ name, data: raw })
+    } else if (method === METHOD_DEFLATE) {
+      entries.push({ name, data: await inflate(raw) })
+    } else {
+      throw new Error(`Unsupported zip compression in ${name}`)
+    }
+  }
+
+  return entries
+}
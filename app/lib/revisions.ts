@@ -0,0 +1,177 @@
+/**
+ * Song Revisions
+ * Every update keeps the song's previous lyrics and metadata so an edit can
+ * be compared against what came before and rolled back.
+ */
+
+import { db } from '~/lib/db'
+import { recordChange } from '~/lib/sync'
+import type { DiffLine, RevisionOptions, Song, SongRevision, SongSnapshot } from '~/types'
+
+/** Revisions kept per song; the oldest are dropped beyond this */
+export const REVISION_LIMIT = 50
+
+/** Coalesced saves this close to the previous one share its revision */
+export const REVISION_COALESCE_MS = 2 * 60 * 1000
+
+const SNAPSHOT_FIELDS: (keyof SongSnapshot)[] = [
+  'title',
+  'artist',
+  'bpm',
+  'key',
+  'timeSignature',
+  'duration',
+  'lyrics',
+  'tags',
+  'notes',
+  'capo',
+  'accidentals',
+  'performanceKey',
+  'timingOverrides',
+  'timingMap',
+  'arrangements',
+]
+
+/**
+ * The revisioned fields of a song. Every field is present, even when
+ * undefined, so restoring a snapshot also clears fields added since.
+ */
+export function snapshotSong(song: SongSnapshot): SongSnapshot {
+  return {
+    title: song.title,
+    artist: song.artist,
+    bpm: song.bpm,
+    key: song.key,
+    timeSignature: song.timeSignature,
+    duration: song.duration,
+    lyrics: song.lyrics,
+    tags: [...song.tags],
+    notes: song.notes,
+    capo: song.capo,
+    accidentals: song.accidentals,
+    performanceKey: song.performanceKey,
+    timingOverrides: song.timingOverrides && { ...song.timingOverrides },
+    timingMap: song.timingMap && { ...song.timingMap },
+    arrangements: song.arrangements?.map((arrangement) => ({ ...arrangement, sections: [...arrangement.sections] })),
+  }
+}
+
+/** Whether `changes` would alter anything a revision keeps */
+export function changesSnapshot(song: Song, changes: Partial<Song>): boolean {
+  return SNAPSHOT_FIELDS.some(
+    (field) => field in changes && JSON.stringify(changes[field]) !== JSON.stringify(song[field])
+  )
+}
+
+/**
+ * Store `song` as a revision and drop the oldest beyond REVISION_LIMIT;
+ * `coalesced` when a coalesced save makes it. Call inside a transaction that includes db.songRevisions.
+ */
+export async function recordRevision(song: Song, coalesced = false): Promise<void> {
+  await db.songRevisions.add({
+    id: crypto.randomUUID(),
+    songId: song.id,
+    createdAt: new Date(),
+    snapshot: snapshotSong(song),
+    ...(coalesced && { coalesced }),
+  })
+
+  const revisions = await db.songRevisions.where('songId').equals(song.id).sortBy('createdAt')
+  const excess = revisions.length - REVISION_LIMIT
+  if (excess > 0) {
+    await db.songRevisions.bulkDelete(revisions.slice(0, excess).map((revision) => revision.id))
+  }
+}
+
+/**
+ * Whether `song` was last saved by a coalesced save within
+ * REVISION_COALESCE_MS, with no other revisioned save since
+ */
+async function continuesCoalescedRun(song: Song): Promise<boolean> {
+  if (Date.now() - new Date(song.updatedAt).getTime() > REVISION_COALESCE_MS) return false
+  const revisions = await db.songRevisions.where('songId').equals(song.id).sortBy('createdAt')
+  return revisions.at(-1)?.coalesced === true
+}
+
+/** Update a song, keeping its current version as a revision when the changes touch it */
+export async function updateSongWithRevision(
+  id: string,
+  changes: Partial<Song>,
+  options: RevisionOptions = {}
+): Promise<void> {
+  await db.transaction('rw', [db.songs, db.songRevisions, db.changes, db.syncState], async () => {
+    const song = await db.songs.get(id)
+    if (!song) {
+      throw new Error('Song not found')
+    }
+    if (changesSnapshot(song, changes) && !(options.coalesce && (await continuesCoalescedRun(song)))) {
+      await recordRevision(song, options.coalesce)
+    }
+    await db.songs.update(id, { ...changes, updatedAt: new Date() })
+    await recordChange('songs', 'updated', id)
+  })
+}
+
+/** A song's revisions, newest first */
+export async function listRevisions(songId: string): Promise<SongRevision[]> {
+  const revisions = await db.songRevisions.where('songId').equals(songId).sortBy('createdAt')
+  return revisions.reverse()
+}
+
+/**
+ * Put a revision back as the current song. The version it replaces becomes
+ * a revision itself, so a restore can be undone the same way.
+ * Returns the id of the restored song.
+ */
+export async function restoreRevision(revisionId: string): Promise<string> {
+  const revision = await db.songRevisions.get(revisionId)
+  if (!revision) {
+    throw new Error('Revision not found')
+  }
+
+  // The saved transposition undo refers to lyrics that are no longer current
+  await updateSongWithRevision(revision.songId, {
+    ...snapshotSong(revision.snapshot),
+    lastTransposition: undefined,
+  })
+  return revision.songId
+}
+
+export async function deleteRevisions(songId: string): Promise<void> {
+  await db.songRevisions.where('songId').equals(songId).delete()
+}
+
+/**
+ * Line diff from `before` to `after` (longest common subsequence).
+ * Within a changed block, removed lines come before the added ones.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // common[i][j]: length of the LCS of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1])
+    }
+  }
+
+  const diff: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: 'same', text: a[i] })
+      i++
+      j++
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      diff.push({ type: 'removed', text: a[i++] })
+    } else {
+      diff.push({ type: 'added', text: b[j++] })
+    }
+  }
+  while (i < a.length) diff.push({ type: 'removed', text: a[i++] })
+  while (j < b.length) diff.push({ type: 'added', text: b[j++] })
+  return diff
+}
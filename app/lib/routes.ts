@@ -31,6 +31,13 @@ export const routeHelpers = {
     to: '/songs/new' as const,
   }),
 
+  /**
+   * Ruta para importar varias canciones (archivos o .zip)
+   */
+  songImport: () => ({
+    to: '/songs/import' as const,
+  }),
+
   /**
    * Ruta para editar una canción existente
    */
@@ -57,6 +64,14 @@ export const routeHelpers = {
     params: { setlistId },
     search: index !== undefined && index >= 0 ? { index } : undefined,
   }),
+
+  /**
+   * Ruta para fusionar una canción editada en dos dispositivos
+   */
+  syncConflict: (conflictId: string) => ({
+    to: '/profile/conflicts/$conflictId' as const,
+    params: { conflictId },
+  }),
 } as const
 
 // Tipos para autocompletado
@@ -25,6 +25,113 @@ export const profileSchema = z.object({
   band: z.string().max(100).optional(),
 })
 
+// ============================================================================
+// Stored records (backups)
+// Dates arrive as ISO strings from JSON and are revived with z.coerce.date().
+// Records pass unknown fields through so backups from newer versions keep them.
+// ============================================================================
+
+export const songSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  artist: z.string(),
+  bpm: z.number(),
+  key: z.string(),
+  timeSignature: z.string(),
+  duration: z.number(),
+  lyrics: z.string(),
+  tags: z.array(z.string()),
+  lastPlayed: z.coerce.date().optional(),
+  timesPlayed: z.number(),
+  notes: z.string().optional(),
+  capo: z.number().optional(),
+  accidentals: z.enum(['sharps', 'flats']).optional(),
+  performanceKey: z.string().optional(),
+  timingOverrides: z.record(z.number().min(0)).optional(),
+  timingMap: z.record(z.number().positive()).optional(),
+  arrangements: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    sections: z.array(z.string()),
+  })).optional(),
+  lastTransposition: z.object({
+    lyrics: z.string(),
+    key: z.string(),
+    semitones: z.number(),
+    appliedAt: z.coerce.date(),
+  }).optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+}).passthrough()
+
+export const setlistSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  songIds: z.array(z.string()),
+  totalDuration: z.number(),
+  venue: z.string().optional(),
+  date: z.coerce.date().optional(),
+  performanceKeys: z.record(z.string()).optional(),
+  arrangements: z.record(z.string()).optional(),
+  createdAt: z.coerce.date(),
+}).passthrough()
+
+// ============================================================================
+// Sync changes (from a transport)
+// The record is validated with the schema of the table it belongs to.
+// ============================================================================
+
+const syncChangeFields = {
+  id: z.string().min(1),
+  entityId: z.string().min(1),
+  type: z.enum(['created', 'updated', 'deleted']),
+  clock: z.number().int().nonnegative(),
+  deviceId: z.string().min(1),
+  createdAt: z.coerce.date(),
+  // A received change is never pending here, whatever the peer sent
+  pending: z.literal(0).catch(0),
+}
+
+export const syncChangeSchema = z.discriminatedUnion('table', [
+  z.object({ ...syncChangeFields, table: z.literal('songs'), record: songSchema.optional() }),
+  z.object({ ...syncChangeFields, table: z.literal('setlists'), record: setlistSchema.optional() }),
+])
+
+export const pullResultSchema = z.object({
+  changes: z.array(syncChangeSchema),
+  cursor: z.string(),
+})
+
+export const userProfileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  instrument: z.string(),
+  band: z.string().optional(),
+  avatar: z.string().optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+})
+
+export const appSettingsSchema = z.object({
+  id: z.string(),
+  theme: z.enum(['light', 'dark', 'auto']),
+  language: z.enum(['es', 'en']),
+  metronome: z.object({}).passthrough(),
+  tuner: z.object({}).passthrough(),
+  performance: z.object({}).passthrough(),
+  player: z.object({}).passthrough(),
+  sync: z.object({ lastSyncDate: z.coerce.date().optional() }).passthrough(),
+  updatedAt: z.coerce.date(),
+}).passthrough()
+
+export const userStatsSchema = z.object({
+  totalSongs: z.number(),
+  totalSetlists: z.number(),
+  mostPlayedSong: z.object({ id: z.string(), title: z.string(), playCount: z.number() }).optional(),
+  totalPracticeMinutes: z.number(),
+  lastSessionDate: z.coerce.date().optional(),
+})
+
 export type CreateSongSchema = z.infer<typeof createSongSchema>
 export type CreateSetlistSchema = z.infer<typeof createSetlistSchema>
 export type ProfileSchema = z.infer<typeof profileSchema>
@@ -0,0 +1,396 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  SYNC_STATE_ID,
+  recordChange,
+  getSyncState,
+  pendingChanges,
+  clearPendingChanges,
+  syncWith,
+  applyRemoteChanges,
+  resolveConflict,
+  settleConflict,
+  listConflicts,
+  createHttpTransport,
+  createMemoryTransport,
+} from '~/lib/sync'
+import type { Song, SyncChange, SyncConflict, SyncState } from '~/types'
+
+vi.mock('~/lib/db', () => {
+  const table = <T extends { id: string }>() => {
+    const rows = new Map<string, T>()
+    const matching = (field: keyof T, value: unknown) => Array.from(rows.values()).filter((row) => row[field] === value)
+    return {
+      rows,
+      get: vi.fn((id: string) => Promise.resolve(rows.get(id))),
+      add: vi.fn((item: T) => {
+        rows.set(item.id, item)
+        return Promise.resolve(item.id)
+      }),
+      put: vi.fn((item: T) => {
+        rows.set(item.id, item)
+        return Promise.resolve(item.id)
+      }),
+      bulkPut: vi.fn((items: T[]) => {
+        items.forEach((item) => rows.set(item.id, item))
+        return Promise.resolve()
+      }),
+      delete: vi.fn((id: string) => {
+        rows.delete(id)
+        return Promise.resolve()
+      }),
+      bulkDelete: vi.fn((ids: string[]) => {
+        ids.forEach((id) => rows.delete(id))
+        return Promise.resolve()
+      }),
+      toArray: vi.fn(() => Promise.resolve(Array.from(rows.values()))),
+      toCollection: () => ({ primaryKeys: () => Promise.resolve(Array.from(rows.keys())) }),
+      where: (field: keyof T) => ({
+        equals: (value: unknown) => ({
+          toArray: () => Promise.resolve(matching(field, value)),
+          count: () => Promise.resolve(matching(field, value).length),
+          delete: () => {
+            matching(field, value).forEach((row) => rows.delete(row.id))
+            return Promise.resolve()
+          },
+        }),
+      }),
+    }
+  }
+  const tables = {
+    songs: table<Song>(),
+    setlists: table<{ id: string }>(),
+    changes: table<SyncChange>(),
+    syncState: table<SyncState>(),
+    syncConflicts: table<SyncConflict>(),
+  }
+  return {
+    db: {
+      ...tables,
+      table: (name: keyof typeof tables) => tables[name],
+      transaction: vi.fn((...args: unknown[]) => (args[args.length - 1] as () => Promise<unknown>)()),
+    },
+  }
+})
+
+type Rows<T> = { rows: Map<string, T> }
+const { db } = (await import('~/lib/db')) as unknown as {
+  db: {
+    songs: Rows<Song>
+    changes: Rows<SyncChange>
+    syncState: Rows<SyncState>
+    syncConflicts: Rows<SyncConflict>
+  }
+}
+
+const song: Song = {
+  id: 'song-1',
+  title: 'Wonderwall',
+  artist: 'Oasis',
+  bpm: 87,
+  key: 'F#m',
+  timeSignature: '4/4',
+  duration: 258,
+  lyrics: '[Em7]Today is gonna be the day',
+  tags: [],
+  timesPlayed: 0,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+}
+
+/** A change made on another device */
+const remoteChange = (overrides: Partial<SyncChange> = {}): SyncChange => ({
+  id: crypto.randomUUID(),
+  table: 'songs',
+  entityId: song.id,
+  type: 'updated',
+  record: { ...song, key: 'G' },
+  clock: 10,
+  deviceId: 'other-device',
+  createdAt: new Date('2024-02-01'),
+  pending: 0,
+  ...overrides,
+})
+
+/** Write a song locally the way the hooks do */
+const editSong = async (changes: Partial<Song>, type: 'created' | 'updated' = 'updated') => {
+  db.songs.rows.set(song.id, { ...(db.songs.rows.get(song.id) ?? song), ...changes })
+  await recordChange('songs', type, song.id)
+}
+
+beforeEach(() => {
+  db.songs.rows.clear()
+  db.changes.rows.clear()
+  db.syncState.rows.clear()
+  db.syncConflicts.rows.clear()
+})
+
+describe('recordChange', () => {
+  it('should log a pending change with the next clock value', async () => {
+    await editSong({}, 'created')
+    await editSong({ bpm: 90 })
+
+    const pending = await pendingChanges()
+    expect(pending.map((change) => [change.type, change.clock])).toEqual([
+      ['created', 1],
+      ['updated', 2],
+    ])
+    expect(pending[1].record).toMatchObject({ bpm: 90 })
+    expect(db.syncState.rows.get(SYNC_STATE_ID)?.clock).toBe(2)
+  })
+
+  it('should skip writes to records that no longer exist', async () => {
+    await recordChange('songs', 'updated', 'missing')
+    expect(db.changes.rows.size).toBe(0)
+  })
+
+  it('should leave the transposition undo out of the logged record', async () => {
+    const lastTransposition = { lyrics: '[Dm7]Today is gonna be the day', key: 'Em', semitones: 2, appliedAt: new Date('2024-01-02') }
+    await editSong({ lastTransposition }, 'created')
+
+    const [change] = await pendingChanges()
+    expect(change.record).not.toHaveProperty('lastTransposition')
+    expect(db.songs.rows.get(song.id)?.lastTransposition).toEqual(lastTransposition)
+  })
+})
+
+describe('syncWith', () => {
+  it('should forget pending changes but keep the records and sent changes', async () => {
+    await editSong({}, 'created')
+    await syncWith(createMemoryTransport([]))
+    await editSong({ bpm: 90 })
+    await clearPendingChanges()
+
+    expect(await pendingChanges()).toEqual([])
+    expect(db.changes.rows.size).toBe(1)
+    expect(db.songs.rows.get(song.id)?.bpm).toBe(90)
+  })
+
+  it('should push pending changes and keep only the newest as sent', async () => {
+    const log: SyncChange[] = []
+    await editSong({}, 'created')
+    await editSong({ bpm: 90 })
+
+    const result = await syncWith(createMemoryTransport(log))
+
+    expect(result).toMatchObject({ pushed: 2, pulled: 0, conflicts: 0 })
+    expect(log).toHaveLength(2)
+    expect(await pendingChanges()).toEqual([])
+    expect(Array.from(db.changes.rows.values())).toEqual([expect.objectContaining({ clock: 2, pending: 0 })])
+  })
+
+  it('should apply changes from another device and advance the cursor', async () => {
+    const log = [remoteChange({ type: 'created', record: song, clock: 1 }), remoteChange({ clock: 2 })]
+
+    const result = await syncWith(createMemoryTransport(log))
+
+    expect(result).toMatchObject({ pushed: 0, pulled: 2, conflicts: 0 })
+    expect(db.songs.rows.get(song.id)?.key).toBe('G')
+    expect((await getSyncState()).cursor).toBe('2')
+  })
+
+  it('should not push records in conflict', async () => {
+    await editSong({}, 'created')
+    await syncWith(createMemoryTransport([]))
+    await editSong({ key: 'A' })
+
+    const log = [remoteChange()]
+    const result = await syncWith(createMemoryTransport(log))
+
+    expect(result).toMatchObject({ pushed: 0, conflicts: 1 })
+    expect(log).toHaveLength(1)
+  })
+})
+
+describe('applyRemoteChanges', () => {
+  it('should ignore changes already applied and this device\'s own', async () => {
+    const change = remoteChange()
+    db.songs.rows.set(song.id, song)
+    await applyRemoteChanges([change])
+    db.songs.rows.set(song.id, song)
+    await applyRemoteChanges([change])
+    expect(db.songs.rows.get(song.id)?.key).toBe('F#m')
+
+    const { deviceId } = await getSyncState()
+    await applyRemoteChanges([remoteChange({ deviceId, clock: 20, record: { ...song, key: 'D' } })])
+    expect(db.songs.rows.get(song.id)?.key).toBe('F#m')
+  })
+
+  it('should ignore changes older than the last one applied', async () => {
+    await applyRemoteChanges([remoteChange({ clock: 5 })])
+    await applyRemoteChanges([remoteChange({ clock: 3, record: { ...song, key: 'D' } })])
+    expect(db.songs.rows.get(song.id)?.key).toBe('G')
+  })
+
+  it('should keep this device\'s transposition undo while the lyrics stay the same', async () => {
+    const lastTransposition = { lyrics: '[Dm7]Today is gonna be the day', key: 'Em', semitones: 2, appliedAt: new Date('2024-01-02') }
+    db.songs.rows.set(song.id, { ...song, lastTransposition })
+
+    await applyRemoteChanges([remoteChange()])
+    expect(db.songs.rows.get(song.id)).toMatchObject({ key: 'G', lastTransposition })
+
+    await applyRemoteChanges([remoteChange({ clock: 11, record: { ...song, lyrics: '[A]Backbeat' } })])
+    expect(db.songs.rows.get(song.id)?.lastTransposition).toBeUndefined()
+  })
+
+  it('should delete records deleted on another device', async () => {
+    db.songs.rows.set(song.id, song)
+    await applyRemoteChanges([remoteChange({ type: 'deleted', record: undefined })])
+    expect(db.songs.rows.has(song.id)).toBe(false)
+  })
+
+  it('should move the local clock past remote changes', async () => {
+    await applyRemoteChanges([remoteChange({ clock: 41 })])
+    await editSong({ bpm: 90 })
+    expect((await pendingChanges())[0].clock).toBe(42)
+  })
+
+  it('should not report a conflict when both devices made the same edit', async () => {
+    await editSong({}, 'created')
+    await syncWith(createMemoryTransport([]))
+    await editSong({ key: 'G' })
+
+    expect(await applyRemoteChanges([remoteChange()])).toBe(0)
+    expect(db.syncConflicts.rows.size).toBe(0)
+  })
+
+  it('should merge concurrent song edits that do not overlap', async () => {
+    await editSong({}, 'created')
+    await syncWith(createMemoryTransport([]))
+    await editSong({ bpm: 90 })
+
+    expect(await applyRemoteChanges([remoteChange()])).toBe(0)
+
+    expect(db.syncConflicts.rows.size).toBe(0)
+    expect(db.songs.rows.get(song.id)).toMatchObject({ key: 'G', bpm: 90 })
+    const pending = await pendingChanges()
+    expect(pending).toHaveLength(1)
+    expect(pending[0].clock).toBeGreaterThan(10)
+    expect(pending[0].record).toMatchObject({ key: 'G', bpm: 90 })
+  })
+
+  it('should drop the transposition undo when a merge changes the lyrics it was made on', async () => {
+    const verse = '[Em7]Today is gonna be the day\n[G]That they\'re gonna throw it back to you'
+    await editSong({ lyrics: verse }, 'created')
+    await syncWith(createMemoryTransport([]))
+    await editSong({
+      lyrics: verse.replace('[Em7]', '[F#m7]'),
+      lastTransposition: { lyrics: verse, key: 'F#m', semitones: 2, appliedAt: new Date('2024-01-02') },
+    })
+
+    await applyRemoteChanges([remoteChange({ record: { ...song, lyrics: verse.replace('[G]', '[A]') } })])
+
+    expect(db.songs.rows.get(song.id)).toMatchObject({
+      lyrics: '[F#m7]Today is gonna be the day\n[A]That they\'re gonna throw it back to you',
+      lastTransposition: undefined,
+    })
+  })
+
+  it('should keep the local version and record a conflict for concurrent edits', async () => {
+    await editSong({}, 'created')
+    await syncWith(createMemoryTransport([]))
+    await editSong({ key: 'A' })
+
+    expect(await applyRemoteChanges([remoteChange()])).toBe(1)
+
+    expect(db.songs.rows.get(song.id)?.key).toBe('A')
+    const [conflict] = await listConflicts()
+    expect(conflict).toMatchObject({ id: song.id, table: 'songs' })
+    expect(conflict.base).toMatchObject({ key: 'F#m' })
+    expect(conflict.local).toMatchObject({ key: 'A' })
+    expect(conflict.remote.record).toMatchObject({ key: 'G' })
+  })
+})
+
+describe('conflict resolution', () => {
+  const conflicted = async () => {
+    await editSong({}, 'created')
+    await syncWith(createMemoryTransport([]))
+    await editSong({ key: 'A' })
+    await applyRemoteChanges([remoteChange()])
+  }
+
+  it('should keep the local version as a new change when choosing local', async () => {
+    await conflicted()
+    await resolveConflict(song.id, 'local')
+
+    expect(db.songs.rows.get(song.id)?.key).toBe('A')
+    expect(db.syncConflicts.rows.size).toBe(0)
+    const pending = await pendingChanges()
+    expect(pending).toHaveLength(1)
+    expect(pending[0].clock).toBeGreaterThan(10)
+
+    const log: SyncChange[] = []
+    expect(await syncWith(createMemoryTransport(log))).toMatchObject({ pushed: 1 })
+  })
+
+  it('should take the remote version and drop local edits when choosing remote', async () => {
+    await conflicted()
+    await resolveConflict(song.id, 'remote')
+
+    expect(db.songs.rows.get(song.id)?.key).toBe('G')
+    expect(db.syncConflicts.rows.size).toBe(0)
+    expect(await pendingChanges()).toEqual([])
+  })
+
+  it('should settle with a merged record', async () => {
+    await conflicted()
+    await settleConflict(song.id, { ...song, key: 'A', bpm: 100 })
+
+    expect(db.songs.rows.get(song.id)).toMatchObject({ key: 'A', bpm: 100 })
+    expect((await pendingChanges()).map((change) => change.record)).toEqual([
+      expect.objectContaining({ key: 'A', bpm: 100 }),
+    ])
+  })
+
+  it('should throw for a missing conflict', async () => {
+    await expect(resolveConflict('missing', 'local')).rejects.toThrow('Conflict not found')
+  })
+})
+
+describe('createHttpTransport', () => {
+  it('should pull changes since the cursor and revive their dates', async () => {
+    const change = remoteChange()
+    const fetchImpl = vi.fn(() =>
+      Promise.resolve(new Response(JSON.stringify({ changes: [change], cursor: '8' }), { status: 200 }))
+    )
+    const transport = createHttpTransport('http://192.168.1.20:4455/', fetchImpl as unknown as typeof fetch)
+
+    const result = await transport.pull('7')
+
+    expect(fetchImpl).toHaveBeenCalledWith('http://192.168.1.20:4455/changes?since=7', undefined)
+    expect(result.cursor).toBe('8')
+    expect(result.changes[0].createdAt).toBeInstanceOf(Date)
+    expect((result.changes[0].record as Song).updatedAt).toBeInstanceOf(Date)
+  })
+
+  it('should post pushed changes', async () => {
+    const fetchImpl = vi.fn(() => Promise.resolve(new Response(null, { status: 204 })))
+    const transport = createHttpTransport('http://localhost:4455', fetchImpl as unknown as typeof fetch)
+    const change = remoteChange()
+
+    await transport.push([change])
+
+    expect(fetchImpl).toHaveBeenCalledWith(
+      'http://localhost:4455/changes',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ changes: [change] }) })
+    )
+  })
+
+  it('should report unreachable servers and error responses', async () => {
+    const offline = createHttpTransport('http://localhost:4455', (() =>
+      Promise.reject(new TypeError('Failed to fetch'))) as unknown as typeof fetch)
+    await expect(offline.pull(null)).rejects.toThrow('Sync server not reachable at http://localhost:4455')
+
+    const failing = createHttpTransport('http://localhost:4455', (() =>
+      Promise.resolve(new Response('', { status: 500 }))) as unknown as typeof fetch)
+    await expect(failing.push([])).rejects.toThrow('Sync server responded 500')
+  })
+
+  it('should reject changes it cannot read', async () => {
+    const transport = createHttpTransport('http://localhost:4455', (() =>
+      Promise.resolve(
+        new Response(JSON.stringify({ changes: [{ id: 1 }], cursor: '1' }), { status: 200 })
+      )) as unknown as typeof fetch)
+    await expect(transport.pull(null)).rejects.toThrow('Sync server sent changes this version cannot read')
+  })
+})
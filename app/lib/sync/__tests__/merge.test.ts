@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { mergeSongs, isCleanMerge, buildMergedSong } from '../merge'
+import type { Song } from '~/types'
+
+const base: Song = {
+  id: 'song-1',
+  title: 'Wonderwall',
+  artist: 'Oasis',
+  bpm: 87,
+  key: 'F#m',
+  timeSignature: '4/4',
+  duration: 258,
+  lyrics: '[Verse]\n[Em7]Today is gonna be the day\n[Chorus]\nAnd [C]all the roads',
+  tags: ['rock'],
+  timesPlayed: 3,
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+}
+
+const local: Song = { ...base, updatedAt: new Date('2024-02-01') }
+const remote: Song = { ...base, updatedAt: new Date('2024-03-01') }
+
+describe('mergeSongs', () => {
+  it('should combine field and lyric edits that do not overlap', () => {
+    const merge = mergeSongs(
+      base,
+      { ...local, bpm: 90, lyrics: base.lyrics.replace('gonna', 'going to'), timesPlayed: 5 },
+      { ...remote, tags: ['rock', 'britpop'], lyrics: base.lyrics.replace('[C]all', '[Cadd9]all') }
+    )
+
+    expect(isCleanMerge(merge)).toBe(true)
+    expect(merge.song).toMatchObject({
+      bpm: 90,
+      tags: ['rock', 'britpop'],
+      timesPlayed: 5,
+      lyrics: '[Verse]\n[Em7]Today is going to be the day\n[Chorus]\nAnd [Cadd9]all the roads',
+    })
+  })
+
+  it('should report clashing fields and suggest the newer side', () => {
+    const merge = mergeSongs(base, { ...local, key: 'G' }, { ...remote, key: 'A' })
+
+    expect(merge.fields).toEqual([{ field: 'key', base: 'F#m', local: 'G', remote: 'A' }])
+    expect(merge.newer).toBe('remote')
+    expect(merge.song.key).toBe('A')
+  })
+
+  it('should report clashing lyrics through the ChordPro merge', () => {
+    const merge = mergeSongs(
+      base,
+      { ...local, lyrics: base.lyrics.replace('is gonna be', 'is') },
+      { ...remote, lyrics: base.lyrics.replace('is gonna be', 'will be') }
+    )
+    expect(merge.lyrics.conflicts).toBe(1)
+    expect(isCleanMerge(merge)).toBe(false)
+  })
+
+  it('should treat every difference as a clash without a base', () => {
+    const merge = mergeSongs(null, { ...local, bpm: 90 }, remote)
+    expect(merge.fields.map((conflict) => conflict.field)).toEqual(['bpm'])
+  })
+})
+
+describe('buildMergedSong', () => {
+  const merge = mergeSongs(
+    base,
+    { ...local, key: 'G', lyrics: base.lyrics.replace('is gonna be', 'is') },
+    { ...remote, key: 'A', lyrics: base.lyrics.replace('is gonna be', 'will be') }
+  )
+
+  it('should apply the picks for fields and lyric conflicts', () => {
+    const song = buildMergedSong(merge, { key: 'local' }, ['local'])
+    expect(song.key).toBe('G')
+    expect(song.lyrics).toContain('Today is the day')
+  })
+
+  it('should fall back to the newer side', () => {
+    const song = buildMergedSong(merge)
+    expect(song.key).toBe('A')
+    expect(song.lyrics).toContain('Today will be the day')
+    expect(song.updatedAt.getTime()).toBeGreaterThan(remote.updatedAt.getTime())
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * Change Log
+ * Every local write to a song or setlist is logged with a Lamport timestamp
+ * so it can be sent to other devices and ordered against theirs.
+ */
+
+import { db } from '~/lib/db'
+import type { Song, SyncChange, SyncChangeType, SyncRecord, SyncState, SyncTable } from '~/types'
+
+export const SYNC_STATE_ID = 'sync'
+
+export function syncTable(table: SyncTable) {
+  return db.table<SyncRecord, string>(table)
+}
+
+/** The record as sent to peers: a song's transposition undo stays on this device */
+export function syncedRecord(record: SyncRecord): SyncRecord {
+  if (!('lastTransposition' in record)) return record
+  const { lastTransposition: _undo, ...synced } = record as Song
+  return synced
+}
+
+/** Order changes by Lamport timestamp, breaking ties by device */
+export function compareChanges(a: SyncChange, b: SyncChange): number {
+  if (a.clock !== b.clock) return a.clock - b.clock
+  return a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0
+}
+
+/** This device's sync state, created with a new device id on first use */
+export async function getSyncState(): Promise<SyncState> {
+  const state = await db.syncState.get(SYNC_STATE_ID)
+  if (state) return state
+
+  const created: SyncState = { id: SYNC_STATE_ID, deviceId: crypto.randomUUID(), clock: 0, cursor: null }
+  await db.syncState.put(created)
+  return created
+}
+
+/**
+ * Log a local write to `entityId`; call it after the write. Inside a
+ * transaction, that transaction must include the table, db.changes and
+ * db.syncState.
+ */
+export async function recordChange(table: SyncTable, type: SyncChangeType, entityId: string): Promise<void> {
+  await db.transaction('rw', syncTable(table), db.changes, db.syncState, async () => {
+    const record = type === 'deleted' ? undefined : await syncTable(table).get(entityId)
+    if (type !== 'deleted' && !record) return
+
+    const state = await getSyncState()
+    const clock = state.clock + 1
+    await db.syncState.put({ ...state, clock })
+    await db.changes.add({
+      id: crypto.randomUUID(),
+      table,
+      entityId,
+      type,
+      record: record && syncedRecord(record),
+      clock,
+      deviceId: state.deviceId,
+      createdAt: new Date(),
+      pending: 1,
+    })
+  })
+}
+
+/** Changes to one record, oldest first */
+export async function entityChanges(entityId: string): Promise<SyncChange[]> {
+  const changes = await db.changes.where('entityId').equals(entityId).toArray()
+  return changes.sort(compareChanges)
+}
+
+/** Local changes not sent yet, oldest first */
+export async function pendingChanges(): Promise<SyncChange[]> {
+  const changes = await db.changes.where('pending').equals(1).toArray()
+  return changes.sort(compareChanges)
+}
+
+export async function countPendingChanges(): Promise<number> {
+  return db.changes.where('pending').equals(1).count()
+}
+
+/**
+ * Forget the local changes not sent yet: the records stay as they are on
+ * this device, but peers will not receive those edits
+ */
+export async function clearPendingChanges(): Promise<void> {
+  await db.changes.where('pending').equals(1).delete()
+}
+
+/**
+ * Drop a record's sent changes except the newest, which stays as the base
+ * for detecting and merging conflicts.
+ */
+export async function compactChanges(entityId: string): Promise<void> {
+  const sent = (await entityChanges(entityId)).filter((change) => change.pending === 0)
+  if (sent.length > 1) {
+    await db.changes.bulkDelete(sent.slice(0, -1).map((change) => change.id))
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Sync Engine
+ * Exchanges change logs with a peer through a SyncTransport.
+ *
+ * Remote changes are applied when they are newer (Lamport order) than what
+ * this device has. When a record also has local changes that were not sent
+ * yet, both devices edited it independently. Songs whose edits don't overlap
+ * are merged on the spot; otherwise the local version stays, the remote one
+ * is kept in a SyncConflict, and the record's changes are held back until
+ * the user resolves it.
+ */
+
+import { db } from '~/lib/db'
+import {
+  compareChanges,
+  compactChanges,
+  entityChanges,
+  getSyncState,
+  pendingChanges,
+  recordChange,
+  syncTable,
+} from './changeLog'
+import { buildMergedSong, isCleanMerge, mergeSongs } from './merge'
+import type {
+  ConflictChoice,
+  Song,
+  SyncChange,
+  SyncConflict,
+  SyncRecord,
+  SyncResult,
+  SyncTable,
+  SyncTransport,
+} from '~/types'
+
+const syncTables = () => [db.songs, db.setlists, db.changes, db.syncState, db.syncConflicts]
+
+/**
+ * Same content, ignoring updatedAt (two devices making the same edit is no
+ * conflict) and the transposition undo, which is never synced
+ */
+export function sameContent(a: SyncRecord | null, b: SyncRecord | null): boolean {
+  if (!a || !b) return a === b
+  const left = a as unknown as Record<string, unknown>
+  const right = b as unknown as Record<string, unknown>
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)])
+  keys.delete('updatedAt')
+  keys.delete('lastTransposition')
+  return [...keys].every((key) => JSON.stringify(left[key]) === JSON.stringify(right[key]))
+}
+
+/** `record` with this device's transposition undo, while it still fits the lyrics */
+function keepLocalUndo(record: SyncRecord, local: SyncRecord | null | undefined): SyncRecord {
+  const undo = local && 'lastTransposition' in local ? local.lastTransposition : undefined
+  if (!undo || (local as Song).lyrics !== (record as Song).lyrics) return record
+  return { ...record, lastTransposition: undo }
+}
+
+async function writeRecord(change: SyncChange): Promise<void> {
+  if (change.type === 'deleted' || !change.record) {
+    await syncTable(change.table).delete(change.entityId)
+  } else {
+    const local = await syncTable(change.table).get(change.entityId)
+    await syncTable(change.table).put(keepLocalUndo(change.record, local))
+  }
+}
+
+/**
+ * Replace a record's unsent local changes with `record` (null: deleted),
+ * logged as a new local change. Call inside a transaction over syncTables().
+ */
+async function settle(table: SyncTable, entityId: string, record: SyncRecord | null): Promise<void> {
+  const superseded = (await entityChanges(entityId)).filter((change) => change.pending === 1)
+  await db.changes.bulkDelete(superseded.map((change) => change.id))
+
+  if (record) await syncTable(table).put(record)
+  else await syncTable(table).delete(entityId)
+  await recordChange(table, record ? 'updated' : 'deleted', entityId)
+}
+
+/** The merged song when both edits combine without choices, else null */
+function autoMerge(base: SyncRecord | null, local: SyncRecord | null, change: SyncChange): Song | null {
+  if (change.table !== 'songs' || !base || !local || !change.record) return null
+  const merge = mergeSongs(base as Song, local as Song, change.record as Song)
+  return isCleanMerge(merge) ? (keepLocalUndo(buildMergedSong(merge), local) as Song) : null
+}
+
+/**
+ * Apply changes pulled from the peer.
+ * Returns the number of records that went into conflict.
+ */
+export async function applyRemoteChanges(changes: SyncChange[]): Promise<number> {
+  let conflicts = 0
+
+  await db.transaction('rw', syncTables(), async () => {
+    const state = await getSyncState()
+    let clock = state.clock
+
+    for (const change of [...changes].sort(compareChanges)) {
+      // Our own changes come back from the peer; others may arrive twice
+      if (change.deviceId === state.deviceId || (await db.changes.get(change.id))) continue
+      clock = Math.max(clock, change.clock)
+
+      const history = await entityChanges(change.entityId)
+      const lastSent = history.filter((c) => c.pending === 0).at(-1)
+      const hasPending = history.some((c) => c.pending === 1)
+
+      // Older than what both sides already agreed on
+      if (lastSent && compareChanges(change, lastSent) <= 0) continue
+
+      const remote = { ...change, pending: 0 as const }
+      await db.changes.put(remote)
+      await compactChanges(change.entityId)
+
+      if (!hasPending) {
+        await writeRecord(remote)
+        continue
+      }
+
+      const local = (await syncTable(change.table).get(change.entityId)) ?? null
+      if (sameContent(local, change.record ?? null)) continue
+
+      const open = await db.syncConflicts.get(change.entityId)
+      const base = open ? open.base : (lastSent?.record ?? null)
+      const merged = open ? null : autoMerge(base, local, change)
+      if (merged) {
+        // The merge is logged after the remote change, so it wins on the other device
+        await db.syncState.put({ ...(await getSyncState()), clock })
+        await settle(change.table, change.entityId, merged)
+        continue
+      }
+
+      await db.syncConflicts.put({
+        id: change.entityId,
+        table: change.table,
+        base,
+        local,
+        remote,
+        detectedAt: open?.detectedAt ?? new Date(),
+      })
+      if (!open) conflicts++
+    }
+
+    const latest = await getSyncState()
+    await db.syncState.put({ ...latest, clock: Math.max(latest.clock, clock) })
+  })
+
+  return conflicts
+}
+
+/**
+ * Pull the peer's changes, then push ours. Pulling first lets conflicts be
+ * found before local edits go out; records in conflict are not pushed.
+ */
+export async function syncWith(transport: SyncTransport): Promise<SyncResult> {
+  const { cursor } = await getSyncState()
+  const pulled = await transport.pull(cursor)
+  const conflicts = await applyRemoteChanges(pulled.changes)
+
+  // Saved after applying, so an interrupted sync pulls the same changes again
+  const state = await getSyncState()
+  await db.syncState.put({ ...state, cursor: pulled.cursor })
+
+  const held = new Set(await db.syncConflicts.toCollection().primaryKeys())
+  const outgoing = (await pendingChanges()).filter((change) => !held.has(change.entityId))
+  if (outgoing.length > 0) {
+    const sent = outgoing.map((change) => ({ ...change, pending: 0 as const }))
+    await transport.push(sent)
+    await db.transaction('rw', db.changes, async () => {
+      await db.changes.bulkPut(sent)
+      for (const entityId of new Set(sent.map((change) => change.entityId))) {
+        await compactChanges(entityId)
+      }
+    })
+  }
+
+  return { pushed: outgoing.length, pulled: pulled.changes.length, conflicts, syncedAt: new Date() }
+}
+
+/**
+ * Settle a conflict with `record` (null: the record is deleted). The outcome
+ * is logged as a new local change: its clock is past the remote change, so
+ * it wins on every device once sent.
+ */
+export async function settleConflict(conflictId: string, record: SyncRecord | null): Promise<void> {
+  await db.transaction('rw', syncTables(), async () => {
+    const conflict = await db.syncConflicts.get(conflictId)
+    if (!conflict) {
+      throw new Error('Conflict not found')
+    }
+
+    // The local edits made before the conflict are superseded by the outcome
+    await settle(conflict.table, conflictId, record)
+    await db.syncConflicts.delete(conflictId)
+  })
+}
+
+/**
+ * Resolve a conflict by keeping this device's current version or taking
+ * the other device's.
+ */
+export async function resolveConflict(conflictId: string, choice: ConflictChoice): Promise<void> {
+  const conflict = await db.syncConflicts.get(conflictId)
+  if (!conflict) {
+    throw new Error('Conflict not found')
+  }
+
+  if (choice === 'local') {
+    const current = (await syncTable(conflict.table).get(conflictId)) ?? null
+    await settleConflict(conflictId, current)
+    return
+  }
+
+  await db.transaction('rw', syncTables(), async () => {
+    const superseded = (await entityChanges(conflictId)).filter((change) => change.pending === 1)
+    await db.changes.bulkDelete(superseded.map((change) => change.id))
+    await writeRecord(conflict.remote)
+    await db.syncConflicts.delete(conflictId)
+  })
+}
+
+export async function getConflict(conflictId: string): Promise<SyncConflict | null> {
+  return (await db.syncConflicts.get(conflictId)) ?? null
+}
+
+export async function listConflicts(): Promise<SyncConflict[]> {
+  const conflicts = await db.syncConflicts.toArray()
+  return conflicts.sort((a, b) => new Date(a.detectedAt).getTime() - new Date(b.detectedAt).getTime())
+}
@@ -0,0 +1,24 @@
+/**
+ * Sync Module
+ * Change log, sync engine and transports for sharing the library between devices
+ */
+
+export {
+  SYNC_STATE_ID,
+  recordChange,
+  getSyncState,
+  pendingChanges,
+  countPendingChanges,
+  clearPendingChanges,
+  compareChanges,
+} from './changeLog'
+export {
+  syncWith,
+  applyRemoteChanges,
+  resolveConflict,
+  settleConflict,
+  getConflict,
+  listConflicts,
+} from './engine'
+export { MERGED_SONG_FIELDS, mergeSongs, isCleanMerge, buildMergedSong } from './merge'
+export { createHttpTransport, createMemoryTransport } from './transports'
@@ -0,0 +1,82 @@
+/**
+ * Song Merge
+ * Three-way merge of a song edited on two devices: metadata field by field,
+ * lyrics through the ChordPro merge. Where both sides clash, the side with
+ * the newer updatedAt is the suggested pick.
+ */
+
+import { mergeChordPro, mergeValue, resolveChordProMerge } from '~/lib/chordpro'
+import type { MergeChoice } from '~/lib/chordpro'
+import type { ConflictChoice, MergedSongField, Song, SongFieldChoices, SongMerge } from '~/types'
+
+export const MERGED_SONG_FIELDS: MergedSongField[] = [
+  'title',
+  'artist',
+  'bpm',
+  'key',
+  'timeSignature',
+  'duration',
+  'tags',
+  'notes',
+  'capo',
+  'accidentals',
+  'performanceKey',
+  'timingOverrides',
+  'timingMap',
+  'arrangements',
+]
+
+const latest = (a?: Date, b?: Date) => {
+  if (!a || !b) return a ?? b
+  return new Date(a).getTime() >= new Date(b).getTime() ? a : b
+}
+
+/** Merge `local` and `remote`, two edits of `base` (null when unknown: everything that differs clashes) */
+export function mergeSongs(base: Song | null, local: Song, remote: Song): SongMerge {
+  const newer: ConflictChoice =
+    new Date(remote.updatedAt).getTime() > new Date(local.updatedAt).getTime() ? 'remote' : 'local'
+  const song: Song = {
+    ...(newer === 'local' ? local : remote),
+    timesPlayed: Math.max(local.timesPlayed, remote.timesPlayed),
+    lastPlayed: latest(local.lastPlayed, remote.lastPlayed),
+  }
+
+  const fields: SongMerge['fields'] = []
+  for (const field of MERGED_SONG_FIELDS) {
+    const merged = mergeValue(base?.[field], local[field], remote[field])
+    if (merged) Object.assign(song, { [field]: merged.value })
+    else fields.push({ field, base: base?.[field], local: local[field], remote: remote[field] })
+  }
+
+  const lyrics = mergeChordPro(base?.lyrics ?? '', local.lyrics, remote.lyrics)
+  song.lyrics = resolveChordProMerge(lyrics, new Array<MergeChoice>(lyrics.conflicts).fill(newer))
+
+  return { song, fields, lyrics, newer, local, remote }
+}
+
+/** Whether the merge needs no choices from the user */
+export function isCleanMerge(merge: SongMerge): boolean {
+  return merge.fields.length === 0 && merge.lyrics.conflicts === 0
+}
+
+/**
+ * The merged song with the user's picks applied (lyric picks in conflict
+ * order). Anything without a pick takes the newer side.
+ */
+export function buildMergedSong(
+  merge: SongMerge,
+  fieldChoices: SongFieldChoices = {},
+  lyricChoices: MergeChoice[] = []
+): Song {
+  const song: Song = { ...merge.song, updatedAt: new Date() }
+  for (const conflict of merge.fields) {
+    const choice = fieldChoices[conflict.field] ?? merge.newer
+    Object.assign(song, { [conflict.field]: choice === 'local' ? conflict.local : conflict.remote })
+  }
+  const choices = Array.from({ length: merge.lyrics.conflicts }, (_, i) => lyricChoices[i] ?? merge.newer)
+  song.lyrics = resolveChordProMerge(merge.lyrics, choices)
+  // The saved transposition undo only fits the lyrics it was made on
+  const source = merge.newer === 'local' ? merge.local : merge.remote
+  if (song.lyrics !== source.lyrics) song.lastTransposition = undefined
+  return song
+}
@@ -0,0 +1,68 @@
+/**
+ * Sync Transports
+ * - HTTP: talks to a relay on the local network (scripts/sync-server.mjs)
+ * - Memory: an in-process peer, for tests and as the minimal example
+ */
+
+import { pullResultSchema } from '~/lib/schemas'
+import type { PullResult, SyncChange, SyncTransport } from '~/types'
+
+/**
+ * Transport for the reference sync server:
+ *   GET  {baseUrl}/changes?since=<cursor>  → { changes, cursor }
+ *   POST {baseUrl}/changes  { changes }    → 204
+ */
+export function createHttpTransport(baseUrl: string, fetchImpl: typeof fetch = fetch): SyncTransport {
+  const endpoint = `${baseUrl.trim().replace(/\/+$/, '')}/changes`
+
+  const request = async (url: string, init?: RequestInit) => {
+    let response: Response
+    try {
+      response = await fetchImpl(url, init)
+    } catch {
+      throw new Error(`Sync server not reachable at ${baseUrl}`)
+    }
+    if (!response.ok) {
+      throw new Error(`Sync server responded ${response.status}`)
+    }
+    return response
+  }
+
+  return {
+    async push(changes: SyncChange[]) {
+      await request(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changes }),
+      })
+    },
+
+    async pull(cursor: string | null): Promise<PullResult> {
+      const url = cursor === null ? endpoint : `${endpoint}?since=${encodeURIComponent(cursor)}`
+      const body = await (await request(url)).json()
+      const result = pullResultSchema.safeParse(body)
+      if (!result.success) {
+        throw new Error('Sync server sent changes this version cannot read')
+      }
+      return result.data as PullResult
+    },
+  }
+}
+
+/**
+ * A peer kept in memory. Transports created over the same `log` behave like
+ * devices sharing one relay.
+ */
+export function createMemoryTransport(log: SyncChange[] = []): SyncTransport {
+  return {
+    async push(changes: SyncChange[]) {
+      const known = new Set(log.map((change) => change.id))
+      log.push(...changes.filter((change) => !known.has(change.id)))
+    },
+
+    async pull(cursor: string | null): Promise<PullResult> {
+      const start = cursor === null ? 0 : Number(cursor)
+      return { changes: log.slice(start), cursor: String(log.length) }
+    },
+  }
+}
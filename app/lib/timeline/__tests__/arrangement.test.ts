@@ -0,0 +1,126 @@
+/**
+ * Tests for song arrangements
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseChordPro } from '~/lib/chordpro'
+import { createSongTimeline } from '../calculator'
+import { applyTimingOverrides } from '../overrides'
+import { arrangeSong, arrangementSections } from '../arrangement'
+
+const OPTIONS = {
+  defaultBarsPerLine: 2,
+  defaultBeatsPerChord: 4,
+  intelligentEstimation: false
+}
+
+const LYRICS = `[Intro | 2 bars]
+| G | D |
+
+[Verse 1]
+[G]First verse
+
+[Chorus]
+[C]Hold on
+
+[Verse 2]
+[G]Second verse
+
+{chorus}`
+
+const SONG = { lyrics: LYRICS, bpm: 120, timeSignature: '4/4' }
+
+describe('arrangementSections', () => {
+  it('should list the sections on the sheet once each, recalls left out', () => {
+    expect(arrangementSections(parseChordPro(LYRICS).lines)).toEqual(['Intro', 'Verse 1', 'Chorus', 'Verse 2'])
+  })
+})
+
+describe('arrangeSong', () => {
+  it('should lay the sections out in the arrangement order', () => {
+    const { lyrics } = arrangeSong(SONG, ['Verse 1', 'Chorus', 'Chorus', 'Intro'])
+
+    expect(lyrics).toBe(`[Verse 1]
+[G]First verse
+
+[Chorus]
+[C]Hold on
+
+[Chorus]
+[C]Hold on
+
+[Intro | 2 bars]
+G | D |`)
+  })
+
+  it('should skip sections no longer on the sheet', () => {
+    expect(arrangeSong(SONG, ['Bridge', 'Chorus']).lyrics).toBe('[Chorus]\n[C]Hold on\n')
+  })
+
+  it('should leave jump markers out', () => {
+    const song = { ...SONG, lyrics: '[Verse]\n[G]Go\n{segno}\n[Chorus]\n[C]Hold on\n{ds: al Fine}' }
+    expect(arrangeSong(song, ['Chorus', 'Verse']).lyrics).toBe('[Chorus]\n[C]Hold on\n\n[Verse]\n[G]Go')
+  })
+
+  it('should keep each section in the tempo written for it', () => {
+    const song = {
+      ...SONG,
+      lyrics: '[Verse]\n[G]Slow\n{tempo: 90}\n{time: 3/4}\n[Bridge]\n[C]Waltz'
+    }
+    const arranged = arrangeSong(song, ['Bridge', 'Verse'])
+
+    expect(arranged).toMatchObject({
+      lyrics: '[Bridge]\n[C]Waltz\n\n{tempo: 120}\n{time: 4/4}\n[Verse]\n[G]Slow',
+      bpm: 90,
+      timeSignature: '3/4'
+    })
+
+    const timeline = createSongTimeline(arranged.lyrics, arranged.bpm, arranged.timeSignature, OPTIONS)
+    expect(timeline.tempoMap.map(({ bpm, beatsPerBar }) => ({ bpm, beatsPerBar }))).toEqual([
+      { bpm: 90, beatsPerBar: 3 },
+      { bpm: 120, beatsPerBar: 4 }
+    ])
+  })
+
+  it('should play the timeline in the arrangement order', () => {
+    const arranged = arrangeSong(SONG, ['Chorus', 'Verse 2', 'Chorus'])
+    const timeline = createSongTimeline(arranged.lyrics, arranged.bpm, arranged.timeSignature, OPTIONS)
+
+    expect(timeline.elements.filter((element) => element.type === 'lyric').map((element) => element.content.raw)).toEqual([
+      '[C]Hold on',
+      '[G]Second verse',
+      '[C]Hold on'
+    ])
+  })
+
+  it('should map each arranged line to the written line it copies', () => {
+    const arranged = arrangeSong({ ...SONG, lyrics: '[Verse]\n[G]Go\n[Chorus]\n[C]Hold on' }, ['Chorus', 'Verse', 'Chorus'])
+    const { lines } = parseChordPro(arranged.lyrics)
+
+    expect(arranged.sourceLines).toEqual([2, 3, undefined, 0, 1, undefined, 2, 3])
+    expect(lines).toHaveLength(arranged.sourceLines.length)
+  })
+
+  describe('timing', () => {
+    const WRITTEN = { ...SONG, lyrics: '[Verse]\n[G]Go\n\n[Chorus]\n[C]Hold on' }
+    const arranged = arrangeSong(WRITTEN, ['Verse', 'Chorus', 'Chorus'])
+    const options = { ...OPTIONS, lineTimingKeys: arranged.timingKeys }
+    const lyricBeats = (timeline: ReturnType<typeof createSongTimeline>) =>
+      timeline.elements.filter((element) => element.type === 'lyric').map((element) => element.durationBeats)
+
+    it('should apply recorded timing to every pass through a section', () => {
+      const timeline = createSongTimeline(arranged.lyrics, arranged.bpm, arranged.timeSignature, {
+        ...options,
+        timingMap: { '[C]Hold on#0': 6 }
+      })
+
+      expect(lyricBeats(timeline)).toEqual([8, 6, 6])
+    })
+
+    it('should apply a section override to every pass through it', () => {
+      const timeline = createSongTimeline(arranged.lyrics, arranged.bpm, arranged.timeSignature, options)
+
+      expect(lyricBeats(applyTimingOverrides(timeline, { '[Chorus]#0': 16 }))).toEqual([8, 16, 16])
+    })
+  })
+})
@@ -10,7 +10,8 @@ import {
 import type { 
   LyricParsedLine,
   InstrumentalLine,
-  ChordsOnlyLine
+  ChordsOnlyLine,
+  TabLine
 } from '~/lib/chordpro'
 
 describe('calculateElementDuration', () => {
@@ -58,6 +59,60 @@ describe('calculateElementDuration', () => {
     expect(duration).toBe(16)
   })
 
+  it('should play a chords-only line as many times as its repeat marker', () => {
+    const chordsOnly: ChordsOnlyLine = {
+      type: 'chords-only',
+      raw: 'C | G | x2',
+      chordBars: [{ chord: 'C' }, { chord: 'G' }],
+      repeatCount: 2
+    }
+
+    const duration = calculateElementDuration(chordsOnly, {
+      defaultBarsPerLine: 2,
+      defaultBeatsPerChord: 4,
+      intelligentEstimation: false
+    }, '4/4')
+
+    // 2 bars * 4 beats, played twice
+    expect(duration).toBe(16)
+  })
+
+  it('should use the explicit bar count of a tab block', () => {
+    const tab: TabLine = {
+      type: 'tab',
+      raw: '{start_of_tab: Riff | 3 bars}\ne|--0--|\n{end_of_tab}',
+      label: 'Riff',
+      bars: 3,
+      lines: ['e|--0--|']
+    }
+
+    const duration = calculateElementDuration(tab, {
+      defaultBarsPerLine: 2,
+      defaultBeatsPerChord: 4,
+      intelligentEstimation: false
+    }, '3/4')
+
+    // 3 bars * 3 beats = 9 beats
+    expect(duration).toBe(9)
+  })
+
+  it('should treat a tab block without bar count as one line', () => {
+    const tab: TabLine = {
+      type: 'tab',
+      raw: '{start_of_tab}\ne|--0--|\n{end_of_tab}',
+      lines: ['e|--0--|']
+    }
+
+    const duration = calculateElementDuration(tab, {
+      defaultBarsPerLine: 2,
+      defaultBeatsPerChord: 4,
+      intelligentEstimation: false
+    }, '4/4')
+
+    // Default 2 bars * 4 beats = 8 beats
+    expect(duration).toBe(8)
+  })
+
   it('should use default bars for simple lyric line', () => {
     const lyric: LyricParsedLine = {
       type: 'lyric',
@@ -222,4 +277,91 @@ First line`
     const lyricElement = timeline.elements.find(e => e.type === 'lyric')
     expect(lyricElement?.durationBeats).toBe(8)
   })
+
+  it('should prefer recorded durations from the timing map over estimation', () => {
+    const lyrics = `[Verse]\n[Am]Hello [G]world\n[C]Goodbye`
+
+    const timeline = createSongTimeline(lyrics, 120, '4/4', {
+      defaultBarsPerLine: 2,
+      defaultBeatsPerChord: 4,
+      intelligentEstimation: false,
+      timingMap: { '[Am]Hello [G]world#0': 6 }
+    })
+
+    const [hello, goodbye] = timeline.elements.filter(e => e.type === 'lyric')
+    expect(hello.durationBeats).toBe(6)
+    expect(hello.bars).toBe(1.5)
+    expect(goodbye.startBeat).toBe(6)
+    expect(goodbye.durationBeats).toBe(8)
+    expect(timeline.totalBeats).toBe(14)
+  })
+
+  it('should follow tempo and meter changes in the body', () => {
+    const lyrics = `[Verse]\n[G]One\n{time: 6/8}\n[Bridge]\n[Em]Two\n{tempo: 60}\n[C]Three`
+
+    const timeline = createSongTimeline(lyrics, 120, '4/4', {
+      defaultBarsPerLine: 2,
+      defaultBeatsPerChord: 4,
+      intelligentEstimation: false
+    })
+
+    const [one, two, three] = timeline.elements.filter(e => e.type === 'lyric')
+    expect(one).toMatchObject({ startBeat: 0, durationBeats: 8, bars: 2, bpm: 120, beatsPerBar: 4 })
+    expect(two).toMatchObject({ startBeat: 8, durationBeats: 12, bars: 2, bpm: 120, beatsPerBar: 6 })
+    expect(three).toMatchObject({ startBeat: 20, durationBeats: 12, bars: 2, bpm: 60, beatsPerBar: 6 })
+
+    expect(timeline.tempoMap).toEqual([
+      { beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 },
+      { beat: 8, bar: 2, bpm: 120, beatsPerBar: 6 },
+      { beat: 20, bar: 4, bpm: 60, beatsPerBar: 6 }
+    ])
+    expect(timeline.totalBars).toBe(6)
+    // 20 beats at 120 BPM + 12 beats at 60 BPM
+    expect(timeline.totalDurationSeconds).toBe(22)
+    // Starting values stay those of the song
+    expect(timeline.bpm).toBe(120)
+    expect(timeline.beatsPerBar).toBe(4)
+  })
+
+  it('should lay out repeats in playback order', () => {
+    const lyrics = `[Chorus x2]\n[C]Hold on\n[Verse]\n[G]Go\n{chorus}`
+
+    const timeline = createSongTimeline(lyrics, 120, '4/4', {
+      defaultBarsPerLine: 2,
+      defaultBeatsPerChord: 4,
+      intelligentEstimation: false
+    })
+
+    const lyricPasses = timeline.elements.filter(e => e.type === 'lyric')
+    // Every pass through the chorus line goes back to the same line on the sheet
+    // The recall plays the chorus as written, twice
+    expect(lyricPasses.map(e => e.id)).toEqual(['element-1', 'element-1', 'element-3', 'element-1', 'element-1'])
+    expect(lyricPasses.map(e => e.startBeat)).toEqual([0, 8, 16, 24, 32])
+    expect(timeline.totalBeats).toBe(40)
+  })
+
+  it('should play a jump back in the tempo written there', () => {
+    const lyrics = `{segno}\n[G]Verse\n{to_coda}\n{tempo: 60}\n[D]Bridge\n{ds: al Coda}\n{coda}\n[C]End`
+
+    const timeline = createSongTimeline(lyrics, 120, '4/4', {
+      defaultBarsPerLine: 2,
+      defaultBeatsPerChord: 4,
+      intelligentEstimation: false
+    })
+
+    const passes = timeline.elements.filter(e => e.type === 'lyric')
+    expect(passes.map(e => (e.content as LyricParsedLine).text)).toEqual(['Verse', 'Bridge', 'Verse', 'End'])
+    expect(passes.map(e => e.bpm)).toEqual([120, 60, 120, 60])
+  })
+
+  it('should share one recorded duration across passes', () => {
+    const timeline = createSongTimeline(`[Chorus x2]\n[C]Hold on`, 120, '4/4', {
+      defaultBarsPerLine: 2,
+      defaultBeatsPerChord: 4,
+      intelligentEstimation: false,
+      timingMap: { '[C]Hold on#0': 6 }
+    })
+
+    expect(timeline.elements.filter(e => e.type === 'lyric').map(e => e.durationBeats)).toEqual([6, 6])
+  })
 })
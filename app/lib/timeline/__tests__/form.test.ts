@@ -0,0 +1,85 @@
+/**
+ * Tests for the song form (playback order)
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseChordPro } from '~/lib/chordpro'
+import { jumpMarkerLabel, playbackOrder } from '../form'
+
+/** Raw text of each line in playback order */
+function played(text: string): string[] {
+  const { lines } = parseChordPro(text)
+  return playbackOrder(lines).map((index) => lines[index].raw)
+}
+
+describe('playbackOrder', () => {
+  it('should keep a song without repeats or jumps in written order', () => {
+    expect(played('[Verse]\n[G]One\n[Chorus]\n[C]Two')).toEqual(['[Verse]', '[G]One', '[Chorus]', '[C]Two'])
+  })
+
+  it('should play a [Chorus x2] section twice', () => {
+    expect(played('[Chorus x2]\n[C]Hold on\n[Verse]\n[G]Go')).toEqual([
+      '[Chorus x2]', '[C]Hold on',
+      '[Chorus x2]', '[C]Hold on',
+      '[Verse]', '[G]Go'
+    ])
+  })
+
+  it('should play the chorus again at a {chorus} recall', () => {
+    expect(played('[Chorus]\n[C]Hold on\n[Verse]\n[G]Go\n{chorus}')).toEqual([
+      '[Chorus]', '[C]Hold on',
+      '[Verse]', '[G]Go',
+      '{chorus}', '[Chorus]', '[C]Hold on'
+    ])
+  })
+
+  it('should recall the chorus with the same label', () => {
+    const text = '[Chorus 1]\n[C]First\n[Chorus 2]\n[F]Second\n{chorus: Chorus 1}'
+    expect(played(text).slice(-3)).toEqual(['{chorus: Chorus 1}', '[Chorus 1]', '[C]First'])
+  })
+
+  it('should end a recalled environment at its end marker', () => {
+    const text = '{start_of_chorus}\n[C]Hold on\n{end_of_chorus}\n[G]Go\n{chorus}'
+    expect(played(text).slice(-4)).toEqual(['{chorus}', '{start_of_chorus}', '[C]Hold on', '{end_of_chorus}'])
+  })
+
+  it('should follow D.S. al Coda', () => {
+    const text = [
+      '[Intro]', '[G]Intro',
+      '{segno}',
+      '[Verse]', '[G]Verse',
+      '{to_coda}',
+      '[Bridge]', '[D]Bridge',
+      '{ds: al Coda}',
+      '[Coda]', '[C]End'
+    ].join('\n')
+
+    expect(played(text)).toEqual([
+      '[Intro]', '[G]Intro',
+      '{segno}', '[Verse]', '[G]Verse', '{to_coda}', '[Bridge]', '[D]Bridge', '{ds: al Coda}',
+      '{segno}', '[Verse]', '[G]Verse', '{to_coda}',
+      '[Coda]', '[C]End'
+    ])
+  })
+
+  it('should follow D.C. al Fine', () => {
+    const text = '[G]One\n{fine}\n[C]Two\n{dc: al Fine}'
+    expect(played(text)).toEqual(['[G]One', '{fine}', '[C]Two', '{dc: al Fine}', '[G]One', '{fine}'])
+  })
+
+  it('should play on past a D.S. without a sign', () => {
+    expect(played('[G]One\n{ds}\n[C]Two')).toEqual(['[G]One', '{ds}', '[C]Two'])
+  })
+
+  it('should take the jump only once', () => {
+    expect(played('[G]One\n{dc}\n[C]Two')).toEqual(['[G]One', '{dc}', '[G]One', '{dc}', '[C]Two'])
+  })
+})
+
+describe('jumpMarkerLabel', () => {
+  it('should read like the sheet marking', () => {
+    expect(jumpMarkerLabel('ds', 'al Coda')).toBe('D.S. al Coda')
+    expect(jumpMarkerLabel('dc')).toBe('D.C.')
+    expect(jumpMarkerLabel('to_coda')).toBe('To Coda 𝄌')
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Tests for timing overrides
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createSongTimeline } from '../calculator'
+import { applyTimingOverrides, sectionElements, timingKeys } from '../overrides'
+
+const OPTIONS = {
+  defaultBarsPerLine: 2,
+  defaultBeatsPerChord: 4,
+  intelligentEstimation: false
+}
+
+const LYRICS = `[Intro | 2 bars]
+
+[Verse]
+[Am]Hello [G]world
+[C]This is a [F]test
+
+[Chorus]
+[C]Hold on
+[Chorus]
+[C]Hold on`
+
+const timeline = createSongTimeline(LYRICS, 120, '4/4', OPTIONS)
+
+describe('timingKeys', () => {
+  it('should key elements by their text and occurrence', () => {
+    const keys = timingKeys(timeline.elements)
+
+    expect(keys).toContain('[Verse]#0')
+    expect(keys).toContain('[Am]Hello [G]world#0')
+    expect(keys.filter((key) => key.startsWith('[C]Hold on'))).toEqual(['[C]Hold on#0', '[C]Hold on#1'])
+  })
+
+  it('should give every pass through a repeated line the same key', () => {
+    const repeated = createSongTimeline('[Chorus]\n[C]Hold on\n{chorus}\n{chorus}', 120, '4/4', OPTIONS)
+    const keys = timingKeys(repeated.elements)
+
+    expect(keys.filter((key) => key.startsWith('[C]Hold on'))).toEqual(['[C]Hold on#0', '[C]Hold on#0', '[C]Hold on#0'])
+  })
+
+  it('should keep keys stable when other lines change', () => {
+    const edited = createSongTimeline(`[Em]New first line\n${LYRICS}`, 120, '4/4', OPTIONS)
+
+    expect(timingKeys(edited.elements)).toEqual(expect.arrayContaining(timingKeys(timeline.elements)))
+  })
+})
+
+describe('sectionElements', () => {
+  it('should stop at the next section header', () => {
+    const verse = timeline.elements.findIndex((element) => element.type === 'section')
+    const members = sectionElements(timeline.elements, verse)
+
+    expect(members.filter((member) => member.type === 'lyric')).toHaveLength(2)
+    expect(members.some((member) => member.type === 'section')).toBe(false)
+  })
+})
+
+describe('applyTimingOverrides', () => {
+  it('should return the timeline unchanged without overrides', () => {
+    expect(applyTimingOverrides(timeline, undefined)).toBe(timeline)
+    expect(applyTimingOverrides(timeline, {})).toBe(timeline)
+  })
+
+  it('should set a line duration and shift everything after it', () => {
+    const result = applyTimingOverrides(timeline, { '[Am]Hello [G]world#0': 16 })
+    const keys = timingKeys(result.elements)
+    const line = result.elements[keys.indexOf('[Am]Hello [G]world#0')]
+    const next = result.elements[keys.indexOf('[C]This is a [F]test#0')]
+
+    expect(line.durationBeats).toBe(16)
+    expect(line.bars).toBe(4)
+    expect(next.startBeat).toBe(line.endBeat)
+    expect(result.totalBeats).toBe(timeline.totalBeats + 8)
+    expect(result.totalBars).toBe(result.totalBeats / 4)
+    expect(result.totalDurationSeconds).toBe(result.totalBeats / 2)
+  })
+
+  it('should override only the matching occurrence of a repeated line', () => {
+    const result = applyTimingOverrides(timeline, { '[C]Hold on#1': 4 })
+    const lines = result.elements.filter(
+      (element) => element.content.type === 'lyric' && element.content.text === 'Hold on'
+    )
+
+    expect(lines.map((line) => line.durationBeats)).toEqual([8, 4])
+  })
+
+  it('should scale the lines of a section to its total', () => {
+    const result = applyTimingOverrides(timeline, { '[Verse]#0': 32 })
+    const keys = timingKeys(result.elements)
+    const members = sectionElements(result.elements, keys.indexOf('[Verse]#0'))
+
+    expect(members.reduce((sum, member) => sum + member.durationBeats, 0)).toBe(32)
+    expect(members.filter((member) => member.type === 'lyric').map((member) => member.durationBeats)).toEqual([16, 16])
+  })
+
+  it('should keep line overrides in proportion within a section total', () => {
+    const result = applyTimingOverrides(timeline, { '[Verse]#0': 24, '[Am]Hello [G]world#0': 16 })
+    const lyrics = result.elements.filter((element) => element.type === 'lyric').slice(0, 2)
+
+    expect(lyrics.map((line) => line.durationBeats)).toEqual([16, 8])
+  })
+
+  it('should ignore keys that no longer match an element', () => {
+    const result = applyTimingOverrides(timeline, { '[D]Removed line#0': 40 })
+
+    expect(result.totalBeats).toBe(timeline.totalBeats)
+  })
+})
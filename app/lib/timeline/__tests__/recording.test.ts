@@ -0,0 +1,76 @@
+/**
+ * Tests for timing recording
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createSongTimeline } from '../calculator'
+import { mergeRecordedTiming, recordableElements, timingMapFromTaps } from '../recording'
+
+const OPTIONS = {
+  defaultBarsPerLine: 2,
+  defaultBeatsPerChord: 4,
+  intelligentEstimation: false
+}
+
+const LYRICS = `[Verse]
+[Am]Hello [G]world
+[C]This is a [F]test
+
+[Chorus]
+[C]Hold on`
+
+const { elements } = createSongTimeline(LYRICS, 120, '4/4', OPTIONS)
+
+describe('recordableElements', () => {
+  it('should skip section headers and empty lines', () => {
+    expect(recordableElements(elements).map((element) => element.type)).toEqual(['lyric', 'lyric', 'lyric'])
+  })
+})
+
+describe('timingMapFromTaps', () => {
+  it('should turn the beats between taps into durations', () => {
+    expect(timingMapFromTaps(elements, [4, 16, 22, 30])).toEqual({
+      '[Am]Hello [G]world#0': 12,
+      '[C]This is a [F]test#0': 6,
+      '[C]Hold on#0': 8
+    })
+  })
+
+  it('should keep the first pass of a repeated line', () => {
+    const repeated = createSongTimeline('[Chorus x2]\n[C]Hold on', 120, '4/4', OPTIONS)
+    expect(timingMapFromTaps(repeated.elements, [0, 6, 14])).toEqual({ '[C]Hold on#0': 6 })
+  })
+
+  it('should leave untapped elements out', () => {
+    expect(timingMapFromTaps(elements, [0, 10])).toEqual({ '[Am]Hello [G]world#0': 10 })
+    expect(timingMapFromTaps(elements, [0])).toEqual({})
+  })
+})
+
+describe('mergeRecordedTiming', () => {
+  it('should add recorded durations to the stored map', () => {
+    const result = mergeRecordedTiming(
+      elements,
+      { timingMap: { '[C]Hold on#0': 4 } },
+      { '[Am]Hello [G]world#0': 12 }
+    )
+
+    expect(result.timingMap).toEqual({ '[C]Hold on#0': 4, '[Am]Hello [G]world#0': 12 })
+  })
+
+  it('should drop the overrides a recording replaces', () => {
+    const result = mergeRecordedTiming(
+      elements,
+      {
+        timingOverrides: {
+          '[Am]Hello [G]world#0': 16,
+          '[Verse]#0': 32,
+          '[Chorus]#0': 12
+        }
+      },
+      { '[Am]Hello [G]world#0': 12 }
+    )
+
+    expect(result.timingOverrides).toEqual({ '[Chorus]#0': 12 })
+  })
+})
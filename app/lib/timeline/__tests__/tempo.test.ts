@@ -0,0 +1,77 @@
+/**
+ * Tests for the tempo map
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createSongTimeline } from '../calculator'
+import { barPosition, buildTempoMap, secondsAtBeat, tempoAt, withTimelineTotals } from '../tempo'
+import type { TempoChange } from '~/types/timeline'
+
+const OPTIONS = {
+  defaultBarsPerLine: 2,
+  defaultBeatsPerChord: 4,
+  intelligentEstimation: false
+}
+
+// 4/4 at 120 for 4 bars, then 3/4 at 90
+const MAP: TempoChange[] = [
+  { beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 },
+  { beat: 16, bar: 4, bpm: 90, beatsPerBar: 3 }
+]
+
+describe('buildTempoMap', () => {
+  it('should hold a single entry when nothing changes', () => {
+    const { elements } = createSongTimeline('[G]One\n[C]Two', 100, '3/4', OPTIONS)
+    expect(buildTempoMap(elements, 100, 3)).toEqual([{ beat: 0, bar: 0, bpm: 100, beatsPerBar: 3 }])
+  })
+
+  it('should keep one entry when tempo and meter change on the same beat', () => {
+    const { tempoMap } = createSongTimeline('[G]One\n{tempo: 90}\n{time: 3/4}\n[C]Two', 120, '4/4', OPTIONS)
+    expect(tempoMap).toEqual([
+      { beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 },
+      { beat: 8, bar: 2, bpm: 90, beatsPerBar: 3 }
+    ])
+  })
+})
+
+describe('tempoAt', () => {
+  it('should return the change in effect at a beat', () => {
+    expect(tempoAt(MAP, 15.5).bpm).toBe(120)
+    expect(tempoAt(MAP, 16).bpm).toBe(90)
+    expect(tempoAt(MAP, 100).beatsPerBar).toBe(3)
+  })
+})
+
+describe('barPosition', () => {
+  it('should count bars in the meter in effect', () => {
+    expect(barPosition(MAP, 6)).toEqual({ bar: 1, beatInBar: 2 })
+    expect(barPosition(MAP, 16)).toEqual({ bar: 4, beatInBar: 0 })
+    expect(barPosition(MAP, 20)).toEqual({ bar: 5, beatInBar: 1 })
+  })
+})
+
+describe('secondsAtBeat', () => {
+  it('should sum each stretch at its own tempo', () => {
+    expect(secondsAtBeat(MAP, 8)).toBe(4)
+    expect(secondsAtBeat(MAP, 16)).toBe(8)
+    // 16 beats at 120 BPM + 6 beats at 90 BPM
+    expect(secondsAtBeat(MAP, 22)).toBe(12)
+  })
+})
+
+describe('withTimelineTotals', () => {
+  it('should recompute totals after durations change', () => {
+    const timeline = createSongTimeline('[G]One\n{tempo: 60}\n[C]Two', 120, '4/4', OPTIONS)
+    const [one, two] = timeline.elements
+    const updated = withTimelineTotals(timeline, [
+      { ...one, durationBeats: 4, endBeat: 4, bars: 1 },
+      { ...two, startBeat: 4, endBeat: 12 }
+    ])
+
+    expect(updated.tempoMap[1].beat).toBe(4)
+    expect(updated.totalBeats).toBe(12)
+    expect(updated.totalBars).toBe(3)
+    // 4 beats at 120 BPM + 8 beats at 60 BPM
+    expect(updated.totalDurationSeconds).toBe(10)
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * Song Arrangements
+ *
+ * An arrangement lists a song's sections in the order they are played
+ * (Intro, V1, C, V2, C, Solo, C, C, Outro) without copying their text. The
+ * player lays the sheet out in that order, so the chart, the timeline and
+ * the autoscroll all follow it.
+ */
+
+import { parseChordPro } from '~/lib/chordpro'
+import { serializeChordPro } from '~/lib/chordpro/serializer'
+import type { AnyParsedLine, DirectiveLine } from '~/lib/chordpro'
+import { createSongTimeline } from './calculator'
+import { jumpMarker, sectionEnd } from './form'
+import { timingKeys } from './overrides'
+import { sheetTempos } from './tempo'
+
+/** A song sheet as the player reads it */
+export interface SongSheet {
+  lyrics: string
+  bpm: number
+  timeSignature: string
+  /** Song key, for number charts */
+  key?: string
+}
+
+/** The sheet laid out in an arrangement's order */
+export interface ArrangedSong {
+  lyrics: string
+  bpm: number
+  timeSignature: string
+  /** Written line each parsed line of `lyrics` was copied from; undefined for the lines the arrangement adds */
+  sourceLines: (number | undefined)[]
+  /**
+   * Timing key of each parsed line of `lyrics`, that of the written line it
+   * was copied from (pass as TimelineCalculationOptions.lineTimingKeys)
+   */
+  timingKeys: (string | undefined)[]
+}
+
+/** Timing key of a written line, as the timeline of the written sheet gives it */
+function writtenTimingKeys(song: SongSheet): (line: number) => string | undefined {
+  const timeline = createSongTimeline(song.lyrics, song.bpm, song.timeSignature, {
+    defaultBarsPerLine: 2,
+    defaultBeatsPerChord: 4,
+    intelligentEstimation: false,
+    key: song.key,
+  })
+  const keys = timingKeys(timeline.elements)
+  const byId = new Map(timeline.elements.map((element, i) => [element.id, keys[i]]))
+  return (line) => {
+    const id = timeline.lineIndexToElementId.get(line)
+    return id === undefined ? undefined : byId.get(id)
+  }
+}
+
+/** Name of the section a line starts, if it starts one an arrangement can use (recalls don't) */
+function sectionName(line: AnyParsedLine): string | undefined {
+  if (line.type === 'section' && !line.recall) return line.name
+  if (line.type === 'instrumental') return line.section.name
+  return undefined
+}
+
+function isTempoChange(line: AnyParsedLine): boolean {
+  return line.type === 'directive' && (line.directive === 'tempo' || line.directive === 'time')
+}
+
+function directiveLine(directive: string, value: string): DirectiveLine {
+  return { type: 'directive', raw: `{${directive}: ${value}}`, directive, value }
+}
+
+/**
+ * Names of the sections on the sheet, in written order and once each: what
+ * an arrangement can reference
+ */
+export function arrangementSections(lines: AnyParsedLine[]): string[] {
+  const names = new Set<string>()
+  for (const line of lines) {
+    const name = sectionName(line)
+    if (name !== undefined) names.add(name)
+  }
+  return [...names]
+}
+
+/**
+ * The sheet rewritten in the order of an arrangement. Each reference plays
+ * the first section with that name as written, repeat markers included;
+ * jump markers are left out, since the arrangement is the form. Every line
+ * keeps the tempo and meter written for it: {tempo} / {time} are written
+ * again wherever the new order changes them, and the returned tempo and
+ * meter are those the first section is played in. References to
+ * sections no longer on the sheet are skipped.
+ *
+ * Every copy of a written line keeps that line's timing key (see
+ * `timingKeys`), so recorded timing and overrides apply to each pass the
+ * way they do for a [Chorus x2].
+ *
+ * @example
+ * ```ts
+ * arrangeSong({ lyrics: '[Verse]\n[G]Go\n[Chorus]\n[C]Hold on', bpm: 120, timeSignature: '4/4' }, ['Chorus', 'Verse', 'Chorus'])
+ * // { lyrics: '[Chorus]\n[C]Hold on\n\n[Verse]\n[G]Go\n\n[Chorus]\n[C]Hold on', bpm: 120, timeSignature: '4/4',
+ * //   sourceLines: [2, 3, undefined, 0, 1, undefined, 2, 3], timingKeys: ['[Chorus]#0', '[C]Hold on#0', …] }
+ * ```
+ */
+export function arrangeSong(song: SongSheet, sections: string[]): ArrangedSong {
+  const { directives, lines } = parseChordPro(song.lyrics)
+  const tempos = sheetTempos(lines, song.bpm, song.timeSignature)
+  const keyOf = writtenTimingKeys(song)
+
+  const starts = new Map<string, number>()
+  lines.forEach((line, i) => {
+    const name = sectionName(line)
+    if (name !== undefined && !starts.has(name)) starts.set(name, i)
+  })
+
+  const arranged: AnyParsedLine[] = []
+  const sourceLines: (number | undefined)[] = []
+  const add = (line: AnyParsedLine, source?: number) => {
+    arranged.push(line)
+    sourceLines.push(source)
+  }
+  let first: { bpm: number; timeSignature: string } | undefined
+  let current: { bpm: number; timeSignature: string } | undefined
+
+  for (const name of sections) {
+    const start = starts.get(name)
+    if (start === undefined) continue
+
+    // Keep sections apart on the page
+    if (arranged.length && arranged.at(-1)?.type !== 'empty') add({ type: 'empty', raw: '' })
+
+    for (let i = start; i < sectionEnd(lines, start); i++) {
+      const line = lines[i]
+      if (jumpMarker(line) || isTempoChange(line)) continue
+
+      // Tempo changes are written again wherever the arranged order needs them
+      const tempo = tempos[i]
+      first ??= tempo
+      if (current && tempo.bpm !== current.bpm) add(directiveLine('tempo', String(tempo.bpm)))
+      if (current && tempo.timeSignature !== current.timeSignature) add(directiveLine('time', tempo.timeSignature))
+      current = tempo
+      add(line, i)
+    }
+  }
+
+  return {
+    lyrics: serializeChordPro({ directives, lines: arranged }),
+    bpm: first?.bpm ?? song.bpm,
+    timeSignature: first?.timeSignature ?? song.timeSignature,
+    sourceLines,
+    timingKeys: sourceLines.map((source) => (source === undefined ? undefined : keyOf(source))),
+  }
+}
@@ -11,23 +11,27 @@ import type {
   AnyParsedLine, 
   LyricParsedLine,
   InstrumentalLine,
-  ChordsOnlyLine
+  ChordsOnlyLine,
+  TabLine
 } from '~/lib/chordpro'
 import type { 
   TimelineElement, 
   SongTimeline, 
   TimelineCalculationOptions 
 } from '~/types/timeline'
-import { parseTimeSignature, barsToBeats, beatsToSeconds } from './utils'
+import { parseTimeSignature, barsToBeats, timingKey } from './utils'
+import { buildTempoMap, secondsAtBeat, sheetTempos } from './tempo'
+import { playbackOrder } from './form'
 
 /**
  * Calculate the duration of a single timeline element in beats
  * 
  * Duration calculation priority:
  * 1. Instrumental sections: Use explicit bar count (e.g., [Intro | 4 bars])
- * 2. Chords-only lines: One bar per chord bar separator
- * 3. Lyric lines: Use estimation mode (simple or intelligent)
- * 4. Section headers and empty lines: 0 beats (visual markers only)
+ * 2. Chords-only lines: One bar per chord bar separator, times the repeat marker (| x2)
+ * 3. Tab blocks: Explicit bar count ({start_of_tab: Riff | 2 bars}), else one line's worth
+ * 4. Lyric lines: Use estimation mode (simple or intelligent)
+ * 5. Section headers and empty lines: 0 beats (visual markers only)
  * 
  * @param element - Parsed line element from ChordPro
  * @param options - Calculation options (estimation mode, defaults)
@@ -63,12 +67,18 @@ export function calculateElementDuration(
       return bars * beatsPerBar
     }
 
-    case 'chords-only':
+    case 'chords-only': {
       // Sum actual beats per bar — supports partial bars (anacrusis) via bar.beats
-      return (element as ChordsOnlyLine).chordBars.reduce(
-        (sum, bar) => sum + (bar.beats ?? beatsPerBar), 0
-      )
+      const { chordBars, repeatCount } = element as ChordsOnlyLine
+      return chordBars.reduce((sum, bar) => sum + (bar.beats ?? beatsPerBar), 0) * (repeatCount ?? 1)
+    }
       
+    case 'tab': {
+      // Tabs carry no chords to count; without an explicit bar count treat the block as one line
+      const { bars } = element as TabLine
+      return (bars ?? options.defaultBarsPerLine) * beatsPerBar
+    }
+
     case 'lyric': {
       const lyricLine = element as LyricParsedLine
       // When the line carries chord annotations, use defaultBarsPerLine so that
@@ -177,11 +187,18 @@ function estimateLineDurationIntelligent(
  * Create a complete song timeline from ChordPro lyrics
  * 
  * Parses lyrics, calculates duration for each element, and builds a timeline
- * with cumulative beat positions. Skips directive lines (they don't appear in timeline).
+ * with cumulative beat positions. Lines are laid out in the order they are
+ * performed (see playbackOrder): a repeated section or recalled chorus gets one
+ * element per pass, all sharing the id of the line on the sheet.
+ * Skips directive lines (they don't appear in timeline),
+ * except that {tempo} and {time} in the body change the tempo and meter of the
+ * lines after them on the sheet; seconds are then summed stretch by stretch (see tempoMap).
+ * Elements with a recorded duration in `options.timingMap` use it instead of
+ * the estimate.
  * 
  * @param lyrics - ChordPro formatted lyrics string
- * @param bpm - Beats per minute (tempo)
- * @param timeSignature - Time signature string (e.g., "4/4", "3/4")
+ * @param bpm - Beats per minute the song starts at
+ * @param timeSignature - Time signature the song starts in (e.g., "4/4", "3/4")
  * @param options - Calculation options for duration estimation
  * @returns Complete song timeline with elements and timing information
  * 
@@ -205,7 +222,7 @@ export function createSongTimeline(
   timeSignature: string,
   options: TimelineCalculationOptions
 ): SongTimeline {
-  const parsed = parseChordPro(lyrics)
+  const parsed = parseChordPro(lyrics, 0, undefined, options.key)
   const elements: TimelineElement[] = []
   // Maps each parsed line index to its timeline element ID.
   // Single source of truth consumed by ChordOverlay to assign data-element-id.
@@ -213,27 +230,46 @@ export function createSongTimeline(
 
   let currentBeat = 0
   const { beats: beatsPerBar } = parseTimeSignature(timeSignature)
+  const seenKeys = new Map<string, number>()
+  // Every pass through a line shares the timing key of the line
+  const lineKeys = new Map<number, string>()
 
-  let i = 0
-  while (i < parsed.lines.length) {
+  // Tempo and meter of each line as written, so a pass that jumps back plays in the tempo written there
+  const lineTempo = sheetTempos(parsed.lines, bpm, timeSignature)
+
+  const order = playbackOrder(parsed.lines)
+  let k = 0
+  while (k < order.length) {
+    const i = order[k]
     const line = parsed.lines[i]
 
     // Skip directive lines (they don't appear in timeline)
-    if (line.type === 'directive') { i++; continue }
+    if (line.type === 'directive') {
+      k++
+      continue
+    }
 
-    let duration = calculateElementDuration(line, options, timeSignature)
+    const { bpm: currentBpm, timeSignature: currentTimeSignature } = lineTempo[i]
+    const { beats: currentBeatsPerBar } = parseTimeSignature(currentTimeSignature)
+    let duration = calculateElementDuration(line, options, currentTimeSignature)
 
     // Merge chords-only + lyric pairs into a single timeline element.
     // When a chord-row (chords-only) is immediately followed by a lyric line,
     // they belong together musically — the chords annotate that lyric.
     // Use the longer of the two durations so timing stays accurate.
     let skipNext = false
-    if (line.type === 'chords-only' && i + 1 < parsed.lines.length && parsed.lines[i + 1].type === 'lyric') {
-      const lyricDuration = calculateElementDuration(parsed.lines[i + 1], options, timeSignature)
+    if (line.type === 'chords-only' && order[k + 1] === i + 1 && parsed.lines[i + 1].type === 'lyric') {
+      const lyricDuration = calculateElementDuration(parsed.lines[i + 1], options, currentTimeSignature)
       duration = Math.max(duration, lyricDuration)
       skipNext = true
     }
 
+    // A recorded duration beats any estimate
+    const copiedKey = options.lineTimingKeys?.[i]
+    if (!lineKeys.has(i)) lineKeys.set(i, copiedKey ?? timingKey(line, seenKeys))
+    const recorded = options.timingMap?.[lineKeys.get(i)!]
+    if (recorded !== undefined) duration = recorded
+
     const elementId = `element-${i}`
     lineIndexToElementId.set(i, elementId)
 
@@ -243,28 +279,32 @@ export function createSongTimeline(
       startBeat: currentBeat,
       endBeat: currentBeat + duration,
       durationBeats: duration,
-      bars: duration / beatsPerBar,
-      content: line
+      bars: duration / currentBeatsPerBar,
+      bpm: currentBpm,
+      beatsPerBar: currentBeatsPerBar,
+      content: line,
+      ...(copiedKey !== undefined && { timingKey: copiedKey })
     })
 
     currentBeat += duration
-    i++
+    k++
     if (skipNext) {
       // Paired lyric shares the chords-only element ID
-      lineIndexToElementId.set(i, elementId)
-      i++
+      lineIndexToElementId.set(i + 1, elementId)
+      k++
     }
   }
 
-  const totalDurationSeconds = beatsToSeconds(currentBeat, bpm)
+  const tempoMap = buildTempoMap(elements, bpm, beatsPerBar)
 
   return {
     elements,
     totalBeats: currentBeat,
-    totalBars: currentBeat / beatsPerBar,
-    totalDurationSeconds,
+    totalBars: elements.reduce((sum, element) => sum + element.bars, 0),
+    totalDurationSeconds: secondsAtBeat(tempoMap, currentBeat),
     beatsPerBar,
     bpm,
+    tempoMap,
     lineIndexToElementId
   }
 }
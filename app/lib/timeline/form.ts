@@ -0,0 +1,165 @@
+/**
+ * Song Form
+ *
+ * Charts write repeats and jumps instead of every bar that is played:
+ * "[Chorus x2]", {chorus} recalls and D.S. / D.C. / Coda markers. The form
+ * turns the parsed lines into the order they are performed in, so the
+ * timeline (and the autoscroll following it) goes back to a repeated
+ * section instead of racing ahead.
+ *
+ * Jump markers are directives kept in the line flow:
+ * - `{segno}` the sign a D.S. goes back to
+ * - `{ds}` / `{dc}` go back to the sign / the top, with an optional
+ *   `al Coda` or `al Fine`: `{ds: al Coda}`
+ * - `{to_coda}` where the last pass leaves for the coda
+ * - `{coda}` (or a `[Coda]` section) where the coda starts
+ * - `{fine}` where the last pass ends
+ */
+
+import type { AnyParsedLine, SectionLine } from '~/lib/chordpro'
+
+/** Directives that mark jumps in the form */
+export const JUMP_MARKERS = ['segno', 'ds', 'dc', 'to_coda', 'coda', 'fine'] as const
+
+export type JumpMarker = (typeof JUMP_MARKERS)[number]
+
+/** The jump marker a line holds, if any */
+export function jumpMarker(line: AnyParsedLine): JumpMarker | null {
+  if (line.type !== 'directive') return null
+  return (JUMP_MARKERS as readonly string[]).includes(line.directive) ? (line.directive as JumpMarker) : null
+}
+
+/** How a jump marker reads on the sheet: 𝄋, D.S. al Coda, To Coda 𝄌 */
+export function jumpMarkerLabel(marker: JumpMarker, value = ''): string {
+  switch (marker) {
+    case 'segno':
+      return '𝄋'
+    case 'coda':
+      return '𝄌 Coda'
+    case 'to_coda':
+      return 'To Coda 𝄌'
+    case 'fine':
+      return 'Fine'
+    case 'ds':
+      return ['D.S.', value].filter(Boolean).join(' ')
+    case 'dc':
+      return ['D.C.', value].filter(Boolean).join(' ')
+  }
+}
+
+function isCoda(line: AnyParsedLine): boolean {
+  return jumpMarker(line) === 'coda' || (line.type === 'section' && /^coda\b/i.test(line.name))
+}
+
+/**
+ * End (exclusive) of the section starting at `start`: the next section,
+ * instrumental or jump marker, or just past the {end_of_*} closing an
+ * environment
+ */
+export function sectionEnd(lines: AnyParsedLine[], start: number): number {
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i]
+    if (line.type === 'section' || line.type === 'instrumental' || jumpMarker(line)) return i
+    if (line.type === 'directive' && line.directive.startsWith('end_of_')) return i + 1
+  }
+  return lines.length
+}
+
+/** Line indexes of every pass through the section starting at `start` */
+function sectionPasses(lines: AnyParsedLine[], start: number): number[] {
+  const header = lines[start] as SectionLine
+  const block = Array.from({ length: sectionEnd(lines, start) - start }, (_, i) => start + i)
+  return Array.from({ length: header.repeatCount ?? 1 }, () => block).flat()
+}
+
+/**
+ * The chorus a {chorus} recall at `index` repeats: the last chorus before it
+ * with the recall's label, else the last chorus before it. It is played as
+ * written, a repeat marker included.
+ */
+function recalledSection(lines: AnyParsedLine[], index: number): number | undefined {
+  const recall = lines[index] as SectionLine
+  let fallback: number | undefined
+  for (let i = index - 1; i >= 0; i--) {
+    const line = lines[i]
+    if (line.type !== 'section' || line.recall || line.sectionType !== 'chorus') continue
+    if (line.name === recall.name) return i
+    fallback ??= i
+  }
+  return fallback
+}
+
+/** Sections written once but played several times, and recalls, laid out in full */
+function expandRepeats(lines: AnyParsedLine[]): number[] {
+  const order: number[] = []
+  let i = 0
+  while (i < lines.length) {
+    const line = lines[i]
+    if (line.type === 'section' && line.recall) {
+      // The recall keeps its place on the sheet, then the chorus it names is played
+      order.push(i)
+      const source = recalledSection(lines, i)
+      if (source !== undefined) order.push(...sectionPasses(lines, source))
+      i++
+    } else if (line.type === 'section' && line.repeatCount) {
+      order.push(...sectionPasses(lines, i))
+      i = sectionEnd(lines, i)
+    } else {
+      order.push(i++)
+    }
+  }
+  return order
+}
+
+/**
+ * Follow D.S. / D.C. jumps over the expanded lines. Only the first D.S. or
+ * D.C. is taken; after it, `al Coda` leaves at {to_coda} for the coda and
+ * `al Fine` stops at {fine}. Repeats in the part played again are played
+ * as written.
+ */
+function followJumps(lines: AnyParsedLine[], expanded: number[]): number[] {
+  const order: number[] = []
+  let jumped = false
+  let ending: 'coda' | 'fine' | null = null
+
+  for (let k = 0; k < expanded.length; k++) {
+    const line = lines[expanded[k]]
+    order.push(expanded[k])
+    const marker = jumpMarker(line)
+    if (!marker) continue
+
+    if (!jumped && (marker === 'ds' || marker === 'dc')) {
+      const target = marker === 'dc' ? 0 : expanded.findIndex((index) => jumpMarker(lines[index]) === 'segno')
+      // A D.S. without a sign plays on
+      if (target === -1) continue
+      const value = line.type === 'directive' ? line.value : ''
+      jumped = true
+      ending = /coda/i.test(value) ? 'coda' : /fine/i.test(value) ? 'fine' : null
+      k = target - 1
+    } else if (jumped && ending === 'coda' && marker === 'to_coda') {
+      const coda = expanded.findIndex((index, j) => j > k && isCoda(lines[index]))
+      if (coda === -1) continue
+      ending = null
+      k = coda - 1
+    } else if (jumped && ending === 'fine' && marker === 'fine') {
+      break
+    }
+  }
+
+  return order
+}
+
+/**
+ * Indexes of the parsed lines in the order they are performed: repeated
+ * sections and recalls expanded, D.S. / D.C. / Coda jumps followed. A line
+ * played more than once appears once per pass.
+ *
+ * @example
+ * ```ts
+ * const { lines } = parseChordPro('[Chorus x2]\n[C]Hold on\n[Verse]\n[G]Go')
+ * playbackOrder(lines) // [0, 1, 0, 1, 2, 3]
+ * ```
+ */
+export function playbackOrder(lines: AnyParsedLine[]): number[] {
+  return followJumps(lines, expandRepeats(lines))
+}
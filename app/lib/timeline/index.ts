@@ -9,6 +9,9 @@ export type {
   SongTimeline,
   TimelineCalculationOptions,
   TimelineMap,
+  TimingOverrides,
+  TimingMap,
+  TempoChange,
   ParsedTimeSignature
 } from '~/types/timeline'
 
@@ -17,7 +20,8 @@ export {
   parseTimeSignature,
   beatsToSeconds,
   barsToBeats,
-  secondsToBeats
+  secondsToBeats,
+  timingKey
 } from './utils'
 
 // Calculator
@@ -26,3 +30,43 @@ export {
   createSongTimeline,
   applyCustomDurations
 } from './calculator'
+
+// Overrides
+export {
+  timingKeys,
+  timingLabel,
+  isTimeable,
+  sectionElements,
+  applyTimingOverrides
+} from './overrides'
+
+// Recording
+export {
+  recordableElements,
+  timingMapFromTaps,
+  mergeRecordedTiming
+} from './recording'
+
+// Tempo map
+export {
+  buildTempoMap,
+  tempoAt,
+  barPosition,
+  secondsAtBeat,
+  sheetTempos,
+  withTimelineTotals
+} from './tempo'
+
+// Song form (repeats, recalls, D.S. / D.C. / Coda)
+export {
+  JUMP_MARKERS,
+  jumpMarker,
+  jumpMarkerLabel,
+  sectionEnd,
+  playbackOrder
+} from './form'
+export type { JumpMarker } from './form'
+
+// Arrangements (named section orders)
+export { arrangementSections, arrangeSong } from './arrangement'
+export type { ArrangedSong, SongSheet } from './arrangement'
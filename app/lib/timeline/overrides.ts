@@ -0,0 +1,115 @@
+/**
+ * Timing Overrides
+ *
+ * Hand-set durations for the elements of a song timeline, stored with the
+ * song instead of inside its lyrics. Overrides are keyed by the element's
+ * canonical text and which repeat of that text it is (see timingKeys), so
+ * they keep pointing at the same line when other parts of the song change.
+ */
+
+import type { SongTimeline, TimelineElement, TimingOverrides } from '~/types/timeline'
+import { applyCustomDurations } from './calculator'
+import { timingKey } from './utils'
+import { withTimelineTotals } from './tempo'
+
+/**
+ * Override key for each element: its serialized line plus an occurrence
+ * counter, so a chorus written out twice gets its own key each time. Passes
+ * through the same line (a [Chorus x2], a {chorus} recall) share its key, and
+ * so do the copies of a line in an arrangement (element.timingKey).
+ *
+ * @example
+ * ```ts
+ * timingKeys(timeline.elements)
+ * // ['[Chorus]#0', '[C]Hold on#0', '[Chorus]#1', '[C]Hold on#1']
+ * ```
+ */
+export function timingKeys(elements: TimelineElement[]): string[] {
+  const seen = new Map<string, number>()
+  const byId = new Map<string, string>()
+  return elements.map((element) => {
+    if (!byId.has(element.id)) byId.set(element.id, element.timingKey ?? timingKey(element.content, seen))
+    return byId.get(element.id)!
+  })
+}
+
+/** Short label for an element in the timing editor and recorder */
+export function timingLabel(element: TimelineElement): string {
+  const line = element.content
+  switch (line.type) {
+    case 'section':
+      return line.name
+    case 'instrumental':
+      return line.section.name
+    case 'chords-only':
+      return line.chordBars.map((bar) => bar.chord).join(' | ')
+    case 'tab':
+      return line.label ? `Tab: ${line.label}` : 'Tab'
+    case 'lyric':
+      return line.text.trim() || line.chords.map((chord) => chord.chord).join(' ')
+    default:
+      return ''
+  }
+}
+
+/** Whether the element can be timed by hand (empty lines only space the sheet) */
+export function isTimeable(element: TimelineElement): boolean {
+  return element.type !== 'empty'
+}
+
+/**
+ * Elements played under the section header at `index`: everything up to the
+ * next section header or instrumental section
+ */
+export function sectionElements(elements: TimelineElement[], index: number): TimelineElement[] {
+  const members: TimelineElement[] = []
+  for (let i = index + 1; i < elements.length; i++) {
+    if (elements[i].type === 'section' || elements[i].type === 'instrumental') break
+    members.push(elements[i])
+  }
+  return members
+}
+
+/**
+ * Apply stored overrides to a timeline
+ *
+ * An override on a line, chord row, tab or instrumental sets that element's
+ * duration. An override on a section header sets the length of the whole
+ * section: its elements are scaled proportionally (after their own
+ * overrides). Keys that no longer match an element are ignored.
+ *
+ * @param timeline - Timeline from createSongTimeline
+ * @param overrides - Timing key → duration in beats
+ * @returns Timeline with recalculated positions, bars and totals
+ */
+export function applyTimingOverrides(timeline: SongTimeline, overrides?: TimingOverrides): SongTimeline {
+  if (!overrides || Object.keys(overrides).length === 0) return timeline
+
+  const { elements } = timeline
+  const keys = timingKeys(elements)
+  const durations = new Map<string, number>()
+  const durationOf = (element: TimelineElement) => durations.get(element.id) ?? element.durationBeats
+
+  elements.forEach((element, i) => {
+    const beats = overrides[keys[i]]
+    if (beats !== undefined && element.type !== 'section' && isTimeable(element)) {
+      durations.set(element.id, beats)
+    }
+  })
+
+  elements.forEach((element, i) => {
+    const total = overrides[keys[i]]
+    if (element.type !== 'section' || total === undefined) return
+    const members = sectionElements(elements, i)
+    const current = members.reduce((sum, member) => sum + durationOf(member), 0)
+    // Nothing to stretch in a section without timed content
+    if (current <= 0) return
+    for (const member of members) durations.set(member.id, (durationOf(member) * total) / current)
+  })
+
+  const updated = applyCustomDurations(elements, durations).map((element) => ({
+    ...element,
+    bars: element.durationBeats / element.beatsPerBar,
+  }))
+  return withTimelineTotals(timeline, updated)
+}
@@ -0,0 +1,67 @@
+/**
+ * Timing Recording
+ *
+ * Turns taps recorded while playing along into a timing map. The musician
+ * taps once at the start of every line (and instrumental or tab block) and
+ * once more where the last one ends; the beats between two taps become the
+ * duration of the element the first tap started.
+ */
+
+import type { TimelineElement, TimingMap, TimingOverrides } from '~/types/timeline'
+import { isTimeable, sectionElements, timingKeys } from './overrides'
+
+/** Elements that get a tap, in play order (section headers and empty lines take no time) */
+export function recordableElements(elements: TimelineElement[]): TimelineElement[] {
+  return elements.filter((element) => element.type !== 'section' && isTimeable(element))
+}
+
+/**
+ * Durations from the taps: `taps[i]` is the beat recordable element `i`
+ * started on, and the tap after the last element marks where it ended.
+ * Elements without a following tap, or with no beats between taps, are
+ * left out so they keep their estimate. A line played more than once keeps
+ * its first pass.
+ *
+ * @example
+ * ```ts
+ * // Taps on beats 4, 12 and 20 for two lines
+ * timingMapFromTaps(elements, [4, 12, 20]) // { '[G]First line#0': 8, '[C]Second line#0': 8 }
+ * ```
+ */
+export function timingMapFromTaps(elements: TimelineElement[], taps: number[]): TimingMap {
+  const keys = timingKeys(elements)
+  const keyOf = new Map(elements.map((element, i) => [element.id, keys[i]]))
+  const recordable = recordableElements(elements)
+
+  const map: TimingMap = {}
+  for (let i = 0; i < recordable.length && i + 1 < taps.length; i++) {
+    const beats = taps[i + 1] - taps[i]
+    const key = keyOf.get(recordable[i].id)!
+    if (beats > 0 && !(key in map)) map[key] = beats
+  }
+  return map
+}
+
+/**
+ * Song timing after a new recording: recorded durations join the stored
+ * map, and hand-set overrides they replace are dropped (the element's own,
+ * and the total of any section it belongs to) so the recording is heard.
+ */
+export function mergeRecordedTiming(
+  elements: TimelineElement[],
+  current: { timingMap?: TimingMap; timingOverrides?: TimingOverrides },
+  recorded: TimingMap
+): { timingMap: TimingMap; timingOverrides: TimingOverrides } {
+  const keys = timingKeys(elements)
+  const timingOverrides = { ...current.timingOverrides }
+
+  elements.forEach((element, i) => {
+    const replaced =
+      element.type === 'section'
+        ? sectionElements(elements, i).some((member) => keys[elements.indexOf(member)] in recorded)
+        : keys[i] in recorded
+    if (replaced) delete timingOverrides[keys[i]]
+  })
+
+  return { timingMap: { ...current.timingMap, ...recorded }, timingOverrides }
+}
@@ -0,0 +1,113 @@
+/**
+ * Tempo Map
+ *
+ * A song can change tempo or meter mid-way ({tempo} / {time} in the body).
+ * Every timeline element carries the tempo and meter it is played in; the
+ * tempo map lists where they change, so beats can be turned into seconds
+ * and bar positions piecewise.
+ */
+
+import type { AnyParsedLine } from '~/lib/chordpro'
+import type { SongTimeline, TempoChange, TimelineElement } from '~/types/timeline'
+import { beatsToSeconds } from './utils'
+
+/**
+ * Tempo and meter in effect at each parsed line, reading the sheet top to
+ * bottom: {tempo} and {time} apply from their place on
+ * @example sheetTempos(parseChordPro('[G]One\n{tempo: 90}\n[C]Two').lines, 120, '4/4').map((t) => t.bpm)
+ * // [120, 90, 90]
+ */
+export function sheetTempos(
+  lines: AnyParsedLine[],
+  bpm: number,
+  timeSignature: string
+): { bpm: number; timeSignature: string }[] {
+  let tempo = { bpm, timeSignature }
+  return lines.map((line) => {
+    if (line.type === 'directive' && line.directive === 'tempo') {
+      tempo = { ...tempo, bpm: parseFloat(line.value) || tempo.bpm }
+    }
+    if (line.type === 'directive' && line.directive === 'time' && /^\d+\/\d+$/.test(line.value)) {
+      tempo = { ...tempo, timeSignature: line.value }
+    }
+    return tempo
+  })
+}
+
+/**
+ * Tempo map of a list of elements: one entry at beat 0 for the starting
+ * tempo and meter, plus one wherever an element's tempo or meter differs
+ * from the one before it
+ */
+export function buildTempoMap(elements: TimelineElement[], bpm: number, beatsPerBar: number): TempoChange[] {
+  const map: TempoChange[] = [{ beat: 0, bar: 0, bpm, beatsPerBar }]
+
+  for (const element of elements) {
+    const last = map[map.length - 1]
+    if (element.bpm === last.bpm && element.beatsPerBar === last.beatsPerBar) continue
+
+    const change = {
+      beat: element.startBeat,
+      bar: last.bar + (element.startBeat - last.beat) / last.beatsPerBar,
+      bpm: element.bpm,
+      beatsPerBar: element.beatsPerBar,
+    }
+    // Two changes on the same beat: the later one is what plays
+    if (change.beat === last.beat) map[map.length - 1] = { ...change, bar: last.bar }
+    else map.push(change)
+  }
+
+  return map
+}
+
+/** Tempo and meter in effect at `beat` */
+export function tempoAt(tempoMap: TempoChange[], beat: number): TempoChange {
+  let current = tempoMap[0]
+  for (const change of tempoMap) {
+    if (change.beat > beat) break
+    current = change
+  }
+  return current
+}
+
+/**
+ * Bar and beat within the bar at `beat`, counting each stretch in its own meter
+ * @example barPosition([{ beat: 0, bar: 0, bpm: 120, beatsPerBar: 4 }, { beat: 16, bar: 4, bpm: 120, beatsPerBar: 3 }], 20)
+ * // { bar: 5, beatInBar: 1 }
+ */
+export function barPosition(tempoMap: TempoChange[], beat: number): { bar: number; beatInBar: number } {
+  const change = tempoAt(tempoMap, beat)
+  const beatsIn = beat - change.beat
+  return {
+    bar: Math.floor(change.bar + beatsIn / change.beatsPerBar),
+    beatInBar: beatsIn % change.beatsPerBar,
+  }
+}
+
+/** Seconds from the start of the song to `beat`, each stretch at its own tempo */
+export function secondsAtBeat(tempoMap: TempoChange[], beat: number): number {
+  let seconds = 0
+  tempoMap.forEach((change, i) => {
+    const end = Math.min(beat, tempoMap[i + 1]?.beat ?? Infinity)
+    if (end > change.beat) seconds += beatsToSeconds(end - change.beat, change.bpm)
+  })
+  return seconds
+}
+
+/**
+ * Recompute the tempo map and totals of a timeline whose element durations
+ * changed (overrides, custom durations)
+ */
+export function withTimelineTotals(timeline: SongTimeline, elements: TimelineElement[]): SongTimeline {
+  const tempoMap = buildTempoMap(elements, timeline.bpm, timeline.beatsPerBar)
+  const totalBeats = elements.at(-1)?.endBeat ?? 0
+
+  return {
+    ...timeline,
+    elements,
+    tempoMap,
+    totalBeats,
+    totalBars: elements.reduce((sum, element) => sum + element.bars, 0),
+    totalDurationSeconds: secondsAtBeat(tempoMap, totalBeats),
+  }
+}
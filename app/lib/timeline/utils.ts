@@ -3,6 +3,8 @@
  * Helper functions for time signature parsing and conversions
  */
 
+import { serializeLine } from '~/lib/chordpro/serializer'
+import type { AnyParsedLine } from '~/lib/chordpro'
 import type { ParsedTimeSignature } from '~/types/timeline'
 
 /**
@@ -48,3 +50,17 @@ export function barsToBeats(bars: number, beatsPerBar: number): number {
 export function secondsToBeats(seconds: number, bpm: number): number {
   return (seconds * bpm) / 60
 }
+
+/**
+ * Key of a timeline element for stored timing: its serialized line plus
+ * which repeat of that text it is, so it survives edits to other lines
+ * @param line Line the element was built from
+ * @param seen Occurrences counted so far, updated in place
+ * @example timingKey(chorusLine, seen) // '[C]Hold on#0', then '[C]Hold on#1'
+ */
+export function timingKey(line: AnyParsedLine, seen: Map<string, number>): string {
+  const text = serializeLine(line)
+  const occurrence = seen.get(text) ?? 0
+  seen.set(text, occurrence + 1)
+  return `${text}#${occurrence}`
+}
@@ -15,12 +15,14 @@ import { Route as IndexRouteImport } from './routes/index'
 import { Route as SetlistsIndexRouteImport } from './routes/setlists/index'
 import { Route as ProfileIndexRouteImport } from './routes/profile/index'
 import { Route as SongsNewRouteImport } from './routes/songs.new'
+import { Route as SongsImportRouteImport } from './routes/songs.import'
 import { Route as SongSongIdRouteImport } from './routes/song.$songId'
 import { Route as SetlistsSetlistIdRouteImport } from './routes/setlists/$setlistId'
 import { Route as ProfileSettingsRouteImport } from './routes/profile/settings'
 import { Route as SongSongIdIndexRouteImport } from './routes/song.$songId.index'
 import { Route as SongSongIdEditRouteImport } from './routes/song.$songId.edit'
 import { Route as SetlistsSetlistIdPlayRouteImport } from './routes/setlists/$setlistId/play'
+import { Route as ProfileConflictsConflictIdRouteImport } from './routes/profile/conflicts.$conflictId'
 
 const TunerRoute = TunerRouteImport.update({
   id: '/tuner',
@@ -52,6 +54,11 @@ const SongsNewRoute = SongsNewRouteImport.update({
   path: '/songs/new',
   getParentRoute: () => rootRouteImport,
 } as any)
+const SongsImportRoute = SongsImportRouteImport.update({
+  id: '/songs/import',
+  path: '/songs/import',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const SongSongIdRoute = SongSongIdRouteImport.update({
   id: '/song/$songId',
   path: '/song/$songId',
@@ -82,6 +89,12 @@ const SetlistsSetlistIdPlayRoute = SetlistsSetlistIdPlayRouteImport.update({
   path: '/play',
   getParentRoute: () => SetlistsSetlistIdRoute,
 } as any)
+const ProfileConflictsConflictIdRoute =
+  ProfileConflictsConflictIdRouteImport.update({
+    id: '/profile/conflicts/$conflictId',
+    path: '/profile/conflicts/$conflictId',
+    getParentRoute: () => rootRouteImport,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
@@ -90,9 +103,11 @@ export interface FileRoutesByFullPath {
   '/profile/settings': typeof ProfileSettingsRoute
   '/setlists/$setlistId': typeof SetlistsSetlistIdRouteWithChildren
   '/song/$songId': typeof SongSongIdRouteWithChildren
+  '/songs/import': typeof SongsImportRoute
   '/songs/new': typeof SongsNewRoute
   '/profile/': typeof ProfileIndexRoute
   '/setlists/': typeof SetlistsIndexRoute
+  '/profile/conflicts/$conflictId': typeof ProfileConflictsConflictIdRoute
   '/setlists/$setlistId/play': typeof SetlistsSetlistIdPlayRoute
   '/song/$songId/edit': typeof SongSongIdEditRoute
   '/song/$songId/': typeof SongSongIdIndexRoute
@@ -103,9 +118,11 @@ export interface FileRoutesByTo {
   '/tuner': typeof TunerRoute
   '/profile/settings': typeof ProfileSettingsRoute
   '/setlists/$setlistId': typeof SetlistsSetlistIdRouteWithChildren
+  '/songs/import': typeof SongsImportRoute
   '/songs/new': typeof SongsNewRoute
   '/profile': typeof ProfileIndexRoute
   '/setlists': typeof SetlistsIndexRoute
+  '/profile/conflicts/$conflictId': typeof ProfileConflictsConflictIdRoute
   '/setlists/$setlistId/play': typeof SetlistsSetlistIdPlayRoute
   '/song/$songId/edit': typeof SongSongIdEditRoute
   '/song/$songId': typeof SongSongIdIndexRoute
@@ -118,9 +135,11 @@ export interface FileRoutesById {
   '/profile/settings': typeof ProfileSettingsRoute
   '/setlists/$setlistId': typeof SetlistsSetlistIdRouteWithChildren
   '/song/$songId': typeof SongSongIdRouteWithChildren
+  '/songs/import': typeof SongsImportRoute
   '/songs/new': typeof SongsNewRoute
   '/profile/': typeof ProfileIndexRoute
   '/setlists/': typeof SetlistsIndexRoute
+  '/profile/conflicts/$conflictId': typeof ProfileConflictsConflictIdRoute
   '/setlists/$setlistId/play': typeof SetlistsSetlistIdPlayRoute
   '/song/$songId/edit': typeof SongSongIdEditRoute
   '/song/$songId/': typeof SongSongIdIndexRoute
@@ -134,9 +153,11 @@ export interface FileRouteTypes {
     | '/profile/settings'
     | '/setlists/$setlistId'
     | '/song/$songId'
+    | '/songs/import'
     | '/songs/new'
     | '/profile/'
     | '/setlists/'
+    | '/profile/conflicts/$conflictId'
     | '/setlists/$setlistId/play'
     | '/song/$songId/edit'
     | '/song/$songId/'
@@ -147,9 +168,11 @@ export interface FileRouteTypes {
     | '/tuner'
     | '/profile/settings'
     | '/setlists/$setlistId'
+    | '/songs/import'
     | '/songs/new'
     | '/profile'
     | '/setlists'
+    | '/profile/conflicts/$conflictId'
     | '/setlists/$setlistId/play'
     | '/song/$songId/edit'
     | '/song/$songId'
@@ -161,9 +184,11 @@ export interface FileRouteTypes {
     | '/profile/settings'
     | '/setlists/$setlistId'
     | '/song/$songId'
+    | '/songs/import'
     | '/songs/new'
     | '/profile/'
     | '/setlists/'
+    | '/profile/conflicts/$conflictId'
     | '/setlists/$setlistId/play'
     | '/song/$songId/edit'
     | '/song/$songId/'
@@ -176,9 +201,11 @@ export interface RootRouteChildren {
   ProfileSettingsRoute: typeof ProfileSettingsRoute
   SetlistsSetlistIdRoute: typeof SetlistsSetlistIdRouteWithChildren
   SongSongIdRoute: typeof SongSongIdRouteWithChildren
+  SongsImportRoute: typeof SongsImportRoute
   SongsNewRoute: typeof SongsNewRoute
   ProfileIndexRoute: typeof ProfileIndexRoute
   SetlistsIndexRoute: typeof SetlistsIndexRoute
+  ProfileConflictsConflictIdRoute: typeof ProfileConflictsConflictIdRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -225,6 +252,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SongsNewRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/songs/import': {
+      id: '/songs/import'
+      path: '/songs/import'
+      fullPath: '/songs/import'
+      preLoaderRoute: typeof SongsImportRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/song/$songId': {
       id: '/song/$songId'
       path: '/song/$songId'
@@ -267,6 +301,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SetlistsSetlistIdPlayRouteImport
       parentRoute: typeof SetlistsSetlistIdRoute
     }
+    '/profile/conflicts/$conflictId': {
+      id: '/profile/conflicts/$conflictId'
+      path: '/profile/conflicts/$conflictId'
+      fullPath: '/profile/conflicts/$conflictId'
+      preLoaderRoute: typeof ProfileConflictsConflictIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
@@ -302,9 +343,11 @@ const rootRouteChildren: RootRouteChildren = {
   ProfileSettingsRoute: ProfileSettingsRoute,
   SetlistsSetlistIdRoute: SetlistsSetlistIdRouteWithChildren,
   SongSongIdRoute: SongSongIdRouteWithChildren,
+  SongsImportRoute: SongsImportRoute,
   SongsNewRoute: SongsNewRoute,
   ProfileIndexRoute: ProfileIndexRoute,
   SetlistsIndexRoute: SetlistsIndexRoute,
+  ProfileConflictsConflictIdRoute: ProfileConflictsConflictIdRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -9,6 +9,7 @@ import type { QueryClient } from "@tanstack/react-query";
 import type { ReactNode } from "react";
 import appCss from "~/styles/globals.css?url";
 import { useThemeEffect } from "~/hooks/useThemeEffect";
+import { useDatabaseStatus } from "~/hooks/useDatabaseStatus";
 
 export const Route = createRootRouteWithContext<{
   queryClient: QueryClient;
@@ -44,9 +45,36 @@ export const Route = createRootRouteWithContext<{
 
 function RootComponent() {
   useThemeEffect();
+  const database = useDatabaseStatus();
+
+  if (database?.status === "failed") {
+    return <DatabaseErrorScreen error={database.error} />;
+  }
   return <Outlet />;
 }
 
+/** Shown when the database can't be opened or upgraded; the stored data is left untouched */
+function DatabaseErrorScreen({ error }: { error: string }) {
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-[#101322] flex flex-col items-center justify-center p-6 text-center">
+      <span className="material-symbols-outlined text-5xl text-red-500 mb-4">database</span>
+      <h1 className="text-lg font-semibold text-slate-900 dark:text-white mb-2">
+        Your library could not be opened
+      </h1>
+      <p className="text-sm text-slate-600 dark:text-slate-400 max-w-sm mb-1">
+        Updating the local database failed. Your songs and setlists have not been changed.
+      </p>
+      <p className="text-xs text-slate-500 dark:text-slate-500 max-w-sm mb-6 break-words">{error}</p>
+      <button
+        onClick={() => window.location.reload()}
+        className="px-4 py-2 rounded-xl bg-primary text-white font-medium"
+      >
+        Try again
+      </button>
+    </div>
+  );
+}
+
 function RootDocument({ children }: { children: ReactNode }) {
   return (
     <html lang="es" suppressHydrationWarning>
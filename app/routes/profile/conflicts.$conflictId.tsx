@@ -0,0 +1,63 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { ArrowLeft } from 'lucide-react'
+import { useSongMerge } from '~/hooks/useSongMerge'
+import { SongMerge } from '~/components/songs/SongMerge'
+import { ROUTES } from '~/lib/routes'
+import type { Song } from '~/types'
+
+export const Route = createFileRoute('/profile/conflicts/$conflictId')({
+  component: SongMergePage
+})
+
+function SongMergePage() {
+  const { conflictId } = Route.useParams()
+  const navigate = useNavigate()
+  const { merge, isLoading, saveMerge, isSaving } = useSongMerge(conflictId)
+
+  const backToSettings = () => navigate({ to: ROUTES.PROFILE_SETTINGS })
+
+  const handleSave = async (song: Song) => {
+    try {
+      await saveMerge(song)
+      backToSettings()
+    } catch (error) {
+      console.error('Failed to save merged song:', error)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50 dark:bg-[#101322] flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-500" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-[#101322]">
+      {/* Top Bar */}
+      <header className="sticky top-0 z-20 bg-slate-50/80 dark:bg-[#101322]/80 backdrop-blur-md border-b border-slate-200 dark:border-slate-800">
+        <div className="flex items-center gap-3 px-4 py-4">
+          <button
+            onClick={backToSettings}
+            aria-label="Back to settings"
+            className="p-2 -ml-2 text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-lg font-bold text-slate-900 dark:text-white">Merge Changes</h1>
+        </div>
+      </header>
+
+      <main className="p-4 pb-24 max-w-3xl mx-auto">
+        {merge ? (
+          <SongMerge merge={merge} isSaving={isSaving} onSave={handleSave} onCancel={backToSettings} />
+        ) : (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            This conflict has been resolved, or there is nothing to merge.
+          </p>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -1,8 +1,18 @@
-import { createFileRoute, Link } from '@tanstack/react-router'
-import { useCallback } from 'react'
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import { useCallback, useMemo, useState } from 'react'
 import { cn } from '~/lib/utils'
-import { db } from '~/lib/db'
+import {
+  createBackup,
+  readBackupData,
+  serializeBackup,
+  parseBackup,
+  restoreBackup,
+  deleteAllData,
+} from '~/lib/backup'
+import { downloadFile } from '~/lib/export'
+import { createHttpTransport } from '~/lib/sync'
 import { useSettings } from '~/hooks/useSettings'
+import { useOfflineSync } from '~/hooks/useOfflineSync'
 import { AppearanceSettings } from '~/components/profile/AppearanceSettings'
 import { MetronomeSettings } from '~/components/profile/MetronomeSettings'
 import { TunerSettings } from '~/components/profile/TunerSettings'
@@ -10,13 +20,15 @@ import { PerformanceSettings } from '~/components/profile/PerformanceSettings'
 import { PlayerSettings } from '~/components/profile/PlayerSettings'
 import { DataSettings } from '~/components/profile/DataSettings'
 import { BottomNav } from '~/components/navigation'
-import { ROUTES } from '~/lib/routes'
+import { ROUTES, routeHelpers } from '~/lib/routes'
+import type { Backup, ConflictChoice, RestoreMode } from '~/types'
 
 export const Route = createFileRoute('/profile/settings')({
   component: SettingsPage,
 })
 
 function SettingsPage() {
+  const navigate = useNavigate()
   const {
     settings,
     isLoading,
@@ -29,31 +41,33 @@ function SettingsPage() {
     resetSettings,
   } = useSettings()
 
-  const handleExportData = useCallback(async () => {
-    const songs = await db.songs.toArray()
-    const setlists = await db.setlists.toArray()
+  const [pendingRestore, setPendingRestore] = useState<Backup | null>(null)
+
+  const serverUrl = settings?.sync.serverUrl
+  const transport = useMemo(() => (serverUrl ? createHttpTransport(serverUrl) : null), [serverUrl])
+  const { status: syncStatus, isOnline, conflicts, sync, resolveConflict } = useOfflineSync({
+    transport,
+    autoSync: settings?.sync.autoSync,
+    onSynced: (result) => void updateSyncSettings({ lastSyncDate: result.syncedAt }),
+  })
+
+  const handleSyncNow = useCallback(() => void sync(), [sync])
 
-    const data = {
-      version: 1,
-      profile: localStorage.getItem('gigsync_profile'),
-      settings: localStorage.getItem('gigsync_settings'),
-      stats: localStorage.getItem('gigsync_stats'),
-      songs,
-      setlists,
-      exportedAt: new Date().toISOString(),
+  const handleResolveConflict = useCallback(async (conflictId: string, choice: ConflictChoice) => {
+    try {
+      await resolveConflict(conflictId, choice)
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error)
     }
+  }, [resolveConflict])
 
-    const blob = new Blob([JSON.stringify(data, null, 2)], {
-      type: 'application/json',
-    })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `gigsync-backup-${new Date().toISOString().split('T')[0]}.json`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
+  const handleExportData = useCallback(async () => {
+    const backup = createBackup(await readBackupData())
+    downloadFile(
+      `gigsync-backup-${new Date().toISOString().split('T')[0]}.json`,
+      serializeBackup(backup),
+      'application/json'
+    )
   }, [])
 
   const handleImportData = useCallback(() => {
@@ -66,44 +80,29 @@ function SettingsPage() {
 
       try {
         const text = await file.text()
-        const data = JSON.parse(text)
-
-        if (data.profile) {
-          localStorage.setItem('gigsync_profile', data.profile)
-        }
-        if (data.settings) {
-          localStorage.setItem('gigsync_settings', data.settings)
-        }
-        if (data.stats) {
-          localStorage.setItem('gigsync_stats', data.stats)
-        }
-
-        // Restore IndexedDB data (songs and setlists)
-        if (data.songs && Array.isArray(data.songs)) {
-          await db.songs.clear()
-          await db.songs.bulkAdd(data.songs)
-        }
-        if (data.setlists && Array.isArray(data.setlists)) {
-          await db.setlists.clear()
-          await db.setlists.bulkAdd(data.setlists)
-        }
-
-        // Reload to apply changes
-        window.location.reload()
+        setPendingRestore(parseBackup(text))
       } catch (error) {
         console.error('Failed to import data:', error)
-        alert('Failed to import data. Please check the file format.')
+        alert(error instanceof Error ? error.message : 'Failed to import data. Please check the file format.')
       }
     }
     input.click()
   }, [])
 
+  const handleConfirmRestore = useCallback(async (mode: RestoreMode) => {
+    if (!pendingRestore) return
+    try {
+      await restoreBackup(pendingRestore, mode)
+      // Reload to apply changes
+      window.location.reload()
+    } catch (error) {
+      console.error('Failed to restore backup:', error)
+      alert('Failed to restore backup.')
+    }
+  }, [pendingRestore])
+
   const handleDeleteAllData = useCallback(async () => {
-    localStorage.removeItem('gigsync_profile')
-    localStorage.removeItem('gigsync_settings')
-    localStorage.removeItem('gigsync_stats')
-    await db.songs.clear()
-    await db.setlists.clear()
+    await deleteAllData()
     window.location.reload()
   }, [])
 
@@ -198,6 +197,15 @@ function SettingsPage() {
             onExportData={handleExportData}
             onImportData={handleImportData}
             onDeleteAllData={handleDeleteAllData}
+            pendingRestore={pendingRestore}
+            onConfirmRestore={handleConfirmRestore}
+            onCancelRestore={() => setPendingRestore(null)}
+            syncStatus={syncStatus}
+            isOnline={isOnline}
+            conflicts={conflicts}
+            onSyncNow={handleSyncNow}
+            onResolveConflict={handleResolveConflict}
+            onMergeConflict={(conflictId) => navigate(routeHelpers.syncConflict(conflictId))}
           />
 
           {/* About Section */}
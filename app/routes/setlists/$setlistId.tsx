@@ -4,12 +4,17 @@ import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, us
 import { SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from '@dnd-kit/sortable'
 import { useSetlist } from '~/hooks/useSetlist'
 import { useSetlists } from '~/hooks/useSetlists'
+import { useSettings } from '~/hooks/useSettings'
 import { SongItem } from '~/components/setlists/SongItem'
 import { SetlistStats } from '~/components/setlists/SetlistStats'
 import { SongForm } from '~/components/setlists/SongForm'
 import { SetlistForm } from '~/components/setlists/SetlistForm'
+import { ExportMenu } from '~/components/songs/ExportMenu'
 import { ROUTES, routeHelpers } from '~/lib/routes'
-import type { CreateSetlistInput, UpdateSetlistInput } from '~/types'
+import { exportSongs, playerFontSize } from '~/lib/export'
+import { getKeyInterval } from '~/lib/chordpro'
+import { arrangeSong } from '~/lib/timeline'
+import type { CreateSetlistInput, ExportFormat, UpdateSetlistInput } from '~/types'
 
 export const Route = createFileRoute('/setlists/$setlistId')({
   component: SetlistDetailPage,
@@ -20,6 +25,7 @@ function SetlistDetailPage() {
   const navigate = useNavigate()
   const { setlist, songs, isLoading, removeSong, reorderSongs, addSong, updateSetlist } = useSetlist(setlistId)
   const { deleteSetlist } = useSetlists()
+  const { settings } = useSettings()
   const [showAddSong, setShowAddSong] = useState(false)
   const [showEditForm, setShowEditForm] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
@@ -94,6 +100,19 @@ function SetlistDetailPage() {
     }
   }
 
+  const handleArrangementChange = async (songId: string, arrangementId: string | undefined) => {
+    if (!setlist) return
+    try {
+      setError(null)
+      const { [songId]: _previous, ...arrangements } = setlist.arrangements ?? {}
+      await updateSetlist({
+        arrangements: arrangementId ? { ...arrangements, [songId]: arrangementId } : arrangements,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update setlist')
+    }
+  }
+
   const handleDeleteSetlist = async () => {
     try {
       setError(null)
@@ -105,6 +124,31 @@ function SetlistDetailPage() {
     }
   }
 
+  const handleExport = (format: ExportFormat) => {
+    if (!setlist) return
+    try {
+      setError(null)
+      // Each song in the key it is played in: setlist entry, then the song's own;
+      // and in the arrangement the setlist picked
+      const items = songs.map((song) => {
+        const performanceKey = setlist.performanceKeys?.[song.id] ?? song.performanceKey
+        const arrangement = song.arrangements?.find(({ id }) => id === setlist.arrangements?.[song.id])
+        const arranged = arrangement && arrangeSong(song, arrangement.sections)
+        return {
+          song: arranged
+            ? { ...song, lyrics: arranged.lyrics, bpm: arranged.bpm, timeSignature: arranged.timeSignature }
+            : song,
+          transpose: song.key && performanceKey ? getKeyInterval(song.key, performanceKey) : 0,
+        }
+      })
+      exportSongs(items, format, setlist.name, {
+        fontSize: settings ? playerFontSize(settings.performance.fontSize) : undefined,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export setlist')
+    }
+  }
+
   const handlePlayMode = () => {
     navigate(routeHelpers.setlistPlay(setlistId))
   }
@@ -131,6 +175,9 @@ function SetlistDetailPage() {
             </h1>
           </div>
           <div className="flex items-center gap-2">
+            {songs.length > 0 && (
+              <ExportMenu onExport={handleExport} className="px-3 text-slate-600 dark:text-slate-400" />
+            )}
             <button
               onClick={() => setShowEditForm(true)}
               className="px-3 py-2 text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white rounded-lg font-medium transition-colors"
@@ -222,6 +269,8 @@ function SetlistDetailPage() {
                     key={song.id}
                     song={song}
                     index={index}
+                    arrangementId={setlist.arrangements?.[song.id]}
+                    onArrangementChange={(arrangementId) => handleArrangementChange(song.id, arrangementId)}
                     onRemove={() => handleRemoveSong(song.id)}
                     onReorder={() => {}}
                   />
@@ -22,7 +22,7 @@ function SetlistPlayPage() {
   const { setlistId } = Route.useParams()
   const { index: searchIndex } = Route.useSearch()
   const navigate = useNavigate()
-  const { setlist, songs, isLoading } = useSetlist(setlistId)
+  const { setlist, songs, isLoading, updateSetlist } = useSetlist(setlistId)
 
   const initialIndex =
     typeof searchIndex === 'number' && searchIndex < songs.length
@@ -49,6 +49,28 @@ function SetlistPlayPage() {
     if (currentIndex < songs.length - 1) setCurrentIndex(currentIndex + 1)
   }, [currentIndex, songs.length])
 
+  const handlePerformanceKeyChange = useCallback(
+    (key: string | undefined) => {
+      if (!setlist || !currentSong) return
+      const { [currentSong.id]: _previous, ...performanceKeys } = setlist.performanceKeys ?? {}
+      void updateSetlist({
+        performanceKeys: key ? { ...performanceKeys, [currentSong.id]: key } : performanceKeys
+      })
+    },
+    [setlist, currentSong, updateSetlist]
+  )
+
+  const handleArrangementChange = useCallback(
+    (arrangementId: string | undefined) => {
+      if (!setlist || !currentSong) return
+      const { [currentSong.id]: _previous, ...arrangements } = setlist.arrangements ?? {}
+      void updateSetlist({
+        arrangements: arrangementId ? { ...arrangements, [currentSong.id]: arrangementId } : arrangements
+      })
+    },
+    [setlist, currentSong, updateSetlist]
+  )
+
   const handleExit = useCallback(() => {
     navigate(routeHelpers.setlist(setlistId))
   }, [navigate, setlistId])
@@ -97,7 +119,11 @@ function SetlistPlayPage() {
               nextSong,
               onPrevious: handlePrevious,
               onNext: handleNext,
-              onExit: handleExit
+              onExit: handleExit,
+              performanceKey: setlist.performanceKeys?.[currentSong.id],
+              onPerformanceKeyChange: handlePerformanceKeyChange,
+              arrangementId: setlist.arrangements?.[currentSong.id],
+              onArrangementChange: handleArrangementChange
             }}
           />
         </motion.div>
@@ -1,12 +1,17 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useState, useEffect } from 'react'
-import { ArrowLeft, Trash2 } from 'lucide-react'
+import { ArrowLeft, History, ListOrdered, Timer, Trash2 } from 'lucide-react'
 import { cn } from '~/lib/utils'
 import { useSong, useSongLibrary } from '~/hooks/useSongs'
+import { useSongRevisions } from '~/hooks/useSongRevisions'
 import { SongForm } from '~/components/songs/SongForm'
 import { ChordProImporter } from '~/components/songs/ChordProImporter'
+import { SongHistory } from '~/components/songs/SongHistory'
+import { TimingEditor } from '~/components/songs/TimingEditor'
+import { ArrangementEditor } from '~/components/songs/ArrangementEditor'
 import { ROUTES, routeHelpers } from '~/lib/routes'
-import type { CreateSongInput, UpdateSongInput, ChordProSong } from '~/types'
+import type { CreateSongInput, SongArrangement, UpdateSongInput } from '~/types'
+import type { TimingOverrides } from '~/lib/timeline'
 
 export const Route = createFileRoute('/song/$songId/edit')({
   component: SongEditPage
@@ -17,10 +22,14 @@ function SongEditPage() {
   const navigate = useNavigate()
   const isNewSong = songId === 'new'
   
-  const { song, isLoading, updateSong } = useSong(isNewSong ? '' : songId)
+  const { song, isLoading, updateSong, isUpdating } = useSong(isNewSong ? '' : songId)
   const { createSong, deleteSong } = useSongLibrary()
+  const { revisions, restoreRevision, isRestoring } = useSongRevisions(isNewSong ? '' : songId)
   
   const [showImporter, setShowImporter] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showTiming, setShowTiming] = useState(false)
+  const [showArrangements, setShowArrangements] = useState(false)
   const [formData, setFormData] = useState<CreateSongInput>({
     title: '',
     artist: '',
@@ -75,39 +84,43 @@ function SongEditPage() {
     }
   }
 
-  const handleImport = (chordProSong: ChordProSong) => {
-    // Reconstruct lines with chords in ChordPro format [Chord]
-    const reconstructLine = (line: { text: string; chords: { chord: string; position: number }[] }) => {
-      if (line.chords.length === 0) return line.text
-      
-      let result = ''
-      let lastPos = 0
-      
-      // Sort chords by position
-      const sortedChords = [...line.chords].sort((a, b) => a.position - b.position)
-      
-      for (const { chord, position } of sortedChords) {
-        // Add text before this chord position
-        result += line.text.slice(lastPos, position)
-        // Add the chord in brackets
-        result += `[${chord}]`
-        lastPos = position
-      }
-      
-      // Add remaining text
-      result += line.text.slice(lastPos)
-      
-      return result
+  const handleRestore = async (revisionId: string) => {
+    try {
+      // The form reloads from the restored song
+      await restoreRevision(revisionId)
+      setShowHistory(false)
+    } catch (error) {
+      console.error('Failed to restore revision:', error)
     }
-    
+  }
+
+  const handleSaveTiming = async (timingOverrides: TimingOverrides) => {
+    try {
+      await updateSong({ timingOverrides })
+      setShowTiming(false)
+    } catch (error) {
+      console.error('Failed to save timing:', error)
+    }
+  }
+
+  const handleSaveArrangements = async (arrangements: SongArrangement[]) => {
+    try {
+      await updateSong({ arrangements })
+      setShowArrangements(false)
+    } catch (error) {
+      console.error('Failed to save arrangements:', error)
+    }
+  }
+
+  const handleImport = (imported: CreateSongInput) => {
     setFormData((prev) => ({
       ...prev,
-      title: chordProSong.title || prev.title,
-      artist: chordProSong.artist || prev.artist,
-      key: chordProSong.key || prev.key,
-      bpm: chordProSong.tempo || prev.bpm,
-      timeSignature: chordProSong.timeSignature || prev.timeSignature,
-      lyrics: chordProSong.lines.map(reconstructLine).join('\n')
+      title: imported.title || prev.title,
+      artist: imported.artist || prev.artist,
+      key: imported.key || prev.key,
+      bpm: imported.bpm || prev.bpm,
+      timeSignature: imported.timeSignature || prev.timeSignature,
+      lyrics: imported.lyrics ?? prev.lyrics
     }))
     setShowImporter(false)
   }
@@ -137,6 +150,57 @@ function SongEditPage() {
           </h1>
 
           <div className="flex items-center gap-2">
+            {!isNewSong && (
+              <button
+                onClick={() => {
+                  setShowArrangements((prev) => !prev)
+                  setShowTiming(false)
+                  setShowHistory(false)
+                }}
+                aria-label="Arrangements"
+                aria-pressed={showArrangements}
+                className={cn(
+                  'p-2 hover:text-slate-900 dark:hover:text-white',
+                  showArrangements ? 'text-indigo-500' : 'text-slate-600 dark:text-slate-400'
+                )}
+              >
+                <ListOrdered className="w-5 h-5" />
+              </button>
+            )}
+            {!isNewSong && (
+              <button
+                onClick={() => {
+                  setShowTiming((prev) => !prev)
+                  setShowHistory(false)
+                  setShowArrangements(false)
+                }}
+                aria-label="Timing"
+                aria-pressed={showTiming}
+                className={cn(
+                  'p-2 hover:text-slate-900 dark:hover:text-white',
+                  showTiming ? 'text-indigo-500' : 'text-slate-600 dark:text-slate-400'
+                )}
+              >
+                <Timer className="w-5 h-5" />
+              </button>
+            )}
+            {!isNewSong && (
+              <button
+                onClick={() => {
+                  setShowHistory((prev) => !prev)
+                  setShowTiming(false)
+                  setShowArrangements(false)
+                }}
+                aria-label="History"
+                aria-pressed={showHistory}
+                className={cn(
+                  'p-2 hover:text-slate-900 dark:hover:text-white',
+                  showHistory ? 'text-indigo-500' : 'text-slate-600 dark:text-slate-400'
+                )}
+              >
+                <History className="w-5 h-5" />
+              </button>
+            )}
             {!isNewSong && (
               <button
                 onClick={handleDelete}
@@ -151,7 +215,29 @@ function SongEditPage() {
 
       {/* Main Content */}
       <main className="p-4 pb-24">
-        {showImporter ? (
+        {showHistory && song ? (
+          <SongHistory
+            song={song}
+            revisions={revisions}
+            isRestoring={isRestoring}
+            onRestore={handleRestore}
+            onClose={() => setShowHistory(false)}
+          />
+        ) : showTiming && song ? (
+          <TimingEditor
+            song={song}
+            isSaving={isUpdating}
+            onSave={handleSaveTiming}
+            onClose={() => setShowTiming(false)}
+          />
+        ) : showArrangements && song ? (
+          <ArrangementEditor
+            song={song}
+            isSaving={isUpdating}
+            onSave={handleSaveArrangements}
+            onClose={() => setShowArrangements(false)}
+          />
+        ) : showImporter ? (
           <ChordProImporter
             onImport={handleImport}
             onCancel={() => setShowImporter(false)}
@@ -0,0 +1,81 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useState } from 'react'
+import { ArrowLeft } from 'lucide-react'
+import { useBulkImport } from '~/hooks/useBulkImport'
+import { BulkImport } from '~/components/songs/BulkImport'
+import { ROUTES, routeHelpers } from '~/lib/routes'
+
+export const Route = createFileRoute('/songs/import')({
+  component: ImportSongsPage
+})
+
+function ImportSongsPage() {
+  const navigate = useNavigate()
+  const bulkImport = useBulkImport()
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFiles = async (files: File[]) => {
+    setError(null)
+    try {
+      await bulkImport.prepare(files)
+    } catch (err) {
+      console.error('Failed to read files:', err)
+      setError(err instanceof Error ? err.message : 'Failed to read files')
+    }
+  }
+
+  const handleImport = async () => {
+    setError(null)
+    try {
+      await bulkImport.runImport()
+    } catch (err) {
+      console.error('Failed to import songs:', err)
+      setError(err instanceof Error ? err.message : 'Failed to import songs')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-[#101322]">
+      {/* Top Bar */}
+      <header className="sticky top-0 z-20 bg-slate-50/80 dark:bg-[#101322]/80 backdrop-blur-md border-b border-slate-200 dark:border-slate-800">
+        <div className="flex items-center justify-between px-4 py-4">
+          <button
+            onClick={() => navigate(routeHelpers.songNew())}
+            className="p-2 -ml-2 text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white"
+            aria-label="Back to add song"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+
+          <h1 className="text-lg font-bold text-slate-900 dark:text-white">
+            Import Songs
+          </h1>
+
+          <div className="w-10" /> {/* Spacer for alignment */}
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="p-4 pb-24">
+        {error && (
+          <div role="alert" className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        <BulkImport
+          items={bulkImport.items}
+          result={bulkImport.result}
+          isPreparing={bulkImport.isPreparing}
+          isImporting={bulkImport.isImporting}
+          onFiles={handleFiles}
+          onActionChange={bulkImport.setAction}
+          onDuplicateActionChange={bulkImport.setDuplicateAction}
+          onImport={handleImport}
+          onReset={bulkImport.reset}
+          onDone={() => navigate({ to: ROUTES.HOME })}
+        />
+      </main>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { createFileRoute, useNavigate, Link } from '@tanstack/react-router'
 import { useState } from 'react'
 import { ArrowLeft } from 'lucide-react'
 import { cn } from '~/lib/utils'
@@ -7,7 +7,7 @@ import { useSongLibrary } from '~/hooks/useSongs'
 import { SongForm } from '~/components/songs/SongForm'
 import { ChordProImporter } from '~/components/songs/ChordProImporter'
 import { ROUTES, routeHelpers } from '~/lib/routes'
-import type { CreateSongInput, ChordProSong } from '~/types'
+import type { CreateSongInput } from '~/types'
 
 export const Route = createFileRoute('/songs/new')({
   component: NewSongPage
@@ -45,33 +45,15 @@ function NewSongPage() {
     }
   }
 
-  const handleImport = (chordProSong: ChordProSong) => {
-    const reconstructLine = (line: { text: string; chords: { chord: string; position: number }[] }) => {
-      if (line.chords.length === 0) return line.text
-      
-      let result = ''
-      let lastPos = 0
-      
-      const sortedChords = [...line.chords].sort((a, b) => a.position - b.position)
-      
-      for (const { chord, position } of sortedChords) {
-        result += line.text.slice(lastPos, position)
-        result += `[${chord}]`
-        lastPos = position
-      }
-      
-      result += line.text.slice(lastPos)
-      return result
-    }
-    
+  const handleImport = (imported: CreateSongInput) => {
     setFormData((prev) => ({
       ...prev,
-      title: chordProSong.title || prev.title,
-      artist: chordProSong.artist || prev.artist,
-      key: chordProSong.key || prev.key,
-      bpm: chordProSong.tempo || prev.bpm,
-      timeSignature: chordProSong.timeSignature || prev.timeSignature,
-      lyrics: chordProSong.lines.map(reconstructLine).join('\n')
+      title: imported.title || prev.title,
+      artist: imported.artist || prev.artist,
+      key: imported.key || prev.key,
+      bpm: imported.bpm || prev.bpm,
+      timeSignature: imported.timeSignature || prev.timeSignature,
+      lyrics: imported.lyrics ?? prev.lyrics
     }))
     setShowImporter(false)
   }
@@ -119,6 +101,16 @@ function NewSongPage() {
             >
               Import from ChordPro
             </button>
+            <Link
+              {...routeHelpers.songImport()}
+              className={cn(
+                'block w-full -mt-2 mb-4 px-4 py-2 text-center',
+                'text-indigo-600 dark:text-indigo-400 hover:underline',
+                'text-sm font-medium'
+              )}
+            >
+              Import many songs (files or .zip)
+            </Link>
 
             {/* Song Form */}
             <SongForm
@@ -0,0 +1,36 @@
+/**
+ * Backup Types
+ * Full-library backups: songs, setlists, profile, settings and stats
+ */
+
+import type { Song, Setlist } from './setlist'
+import type { AppSettings, UserProfile, UserStats } from './profile'
+
+/** Everything a backup holds; null when the device had nothing stored */
+export interface BackupData {
+  songs: Song[]
+  setlists: Setlist[]
+  profile: UserProfile | null
+  settings: AppSettings | null
+  stats: UserStats | null
+}
+
+export interface Backup extends BackupData {
+  app: 'gigsync'
+  /** Format version (BACKUP_VERSION); older versions are upgraded on restore */
+  version: number
+  exportedAt: Date
+}
+
+/**
+ * How a backup is restored
+ * - merge: keep this device's data; add what is missing, newer songs win
+ * - replace: wipe this device and restore the backup as it is
+ */
+export type RestoreMode = 'merge' | 'replace'
+
+/** Records written by a restore */
+export interface RestoreResult {
+  songs: number
+  setlists: number
+}
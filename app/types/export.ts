@@ -0,0 +1,24 @@
+/**
+ * Export Types
+ * Songs and setlists written out to other formats
+ */
+
+import type { Song } from './song'
+
+/** Formats songs and setlists can be exported to */
+export type ExportFormat = 'chordpro' | 'text' | 'pdf'
+
+/** A song as it should be exported */
+export interface ExportSong {
+  song: Song
+  /** Semitones to move the chords and key by (player transpose, performance key) */
+  transpose?: number
+}
+
+/** Printable layout options */
+export interface PrintOptions {
+  /** Player font size in px; the print size scales from it */
+  fontSize?: number
+  /** Document title, e.g. the setlist name; shown on a contents page */
+  title?: string
+}
@@ -0,0 +1,45 @@
+/**
+ * Import Types
+ * Songs brought in from other chart formats
+ */
+
+import type { CreateSongInput, Song } from './song'
+
+/** File formats the importer understands */
+export type ImportFormat = 'chordpro' | 'text' | 'onsong' | 'openlyrics' | 'ultimate-guitar'
+
+/** A song converted from an import format */
+export interface ImportedSong {
+  format: ImportFormat
+  /** Full ChordPro text, directives included */
+  chordPro: string
+  /** Song fields from the directives; lyrics holds the ChordPro body */
+  song: CreateSongInput
+}
+
+/** What to do with an imported song that matches one already in the library */
+export type DuplicateAction = 'skip' | 'overwrite' | 'merge'
+
+/** One file of a bulk import and what will happen to it */
+export interface BulkImportItem {
+  /** Path of the file, inside the zip when it came from one */
+  fileName: string
+  status: 'new' | 'duplicate' | 'error'
+  imported?: ImportedSong
+  /** Library song with the same title and artist */
+  existing?: Song
+  /** Earlier file of the same import with the same title and artist */
+  duplicateOf?: string
+  /** 'create' for new songs; duplicates choose, errors are always skipped */
+  action: 'create' | DuplicateAction
+  error?: string
+}
+
+/** Per-action counts once a bulk import has run */
+export interface BulkImportResult {
+  created: number
+  overwritten: number
+  merged: number
+  skipped: number
+  failed: number
+}
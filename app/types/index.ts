@@ -3,3 +3,8 @@ export * from './profile'
 export * from './setlist'
 export * from './song'
 export * from './tuner'
+export * from './import'
+export * from './export'
+export * from './backup'
+export * from './revision'
+export * from './sync'
@@ -58,12 +58,22 @@ export interface PlayerPreferences {
    * 1.0 = quarter note, 0.5 = eighth note, 0.25 = sixteenth note (default).
    */
   gridResolution: number
+  /**
+   * When true, shows a footer with a diagram for every chord the song uses.
+   */
+  showChordDiagrams: boolean
+  /** Instrument used for chord diagrams */
+  chordDiagramInstrument: 'guitar' | 'ukulele' | 'bass'
+  /** Chord names, Nashville numbers or Roman numerals (relative to the song key) */
+  chordNotation: 'letters' | 'nashville' | 'roman'
 }
 
 export interface SyncPreferences {
   enableCloudBackup: boolean
   autoSync: boolean
   lastSyncDate?: Date
+  /** Sync server on the local network, e.g. http://192.168.1.20:4455 */
+  serverUrl?: string
 }
 
 export interface AppSettings {
@@ -131,6 +141,9 @@ export const DEFAULT_SETTINGS: Omit<AppSettings, 'id' | 'updatedAt'> = {
     smartScrollSmoothness: 70,
     showBeatIndicatorDebug: false,
     gridResolution: 0.25,
+    showChordDiagrams: false,
+    chordDiagramInstrument: 'guitar',
+    chordNotation: 'letters',
   },
   sync: {
     enableCloudBackup: false,
@@ -0,0 +1,50 @@
+/**
+ * Revision Types
+ * Earlier versions of a song, kept so edits can be reviewed and undone
+ */
+
+import type { Song } from './setlist'
+
+/** The part of a song a revision keeps: lyrics, musical metadata and what is tied to the lyrics */
+export type SongSnapshot = Pick<
+  Song,
+  | 'title'
+  | 'artist'
+  | 'bpm'
+  | 'key'
+  | 'timeSignature'
+  | 'duration'
+  | 'lyrics'
+  | 'tags'
+  | 'notes'
+  | 'capo'
+  | 'accidentals'
+  | 'performanceKey'
+  | 'timingOverrides'
+  | 'timingMap'
+  | 'arrangements'
+>
+
+/** The song as it was before an update */
+export interface SongRevision {
+  id: string
+  songId: string
+  /** When the song was replaced by a newer version */
+  createdAt: Date
+  snapshot: SongSnapshot
+  /** Made by a coalesced save: the saves that follow it soon after keep no revision of their own */
+  coalesced?: boolean
+}
+
+export interface RevisionOptions {
+  /**
+   * Share the revision of the previous coalesced save when it came moments
+   * ago (see REVISION_COALESCE_MS), so a run of small edits keeps one revision
+   */
+  coalesce?: boolean
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
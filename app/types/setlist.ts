@@ -13,10 +13,37 @@ export interface Song {
   lastPlayed?: Date
   timesPlayed: number
   notes?: string
+  /** Capo position for this song; overrides the {capo} directive */
+  capo?: number
+  /** Spelling override for transposed chords; by default the key decides */
+  accidentals?: 'sharps' | 'flats'
+  /** Key the song is usually performed in; the player opens transposed to it */
+  performanceKey?: string
+  /** Autoscroll timing set by hand (timing key → beats, see applyTimingOverrides) */
+  timingOverrides?: Record<string, number>
+  /** Durations recorded by tapping along in the player (timing key → beats) */
+  timingMap?: Record<string, number>
+  /** Named orders of the song's sections (see arrangeSong) */
+  arrangements?: SongArrangement[]
+  /** Lyrics and key before the last applied transposition, for undo */
+  lastTransposition?: {
+    lyrics: string
+    key: string
+    semitones: number
+    appliedAt: Date
+  }
   createdAt: Date
   updatedAt: Date
 }
 
+/** A named order of a song's sections, each played as written on the sheet */
+export interface SongArrangement {
+  id: string
+  name: string
+  /** Section names as written on the sheet, in play order; a name can repeat */
+  sections: string[]
+}
+
 export interface Setlist {
   id: string
   name: string
@@ -24,6 +51,10 @@ export interface Setlist {
   totalDuration: number
   venue?: string
   date?: Date
+  /** Performance key per song in this setlist (songId → key), wins over Song.performanceKey */
+  performanceKeys?: Record<string, string>
+  /** Arrangement played per song in this setlist (songId → arrangement id) */
+  arrangements?: Record<string, string>
   createdAt: Date
 }
 
@@ -39,4 +70,6 @@ export interface UpdateSetlistInput {
   songIds?: string[]
   venue?: string
   date?: Date
+  performanceKeys?: Record<string, string>
+  arrangements?: Record<string, string>
 }
@@ -1,8 +1,8 @@
 // Song Types - Extended types for song player functionality
 
-import type { Song } from './setlist'
+import type { Song, SongArrangement } from './setlist'
 
-export type { Song }
+export type { Song, SongArrangement }
 
 export interface CreateSongInput {
   title: string
@@ -26,6 +26,12 @@ export interface UpdateSongInput {
   lyrics?: string
   tags?: string[]
   notes?: string
+  capo?: number
+  accidentals?: 'sharps' | 'flats'
+  performanceKey?: string
+  timingOverrides?: Record<string, number>
+  timingMap?: Record<string, number>
+  arrangements?: SongArrangement[]
 }
 
 export interface SongPlayerState {
@@ -37,6 +43,8 @@ export interface SongPlayerState {
   showChords: boolean
   fontSize: number
   metronomeSoundEnabled: boolean
+  /** Show chords as shapes relative to the capo instead of concert pitch */
+  showCapoShapes: boolean
 }
 
 export interface LyricLine {
@@ -0,0 +1,122 @@
+/**
+ * Sync Types
+ * Change log, transports and conflicts for syncing the library between devices
+ */
+
+import type { ChordProMerge } from '~/lib/chordpro'
+import type { Song, Setlist } from './setlist'
+
+/** Tables whose changes are logged and synced */
+export type SyncTable = 'songs' | 'setlists'
+
+export type SyncChangeType = 'created' | 'updated' | 'deleted'
+
+export type SyncRecord = Song | Setlist
+
+/** One write to a song or setlist, as recorded in the change log */
+export interface SyncChange {
+  id: string
+  table: SyncTable
+  entityId: string
+  type: SyncChangeType
+  /** The record after the change; absent for deletes */
+  record?: SyncRecord
+  /** Lamport timestamp; ties are broken by deviceId */
+  clock: number
+  deviceId: string
+  createdAt: Date
+  /** 1 while the change has not been sent to the peer (numbers are indexable, booleans are not) */
+  pending: 0 | 1
+}
+
+/** This device's sync bookkeeping (single row) */
+export interface SyncState {
+  id: string
+  deviceId: string
+  /** Highest Lamport timestamp seen or issued */
+  clock: number
+  /** Transport cursor: where the next pull starts */
+  cursor: string | null
+}
+
+/**
+ * The same record was changed here and on another device since the last sync.
+ * The local version stays in place until the user picks one.
+ */
+export interface SyncConflict {
+  /** The entity id: there is at most one open conflict per record */
+  id: string
+  table: SyncTable
+  /** Last version both devices agreed on, null when unknown */
+  base: SyncRecord | null
+  /** This device's version, null when deleted here */
+  local: SyncRecord | null
+  /** The other device's latest change */
+  remote: SyncChange
+  detectedAt: Date
+}
+
+export interface PullResult {
+  changes: SyncChange[]
+  cursor: string
+}
+
+/**
+ * How changes travel between devices. A transport talks to one peer (a
+ * device or relay) that keeps every change it has been sent.
+ */
+export interface SyncTransport {
+  /** Hand local changes to the peer */
+  push: (changes: SyncChange[]) => Promise<void>
+  /** Changes the peer received after `cursor` (null: from the beginning) */
+  pull: (cursor: string | null) => Promise<PullResult>
+}
+
+export type ConflictChoice = 'local' | 'remote'
+
+export interface SyncResult {
+  pushed: number
+  pulled: number
+  /** Conflicts found during this sync */
+  conflicts: number
+  syncedAt: Date
+}
+
+/** Song fields merged one by one (lyrics go through the ChordPro merge) */
+export type MergedSongField =
+  | 'title'
+  | 'artist'
+  | 'bpm'
+  | 'key'
+  | 'timeSignature'
+  | 'duration'
+  | 'tags'
+  | 'notes'
+  | 'capo'
+  | 'accidentals'
+  | 'performanceKey'
+  | 'timingOverrides'
+  | 'timingMap'
+  | 'arrangements'
+
+/** A field both devices changed to different values */
+export interface SongFieldConflict {
+  field: MergedSongField
+  base: unknown
+  local: unknown
+  remote: unknown
+}
+
+export type SongFieldChoices = Partial<Record<MergedSongField, ConflictChoice>>
+
+/** Three-way merge of a song edited on two devices */
+export interface SongMerge {
+  /** Every change that merged cleanly; clashes hold the newer side */
+  song: Song
+  fields: SongFieldConflict[]
+  lyrics: ChordProMerge
+  /** Side with the newer updatedAt, the suggested pick for clashes */
+  newer: ConflictChoice
+  local: Song
+  remote: Song
+}
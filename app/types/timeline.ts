@@ -10,14 +10,19 @@ import type { RefObject } from 'react'
  * A single element in the song timeline with timing information
  */
 export interface TimelineElement {
+  /** Names the line on the sheet; every pass through a repeated line shares it */
   id: string
-  type: 'section' | 'lyric' | 'instrumental' | 'chords-only' | 'empty'
+  type: 'section' | 'lyric' | 'instrumental' | 'chords-only' | 'tab' | 'empty'
   
   // Musical timing
   startBeat: number
   endBeat: number
   durationBeats: number
   bars: number
+
+  // Tempo and meter in effect for this element ({tempo}/{time} in the body change them)
+  bpm: number
+  beatsPerBar: number
   
   // Visual position (calculated after DOM measurement)
   domRef?: RefObject<HTMLElement>
@@ -25,6 +30,9 @@ export interface TimelineElement {
   
   // Original content from parser
   content: AnyParsedLine
+
+  /** Timing key of the written line this one was copied from (see TimelineCalculationOptions.lineTimingKeys) */
+  timingKey?: string
 }
 
 /**
@@ -35,8 +43,11 @@ export interface SongTimeline {
   totalBeats: number
   totalBars: number
   totalDurationSeconds: number
+  /** Meter and tempo the song starts in (see tempoMap for changes) */
   beatsPerBar: number
   bpm: number
+  /** Where the tempo or meter changes; the first entry is the start of the song */
+  tempoMap: TempoChange[]
   /**
    * Maps each parsed line index to its timeline element ID.
    * Paired chords-only+lyric lines share the same element ID (the chords-only index).
@@ -45,6 +56,18 @@ export interface SongTimeline {
   lineIndexToElementId: Map<number, string>
 }
 
+/**
+ * Tempo and meter from a beat of the timeline on
+ */
+export interface TempoChange {
+  /** Timeline beat the change takes effect at */
+  beat: number
+  /** Bar number at that beat (bars before it counted in their own meter) */
+  bar: number
+  bpm: number
+  beatsPerBar: number
+}
+
 /**
  * Options for timeline calculation
  */
@@ -57,8 +80,33 @@ export interface TimelineCalculationOptions {
   
   /** Use intelligent estimation based on chord density and text length */
   intelligentEstimation: boolean
+
+  /** Song key, for lyrics written as a number chart (see resolveNumberChart) */
+  key?: string
+
+  /** Recorded durations (Song.timingMap), preferred over estimation */
+  timingMap?: TimingMap
+
+  /**
+   * Timing key of each parsed line, for lyrics laid out from another sheet
+   * (see arrangeSong): every copy of a written line then shares its key, so
+   * the song's timing map and overrides apply to all of them
+   */
+  lineTimingKeys?: (string | undefined)[]
 }
 
+/**
+ * Hand-set durations for a song's timeline (timing key → beats).
+ * Keys come from timingKeys; a section header's key sets the whole section.
+ */
+export type TimingOverrides = Record<string, number>
+
+/**
+ * Durations recorded by tapping along in the player (timing key → beats).
+ * The calculator uses them instead of estimating; overrides still win.
+ */
+export type TimingMap = Record<string, number>
+
 /**
  * Map of element positions for quick lookup
  */
@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+/**
+ * Reference sync server
+ * A relay for the app's HTTP sync transport on the local network: devices
+ * push their change logs and pull everyone else's. It keeps changes in the
+ * order they arrive; the cursor is the position in that log.
+ *
+ *   GET  /changes?since=<cursor>  → { changes, cursor }
+ *   POST /changes  { changes }    → 204
+ *
+ * Usage: npm run sync-server -- [--port 4455] [--file sync-log.json]
+ */
+
+import { createServer } from 'node:http'
+import { existsSync, readFileSync, writeFileSync } from 'node:fs'
+
+const args = process.argv.slice(2)
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`)
+  return index >= 0 && args[index + 1] ? args[index + 1] : fallback
+}
+
+const port = Number(option('port', process.env.PORT ?? 4455))
+const file = option('file', null)
+
+/** @type {{ id: string }[]} */
+const log = file && existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : []
+const known = new Set(log.map((change) => change.id))
+
+const MAX_BODY = 20 * 1024 * 1024
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+  })
+  res.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0
+    const chunks = []
+    req.on('data', (chunk) => {
+      size += chunk.length
+      if (size > MAX_BODY) {
+        reject(new Error('Body too large'))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    req.on('error', reject)
+  })
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost')
+
+  if (req.method === 'OPTIONS') return send(res, 204)
+  if (url.pathname !== '/changes') return send(res, 404, { error: 'Not found' })
+
+  if (req.method === 'GET') {
+    const since = Math.max(0, Number(url.searchParams.get('since') ?? 0) || 0)
+    return send(res, 200, { changes: log.slice(since), cursor: String(log.length) })
+  }
+
+  if (req.method === 'POST') {
+    try {
+      const { changes } = JSON.parse(await readBody(req))
+      if (!Array.isArray(changes)) return send(res, 400, { error: 'Expected { changes: [] }' })
+
+      const fresh = changes.filter((change) => change && typeof change.id === 'string' && !known.has(change.id))
+      fresh.forEach((change) => known.add(change.id))
+      log.push(...fresh)
+      if (file && fresh.length > 0) writeFileSync(file, JSON.stringify(log))
+      return send(res, 204)
+    } catch {
+      return send(res, 400, { error: 'Invalid request body' })
+    }
+  }
+
+  return send(res, 405, { error: 'Method not allowed' })
+})
+
+server.listen(port, () => {
+  console.log(`Sync server listening on port ${port} (${log.length} changes${file ? `, saved to ${file}` : ''})`)
+})
@@ -24,6 +24,9 @@ export class MockTransport {
   state: 'started' | 'stopped' | 'paused' = 'stopped'
   bpm = {
     value: 120,
+    setValueAtTime: vi.fn((value: number, time?: number) => {
+      this.bpm.value = value
+    }),
   }
   position: string = '0:0:0'
   timeSignature: [number, number] = [4, 4]